@@ -16,7 +16,7 @@ const nextConfig: NextConfig = {
       };
     } else {
       // For server-side, externalize ssh2 to prevent bundling native modules
-      config.externals = [...(config.externals || []), 'ssh2'];
+      config.externals = [...(config.externals || []), 'ssh2', 'ws'];
     }
     
     // Ignore native .node files
@@ -27,7 +27,7 @@ const nextConfig: NextConfig = {
     
     return config;
   },
-  serverExternalPackages: ['ssh2'],
+  serverExternalPackages: ['ssh2', 'ws'],
   turbopack: {
     rules: {
       '*.node': {
@@ -64,6 +64,21 @@ export default function OrganizationLayout({ children }: { children: React.React
       ),
       active: pathname === `/dashboard/organizations/${orgId}/team`,
     },
+    {
+      label: 'Sessions',
+      href: `/dashboard/organizations/${orgId}/sessions`,
+      icon: (
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+          />
+        </svg>
+      ),
+      active: pathname === `/dashboard/organizations/${orgId}/sessions`,
+    },
     {
       label: 'Settings',
       href: `/dashboard/organizations/${orgId}/settings`,
@@ -0,0 +1,377 @@
+'use client'
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { useParams } from 'next/navigation'
+import { connectionService } from '@/lib/connections/connection.service'
+import {
+  broadcastReport,
+  queuedResult,
+  runBroadcast,
+  DEFAULT_BROADCAST_OPTIONS,
+  MAX_BROADCAST_CONCURRENCY,
+  MAX_BROADCAST_TIMEOUT,
+} from '@/lib/broadcast/broadcast'
+import { BroadcastResults } from '@/components/broadcast/BroadcastResults'
+import { Checkbox } from '@/components/ui'
+import { useConfirmation } from '@/hooks/useConfirmation'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import type { ConnectionWithDetails } from '@/types/connection'
+import type { BroadcastHostResult, BroadcastOptions } from '@/types/broadcast'
+
+const inputClass =
+  'w-full rounded-lg border border-border bg-background-secondary px-3 py-2 text-sm text-foreground placeholder-foreground-muted focus:border-terminal-green focus:outline-none'
+
+export default function ProjectBroadcastPage() {
+  const intl = useIntl()
+  const params = useParams()
+  const { confirm, ConfirmationModal } = useConfirmation()
+  const projectId = params.projectId as string
+
+  const [connections, setConnections] = useState<ConnectionWithDetails[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [filter, setFilter] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [command, setCommand] = useState('')
+  const [options, setOptions] = useState<BroadcastOptions>(DEFAULT_BROADCAST_OPTIONS)
+  // The command and options the results belong to, for the export
+  const [lastRun, setLastRun] = useState<{ command: string; options: BroadcastOptions } | null>(
+    null
+  )
+  const [results, setResults] = useState<BroadcastHostResult[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    connectionService
+      .getProjectConnections(projectId)
+      .then((data) => {
+        setConnections(data)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error('Failed to load connections:', err)
+        setError(intl.formatMessage({ id: 'broadcast.error.loadFailed' }))
+      })
+      .finally(() => setIsLoading(false))
+  }, [projectId, intl])
+
+  // Stop the remaining hosts when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const tags = useMemo(
+    () => Array.from(new Set(connections.flatMap((connection) => connection.tags))).sort(),
+    [connections]
+  )
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase()
+    if (!query) return connections
+    return connections.filter((connection) =>
+      [connection.name, connection.host, ...connection.tags].some((value) =>
+        value.toLowerCase().includes(query)
+      )
+    )
+  }, [connections, filter])
+
+  const toggle = (ids: string[], checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)))
+      return next
+    })
+  }
+
+  // A tag selects all of its connections, or clears them when they are all selected already
+  const toggleTag = (tag: string) => {
+    const ids = connections
+      .filter((connection) => connection.tags.includes(tag))
+      .map((connection) => connection.id)
+    toggle(
+      ids,
+      ids.some((id) => !selected.has(id))
+    )
+  }
+
+  const targets = connections.filter((connection) => selected.has(connection.id))
+
+  const execute = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    const run = { command, options }
+    setLastRun(run)
+    setResults(targets.map(queuedResult))
+    setIsRunning(true)
+
+    try {
+      await runBroadcast(
+        targets,
+        run.command,
+        run.options,
+        (result) =>
+          setResults((prev) =>
+            prev.map((item) => (item.connectionId === result.connectionId ? result : item))
+          ),
+        controller.signal
+      )
+    } finally {
+      abortRef.current = null
+      setIsRunning(false)
+    }
+  }
+
+  const handleRun = () => {
+    if (!command.trim() || targets.length === 0 || isRunning) return
+
+    confirm({
+      title: intl.formatMessage({ id: 'broadcast.confirm.title' }, { count: targets.length }),
+      message: intl.formatMessage({ id: 'broadcast.confirm.message' }, { command }),
+      confirmText: intl.formatMessage({ id: 'broadcast.run' }),
+      cancelText: intl.formatMessage({ id: 'common.cancel' }),
+      variant: 'danger',
+      onConfirm: execute,
+    })
+  }
+
+  const handleExport = () => {
+    if (!lastRun) return
+    const report = broadcastReport(lastRun.command, lastRun.options, results)
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `broadcast-${report.exportedAt.replace(/[:.]/g, '-')}.json`
+    document.body.appendChild(a)
+    a.click()
+    window.URL.revokeObjectURL(url)
+    document.body.removeChild(a)
+  }
+
+  const done = results.filter(
+    (result) => !['queued', 'connecting', 'running'].includes(result.status)
+  ).length
+  const succeeded = results.filter(
+    (result) => result.status === 'completed' && result.code === 0
+  ).length
+
+  return (
+    <div className="container mx-auto px-6 py-8">
+      {/* Page Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground">
+          <FormattedMessage id="broadcast.title" />
+        </h1>
+        <p className="mt-2 text-sm text-foreground-muted">
+          <FormattedMessage id="broadcast.description" />
+        </p>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      <div className="mb-8 grid grid-cols-1 gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+        {/* Target selection */}
+        <div className="rounded-lg border border-border bg-background-secondary p-4">
+          <div className="mb-3 flex items-center justify-between gap-2">
+            <h2 className="font-medium text-foreground">
+              <FormattedMessage
+                id="broadcast.targets.title"
+                values={{ selected: selected.size, total: connections.length }}
+              />
+            </h2>
+            <div className="flex gap-1 text-xs">
+              <button
+                onClick={() =>
+                  toggle(
+                    visible.map((connection) => connection.id),
+                    true
+                  )
+                }
+                disabled={isRunning}
+                className="rounded px-2 py-1 text-foreground-muted hover:bg-background-tertiary hover:text-foreground disabled:opacity-50"
+              >
+                <FormattedMessage id="broadcast.targets.selectAll" />
+              </button>
+              <button
+                onClick={() => setSelected(new Set())}
+                disabled={isRunning}
+                className="rounded px-2 py-1 text-foreground-muted hover:bg-background-tertiary hover:text-foreground disabled:opacity-50"
+              >
+                <FormattedMessage id="broadcast.targets.clear" />
+              </button>
+            </div>
+          </div>
+
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder={intl.formatMessage({ id: 'broadcast.targets.filter' })}
+            className={`${inputClass} mb-3`}
+          />
+
+          {tags.length > 0 && (
+            <div className="mb-3 flex flex-wrap gap-1.5">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  disabled={isRunning}
+                  className="rounded-full border border-border px-2.5 py-0.5 text-xs text-foreground-muted hover:border-terminal-green hover:text-terminal-green disabled:opacity-50"
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-foreground-muted">
+              <FormattedMessage id="common.loading" />
+            </p>
+          ) : connections.length === 0 ? (
+            <p className="text-sm text-foreground-muted">
+              <FormattedMessage id="broadcast.targets.empty" />
+            </p>
+          ) : (
+            <div className="max-h-96 space-y-2 overflow-auto">
+              {visible.map((connection) => (
+                <div key={connection.id} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`broadcast-${connection.id}`}
+                    checked={selected.has(connection.id)}
+                    onChange={(e) => toggle([connection.id], e.target.checked)}
+                    disabled={isRunning}
+                    className="mt-0.5"
+                  />
+                  <label htmlFor={`broadcast-${connection.id}`} className="min-w-0 cursor-pointer">
+                    <span className="block truncate text-sm text-foreground">
+                      {connection.name}
+                    </span>
+                    <span className="block truncate font-mono text-xs text-foreground-muted">
+                      {connection.username}@{connection.host}
+                      {connection.tags.length > 0 && ` · ${connection.tags.join(', ')}`}
+                    </span>
+                  </label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Command */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleRun()
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label
+              htmlFor="broadcast-command"
+              className="mb-2 block text-sm font-medium text-foreground"
+            >
+              <FormattedMessage id="broadcast.command" />
+            </label>
+            <textarea
+              id="broadcast-command"
+              value={command}
+              onChange={(e) => setCommand(e.target.value)}
+              rows={5}
+              spellCheck={false}
+              placeholder="sudo systemctl reload nginx"
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="broadcast-concurrency"
+                className="mb-2 block text-sm font-medium text-foreground"
+              >
+                <FormattedMessage id="broadcast.concurrency" />
+              </label>
+              <input
+                id="broadcast-concurrency"
+                type="number"
+                min={1}
+                max={MAX_BROADCAST_CONCURRENCY}
+                value={options.concurrency}
+                onChange={(e) => setOptions({ ...options, concurrency: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="broadcast-timeout"
+                className="mb-2 block text-sm font-medium text-foreground"
+              >
+                <FormattedMessage id="broadcast.timeout" />
+              </label>
+              <input
+                id="broadcast-timeout"
+                type="number"
+                min={1}
+                max={MAX_BROADCAST_TIMEOUT}
+                value={options.timeoutSeconds}
+                onChange={(e) => setOptions({ ...options, timeoutSeconds: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={!command.trim() || targets.length === 0 || isRunning}
+              className="btn-primary disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <FormattedMessage
+                id={isRunning ? 'common.processing' : 'broadcast.runOn'}
+                values={{ count: targets.length }}
+              />
+            </button>
+            {isRunning && (
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                className="rounded-lg px-3 py-2 text-sm text-red-500 hover:bg-background-tertiary"
+              >
+                <FormattedMessage id="broadcast.cancel" />
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      {results.length > 0 && (
+        <div>
+          <div className="mb-4 flex items-center justify-between gap-4">
+            <p className="text-sm text-foreground-muted">
+              <FormattedMessage
+                id="broadcast.summary"
+                values={{
+                  succeeded,
+                  failed: done - succeeded,
+                  done,
+                  total: results.length,
+                }}
+              />
+            </p>
+            <button
+              onClick={handleExport}
+              disabled={isRunning}
+              className="rounded-lg border border-border px-3 py-1.5 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
+            >
+              <FormattedMessage id="broadcast.export" />
+            </button>
+          </div>
+          <BroadcastResults results={results} />
+        </div>
+      )}
+
+      <ConfirmationModal />
+    </div>
+  )
+}
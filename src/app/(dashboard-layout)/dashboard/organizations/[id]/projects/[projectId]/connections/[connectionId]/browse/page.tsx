@@ -4,10 +4,12 @@ import { useState, useEffect, useRef, useCallback } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { FileBrowser } from '@/components/ssh/FileBrowser'
+import { HostKeyApprovalModal } from '@/components/ssh/HostKeyApprovalModal'
 import { connectionService } from '@/lib/connections/connection.service'
 import { useToast } from '@/components/ui/ToastContext'
 import { useIntl, FormattedMessage } from '@/lib/i18n'
 import type { ConnectionWithDetails } from '@/types/connection'
+import type { HostKeyDetails } from '@/types/ssh'
 
 export default function ConnectionBrowsePage() {
   const intl = useIntl()
@@ -23,6 +25,7 @@ export default function ConnectionBrowsePage() {
   const [sessionToken, setSessionToken] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [pendingHostKey, setPendingHostKey] = useState<HostKeyDetails | null>(null)
 
   // Prevent duplicate initialization
   const initializingRef = useRef(false)
@@ -58,14 +61,22 @@ export default function ConnectionBrowsePage() {
 
       if (!sessionResponse.ok) {
         let errorMessage = `HTTP ${sessionResponse.status}: ${sessionResponse.statusText}`
+        let hostKey: HostKeyDetails | null = null
 
         try {
           const errorData = await sessionResponse.json()
           errorMessage = errorData.error || errorData.message || errorMessage
+          hostKey = errorData.hostKey || null
         } catch {
           // Response is not JSON, use status text
         }
 
+        // Unknown or changed host key: ask the user before retrying
+        if (hostKey) {
+          setPendingHostKey(hostKey)
+          return
+        }
+
         throw new Error(errorMessage)
       }
 
@@ -111,6 +122,26 @@ export default function ConnectionBrowsePage() {
     }
   }, [connectionId, sessionToken])
 
+  const handleApproveHostKey = useCallback(async () => {
+    if (!pendingHostKey) return
+
+    try {
+      await connectionService.approveHostKey(connectionId, pendingHostKey)
+      setPendingHostKey(null)
+      initializingRef.current = true
+      await loadConnectionAndSession()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err))
+    }
+  }, [connectionId, pendingHostKey, loadConnectionAndSession, toast])
+
+  const handleRejectHostKey = useCallback(() => {
+    setPendingHostKey(null)
+    router.push(
+      `/dashboard/organizations/${orgId}/projects/${projectId}/connections/${connectionId}`
+    )
+  }, [router, orgId, projectId, connectionId])
+
   const handleDisconnect = useCallback(() => {
     setSessionToken(null)
     router.push(
@@ -220,6 +251,12 @@ export default function ConnectionBrowsePage() {
           </div>
         )}
       </div>
+
+      <HostKeyApprovalModal
+        hostKey={pendingHostKey}
+        onApprove={handleApproveHostKey}
+        onClose={handleRejectHostKey}
+      />
     </div>
   )
 }
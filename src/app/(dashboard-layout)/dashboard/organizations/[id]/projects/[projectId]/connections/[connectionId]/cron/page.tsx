@@ -0,0 +1,16 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { SSHToolPage } from '@/components/ssh/SSHToolPage'
+import { CronManager } from '@/components/ssh/cron/CronManager'
+
+export default function ConnectionCronPage() {
+  const params = useParams()
+  const connectionId = params.connectionId as string
+
+  return (
+    <SSHToolPage titleId="cron.title">
+      {(sessionToken) => <CronManager connectionId={connectionId} sessionToken={sessionToken} />}
+    </SSHToolPage>
+  )
+}
@@ -0,0 +1,16 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { SSHToolPage } from '@/components/ssh/SSHToolPage'
+import { DockerManager } from '@/components/ssh/docker/DockerManager'
+
+export default function ConnectionDockerPage() {
+  const params = useParams()
+  const connectionId = params.connectionId as string
+
+  return (
+    <SSHToolPage titleId="docker.title">
+      {(sessionToken) => <DockerManager connectionId={connectionId} sessionToken={sessionToken} />}
+    </SSHToolPage>
+  )
+}
@@ -7,7 +7,7 @@ import { useConnections } from '@/hooks/useConnections'
 import { useConfirmation } from '@/hooks/useConfirmation'
 import { useToast } from '@/components/ui'
 import ConnectionDetails from '@/components/connections/ConnectionDetails'
-import type { ConnectionWithDetails } from '@/types/connection'
+import type { ConnectionTool, ConnectionWithDetails } from '@/types/connection'
 
 export default function SingleConnectionPage() {
   const intl = useIntl()
@@ -146,6 +146,18 @@ export default function SingleConnectionPage() {
     )
   }
 
+  const handleTerminal = (connection: ConnectionWithDetails) => {
+    router.push(
+      `/dashboard/organizations/${orgId}/projects/${projectId}/connections/${connection.id}/terminal`
+    )
+  }
+
+  const handleOpenTool = (connection: ConnectionWithDetails, tool: ConnectionTool) => {
+    router.push(
+      `/dashboard/organizations/${orgId}/projects/${projectId}/connections/${connection.id}/${tool}`
+    )
+  }
+
   const getConnectionStatus = (connection: ConnectionWithDetails) => {
     if (!connection.connection_test_status || connection.connection_test_status === 'untested') {
       return {
@@ -351,6 +363,8 @@ export default function SingleConnectionPage() {
                   onDelete={() => handleDelete(selectedConnection)}
                   onTest={() => handleTest(selectedConnection)}
                   onBrowse={() => handleBrowse(selectedConnection)}
+                  onTerminal={() => handleTerminal(selectedConnection)}
+                  onOpenTool={(tool) => handleOpenTool(selectedConnection, tool)}
                   // ✅ FIXED: Use the hook's loading states
                   isTestingConnection={operationLoadingStates.testing.has(selectedConnection.id)}
                   isDeletingConnection={operationLoadingStates.deleting.has(selectedConnection.id)}
@@ -0,0 +1,16 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { SSHToolPage } from '@/components/ssh/SSHToolPage'
+import { ProcessManager } from '@/components/ssh/ProcessManager'
+
+export default function ConnectionProcessesPage() {
+  const params = useParams()
+  const connectionId = params.connectionId as string
+
+  return (
+    <SSHToolPage titleId="processes.title">
+      {(sessionToken) => <ProcessManager connectionId={connectionId} sessionToken={sessionToken} />}
+    </SSHToolPage>
+  )
+}
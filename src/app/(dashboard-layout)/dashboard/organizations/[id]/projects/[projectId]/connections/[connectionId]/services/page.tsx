@@ -0,0 +1,16 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { SSHToolPage } from '@/components/ssh/SSHToolPage'
+import { ServiceManager } from '@/components/ssh/ServiceManager'
+
+export default function ConnectionServicesPage() {
+  const params = useParams()
+  const connectionId = params.connectionId as string
+
+  return (
+    <SSHToolPage titleId="services.title">
+      {(sessionToken) => <ServiceManager connectionId={connectionId} sessionToken={sessionToken} />}
+    </SSHToolPage>
+  )
+}
@@ -0,0 +1,23 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { SSHToolPage } from '@/components/ssh/SSHToolPage'
+import { SnippetRunner } from '@/components/snippets/SnippetRunner'
+
+export default function ConnectionSnippetsPage() {
+  const params = useParams()
+  const connectionId = params.connectionId as string
+  const projectId = params.projectId as string
+
+  return (
+    <SSHToolPage titleId="snippets.run.title">
+      {(sessionToken) => (
+        <SnippetRunner
+          connectionId={connectionId}
+          projectId={projectId}
+          sessionToken={sessionToken}
+        />
+      )}
+    </SSHToolPage>
+  )
+}
@@ -0,0 +1,16 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { SSHToolPage } from '@/components/ssh/SSHToolPage'
+import { SystemOverview } from '@/components/ssh/SystemOverview'
+
+export default function ConnectionSystemPage() {
+  const params = useParams()
+  const connectionId = params.connectionId as string
+
+  return (
+    <SSHToolPage titleId="system.title">
+      {(sessionToken) => <SystemOverview connectionId={connectionId} sessionToken={sessionToken} />}
+    </SSHToolPage>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { WebTerminal } from '@/components/ssh/WebTerminal'
+import { HostKeyApprovalModal } from '@/components/ssh/HostKeyApprovalModal'
+import { useSSHSession } from '@/hooks/useSSHSession'
+import { connectionService } from '@/lib/connections/connection.service'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import type { ConnectionWithDetails } from '@/types/connection'
+
+export default function ConnectionTerminalPage() {
+  const intl = useIntl()
+  const params = useParams()
+
+  const connectionId = params.connectionId as string
+  const projectId = params.projectId as string
+  const orgId = params.id as string
+
+  const [connection, setConnection] = useState<ConnectionWithDetails | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const {
+    sessionToken,
+    isConnecting,
+    error,
+    pendingHostKey,
+    expiryWarning,
+    connect,
+    keepAlive,
+    approveHostKey,
+    rejectHostKey,
+  } = useSSHSession({ connectionId })
+
+  // Prevent duplicate initialization
+  const initializingRef = useRef(false)
+
+  useEffect(() => {
+    if (!connectionId || initializingRef.current) return
+    initializingRef.current = true
+
+    const load = async () => {
+      try {
+        const conn = await connectionService.getConnection(connectionId)
+        if (!conn) {
+          setLoadError(intl.formatMessage({ id: 'browse.error.connectionNotFound' }))
+          return
+        }
+        setConnection(conn as ConnectionWithDetails)
+        await connect()
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : String(err)
+        setLoadError(errorMessage || intl.formatMessage({ id: 'browse.error.initializeFailed' }))
+      }
+    }
+
+    load()
+  }, [connectionId, connect, intl])
+
+  const backHref = `/dashboard/organizations/${orgId}/projects/${projectId}/connections/${connectionId}`
+  const displayError = loadError || error
+
+  if (displayError) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="text-center">
+          <h3 className="mb-2 text-lg font-medium text-foreground">
+            <FormattedMessage id="browse.error.title" />
+          </h3>
+          <p className="mb-6 text-sm text-foreground-muted">{displayError}</p>
+          <Link href={backHref} className="btn-primary">
+            <FormattedMessage id="browse.error.goBack" />
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="border-b border-border bg-background px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-semibold text-foreground">{connection?.name}</h1>
+            {connection && (
+              <p className="mt-1 text-sm text-foreground-muted">
+                {connection.username}@{connection.host}:{connection.port}
+              </p>
+            )}
+          </div>
+          <Link
+            href={backHref}
+            className="rounded-lg border border-border bg-background-secondary px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-background-tertiary"
+          >
+            <FormattedMessage id="files.navigation.back" />
+          </Link>
+        </div>
+      </div>
+
+      {/* Session expiry warning */}
+      {expiryWarning && (
+        <div className="flex items-center justify-between gap-4 border-b border-yellow-500/20 bg-yellow-500/10 px-6 py-2 text-sm text-yellow-500">
+          <span>
+            <FormattedMessage
+              id={
+                expiryWarning.reason === 'max_lifetime'
+                  ? 'ssh.session.maxLifetimeBanner'
+                  : 'ssh.session.idleBanner'
+              }
+              values={{
+                time: new Date(expiryWarning.expiresAt).toLocaleTimeString(intl.locale, {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                }),
+              }}
+            />
+          </span>
+          {/* Only idling can be undone; the maximum duration is a hard limit */}
+          {expiryWarning.reason === 'idle_timeout' && (
+            <button
+              onClick={() => keepAlive()}
+              className="rounded-lg border border-yellow-500/30 px-3 py-1 text-xs font-medium transition-colors hover:bg-yellow-500/10"
+            >
+              <FormattedMessage id="ssh.session.stayConnected" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Terminal */}
+      <div className="min-h-0 flex-1 p-4">
+        {sessionToken ? (
+          <WebTerminal connectionId={connectionId} sessionToken={sessionToken} />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <p className="text-foreground-muted">
+              <FormattedMessage id={isConnecting ? 'terminal.loading' : 'browse.connecting'} />
+            </p>
+          </div>
+        )}
+      </div>
+
+      <HostKeyApprovalModal
+        hostKey={pendingHostKey}
+        onApprove={approveHostKey}
+        onClose={rejectHostKey}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import { jobService } from '@/lib/jobs/job.service'
+import { snippetService } from '@/lib/snippets/snippet.service'
+import { connectionService } from '@/lib/connections/connection.service'
+import { parseSchedule } from '@/lib/cron/schedule'
+import { validateJobSchedule } from '@/lib/jobs/validation'
+import { describeSchedule } from '@/components/ssh/cron/describeSchedule'
+import { JobFormModal } from '@/components/jobs/JobFormModal'
+import { JobRuns } from '@/components/jobs/JobRuns'
+import { useToast } from '@/components/ui/ToastContext'
+import { useConfirmation } from '@/hooks/useConfirmation'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import type { ConnectionWithDetails } from '@/types/connection'
+import type { CreateScheduledJobInput, ScheduledJob } from '@/types/job'
+import type { Snippet } from '@/types/snippet'
+
+export default function ProjectJobsPage() {
+  const intl = useIntl()
+  const params = useParams()
+  const { toast } = useToast()
+  const { confirm, ConfirmationModal } = useConfirmation()
+  const projectId = params.projectId as string
+
+  const [jobs, setJobs] = useState<ScheduledJob[]>([])
+  const [snippets, setSnippets] = useState<Snippet[]>([])
+  const [connections, setConnections] = useState<ConnectionWithDetails[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // undefined: closed, null: creating
+  const [editing, setEditing] = useState<ScheduledJob | null | undefined>(undefined)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const [jobList, snippetList, connectionList] = await Promise.all([
+        jobService.getProjectJobs(projectId),
+        snippetService.getProjectSnippets(projectId),
+        connectionService.getProjectConnections(projectId),
+      ])
+      setJobs(jobList)
+      setSnippets(snippetList)
+      setConnections(connectionList)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load scheduled jobs:', err)
+      setError(intl.formatMessage({ id: 'jobs.error.loadFailed' }))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId, intl])
+
+  useEffect(() => {
+    loadJobs()
+  }, [loadJobs])
+
+  const handleSave = async (input: CreateScheduledJobInput) => {
+    if (editing) {
+      await jobService.updateJob(editing, input)
+    } else {
+      await jobService.createJob(projectId, input)
+    }
+    toast.success(intl.formatMessage({ id: 'jobs.saved' }, { name: input.name }))
+    setEditing(undefined)
+    loadJobs()
+  }
+
+  const handleToggle = async (job: ScheduledJob) => {
+    try {
+      await jobService.updateJob(job, { is_enabled: !job.is_enabled })
+      loadJobs()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleDelete = (job: ScheduledJob) => {
+    confirm({
+      title: intl.formatMessage({ id: 'jobs.delete.title' }),
+      message: intl.formatMessage({ id: 'jobs.delete.message' }, { name: job.name }),
+      confirmText: intl.formatMessage({ id: 'common.delete' }),
+      cancelText: intl.formatMessage({ id: 'common.cancel' }),
+      variant: 'danger',
+      onConfirm: async () => {
+        try {
+          await jobService.deleteJob(job.id)
+          toast.success(intl.formatMessage({ id: 'jobs.deleted' }, { name: job.name }))
+          loadJobs()
+        } catch (err) {
+          toast.error(err instanceof Error ? err.message : String(err))
+        }
+      },
+    })
+  }
+
+  const describe = (schedule: string) =>
+    validateJobSchedule(schedule) ? schedule : describeSchedule(parseSchedule(schedule), intl)
+
+  const target = (job: ScheduledJob) =>
+    job.snippet_id
+      ? intl.formatMessage(
+          { id: 'jobs.target.snippet' },
+          { name: snippets.find((snippet) => snippet.id === job.snippet_id)?.name ?? '?' }
+        )
+      : job.command
+
+  return (
+    <div className="container mx-auto max-w-4xl px-6 py-8">
+      {/* Page Header */}
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            <FormattedMessage id="jobs.title" />
+          </h1>
+          <p className="mt-2 text-sm text-foreground-muted">
+            <FormattedMessage id="jobs.description" />
+          </p>
+        </div>
+        <button
+          onClick={() => setEditing(null)}
+          disabled={isLoading || connections.length === 0}
+          className="btn-primary shrink-0 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <FormattedMessage id="jobs.create.button" />
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-foreground-muted">
+          <FormattedMessage id="common.loading" />
+        </p>
+      ) : jobs.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-border p-12 text-center">
+          <p className="text-sm text-foreground-muted">
+            <FormattedMessage id="jobs.empty" />
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {jobs.map((job) => (
+            <div
+              key={job.id}
+              className="rounded-lg border border-border bg-background-secondary p-4"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h2 className="flex items-center gap-2 font-medium text-foreground">
+                    {job.name}
+                    {!job.is_enabled && (
+                      <span className="rounded bg-background-tertiary px-2 py-0.5 text-xs text-foreground-muted">
+                        <FormattedMessage id="jobs.paused" />
+                      </span>
+                    )}
+                  </h2>
+                  <p className="mt-1 text-sm text-foreground-muted">
+                    {describe(job.schedule)}
+                    {' · '}
+                    <FormattedMessage
+                      id="jobs.connectionCount"
+                      values={{ count: job.connection_ids.length }}
+                    />
+                  </p>
+                  <p className="mt-1 truncate font-mono text-xs text-foreground">{target(job)}</p>
+                  <p className="mt-1 text-xs text-foreground-muted">
+                    {job.is_enabled && job.next_run_at && (
+                      <FormattedMessage
+                        id="jobs.nextRun"
+                        values={{ time: new Date(job.next_run_at).toLocaleString(intl.locale) }}
+                      />
+                    )}
+                    {job.is_enabled && job.next_run_at && job.last_run_at && ' · '}
+                    {job.last_run_at && (
+                      <FormattedMessage
+                        id="jobs.lastRun"
+                        values={{ time: new Date(job.last_run_at).toLocaleString(intl.locale) }}
+                      />
+                    )}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    onClick={() => setExpanded(expanded === job.id ? null : job.id)}
+                    className="rounded px-2 py-1 text-xs text-foreground-muted hover:bg-background-tertiary hover:text-foreground"
+                  >
+                    <FormattedMessage id="jobs.runs.button" />
+                  </button>
+                  <button
+                    onClick={() => handleToggle(job)}
+                    className="rounded px-2 py-1 text-xs text-foreground-muted hover:bg-background-tertiary hover:text-foreground"
+                  >
+                    <FormattedMessage id={job.is_enabled ? 'jobs.pause' : 'jobs.resume'} />
+                  </button>
+                  <button
+                    onClick={() => setEditing(job)}
+                    className="rounded px-2 py-1 text-xs text-foreground-muted hover:bg-background-tertiary hover:text-foreground"
+                  >
+                    <FormattedMessage id="jobs.edit.button" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(job)}
+                    className="rounded px-2 py-1 text-xs text-red-500 hover:bg-background-tertiary"
+                  >
+                    <FormattedMessage id="common.delete" />
+                  </button>
+                </div>
+              </div>
+              {expanded === job.id && (
+                <div className="mt-4">
+                  <JobRuns jobId={job.id} connections={connections} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing !== undefined && (
+        <JobFormModal
+          job={editing}
+          snippets={snippets}
+          connections={connections}
+          onSave={handleSave}
+          onClose={() => setEditing(undefined)}
+        />
+      )}
+
+      <ConfirmationModal />
+    </div>
+  )
+}
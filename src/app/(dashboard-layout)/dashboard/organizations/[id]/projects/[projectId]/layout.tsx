@@ -72,6 +72,51 @@ export default function ProjectLayout({ children }: { children: React.ReactNode
       // Update active state to highlight connections for any connections page
       active: isConnectionsPage,
     },
+    {
+      label: 'Snippets',
+      href: `/dashboard/organizations/${orgId}/projects/${projectId}/snippets`,
+      icon: (
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"
+          />
+        </svg>
+      ),
+      active: pathname === `/dashboard/organizations/${orgId}/projects/${projectId}/snippets`,
+    },
+    {
+      label: 'Broadcast',
+      href: `/dashboard/organizations/${orgId}/projects/${projectId}/broadcast`,
+      icon: (
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M11 5.882V19.24a1.76 1.76 0 01-3.417.592l-2.147-6.15M18 13a3 3 0 100-6M5.436 13.683A4.001 4.001 0 017 6h1.832c4.1 0 7.625-1.234 9.168-3v14c-1.543-1.766-5.067-3-9.168-3H7a3.988 3.988 0 01-1.564-.317z"
+          />
+        </svg>
+      ),
+      active: pathname === `/dashboard/organizations/${orgId}/projects/${projectId}/broadcast`,
+    },
+    {
+      label: 'Jobs',
+      href: `/dashboard/organizations/${orgId}/projects/${projectId}/jobs`,
+      icon: (
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+          />
+        </svg>
+      ),
+      active: pathname === `/dashboard/organizations/${orgId}/projects/${projectId}/jobs`,
+    },
     {
       label: 'Settings',
       href: `/dashboard/organizations/${orgId}/projects/${projectId}/settings`,
@@ -10,6 +10,7 @@ import type { ProjectWithDetails } from '@/types/project'
 import type { Organization } from '@/types/organization'
 import { useIntl, FormattedMessage } from '@/lib/i18n'
 import { useToast } from '@/components/ui'
+import { FailedJobRuns } from '@/components/jobs/FailedJobRuns'
 
 export default function ProjectOverviewPage() {
   const intl = useIntl()
@@ -639,6 +640,9 @@ export default function ProjectOverviewPage() {
             </div>
           )}
 
+          {/* Failed Scheduled Runs Card */}
+          <FailedJobRuns organizationId={orgId} projectId={projectId} />
+
           {/* Recent Activity Card */}
           <div className="rounded-lg border border-border bg-background-secondary">
             <div className="border-b border-border px-6 py-4">
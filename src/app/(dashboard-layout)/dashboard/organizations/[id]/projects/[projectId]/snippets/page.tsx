@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import { snippetService } from '@/lib/snippets/snippet.service'
+import { SnippetFormModal } from '@/components/snippets/SnippetFormModal'
+import { useToast } from '@/components/ui/ToastContext'
+import { useConfirmation } from '@/hooks/useConfirmation'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import type { CreateSnippetInput, Snippet } from '@/types/snippet'
+
+export default function ProjectSnippetsPage() {
+  const intl = useIntl()
+  const params = useParams()
+  const { toast } = useToast()
+  const { confirm, ConfirmationModal } = useConfirmation()
+  const projectId = params.projectId as string
+
+  const [snippets, setSnippets] = useState<Snippet[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // undefined: closed, null: creating
+  const [editing, setEditing] = useState<Snippet | null | undefined>(undefined)
+
+  const loadSnippets = useCallback(async () => {
+    try {
+      setSnippets(await snippetService.getProjectSnippets(projectId))
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load snippets:', err)
+      setError(intl.formatMessage({ id: 'snippets.error.loadFailed' }))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId, intl])
+
+  useEffect(() => {
+    loadSnippets()
+  }, [loadSnippets])
+
+  const handleSave = async (input: CreateSnippetInput) => {
+    if (editing) {
+      await snippetService.updateSnippet(editing, input)
+    } else {
+      await snippetService.createSnippet(projectId, input)
+    }
+    toast.success(intl.formatMessage({ id: 'snippets.saved' }, { name: input.name }))
+    setEditing(undefined)
+    loadSnippets()
+  }
+
+  const handleDelete = (snippet: Snippet) => {
+    confirm({
+      title: intl.formatMessage({ id: 'snippets.delete.title' }),
+      message: intl.formatMessage({ id: 'snippets.delete.message' }, { name: snippet.name }),
+      confirmText: intl.formatMessage({ id: 'common.delete' }),
+      cancelText: intl.formatMessage({ id: 'common.cancel' }),
+      variant: 'danger',
+      onConfirm: async () => {
+        try {
+          await snippetService.deleteSnippet(snippet.id)
+          toast.success(intl.formatMessage({ id: 'snippets.deleted' }, { name: snippet.name }))
+          loadSnippets()
+        } catch (err) {
+          toast.error(err instanceof Error ? err.message : String(err))
+        }
+      },
+    })
+  }
+
+  return (
+    <div className="container mx-auto max-w-4xl px-6 py-8">
+      {/* Page Header */}
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            <FormattedMessage id="snippets.title" />
+          </h1>
+          <p className="mt-2 text-sm text-foreground-muted">
+            <FormattedMessage id="snippets.description" />
+          </p>
+        </div>
+        <button onClick={() => setEditing(null)} className="btn-primary shrink-0">
+          <FormattedMessage id="snippets.create.button" />
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-foreground-muted">
+          <FormattedMessage id="common.loading" />
+        </p>
+      ) : snippets.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-border p-12 text-center">
+          <p className="text-sm text-foreground-muted">
+            <FormattedMessage id="snippets.empty" />
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {snippets.map((snippet) => (
+            <div
+              key={snippet.id}
+              className="rounded-lg border border-border bg-background-secondary p-4"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h2 className="flex items-center gap-2 font-medium text-foreground">
+                    {snippet.name}
+                    {snippet.is_dangerous && (
+                      <span className="rounded bg-red-500/10 px-2 py-0.5 text-xs text-red-500">
+                        <FormattedMessage id="snippets.dangerous" />
+                      </span>
+                    )}
+                  </h2>
+                  {snippet.description && (
+                    <p className="mt-1 text-sm text-foreground-muted">{snippet.description}</p>
+                  )}
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    onClick={() => setEditing(snippet)}
+                    className="rounded px-2 py-1 text-xs text-foreground-muted hover:bg-background-tertiary hover:text-foreground"
+                  >
+                    <FormattedMessage id="snippets.edit.button" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snippet)}
+                    className="rounded px-2 py-1 text-xs text-red-500 hover:bg-background-tertiary"
+                  >
+                    <FormattedMessage id="common.delete" />
+                  </button>
+                </div>
+              </div>
+              <pre className="mt-3 overflow-x-auto whitespace-pre-wrap break-all rounded bg-background p-3 font-mono text-xs text-foreground">
+                {snippet.command}
+              </pre>
+              {snippet.parameters.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                  {snippet.parameters.map((parameter) => (
+                    <span
+                      key={parameter.name}
+                      className="rounded bg-background-tertiary px-2 py-0.5 font-mono text-foreground-muted"
+                      title={parameter.options?.join(', ')}
+                    >
+                      {parameter.name}:{' '}
+                      {intl.formatMessage({ id: `snippets.parameterType.${parameter.type}` })}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing !== undefined && (
+        <SnippetFormModal
+          snippet={editing}
+          onSave={handleSave}
+          onClose={() => setEditing(undefined)}
+        />
+      )}
+
+      <ConfirmationModal />
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { organizationService } from '@/lib/organizations/organization.service'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { useToast } from '@/components/ui'
+import { TerminateSessionModal } from '@/components/organizations/TerminateSessionModal'
+import { formatFileSize } from '@/lib/utils/file'
+import type { OrganizationActiveSession } from '@/types/connection'
+
+const REFRESH_INTERVAL = 15 * 1000
+
+export default function OrganizationSessionsPage() {
+  const intl = useIntl()
+  const params = useParams()
+  const orgId = params.id as string
+  const { toast } = useToast()
+
+  const [sessions, setSessions] = useState<OrganizationActiveSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [terminating, setTerminating] = useState<OrganizationActiveSession | null>(null)
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await organizationService.getActiveSessions(orgId))
+      setError(null)
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : intl.formatMessage({ id: 'organization.sessions.loadError' })
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }, [orgId, intl])
+
+  // Idle times and counters go stale quickly, so keep the list fresh
+  useEffect(() => {
+    loadSessions()
+    const interval = setInterval(loadSessions, REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [loadSessions])
+
+  const handleTerminate = async (reason: string) => {
+    if (!terminating) return
+
+    try {
+      await organizationService.terminateSession(orgId, terminating.id, reason)
+      toast.success(intl.formatMessage({ id: 'organization.sessions.terminate.success' }))
+      setTerminating(null)
+      await loadSessions()
+    } catch (err) {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : intl.formatMessage({ id: 'organization.sessions.terminate.error' })
+      )
+    }
+  }
+
+  const formatIdle = (lastActivity: string) => {
+    const minutes = Math.max(0, Math.floor((Date.now() - new Date(lastActivity).getTime()) / 60000))
+    if (minutes < 1) return intl.formatMessage({ id: 'common.justNow' })
+    if (minutes < 60)
+      return intl.formatMessage({ id: 'organization.sessions.idleMinutes' }, { minutes })
+    return intl.formatMessage(
+      { id: 'organization.sessions.idleHours' },
+      { hours: Math.floor(minutes / 60), minutes: minutes % 60 }
+    )
+  }
+
+  const query = searchQuery.trim().toLowerCase()
+  const filteredSessions = query
+    ? sessions.filter((session) =>
+        [session.username, session.connection_name, session.client_ip].some((value) =>
+          value?.toLowerCase().includes(query)
+        )
+      )
+    : sessions
+
+  return (
+    <div className="container mx-auto max-w-6xl px-6 py-8">
+      {/* Page Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground">
+          <FormattedMessage id="organization.sessions.title" />
+        </h1>
+        <p className="mt-2 text-foreground-muted">
+          <FormattedMessage id="organization.sessions.subtitle" />
+        </p>
+      </div>
+
+      {/* Actions Bar */}
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <input
+          type="text"
+          placeholder={intl.formatMessage({ id: 'organization.sessions.filterPlaceholder' })}
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="w-full max-w-xs rounded-lg border border-border bg-background-secondary px-4 py-2 text-sm text-foreground placeholder-foreground-muted focus:border-terminal-green focus:outline-none"
+        />
+        <button
+          onClick={() => loadSessions()}
+          className="rounded-lg border border-border bg-background-secondary px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-background-tertiary"
+        >
+          <FormattedMessage id="organization.sessions.refresh" />
+        </button>
+      </div>
+
+      <div className="rounded-lg border border-border bg-background-secondary">
+        {isLoading ? (
+          <p className="p-6 text-sm text-foreground-muted">
+            <FormattedMessage id="common.loading" />
+          </p>
+        ) : error ? (
+          <p className="p-6 text-sm text-red-500">{error}</p>
+        ) : filteredSessions.length === 0 ? (
+          <p className="p-6 text-sm text-foreground-muted">
+            <FormattedMessage id="organization.sessions.empty" />
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  {(['user', 'connection', 'clientIp', 'started', 'idle'] as const).map(
+                    (column) => (
+                      <th
+                        key={column}
+                        className="px-6 py-4 text-left text-sm font-medium text-foreground-muted"
+                      >
+                        <FormattedMessage id={`organization.sessions.table.${column}`} />
+                      </th>
+                    )
+                  )}
+                  <th className="px-6 py-4 text-right text-sm font-medium text-foreground-muted">
+                    <FormattedMessage id="organization.sessions.table.transferred" />
+                  </th>
+                  <th className="px-6 py-4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {filteredSessions.map((session) => (
+                  <tr key={session.id} className="text-sm text-foreground">
+                    <td className="px-6 py-4">
+                      {session.username || intl.formatMessage({ id: 'common.unknown' })}
+                    </td>
+                    <td className="px-6 py-4">{session.connection_name}</td>
+                    <td className="px-6 py-4 font-mono text-xs">{session.client_ip || '—'}</td>
+                    <td className="px-6 py-4">
+                      {new Date(session.started_at).toLocaleString(intl.locale)}
+                    </td>
+                    <td className="px-6 py-4">{formatIdle(session.last_activity_at)}</td>
+                    <td className="px-6 py-4 text-right font-mono text-xs">
+                      ↑ {formatFileSize(session.bytes_uploaded)} / ↓{' '}
+                      {formatFileSize(session.bytes_downloaded)}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => setTerminating(session)}
+                        className="rounded-lg border border-red-500/20 px-3 py-1 text-xs font-medium text-red-500 transition-colors hover:bg-red-500/10"
+                      >
+                        <FormattedMessage id="organization.sessions.terminate.button" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <TerminateSessionModal
+        session={terminating}
+        onTerminate={handleTerminate}
+        onClose={() => setTerminating(null)}
+      />
+    </div>
+  )
+}
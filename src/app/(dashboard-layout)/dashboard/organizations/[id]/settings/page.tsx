@@ -9,6 +9,7 @@ import { organizationService } from '@/lib/organizations/organization.service'
 import FormInput from '@/components/ui/FormInput'
 import { useConfirmation } from '@/hooks/useConfirmation'
 import { useToast } from '@/components/ui'
+import { SessionPolicySettings } from '@/components/organizations/SessionPolicySettings'
 import type { Organization } from '@/types/organization'
 import { useIntl, FormattedMessage } from '@/lib/i18n'
 
@@ -333,6 +334,11 @@ export default function OrganizationSettingsPage() {
         </div>
       </form>
 
+      {/* Session Policy Box */}
+      {organization && (
+        <SessionPolicySettings organization={organization} onSaved={setOrganization} />
+      )}
+
       {/* Danger Zone Box */}
       <div className="rounded-lg border border-red-500/20 bg-background-secondary">
         <div className="px-6 py-4">
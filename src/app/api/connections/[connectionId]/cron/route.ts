@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager, CrontabConflictError } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { ErrorCodes } from '@/lib/api/errorCodes'
+import { parseCrontab, validateCrontab } from '@/lib/cron/crontab'
+
+export const GET = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const content = await SSHConnectionManager.readCrontab(sshSessionToken)
+
+  return successResponse({ content })
+})
+
+// Installs { content } in place of { expected }, the crontab the editor loaded
+export const PUT = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { content, expected } = await request.json()
+
+  if (typeof content !== 'string' || typeof expected !== 'string') {
+    return NextResponse.json({ error: 'content and expected are required' }, { status: 400 })
+  }
+
+  const errors = validateCrontab(parseCrontab(content))
+  if (errors.length) {
+    return NextResponse.json(
+      { error: errors.join('; '), code: ErrorCodes.VALIDATION_ERROR },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { backupPath } = await SSHConnectionManager.installCrontab(
+      sshSessionToken,
+      content,
+      expected
+    )
+    return successResponse({ backupPath })
+  } catch (error) {
+    if (error instanceof CrontabConflictError) {
+      return NextResponse.json(
+        { error: error.message, code: ErrorCodes.CRONTAB_CHANGED },
+        { status: 409 }
+      )
+    }
+    throw error
+  }
+})
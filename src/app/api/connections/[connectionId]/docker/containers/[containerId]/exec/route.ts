@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { CONTAINER_REF_PATTERN } from '@/types/ssh'
+
+// Runs { command } with the container's /bin/sh and returns its output and exit code
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { containerId } = (await context.params) as { containerId: string }
+  const { command, sudo = false } = await request.json()
+
+  if (!CONTAINER_REF_PATTERN.test(containerId)) {
+    return NextResponse.json({ error: 'Invalid container' }, { status: 400 })
+  }
+  if (typeof command !== 'string' || !command.trim()) {
+    return NextResponse.json({ error: 'Command is required' }, { status: 400 })
+  }
+
+  const result = await SSHConnectionManager.execInContainer(
+    sshSessionToken,
+    containerId,
+    command,
+    sudo === true
+  )
+
+  return successResponse(result)
+})
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { CONTAINER_REF_PATTERN } from '@/types/ssh'
+
+// Reads a file inside the container; large files are cut off and flagged as truncated
+export const GET = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { containerId } = (await context.params) as { containerId: string }
+  const searchParams = request.nextUrl.searchParams
+  const path = searchParams.get('path')
+
+  if (!CONTAINER_REF_PATTERN.test(containerId)) {
+    return NextResponse.json({ error: 'Invalid container' }, { status: 400 })
+  }
+  if (!path) {
+    return NextResponse.json({ error: 'Path is required' }, { status: 400 })
+  }
+
+  const file = await SSHConnectionManager.readContainerFile(
+    sshSessionToken,
+    containerId,
+    path,
+    searchParams.get('sudo') === '1'
+  )
+
+  return successResponse({ path, ...file })
+})
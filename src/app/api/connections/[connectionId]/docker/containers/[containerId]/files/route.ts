@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { CONTAINER_REF_PATTERN } from '@/types/ssh'
+
+// Lists a directory inside the container through `docker exec`
+export const GET = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { containerId } = (await context.params) as { containerId: string }
+  const searchParams = request.nextUrl.searchParams
+  const path = searchParams.get('path') || '/'
+
+  if (!CONTAINER_REF_PATTERN.test(containerId)) {
+    return NextResponse.json({ error: 'Invalid container' }, { status: 400 })
+  }
+
+  const entries = await SSHConnectionManager.listContainerDirectory(
+    sshSessionToken,
+    containerId,
+    path,
+    searchParams.get('sudo') === '1'
+  )
+
+  return successResponse({ path, entries })
+})
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { CONTAINER_REF_PATTERN } from '@/types/ssh'
+
+const DEFAULT_LINES = 200
+const MAX_LINES = 5000
+
+// The log view polls this, so it does not count as activity on the session
+export const GET = createSSHAuthenticatedRoute(
+  async (request, context, { sshSessionToken }) => {
+    const { containerId } = (await context.params) as { containerId: string }
+    const searchParams = request.nextUrl.searchParams
+
+    if (!CONTAINER_REF_PATTERN.test(containerId)) {
+      return NextResponse.json({ error: 'Invalid container' }, { status: 400 })
+    }
+
+    const requested = parseInt(searchParams.get('lines') ?? '', 10)
+    const lines = Number.isNaN(requested)
+      ? DEFAULT_LINES
+      : Math.min(Math.max(requested, 1), MAX_LINES)
+
+    const logs = await SSHConnectionManager.getContainerLogs(
+      sshSessionToken,
+      containerId,
+      lines,
+      searchParams.get('sudo') === '1'
+    )
+
+    return successResponse({ lines: logs })
+  },
+  { passive: true }
+)
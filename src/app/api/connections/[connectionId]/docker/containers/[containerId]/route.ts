@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { CONTAINER_ACTIONS, CONTAINER_REF_PATTERN, type ContainerAction } from '@/types/ssh'
+
+// Starts, stops, restarts or removes a container: { action, sudo }
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { containerId } = (await context.params) as { containerId: string }
+  const { action, sudo = false } = await request.json()
+
+  if (!CONTAINER_REF_PATTERN.test(containerId)) {
+    return NextResponse.json({ error: 'Invalid container' }, { status: 400 })
+  }
+  if (!CONTAINER_ACTIONS.includes(action)) {
+    return NextResponse.json(
+      { error: `Action must be one of ${CONTAINER_ACTIONS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  await SSHConnectionManager.runContainerAction(
+    sshSessionToken,
+    containerId,
+    action as ContainerAction,
+    sudo === true
+  )
+
+  return successResponse({ containerId, action })
+})
@@ -0,0 +1,13 @@
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+
+// Containers, images and volumes in one request; `?sudo=1` runs docker through sudo -n
+export const GET = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const resources = await SSHConnectionManager.listDockerResources(
+    sshSessionToken,
+    request.nextUrl.searchParams.get('sudo') === '1'
+  )
+
+  return successResponse(resources)
+})
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
-import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { SSHConnectionManager, ProtectedPathError } from '@/lib/ssh/connection-manager'
 import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
 import { successResponse } from '@/lib/api/response'
+import { ErrorCodes } from '@/lib/api/errorCodes'
 
 // Read file content
 export const GET = createSSHAuthenticatedRoute(
@@ -34,15 +35,30 @@ export const PUT = createSSHAuthenticatedRoute(
   }
 )
 
-// Delete file or directory
+// Delete file or directory. ?recursive=1 removes non-empty directories,
+// ?confirm=1 is additionally required for system roots and the home directory.
 export const DELETE = createSSHAuthenticatedRoute(
   async (request, context, { sshSessionToken }) => {
     const params = await context.params
     const path = params.path as string[]
     const filePath = '/' + path.join('/')
+    const searchParams = request.nextUrl.searchParams
 
-    await SSHConnectionManager.deleteFile(sshSessionToken, filePath)
+    try {
+      const result = await SSHConnectionManager.deleteFile(sshSessionToken, filePath, {
+        recursive: searchParams.get('recursive') === '1',
+        confirmDangerous: searchParams.get('confirm') === '1',
+      })
 
-    return successResponse({ message: 'File deleted successfully' })
+      return successResponse({ message: 'File deleted successfully', path: filePath, ...result })
+    } catch (error) {
+      if (error instanceof ProtectedPathError) {
+        return NextResponse.json(
+          { error: error.message, message: error.message, code: ErrorCodes.CONFIRMATION_REQUIRED },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
   }
 )
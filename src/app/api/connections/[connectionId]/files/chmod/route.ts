@@ -1,31 +1,111 @@
+import { NextResponse } from 'next/server'
 import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
 import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
 import { successResponse } from '@/lib/api/response'
+import type { AttributeChanges, OwnerOption } from '@/types/ssh'
 
-export const POST = createSSHAuthenticatedRoute(
-  async (request, context, { sshSessionToken }) => {
-    const { path, mode } = await request.json()
+// Minimum gap between progress lines on recursive changes
+const PROGRESS_INTERVAL_MS = 250
 
-    if (!path) {
-      return Response.json({ error: 'File path is required' }, { status: 400 })
-    }
+// Octal string or number, including setuid/setgid/sticky bits (e.g. 2775)
+function parseMode(mode: unknown): number | undefined | null {
+  if (mode === undefined || mode === null || mode === '') return undefined
+  const parsed =
+    typeof mode === 'string' ? (/^[0-7]{1,4}$/.test(mode) ? parseInt(mode, 8) : NaN) : mode
+  return typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 0 && parsed <= 0o7777
+    ? parsed
+    : null
+}
+
+// Accepts a name or a numeric id; numeric ids need not exist in /etc/passwd
+function resolveId(value: unknown, options: OwnerOption[]): number | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value === 'number' || /^\d+$/.test(String(value))) return Number(value)
+  return options.find((option) => option.name === value)?.id ?? null
+}
 
-    if (mode === undefined || mode === null) {
-      return Response.json({ error: 'File mode is required' }, { status: 400 })
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { path, mode, fileMode, dirMode, owner, group, recursive } = await request.json()
+
+  if (!path) {
+    return NextResponse.json({ error: 'File path is required' }, { status: 400 })
+  }
+
+  const changes: AttributeChanges = { recursive: !!recursive }
+  for (const [key, value] of Object.entries({ mode, fileMode, dirMode })) {
+    const parsed = parseMode(value)
+    if (parsed === null) {
+      return NextResponse.json({ error: `Invalid ${key}` }, { status: 400 })
     }
+    changes[key as 'mode' | 'fileMode' | 'dirMode'] = parsed
+  }
 
-    // Validate mode (should be octal number like 755, 644, etc.)
-    const parsedMode = typeof mode === 'string' ? parseInt(mode, 8) : mode
-    if (isNaN(parsedMode) || parsedMode < 0 || parsedMode > 0o777) {
-      return Response.json({ error: 'Invalid file mode' }, { status: 400 })
+  if (owner !== undefined || group !== undefined) {
+    const { users, groups } = await SSHConnectionManager.getOwnershipOptions(sshSessionToken)
+    const uid = resolveId(owner, users)
+    const gid = resolveId(group, groups)
+    if (uid === null) {
+      return NextResponse.json({ error: `Unknown user: ${owner}` }, { status: 400 })
+    }
+    if (gid === null) {
+      return NextResponse.json({ error: `Unknown group: ${group}` }, { status: 400 })
     }
+    changes.uid = uid
+    changes.gid = gid
+  }
+
+  if (
+    [changes.mode, changes.fileMode, changes.dirMode, changes.uid, changes.gid].every(
+      (value) => value === undefined
+    )
+  ) {
+    return NextResponse.json({ error: 'File mode or ownership is required' }, { status: 400 })
+  }
 
-    await SSHConnectionManager.changeFilePermissions(sshSessionToken, path, parsedMode)
+  if (!changes.recursive) {
+    const result = await SSHConnectionManager.changeAttributes(sshSessionToken, path, changes)
 
     return successResponse({
       message: 'File permissions updated successfully',
       path,
-      mode: parsedMode.toString(8),
+      mode: changes.mode?.toString(8),
+      ...result,
     })
   }
-)
+
+  // Recursive changes can touch thousands of entries, so report progress as
+  // newline-delimited JSON and finish with a `done` (or `error`) line
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (line: Record<string, unknown>) =>
+        controller.enqueue(encoder.encode(JSON.stringify(line) + '\n'))
+      let lastProgress = 0
+
+      try {
+        const result = await SSHConnectionManager.changeAttributes(
+          sshSessionToken,
+          path,
+          changes,
+          (progress) => {
+            const now = Date.now()
+            if (now - lastProgress < PROGRESS_INTERVAL_MS) return
+            lastProgress = now
+            send({ type: 'progress', ...progress })
+          }
+        )
+        send({ type: 'done', path, ...result })
+      } catch (error) {
+        send({
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Failed to change permissions',
+        })
+      }
+      controller.close()
+    },
+  })
+
+  return new NextResponse(body, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+  })
+})
@@ -1,33 +1,33 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
 
-export async function POST(request: NextRequest) {
-  try {
-    const sessionToken = request.headers.get('x-session-token')
-    const { sourcePath, destinationPath, overwrite = false } = await request.json()
+// Copies a file or directory tree and reports the outcome for every entry
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { sourcePath, destinationPath, overwrite = false } = await request.json()
 
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Session token required' }, { status: 401 })
-    }
-
-    if (!sourcePath || !destinationPath) {
-      return NextResponse.json(
-        {
-          error: 'Both sourcePath and destinationPath are required',
-        },
-        { status: 400 }
-      )
-    }
+  if (!sourcePath || !destinationPath) {
+    return NextResponse.json(
+      {
+        error: 'Both sourcePath and destinationPath are required',
+      },
+      { status: 400 }
+    )
+  }
 
-    await SSHConnectionManager.copyFile(sessionToken, sourcePath, destinationPath, overwrite)
+  const result = await SSHConnectionManager.copyFile(
+    sshSessionToken,
+    sourcePath,
+    destinationPath,
+    overwrite
+  )
 
-    return NextResponse.json({
-      success: true,
-      message: 'File copied successfully',
-      sourcePath,
-      destinationPath,
-    })
-  } catch (error: unknown) {
-    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to copy file' }, { status: 500 })
-  }
-}
+  return successResponse({
+    message:
+      result.failures.length === 0 ? 'File copied successfully' : 'Copy completed with errors',
+    sourcePath,
+    destinationPath,
+    ...result,
+  })
+})
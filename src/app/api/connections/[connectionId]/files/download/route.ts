@@ -1,8 +1,14 @@
 import { NextResponse } from 'next/server'
+import { Readable } from 'stream'
 import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
 import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { canServeInline, contentDisposition, parseRangeHeader } from '@/lib/api/range'
 import archiver from 'archiver'
 
+function toWebStream(stream: Readable): ReadableStream<Uint8Array> {
+  return Readable.toWeb(stream) as ReadableStream<Uint8Array>
+}
+
 export const GET = createSSHAuthenticatedRoute(
   async (request, context, { sshSessionToken }) => {
     const searchParams = request.nextUrl.searchParams
@@ -12,56 +18,91 @@ export const GET = createSSHAuthenticatedRoute(
       return NextResponse.json({ error: 'Path is required' }, { status: 400 })
     }
 
-    // Single file download
-    const result = await SSHConnectionManager.downloadFile(sshSessionToken, path)
+    const fileInfo = await SSHConnectionManager.getFileInfo(sshSessionToken, path)
+    if (fileInfo.type === 'directory') {
+      return NextResponse.json({ error: 'Cannot download a directory' }, { status: 400 })
+    }
+
+    const size = fileInfo.size
+    const range = parseRangeHeader(request.headers.get('range'), size)
+
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${size}`, 'Accept-Ranges': 'bytes' },
+      })
+    }
+
+    const filename = path.split('/').pop() || 'download'
+    const mimeType = SSHConnectionManager.getMimeType(filename)
+    // Download tickets only pass when their inline bit matches the query
+    const inline = searchParams.get('inline') === '1' && canServeInline(mimeType)
 
-    // Set appropriate headers
     const headers = new Headers()
-    headers.set('Content-Disposition', `attachment; filename="${result.filename}"`)
-    if (result.mimeType) {
-      headers.set('Content-Type', result.mimeType)
+    headers.set('Accept-Ranges', 'bytes')
+    headers.set('Last-Modified', fileInfo.mtime.toUTCString())
+    headers.set(
+      'Content-Disposition',
+      contentDisposition(inline ? 'inline' : 'attachment', filename)
+    )
+    // Remote files are untrusted; never let the browser sniff or run them as a page
+    headers.set('X-Content-Type-Options', 'nosniff')
+    headers.set('Content-Security-Policy', 'sandbox')
+
+    if (request.method === 'HEAD' || size === 0) {
+      headers.set('Content-Length', String(size))
+      return new NextResponse(null, { headers })
     }
 
-    return new NextResponse(result.buffer, { headers })
-  }
-)
+    const { stream } = SSHConnectionManager.createDownloadStream(
+      sshSessionToken,
+      path,
+      range ?? undefined
+    )
+    headers.set('Content-Type', mimeType || 'application/octet-stream')
 
-export const POST = createSSHAuthenticatedRoute(
-  async (request, context, { sshSessionToken }) => {
-    const body = await request.json()
-    const { paths, format } = body
+    // Stop reading from the server as soon as the browser goes away (e.g. video seeks)
+    request.signal.addEventListener('abort', () => stream.destroy())
 
-    if (!paths || !Array.isArray(paths) || paths.length === 0) {
-      return NextResponse.json({ error: 'Paths array is required' }, { status: 400 })
+    if (range) {
+      headers.set('Content-Range', `bytes ${range.start}-${range.end}/${size}`)
+      headers.set('Content-Length', String(range.end - range.start + 1))
+      return new NextResponse(toWebStream(stream), { status: 206, headers })
     }
 
-    // Multiple files download as ZIP
-    if (format === 'zip' && paths.length > 1) {
-      // Create a zip archive
-      const archive = archiver('zip', {
-        zlib: { level: 9 }, // Maximum compression
-      })
+    headers.set('Content-Length', String(size))
+    return new NextResponse(toWebStream(stream), { headers })
+  },
+  { ticket: 'download' }
+)
 
-      // Create arrays to collect data
-      const chunks: Buffer[] = []
+export const HEAD = GET
 
-      // Set up promise to track when archiving is complete
-      const archivePromise = new Promise<void>((resolve, reject) => {
-        archive.on('data', (chunk) => {
-          chunks.push(chunk)
-        })
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const body = await request.json()
+  const { paths, format } = body
 
-        archive.on('error', (err) => {
-          reject(err)
-        })
+  if (!paths || !Array.isArray(paths) || paths.length === 0) {
+    return NextResponse.json({ error: 'Paths array is required' }, { status: 400 })
+  }
 
-        archive.on('end', () => {
-          resolve()
-        })
-      })
+  // Multiple files download as ZIP, streamed to the client as it is built
+  if (format === 'zip' && paths.length > 1) {
+    const archive = archiver('zip', {
+      zlib: { level: 9 }, // Maximum compression
+    })
 
-      // Download and add each file to the archive
+    archive.on('warning', (err) => {
+      console.error('Archive warning:', err)
+    })
+
+    request.signal.addEventListener('abort', () => archive.abort())
+
+    // Feed files one at a time so only one SFTP stream is open at once
+    const appendFiles = async () => {
       for (const path of paths) {
+        if (request.signal.aborted) return
+
         try {
           const fileInfo = await SSHConnectionManager.getFileInfo(sshSessionToken, path)
 
@@ -70,47 +111,52 @@ export const POST = createSSHAuthenticatedRoute(
             continue
           }
 
-          const result = await SSHConnectionManager.downloadFile(sshSessionToken, path)
+          const { stream } = SSHConnectionManager.createDownloadStream(sshSessionToken, path)
 
           // Add file to archive with relative path structure
           const relativePath = path.startsWith('/') ? path.substring(1) : path
-          archive.append(result.buffer, { name: relativePath })
+          await new Promise<void>((resolve, reject) => {
+            archive.once('entry', () => resolve())
+            stream.once('error', reject)
+            archive.append(stream, { name: relativePath, date: fileInfo.mtime })
+          })
         } catch (err) {
           console.error(`Failed to download ${path}:`, err)
           // Continue with other files
         }
       }
 
-      // Finalize the archive
       await archive.finalize()
+    }
 
-      // Wait for archive to complete
-      await archivePromise
-
-      // Combine all chunks
-      const zipBuffer = Buffer.concat(chunks)
-
-      // Return the zip file
-      const headers = new Headers()
-      headers.set('Content-Type', 'application/zip')
-      headers.set('Content-Disposition', `attachment; filename="files-${Date.now()}.zip"`)
+    appendFiles().catch((err) => archive.destroy(err))
 
-      return new NextResponse(zipBuffer, { headers })
-    }
+    const headers = new Headers()
+    headers.set('Content-Type', 'application/zip')
+    headers.set('Content-Disposition', `attachment; filename="files-${Date.now()}.zip"`)
 
-    // Single file fallback
-    if (paths.length === 1) {
-      const result = await SSHConnectionManager.downloadFile(sshSessionToken, paths[0])
+    return new NextResponse(toWebStream(archive), { headers })
+  }
 
-      const headers = new Headers()
-      headers.set('Content-Disposition', `attachment; filename="${result.filename}"`)
-      if (result.mimeType) {
-        headers.set('Content-Type', result.mimeType)
-      }
+  // Single file fallback
+  if (paths.length === 1) {
+    const fileInfo = await SSHConnectionManager.getFileInfo(sshSessionToken, paths[0])
+    const { stream, filename, mimeType } = SSHConnectionManager.createDownloadStream(
+      sshSessionToken,
+      paths[0]
+    )
 
-      return new NextResponse(result.buffer, { headers })
+    const headers = new Headers()
+    headers.set('Content-Disposition', contentDisposition('attachment', filename))
+    headers.set('X-Content-Type-Options', 'nosniff')
+    headers.set('Content-Security-Policy', 'sandbox')
+    headers.set('Content-Length', String(fileInfo.size))
+    if (mimeType) {
+      headers.set('Content-Type', mimeType)
     }
 
-    return Response.json({ error: 'Invalid download request' }, { status: 400 })
+    return new NextResponse(toWebStream(stream), { headers })
   }
-)
+
+  return Response.json({ error: 'Invalid download request' }, { status: 400 })
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { issueFileTicket } from '@/lib/ssh/file-tickets'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+
+// Issues a ticket for a plain GET of one file, so the session token never
+// appears in a URL
+export const POST = createSSHAuthenticatedRoute(
+  async (request, context, { user, connectionId, sshSessionToken }) => {
+    const { path, inline } = await request.json()
+
+    if (!path || typeof path !== 'string') {
+      return NextResponse.json({ error: 'Path is required' }, { status: 400 })
+    }
+
+    const session = await SSHConnectionManager.getSessionInfo(sshSessionToken)
+    if (session.userId !== user.id || session.connectionId !== connectionId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const ticket = issueFileTicket({
+      kind: 'download',
+      sessionToken: sshSessionToken,
+      connectionId,
+      userId: user.id,
+      path,
+      inline: inline === true,
+    })
+
+    return successResponse({ ticket })
+  }
+)
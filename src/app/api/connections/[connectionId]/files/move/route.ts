@@ -1,33 +1,51 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager, ProtectedPathError } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { ErrorCodes } from '@/lib/api/errorCodes'
 
-export async function POST(request: NextRequest) {
-  try {
-    const sessionToken = request.headers.get('x-session-token')
-    const { sourcePath, destinationPath, overwrite = false } = await request.json()
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Session token required' }, { status: 401 })
-    }
+// Moves a file or directory, atomically when source and target share a filesystem.
+// A move across filesystems deletes the source, so confirmDangerous is required
+// for system roots and the home directory, as with a recursive delete.
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const {
+    sourcePath,
+    destinationPath,
+    overwrite = false,
+    confirmDangerous = false,
+  } = await request.json()
 
-    if (!sourcePath || !destinationPath) {
-      return NextResponse.json(
-        {
-          error: 'Both sourcePath and destinationPath are required',
-        },
-        { status: 400 }
-      )
-    }
+  if (!sourcePath || !destinationPath) {
+    return NextResponse.json(
+      {
+        error: 'Both sourcePath and destinationPath are required',
+      },
+      { status: 400 }
+    )
+  }
 
-    await SSHConnectionManager.moveFile(sessionToken, sourcePath, destinationPath, overwrite)
+  try {
+    const result = await SSHConnectionManager.moveFile(
+      sshSessionToken,
+      sourcePath,
+      destinationPath,
+      overwrite,
+      { confirmDangerous: confirmDangerous === true }
+    )
 
-    return NextResponse.json({
-      success: true,
+    return successResponse({
       message: 'File moved successfully',
       sourcePath,
       destinationPath,
+      ...result,
     })
-  } catch (error: unknown) {
-    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to move file' }, { status: 500 })
+  } catch (error) {
+    if (error instanceof ProtectedPathError) {
+      return NextResponse.json(
+        { error: error.message, message: error.message, code: ErrorCodes.CONFIRMATION_REQUIRED },
+        { status: 409 }
+      )
+    }
+    throw error
   }
-}
+})
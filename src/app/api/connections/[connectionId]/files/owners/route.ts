@@ -0,0 +1,10 @@
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+
+// Users and groups known on the host, for chown/chgrp pickers
+export const GET = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const options = await SSHConnectionManager.getOwnershipOptions(sshSessionToken)
+
+  return successResponse(options)
+})
@@ -2,6 +2,9 @@ import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
 import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
 import { successResponse } from '@/lib/api/response'
 
+// Matching lines returned by one content search, whatever the client asks for
+const MAX_CONTENT_RESULTS = 2000
+
 export const GET = createSSHAuthenticatedRoute(
   async (request, context, { sshSessionToken }) => {
     const { searchParams } = new URL(request.url)
@@ -38,12 +41,43 @@ export const POST = createSSHAuthenticatedRoute(
       caseSensitive = false,
       regex = false,
       maxResults = 100,
+      include = [],
+      exclude = [],
+      maxFileSize,
     } = await request.json()
 
     if (!query) {
       return Response.json({ error: 'Search query is required' }, { status: 400 })
     }
 
+    if (content) {
+      const toGlobs = (value: unknown): string[] =>
+        (Array.isArray(value) ? value : String(value ?? '').split(','))
+          .map((glob) => String(glob).trim())
+          .filter(Boolean)
+
+      const { results, truncated, tool } = await SSHConnectionManager.searchFileContents(
+        sshSessionToken,
+        {
+          query,
+          path,
+          caseSensitive,
+          regex,
+          maxResults: Math.min(Math.max(Number(maxResults) || 100, 1), MAX_CONTENT_RESULTS),
+          include: toGlobs(include),
+          exclude: toGlobs(exclude),
+          maxFileSize: Number(maxFileSize) > 0 ? Number(maxFileSize) : undefined,
+        }
+      )
+
+      return successResponse({
+        results,
+        truncated,
+        tool,
+        searchOptions: { query, path, content, caseSensitive, regex, maxResults },
+      })
+    }
+
     const results = await SSHConnectionManager.searchFiles(sshSessionToken, {
       query,
       path,
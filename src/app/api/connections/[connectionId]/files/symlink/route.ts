@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+
+// Creates `linkPath` pointing at `target`, which may be relative to the link's directory
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { target, linkPath } = await request.json()
+
+  if (!target || !linkPath) {
+    return NextResponse.json({ error: 'Target and link path are required' }, { status: 400 })
+  }
+
+  await SSHConnectionManager.createSymlink(sshSessionToken, target, linkPath)
+
+  return successResponse({ message: 'Symlink created successfully', target, linkPath })
+})
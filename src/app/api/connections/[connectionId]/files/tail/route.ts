@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server'
+import { StringDecoder } from 'string_decoder'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import type { TailServerMessage } from '@/types/ssh'
+
+const DEFAULT_LINES = 200
+const MAX_LINES = 5000
+// Comment lines keep proxies from closing a quiet stream
+const HEARTBEAT_INTERVAL = 15000
+
+// Streams a growing file as Server-Sent Events. EventSource cannot set headers,
+// so the browser opens it with a single-use ticket from ./ticket.
+export const GET = createSSHAuthenticatedRoute(
+  async (request, context, { sshSessionToken }) => {
+    const searchParams = request.nextUrl.searchParams
+    const path = searchParams.get('path')
+
+    if (!path) {
+      return NextResponse.json({ error: 'Path is required' }, { status: 400 })
+    }
+
+    const requested = parseInt(searchParams.get('lines') ?? '', 10)
+    const lines = Number.isNaN(requested)
+      ? DEFAULT_LINES
+      : Math.min(Math.max(requested, 0), MAX_LINES)
+
+    const { stream, mode } = await SSHConnectionManager.createTailStream(
+      sshSessionToken,
+      path,
+      lines
+    )
+
+    const encoder = new TextEncoder()
+    let heartbeat: NodeJS.Timeout | null = null
+    let closed = false
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (message: TailServerMessage) => {
+          if (closed) return
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`))
+        }
+        const close = () => {
+          if (closed) return
+          closed = true
+          if (heartbeat) clearInterval(heartbeat)
+          stream.destroy()
+          controller.close()
+        }
+
+        // Only whole lines are sent; a partial line waits for the rest of it. The
+        // decoder also holds back a character split across two reads.
+        const decoder = new StringDecoder('utf8')
+        let carry = ''
+        stream.on('data', (chunk: Buffer) => {
+          const parts = (carry + decoder.write(chunk)).split('\n')
+          carry = parts.pop() ?? ''
+          if (parts.length)
+            send({ type: 'lines', lines: parts.map((line) => line.replace(/\r$/, '')) })
+        })
+        stream.on('end', () => {
+          carry += decoder.end()
+          if (carry) send({ type: 'lines', lines: [carry] })
+          send({ type: 'end' })
+          close()
+        })
+        stream.on('error', (err) => {
+          send({ type: 'error', message: err.message })
+          close()
+        })
+
+        heartbeat = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(': ping\n\n'))
+        }, HEARTBEAT_INTERVAL)
+        request.signal.addEventListener('abort', close)
+
+        send({ type: 'ready', mode })
+      },
+      cancel() {
+        closed = true
+        if (heartbeat) clearInterval(heartbeat)
+        stream.destroy()
+      },
+    })
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  },
+  { ticket: 'tail' }
+)
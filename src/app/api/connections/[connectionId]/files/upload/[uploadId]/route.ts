@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager, UploadOffsetError } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { ErrorCodes } from '@/lib/api/errorCodes'
+
+// Larger chunks are rejected so a single request never buffers too much in memory
+const MAX_CHUNK_SIZE = 8 * 1024 * 1024
+
+function offsetMismatch(error: UploadOffsetError) {
+  return NextResponse.json(
+    { error: error.message, code: ErrorCodes.UPLOAD_OFFSET_MISMATCH, offset: error.offset },
+    { status: 409 }
+  )
+}
+
+// Current confirmed offset, used by clients to resume after a failed chunk
+export const GET = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { uploadId } = (await context.params) as { uploadId: string }
+  return successResponse(SSHConnectionManager.getUploadStatus(sshSessionToken, uploadId))
+})
+
+// Appends the raw request body at ?offset=
+export const PUT = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { uploadId } = (await context.params) as { uploadId: string }
+  const offset = Number(request.nextUrl.searchParams.get('offset'))
+
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: 'A valid offset is required' }, { status: 400 })
+  }
+
+  const data = Buffer.from(await request.arrayBuffer())
+  if (data.length === 0 || data.length > MAX_CHUNK_SIZE) {
+    return NextResponse.json({ error: 'Invalid chunk size' }, { status: 400 })
+  }
+
+  try {
+    const nextOffset = await SSHConnectionManager.writeUploadChunk(
+      sshSessionToken,
+      uploadId,
+      offset,
+      data
+    )
+    return successResponse({ uploadId, offset: nextOffset })
+  } catch (error) {
+    if (error instanceof UploadOffsetError) return offsetMismatch(error)
+    throw error
+  }
+})
+
+// Renames the completed temp file into place
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { uploadId } = (await context.params) as { uploadId: string }
+
+  try {
+    const path = await SSHConnectionManager.finalizeUpload(sshSessionToken, uploadId)
+    return successResponse({
+      message: 'File uploaded successfully',
+      filename: path.split('/').pop(),
+      path,
+    })
+  } catch (error) {
+    if (error instanceof UploadOffsetError) return offsetMismatch(error)
+    throw error
+  }
+})
+
+// Cancels the upload and removes the temp file
+export const DELETE = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { uploadId } = (await context.params) as { uploadId: string }
+  await SSHConnectionManager.abortUpload(sshSessionToken, uploadId)
+  return successResponse({ uploadId })
+})
@@ -1,28 +1,29 @@
+import { NextResponse } from 'next/server'
 import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
 import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
 import { successResponse } from '@/lib/api/response'
 
-export const POST = createSSHAuthenticatedRoute(
-  async (request, context, { sshSessionToken }) => {
-    const formData = await request.formData()
-    const file = formData.get('file') as File
-    const path = formData.get('path') as string
+// Starts (or resumes) a chunked upload. Chunks are then sent to /upload/[uploadId].
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { path, filename, size, lastModified } = await request.json()
 
-    if (!file) {
-      return Response.json({ error: 'No file provided' }, { status: 400 })
-    }
-
-    // Convert file to buffer
-    const buffer = Buffer.from(await file.arrayBuffer())
-    const remotePath = path.endsWith('/') ? path + file.name : path + '/' + file.name
+  if (typeof path !== 'string' || typeof filename !== 'string' || !filename) {
+    return NextResponse.json({ error: 'Path and filename are required' }, { status: 400 })
+  }
+  if (filename.includes('/') || filename === '.' || filename === '..') {
+    return NextResponse.json({ error: 'Invalid filename' }, { status: 400 })
+  }
+  if (!Number.isSafeInteger(size) || size < 0) {
+    return NextResponse.json({ error: 'A valid file size is required' }, { status: 400 })
+  }
 
-    // Use writeBinaryFile for all uploads (binary safe)
-    await SSHConnectionManager.writeBinaryFile(sshSessionToken, remotePath, buffer)
+  const remotePath = path.endsWith('/') ? path + filename : path + '/' + filename
+  const upload = await SSHConnectionManager.initUpload(
+    sshSessionToken,
+    remotePath,
+    size,
+    String(lastModified ?? '')
+  )
 
-    return successResponse({
-      message: 'File uploaded successfully',
-      filename: file.name,
-      path: remotePath,
-    })
-  }
-)
+  return successResponse({ ...upload, path: remotePath })
+})
@@ -0,0 +1,85 @@
+import { createAuthenticatedRoute, ApiErrorResponse } from '@/lib/api/middleware'
+import { successResponse } from '@/lib/api/response'
+import { ErrorCodes } from '@/lib/api/errorCodes'
+import { trustHostKey } from '@/lib/ssh/known-hosts'
+
+const FINGERPRINT_PATTERN = /^SHA256:[A-Za-z0-9+/]{43}$/
+
+// Approves a host key fingerprint for the connection's organization. Used both
+// for first-time trust and for accepting a key the user knows was rotated.
+export const POST = createAuthenticatedRoute(async (request, context, { user, supabase }) => {
+  const { connectionId } = (await context.params) as { connectionId: string }
+  const { host, port, keyType, fingerprint } = await request.json()
+
+  if (
+    !host ||
+    !keyType ||
+    typeof fingerprint !== 'string' ||
+    !FINGERPRINT_PATTERN.test(fingerprint)
+  ) {
+    throw new ApiErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      'Host, key type and a SHA256 fingerprint are required',
+      400
+    )
+  }
+
+  const { data: canAccess } = await supabase.rpc('can_access_connection', {
+    conn_id: connectionId,
+    check_user_id: user.id,
+  })
+
+  if (!canAccess) {
+    throw new ApiErrorResponse(ErrorCodes.FORBIDDEN, 'Access denied', 403)
+  }
+
+  const { data: connection, error } = await supabase
+    .from('connections')
+    .select('organization_id')
+    .eq('id', connectionId)
+    .single()
+
+  if (error || !connection) {
+    throw new ApiErrorResponse(ErrorCodes.NOT_FOUND, 'Connection not found', 404)
+  }
+
+  const targetPort = Number(port) || 22
+  const { data: known } = await supabase
+    .from('known_hosts')
+    .select('fingerprint')
+    .eq('organization_id', connection.organization_id)
+    .eq('host', host)
+    .eq('port', targetPort)
+    .maybeSingle()
+
+  // Already trusted; members cannot update the row, so leave it alone
+  if (known?.fingerprint === fingerprint) {
+    return successResponse({ host, port: targetPort, fingerprint })
+  }
+
+  // Replacing a key that changed could hide an interception, so only admins may do it
+  if (known) {
+    const { data: isAdmin } = await supabase.rpc('is_organization_admin', {
+      org_id: connection.organization_id,
+      check_user_id: user.id,
+    })
+
+    if (!isAdmin) {
+      throw new ApiErrorResponse(
+        ErrorCodes.FORBIDDEN,
+        'Only organization admins can approve a changed host key',
+        403
+      )
+    }
+  }
+
+  // Jump hosts share the organization's store, so the host may differ from the connection's
+  await trustHostKey(
+    supabase,
+    connection.organization_id,
+    { host, port: targetPort, keyType, fingerprint },
+    user.id
+  )
+
+  return successResponse({ host, port: targetPort, fingerprint })
+})
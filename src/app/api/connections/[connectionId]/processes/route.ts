@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { PROCESS_SIGNALS, type ProcessSignal } from '@/types/ssh'
+
+// Polled by the process list, so it does not count as session activity
+export const GET = createSSHAuthenticatedRoute(
+  async (request, context, { sshSessionToken }) => {
+    const processes = await SSHConnectionManager.listProcesses(sshSessionToken)
+
+    return successResponse({ processes })
+  },
+  { passive: true }
+)
+
+// Sends a signal to one process: { pid, signal: 'TERM' | 'KILL' | 'HUP' }
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { pid, signal } = await request.json()
+
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return NextResponse.json({ error: 'A valid process ID is required' }, { status: 400 })
+  }
+  if (!PROCESS_SIGNALS.includes(signal)) {
+    return NextResponse.json(
+      { error: `Signal must be one of ${PROCESS_SIGNALS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  await SSHConnectionManager.signalProcess(sshSessionToken, pid, signal as ProcessSignal)
+
+  return successResponse({ pid, signal })
+})
@@ -50,8 +50,11 @@ export async function PATCH(
       'proxy_jump',
       'connection_timeout',
       'keepalive_interval',
+      'idle_timeout',
+      'max_session_duration',
       'strict_host_checking',
       'custom_options',
+      'tags',
     ]
 
     fields.forEach((field) => {
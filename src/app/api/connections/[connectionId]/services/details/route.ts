@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { UNIT_NAME_PATTERN } from '@/types/ssh'
+
+const DEFAULT_LINES = 100
+const MAX_LINES = 5000
+
+// Status and the last journal lines of one unit: ?unit=nginx.service&lines=100&sudo=1
+export const GET = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const searchParams = request.nextUrl.searchParams
+  const unit = searchParams.get('unit')
+
+  if (!unit || !UNIT_NAME_PATTERN.test(unit)) {
+    return NextResponse.json({ error: 'A valid unit name is required' }, { status: 400 })
+  }
+
+  const requested = parseInt(searchParams.get('lines') ?? '', 10)
+  const lines = Number.isNaN(requested)
+    ? DEFAULT_LINES
+    : Math.min(Math.max(requested, 1), MAX_LINES)
+
+  const details = await SSHConnectionManager.getServiceDetails(
+    sshSessionToken,
+    unit,
+    lines,
+    searchParams.get('sudo') === '1'
+  )
+
+  return successResponse(details)
+})
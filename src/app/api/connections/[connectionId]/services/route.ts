@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { SERVICE_ACTIONS, UNIT_NAME_PATTERN, type ServiceAction } from '@/types/ssh'
+
+export const GET = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const services = await SSHConnectionManager.listServices(sshSessionToken)
+
+  return successResponse({ services })
+})
+
+// Runs one action on a unit: { unit, action, sudo }
+export const POST = createSSHAuthenticatedRoute(async (request, context, { sshSessionToken }) => {
+  const { unit, action, sudo = false } = await request.json()
+
+  if (typeof unit !== 'string' || !UNIT_NAME_PATTERN.test(unit)) {
+    return NextResponse.json({ error: 'A valid unit name is required' }, { status: 400 })
+  }
+  if (!SERVICE_ACTIONS.includes(action)) {
+    return NextResponse.json(
+      { error: `Action must be one of ${SERVICE_ACTIONS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  await SSHConnectionManager.runServiceAction(
+    sshSessionToken,
+    unit,
+    action as ServiceAction,
+    sudo === true
+  )
+
+  return successResponse({ unit, action })
+})
@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { SSHConnectionManager, SessionNotFoundError } from '@/lib/ssh/connection-manager'
 import { createClient } from '@/lib/supabase/server'
 import { decryptCredentials } from '@/lib/connections/encryption'
+import { resolveJumpHosts, JumpHostConfig } from '@/lib/ssh/proxy-jump'
+import {
+  createHostKeyVerifier,
+  HostKeyVerificationError,
+  HostKeyVerifier,
+} from '@/lib/ssh/known-hosts'
+import { resolveSessionPolicy } from '@/lib/ssh/session-policy'
+import { ErrorCodes } from '@/lib/api/errorCodes'
+import type { SessionPolicy } from '@/types/ssh'
 
 // Define the SSH configuration interface
 interface SSHConfig {
@@ -15,8 +24,11 @@ interface SSHConfig {
     passphrase?: string
   }
   proxy_jump?: string | null
+  jump_hosts?: JumpHostConfig[]
+  host_key_verifier?: HostKeyVerifier
   connection_timeout?: number
   strict_host_checking?: boolean
+  session_policy?: SessionPolicy
 }
 
 // CREATE SESSION (POST)
@@ -120,6 +132,33 @@ export async function POST(
       )
     }
 
+    // Resolve bastion hosts, including saved connections referenced by id
+    let jumpHosts: JumpHostConfig[]
+    try {
+      jumpHosts = await resolveJumpHosts(supabase, user.id, connection.proxy_jump, {
+        username: connection.username,
+        auth_type: connection.auth_type,
+        credentials: decryptedCredentials,
+      })
+    } catch (proxyError) {
+      return NextResponse.json(
+        {
+          error:
+            proxyError instanceof Error ? proxyError.message : 'Failed to resolve proxy jump hosts',
+        },
+        { status: 400 }
+      )
+    }
+
+    const strictHostChecking = connection.strict_host_checking ?? false
+
+    // Idle timeout, maximum duration and keepalive fall back to the organization's policy
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('session_idle_timeout, session_max_duration, session_keepalive_interval')
+      .eq('id', connection.organization_id)
+      .single()
+
     // Transform to SSH config format
     const sshConfig: SSHConfig = {
       host: connection.host,
@@ -128,12 +167,21 @@ export async function POST(
       auth_type: connection.auth_type,
       credentials: decryptedCredentials,
       proxy_jump: connection.proxy_jump,
+      jump_hosts: jumpHosts,
+      host_key_verifier: createHostKeyVerifier(supabase, connection.organization_id, {
+        strict: strictHostChecking,
+        userId: user.id,
+      }),
       connection_timeout: connection.connection_timeout || 30,
-      strict_host_checking: connection.strict_host_checking ?? false,
+      strict_host_checking: strictHostChecking,
+      session_policy: resolveSessionPolicy(connection, organization),
     }
 
     // Create SSH session
-    const sessionToken = await SSHConnectionManager.createSession(connectionId, user.id, sshConfig)
+    const sessionToken = await SSHConnectionManager.createSession(connectionId, user.id, sshConfig, {
+      ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      userAgent: request.headers.get('user-agent'),
+    })
 
     // Update connection usage
     await supabase
@@ -158,6 +206,14 @@ export async function POST(
       },
     })
   } catch (error: unknown) {
+    // Unknown or changed host keys need the user's attention, not a retry
+    if (error instanceof HostKeyVerificationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, hostKey: error.hostKey },
+        { status: 409 }
+      )
+    }
+
     return NextResponse.json(
       {
         error: error instanceof Error ? error.message : 'Failed to create SSH session',
@@ -187,6 +243,13 @@ export async function GET(
       session: sessionInfo,
     })
   } catch (error: unknown) {
+    // A missing session has ended for good; anything else may be transient
+    if (error instanceof SessionNotFoundError) {
+      return NextResponse.json(
+        { error: error.message, code: ErrorCodes.NOT_FOUND },
+        { status: 404 }
+      )
+    }
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to get session info' },
       { status: 500 }
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+import { ErrorCodes } from '@/lib/api/errorCodes'
+import { renderSnippet, validateParameterValues } from '@/lib/snippets/template'
+import type { Snippet } from '@/types/snippet'
+
+// Runs a project snippet on the connection: { snippetId, values, confirmed }
+export const POST = createSSHAuthenticatedRoute(
+  async (request, context, { supabase, connectionId, sshSessionToken }) => {
+    const { snippetId, values = {}, confirmed = false } = await request.json()
+
+    if (typeof snippetId !== 'string') {
+      return NextResponse.json({ error: 'snippetId is required' }, { status: 400 })
+    }
+    if (
+      typeof values !== 'object' ||
+      values === null ||
+      Array.isArray(values) ||
+      !Object.values(values).every((value) => typeof value === 'string')
+    ) {
+      return NextResponse.json({ error: 'values must map names to strings' }, { status: 400 })
+    }
+
+    // RLS limits this to snippets of projects the user belongs to
+    const [{ data: snippet }, { data: connection }] = await Promise.all([
+      supabase.from('project_snippets').select('*').eq('id', snippetId).single<Snippet>(),
+      supabase.from('connections').select('project_id').eq('id', connectionId).single(),
+    ])
+    if (!snippet || !connection || snippet.project_id !== connection.project_id) {
+      return NextResponse.json(
+        { error: "Snippet not found in this connection's project" },
+        { status: 404 }
+      )
+    }
+
+    if (snippet.is_dangerous && confirmed !== true) {
+      return NextResponse.json(
+        {
+          error: `${snippet.name} is marked as dangerous and must be confirmed`,
+          code: ErrorCodes.CONFIRMATION_REQUIRED,
+        },
+        { status: 409 }
+      )
+    }
+
+    const invalid = validateParameterValues(snippet.parameters, values)
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid, code: ErrorCodes.VALIDATION_ERROR },
+        { status: 400 }
+      )
+    }
+
+    const command = renderSnippet(snippet.command, snippet.parameters, values)
+    const result = await SSHConnectionManager.executeCommand(sshSessionToken, command, {
+      snippet: { id: snippet.id, name: snippet.name, dangerous: snippet.is_dangerous },
+      parameters: values,
+    })
+
+    return successResponse({ command: command.toString(), ...result })
+  }
+)
@@ -0,0 +1,19 @@
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
+
+// Returns one stats sample; `?info=1` adds the host's static details for the first request.
+// Polled by the overview, so it does not count as session activity.
+export const GET = createSSHAuthenticatedRoute(
+  async (request, context, { sshSessionToken }) => {
+    const includeInfo = request.nextUrl.searchParams.get('info') === '1'
+
+    const [stats, info] = await Promise.all([
+      SSHConnectionManager.getSystemStats(sshSessionToken),
+      includeInfo ? SSHConnectionManager.getSystemInfo(sshSessionToken) : null,
+    ])
+
+    return successResponse({ stats, ...(info && { info }) })
+  },
+  { passive: true }
+)
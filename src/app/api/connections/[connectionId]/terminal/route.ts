@@ -1,21 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import {
+  ensureTerminalServer,
+  getTerminalPort,
+  issueTerminalTicket,
+  TERMINAL_TICKET_TTL,
+} from '@/lib/ssh/terminal-server'
+import { raw } from '@/lib/ssh/shell'
+import { createSSHAuthenticatedRoute } from '@/lib/api/middleware/ssh-auth'
+import { successResponse } from '@/lib/api/response'
 
-export async function GET(request: NextRequest) {
-  // WebSocket upgrade for terminal access
-  const upgrade = request.headers.get('upgrade')
+// Issues a one-time ticket for the terminal socket server. The socket itself is
+// served by lib/ssh/terminal-server, since route handlers cannot upgrade connections.
+export const GET = createSSHAuthenticatedRoute(
+  async (request, context, { user, connectionId, sshSessionToken }) => {
+    const session = await SSHConnectionManager.getSessionInfo(sshSessionToken)
+    if (session.userId !== user.id || session.connectionId !== connectionId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
 
-  if (upgrade !== 'websocket') {
-    return NextResponse.json({ error: 'WebSocket upgrade required' }, { status: 400 })
-  }
+    try {
+      await ensureTerminalServer()
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: `Terminal server is unavailable: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        },
+        { status: 503 }
+      )
+    }
 
-  // This would typically be handled by a WebSocket server
-  // For Next.js, you might need a separate WebSocket server or use Socket.IO
-  return NextResponse.json({
-    error: 'WebSocket endpoint - implement with Socket.IO',
-    message: 'Terminal access requires WebSocket implementation',
-  })
-}
+    const ticket = issueTerminalTicket({
+      sessionToken: sshSessionToken,
+      connectionId,
+      userId: user.id,
+    })
+
+    return successResponse({
+      ticket,
+      port: getTerminalPort(),
+      url: process.env.TERMINAL_WS_PUBLIC_URL || null,
+      expiresIn: TERMINAL_TICKET_TTL / 1000,
+    })
+  }
+)
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,7 +60,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Command is required' }, { status: 400 })
     }
 
-    const result = await SSHConnectionManager.executeCommand(sessionToken, command)
+    // The user typed this command on purpose, so it runs as written
+    const result = await SSHConnectionManager.executeCommand(sessionToken, raw(command))
 
     return NextResponse.json({
       success: true,
@@ -1,15 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { decryptCredentials } from '@/lib/connections/encryption'
-import { Client } from 'ssh2'
+import { Client, HostVerifier } from 'ssh2'
+import { openJumpChain, resolveJumpHosts, JumpChain, JumpHostConfig } from '@/lib/ssh/proxy-jump'
+import {
+  createHostKeyVerifier,
+  HostKeyVerificationError,
+  HostKeyVerifier,
+} from '@/lib/ssh/known-hosts'
+import type { HostKeyDetails } from '@/types/ssh'
 
 interface TestConnectionResult {
   success: boolean
   message: string
   error?: string
+  code?: string
+  host_key?: HostKeyDetails
   latency_ms?: number
 }
 
+function hostKeyFailure(error: HostKeyVerificationError): TestConnectionResult {
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    message: error.message,
+    host_key: error.hostKey,
+  }
+}
+
 async function testSSHConnection(config: {
   host: string
   port: number
@@ -22,8 +41,33 @@ async function testSSHConnection(config: {
   }
   connection_timeout?: number
   strict_host_checking?: boolean
+  jump_hosts?: JumpHostConfig[]
+  host_key_verifier?: HostKeyVerifier
 }): Promise<TestConnectionResult> {
-  return new Promise((resolve) => {
+  // Reach the target through its bastions first, if any
+  let jumpChain: JumpChain | null = null
+  if (config.jump_hosts?.length) {
+    try {
+      jumpChain = await openJumpChain(
+        config.jump_hosts,
+        { host: config.host, port: config.port },
+        (config.connection_timeout || 30) * 1000,
+        config.host_key_verifier
+      )
+    } catch (error: unknown) {
+      if (error instanceof HostKeyVerificationError) {
+        return hostKeyFailure(error)
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return {
+        success: false,
+        error: errorMessage,
+        message: 'Failed to reach jump host: ' + errorMessage,
+      }
+    }
+  }
+
+  const result = await new Promise<TestConnectionResult>((resolve) => {
     const startTime = Date.now()
     const client = new Client()
 
@@ -44,9 +88,16 @@ async function testSSHConnection(config: {
       const latency = Date.now() - startTime
       client.end()
 
+      // Tests never record keys, so point out one that still needs approval
+      const unknownHostKey = config.host_key_verifier?.unknownHostKey
       resolve({
         success: true,
-        message: 'SSH connection successful',
+        message:
+          unknownHostKey && config.strict_host_checking
+            ? `SSH connection successful. Host key ${unknownHostKey.fingerprint} is not trusted ` +
+              'yet and must be approved on first connect.'
+            : 'SSH connection successful',
+        host_key: unknownHostKey ?? undefined,
         latency_ms: latency,
       })
     })
@@ -54,6 +105,12 @@ async function testSSHConnection(config: {
     client.on('error', (err) => {
       clearTimeout(timeout)
 
+      const hostKeyError = config.host_key_verifier?.error
+      if (hostKeyError instanceof HostKeyVerificationError) {
+        resolve(hostKeyFailure(hostKeyError))
+        return
+      }
+
       let errorMessage = 'Connection failed'
 
       if (err.message.includes('ENOTFOUND')) {
@@ -79,9 +136,9 @@ async function testSSHConnection(config: {
       host: string
       port: number
       username: string
+      sock?: JumpChain['sock']
       readyTimeout: number
-      hostHash?: string
-      hostVerifier?: () => boolean
+      hostVerifier?: HostVerifier | (() => boolean)
       password?: string
       privateKey?: string
       passphrase?: string
@@ -89,9 +146,13 @@ async function testSSHConnection(config: {
       host: config.host,
       port: config.port,
       username: config.username,
+      sock: jumpChain?.sock,
       readyTimeout: (config.connection_timeout || 30) * 1000,
-      hostHash: config.strict_host_checking ? 'sha256' : undefined,
-      hostVerifier: config.strict_host_checking ? undefined : () => true,
+      hostVerifier: config.host_key_verifier
+        ? config.host_key_verifier.forHost(config.host, config.port)
+        : config.strict_host_checking
+          ? undefined
+          : () => true,
     }
 
     if (config.auth_type === 'password') {
@@ -114,6 +175,9 @@ async function testSSHConnection(config: {
       })
     }
   })
+
+  jumpChain?.clients.reverse().forEach((client) => client.end())
+  return result
 }
 
 export async function POST(
@@ -228,6 +292,25 @@ export async function POST(
       )
     }
 
+    let jumpHosts: JumpHostConfig[]
+    try {
+      jumpHosts = await resolveJumpHosts(supabase, user.id, connection.proxy_jump, {
+        username: connection.username,
+        auth_type: connection.auth_type,
+        credentials,
+      })
+    } catch (proxyError: unknown) {
+      const errorMessage = proxyError instanceof Error ? proxyError.message : String(proxyError)
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_PROXY_JUMP',
+          message: 'Invalid proxy jump configuration: ' + errorMessage,
+        },
+        { status: 400 }
+      )
+    }
+
     // Test the connection
     const result = await testSSHConnection({
       host: connection.host,
@@ -237,6 +320,12 @@ export async function POST(
       credentials,
       connection_timeout: connection.connection_timeout,
       strict_host_checking: connection.strict_host_checking,
+      jump_hosts: jumpHosts,
+      host_key_verifier: createHostKeyVerifier(supabase, connection.organization_id, {
+        strict: connection.strict_host_checking ?? true,
+        userId: user.id,
+        dryRun: true,
+      }),
     })
 
     return NextResponse.json(result)
@@ -55,9 +55,12 @@ export const POST = createAuthenticatedRoute(async (request, _context, { user, s
       encryption_key_id: encryptionKeyId,
       proxy_jump: input.proxy_jump || null,
       connection_timeout: input.connection_timeout || 30,
-      keepalive_interval: input.keepalive_interval || 60,
+      keepalive_interval: input.keepalive_interval ?? null,
+      idle_timeout: input.idle_timeout ?? null,
+      max_session_duration: input.max_session_duration ?? null,
       strict_host_checking: input.strict_host_checking ?? true,
       custom_options: input.custom_options || null,
+      tags: input.tags ?? [],
       created_by: user.id,
     })
 
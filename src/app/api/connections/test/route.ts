@@ -1,14 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { Client } from 'ssh2'
+import { openJumpChain, resolveJumpHosts, JumpChain, JumpHostConfig } from '@/lib/ssh/proxy-jump'
+import {
+  createHostKeyVerifier,
+  HostKeyVerificationError,
+  HostKeyVerifier,
+} from '@/lib/ssh/known-hosts'
+import type { HostKeyDetails } from '@/types/ssh'
 
 interface TestConnectionResult {
   success: boolean
   message: string
   error?: string
+  code?: string
+  host_key?: HostKeyDetails
   latency_ms?: number
 }
 
+function hostKeyFailure(error: HostKeyVerificationError): TestConnectionResult {
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    message: error.message,
+    host_key: error.hostKey,
+  }
+}
+
 async function testSSHConnection(config: {
   host: string
   port: number
@@ -21,8 +40,33 @@ async function testSSHConnection(config: {
   }
   connection_timeout?: number
   strict_host_checking?: boolean
+  jump_hosts?: JumpHostConfig[]
+  host_key_verifier?: HostKeyVerifier
 }): Promise<TestConnectionResult> {
-  return new Promise((resolve) => {
+  // Reach the target through its bastions first, if any
+  let jumpChain: JumpChain | null = null
+  if (config.jump_hosts?.length) {
+    try {
+      jumpChain = await openJumpChain(
+        config.jump_hosts,
+        { host: config.host, port: config.port },
+        (config.connection_timeout || 30) * 1000,
+        config.host_key_verifier
+      )
+    } catch (error: unknown) {
+      if (error instanceof HostKeyVerificationError) {
+        return hostKeyFailure(error)
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return {
+        success: false,
+        error: errorMessage,
+        message: 'Failed to reach jump host: ' + errorMessage,
+      }
+    }
+  }
+
+  const result = await new Promise<TestConnectionResult>((resolve) => {
     const startTime = Date.now()
     const client = new Client()
 
@@ -43,15 +87,29 @@ async function testSSHConnection(config: {
       const latency = Date.now() - startTime
       client.end()
 
+      // Tests never record keys, so point out one that still needs approval
+      const unknownHostKey = config.host_key_verifier?.unknownHostKey
       resolve({
         success: true,
-        message: 'SSH connection successful',
+        message:
+          unknownHostKey && config.strict_host_checking
+            ? `SSH connection successful. Host key ${unknownHostKey.fingerprint} is not trusted ` +
+              'yet and must be approved on first connect.'
+            : 'SSH connection successful',
+        host_key: unknownHostKey ?? undefined,
         latency_ms: latency,
       })
     })
 
     client.on('error', (err) => {
       clearTimeout(timeout)
+
+      const hostKeyError = config.host_key_verifier?.error
+      if (hostKeyError instanceof HostKeyVerificationError) {
+        resolve(hostKeyFailure(hostKeyError))
+        return
+      }
+
       console.error('SSH connection error:', err)
 
       let errorMessage = 'Connection failed'
@@ -79,9 +137,13 @@ async function testSSHConnection(config: {
       host: config.host,
       port: config.port,
       username: config.username,
+      sock: jumpChain?.sock,
       readyTimeout: (config.connection_timeout || 30) * 1000,
-      hostHash: config.strict_host_checking ? 'sha256' : undefined,
-      hostVerifier: config.strict_host_checking ? undefined : () => true,
+      hostVerifier: config.host_key_verifier
+        ? config.host_key_verifier.forHost(config.host, config.port)
+        : config.strict_host_checking
+          ? undefined
+          : () => true,
     }
 
     if (config.auth_type === 'password') {
@@ -105,6 +167,9 @@ async function testSSHConnection(config: {
       })
     }
   })
+
+  jumpChain?.clients.reverse().forEach((client) => client.end())
+  return result
 }
 
 export async function POST(request: NextRequest) {
@@ -127,8 +192,10 @@ export async function POST(request: NextRequest) {
       username,
       auth_type,
       credentials,
+      proxy_jump,
       connection_timeout,
       strict_host_checking,
+      organization_id,
     } = body
 
     if (!host || !username || !auth_type || !credentials) {
@@ -179,6 +246,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    let jumpHosts: JumpHostConfig[]
+    try {
+      jumpHosts = await resolveJumpHosts(supabase, user.id, proxy_jump, {
+        username,
+        auth_type,
+        credentials,
+      })
+    } catch (proxyError: unknown) {
+      const errorMessage = proxyError instanceof Error ? proxyError.message : String(proxyError)
+      return NextResponse.json(
+        {
+          success: false,
+          error: errorMessage,
+          message: 'Invalid proxy jump configuration: ' + errorMessage,
+        },
+        { status: 400 }
+      )
+    }
+
     const result = await testSSHConnection({
       host,
       port: port || 22,
@@ -187,6 +273,15 @@ export async function POST(request: NextRequest) {
       credentials,
       connection_timeout: connection_timeout || 30,
       strict_host_checking: strict_host_checking ?? true,
+      jump_hosts: jumpHosts,
+      // Unsaved connections can still be checked against the organization's known hosts
+      host_key_verifier: organization_id
+        ? createHostKeyVerifier(supabase, organization_id, {
+            strict: strict_host_checking ?? true,
+            userId: user.id,
+            dryRun: true,
+          })
+        : undefined,
     })
 
     return NextResponse.json(result)
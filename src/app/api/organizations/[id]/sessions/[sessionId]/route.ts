@@ -0,0 +1,58 @@
+import { createAuthenticatedRoute, ApiErrorResponse } from '@/lib/api/middleware'
+import { successResponse } from '@/lib/api/response'
+import { ErrorCodes } from '@/lib/api/errorCodes'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+
+const MAX_REASON_LENGTH = 500
+
+// Terminates a session on one of the organization's connections
+export const DELETE = createAuthenticatedRoute(async (request, context, { user, supabase }) => {
+  const { id: organizationId, sessionId } = (await context.params) as {
+    id: string
+    sessionId: string
+  }
+  const body = await request.json().catch(() => ({}))
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+
+  if (!reason) {
+    throw new ApiErrorResponse(ErrorCodes.VALIDATION_ERROR, 'A termination reason is required', 400)
+  }
+  if (reason.length > MAX_REASON_LENGTH) {
+    throw new ApiErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      `Reason must be at most ${MAX_REASON_LENGTH} characters`,
+      400
+    )
+  }
+
+  const { data: isAdmin } = await supabase.rpc('is_organization_admin', {
+    org_id: organizationId,
+    check_user_id: user.id,
+  })
+
+  if (!isAdmin) {
+    throw new ApiErrorResponse(ErrorCodes.FORBIDDEN, 'Access denied', 403)
+  }
+
+  const { data: session } = await supabase
+    .from('connection_sessions')
+    .select('id, session_token, status, connections!inner(organization_id)')
+    .eq('id', sessionId)
+    .eq('connections.organization_id', organizationId)
+    .maybeSingle()
+
+  if (!session) {
+    throw new ApiErrorResponse(ErrorCodes.NOT_FOUND, 'Session not found', 404)
+  }
+  if (session.status !== 'active' && session.status !== 'idle') {
+    throw new ApiErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Session has already ended', 400)
+  }
+
+  const wasLive = await SSHConnectionManager.terminateSession(
+    session.session_token,
+    reason,
+    user.id
+  )
+
+  return successResponse({ id: session.id, wasLive })
+})
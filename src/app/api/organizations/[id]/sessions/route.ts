@@ -0,0 +1,77 @@
+import { createAuthenticatedRoute, ApiErrorResponse } from '@/lib/api/middleware'
+import { successResponse } from '@/lib/api/response'
+import { ErrorCodes } from '@/lib/api/errorCodes'
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import type { OrganizationActiveSession } from '@/types/connection'
+
+// Lists every active session on the organization's connections for its admins
+export const GET = createAuthenticatedRoute(async (request, context, { user, supabase }) => {
+  const { id: organizationId } = (await context.params) as { id: string }
+
+  const { data: isAdmin } = await supabase.rpc('is_organization_admin', {
+    org_id: organizationId,
+    check_user_id: user.id,
+  })
+
+  if (!isAdmin) {
+    throw new ApiErrorResponse(ErrorCodes.FORBIDDEN, 'Access denied', 403)
+  }
+
+  const { data: connections, error: connectionsError } = await supabase
+    .from('connections')
+    .select('id, name')
+    .eq('organization_id', organizationId)
+
+  if (connectionsError) {
+    throw new ApiErrorResponse(ErrorCodes.DATABASE_ERROR, connectionsError.message, 500)
+  }
+
+  if (!connections || connections.length === 0) {
+    return successResponse<OrganizationActiveSession[]>([])
+  }
+
+  const connectionIds = connections.map((c) => c.id)
+  const { data: rows, error } = await supabase
+    .from('connection_sessions')
+    .select('*')
+    .in('connection_id', connectionIds)
+    .in('status', ['active', 'idle'])
+    .order('started_at', { ascending: false })
+
+  if (error) {
+    throw new ApiErrorResponse(ErrorCodes.DATABASE_ERROR, error.message, 500)
+  }
+
+  const userIds = Array.from(new Set((rows || []).map((row) => row.user_id)))
+  let profileMap = new Map<string, string>()
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, username')
+      .in('id', userIds)
+
+    profileMap = new Map(profiles?.map((p) => [p.id, p.username]) || [])
+  }
+
+  const connectionNames = new Map(connections.map((c) => [c.id, c.name]))
+  const live = new Map(SSHConnectionManager.listSessions(connectionIds).map((s) => [s.id, s]))
+
+  const sessions: OrganizationActiveSession[] = (rows || []).map(({ session_token, ...row }) => {
+    const info = live.get(session_token)
+    return {
+      ...row,
+      username: profileMap.get(row.user_id) || null,
+      connection_name: connectionNames.get(row.connection_id) || '',
+      is_live: Boolean(info),
+      // The row is only flushed every minute, so prefer this process's counters
+      ...(info && {
+        last_activity_at: info.lastActivity.toISOString(),
+        bytes_uploaded: info.bytesUploaded,
+        bytes_downloaded: info.bytesDownloaded,
+        commands_executed: info.commandsExecuted,
+      }),
+    }
+  })
+
+  return successResponse(sessions)
+})
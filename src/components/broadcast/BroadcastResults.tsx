@@ -0,0 +1,76 @@
+'use client'
+
+import { FormattedMessage } from '@/lib/i18n'
+import type { BroadcastHostResult, BroadcastStatus } from '@/types/broadcast'
+
+interface BroadcastResultsProps {
+  results: BroadcastHostResult[]
+}
+
+const statusClass: Record<BroadcastStatus, string> = {
+  queued: 'bg-background-tertiary text-foreground-muted',
+  connecting: 'bg-blue-500/10 text-blue-400',
+  running: 'bg-blue-500/10 text-blue-400',
+  completed: 'bg-terminal-green/10 text-terminal-green',
+  failed: 'bg-red-500/10 text-red-500',
+  timeout: 'bg-yellow-500/10 text-yellow-500',
+  cancelled: 'bg-background-tertiary text-foreground-muted',
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+export function BroadcastResults({ results }: BroadcastResultsProps) {
+  return (
+    <div className="grid grid-cols-1 gap-4 lg:grid-cols-2 2xl:grid-cols-3">
+      {results.map((result) => (
+        <div
+          key={result.connectionId}
+          className="flex min-w-0 flex-col rounded-lg border border-border bg-background-secondary"
+        >
+          <div className="flex items-start justify-between gap-2 border-b border-border px-4 py-3">
+            <div className="min-w-0">
+              <p className="truncate font-medium text-foreground">{result.name}</p>
+              <p className="truncate font-mono text-xs text-foreground-muted">{result.host}</p>
+            </div>
+            <span className={`shrink-0 rounded px-2 py-0.5 text-xs ${statusClass[result.status]}`}>
+              <FormattedMessage id={`broadcast.status.${result.status}`} />
+            </span>
+          </div>
+
+          <div className="flex gap-4 px-4 py-2 text-xs text-foreground-muted">
+            {result.code !== null && (
+              <span className={result.code === 0 ? '' : 'text-red-500'}>
+                <FormattedMessage id="broadcast.result.exitCode" values={{ code: result.code }} />
+              </span>
+            )}
+            {result.durationMs !== null && (
+              <span>
+                <FormattedMessage
+                  id="broadcast.result.duration"
+                  values={{ duration: formatDuration(result.durationMs) }}
+                />
+              </span>
+            )}
+          </div>
+
+          <div className="max-h-80 flex-1 overflow-auto bg-background px-4 py-3 font-mono text-xs">
+            {result.error && <p className="text-red-500">{result.error}</p>}
+            {result.stdout && (
+              <pre className="whitespace-pre-wrap break-all text-foreground">{result.stdout}</pre>
+            )}
+            {result.stderr && (
+              <pre className="whitespace-pre-wrap break-all text-red-400">{result.stderr}</pre>
+            )}
+            {result.status === 'completed' && !result.stdout && !result.stderr && (
+              <p className="text-foreground-muted">
+                <FormattedMessage id="broadcast.result.noOutput" />
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
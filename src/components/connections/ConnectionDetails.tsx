@@ -3,7 +3,8 @@
 import { useState } from 'react'
 import { useIntl, FormattedMessage } from '@/lib/i18n'
 import { ConnectionStatusDisplay } from './ConnectionStatusDisplay'
-import type { ConnectionWithDetails } from '@/types/connection'
+import ConnectionSessions from './ConnectionSessions'
+import type { ConnectionTool, ConnectionWithDetails } from '@/types/connection'
 
 interface ConnectionDetailsProps {
   connection: ConnectionWithDetails
@@ -11,14 +12,27 @@ interface ConnectionDetailsProps {
   onDelete: () => void
   onTest: () => void
   onBrowse: () => void
+  onTerminal: () => void
+  onOpenTool: (tool: ConnectionTool) => void
 }
 
+const CONNECTION_TOOLS: { tool: ConnectionTool; icon: string }[] = [
+  { tool: 'system', icon: '📊' },
+  { tool: 'processes', icon: '⚙️' },
+  { tool: 'services', icon: '🧩' },
+  { tool: 'docker', icon: '🐳' },
+  { tool: 'cron', icon: '⏰' },
+  { tool: 'snippets', icon: '📜' },
+]
+
 export default function ConnectionDetails({
   connection,
   onEdit,
   onDelete,
   onTest,
   onBrowse,
+  onTerminal,
+  onOpenTool,
 }: ConnectionDetailsProps) {
   const intl = useIntl()
   const [isTesting, setIsTesting] = useState(false)
@@ -71,6 +85,12 @@ export default function ConnectionDetails({
           >
             <FormattedMessage id="connections.actions.browse" />
           </button>
+          <button
+            onClick={onTerminal}
+            className="rounded-lg border border-terminal-green/30 bg-background-secondary px-4 py-2 text-sm font-medium text-terminal-green transition-colors hover:bg-terminal-green/10"
+          >
+            <FormattedMessage id="connections.actions.terminal" />
+          </button>
           <button
             onClick={onEdit}
             className="rounded-lg border border-border bg-background-secondary px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-background-tertiary"
@@ -86,6 +106,23 @@ export default function ConnectionDetails({
         </div>
       </div>
 
+      {/* Server Tools */}
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        <span className="mr-1 text-sm font-medium text-foreground-muted">
+          <FormattedMessage id="connections.tools.title" />
+        </span>
+        {CONNECTION_TOOLS.map(({ tool, icon }) => (
+          <button
+            key={tool}
+            onClick={() => onOpenTool(tool)}
+            className="rounded-lg border border-border bg-background-secondary px-3 py-1.5 text-sm text-foreground transition-colors hover:bg-background-tertiary"
+          >
+            <span className="mr-1.5">{icon}</span>
+            <FormattedMessage id={`connections.tools.${tool}`} />
+          </button>
+        ))}
+      </div>
+
       {/* Connection Status */}
       <div className="mb-6">
         <ConnectionStatusDisplay
@@ -149,7 +186,9 @@ export default function ConnectionDetails({
       {/* Advanced Settings */}
       {(connection.proxy_jump ||
         connection.connection_timeout !== 30 ||
-        connection.keepalive_interval !== 60 ||
+        connection.keepalive_interval !== null ||
+        connection.idle_timeout !== null ||
+        connection.max_session_duration !== null ||
         !connection.strict_host_checking) && (
         <div className="mb-6 rounded-lg border border-border bg-background-secondary">
           <div className="border-b border-border px-6 py-4">
@@ -185,10 +224,44 @@ export default function ConnectionDetails({
                   <FormattedMessage id="connections.form.keepaliveIntervalLabel" />
                 </dt>
                 <dd className="mt-1 text-sm text-foreground">
-                  <FormattedMessage
-                    id="connections.details.seconds"
-                    values={{ count: connection.keepalive_interval }}
-                  />
+                  {connection.keepalive_interval !== null ? (
+                    <FormattedMessage
+                      id="connections.details.seconds"
+                      values={{ count: connection.keepalive_interval }}
+                    />
+                  ) : (
+                    <FormattedMessage id="connections.details.organizationDefault" />
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-foreground-muted">
+                  <FormattedMessage id="connections.form.idleTimeoutLabel" />
+                </dt>
+                <dd className="mt-1 text-sm text-foreground">
+                  {connection.idle_timeout !== null ? (
+                    <FormattedMessage
+                      id="connections.details.minutes"
+                      values={{ count: connection.idle_timeout }}
+                    />
+                  ) : (
+                    <FormattedMessage id="connections.details.organizationDefault" />
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-foreground-muted">
+                  <FormattedMessage id="connections.form.maxSessionDurationLabel" />
+                </dt>
+                <dd className="mt-1 text-sm text-foreground">
+                  {connection.max_session_duration !== null ? (
+                    <FormattedMessage
+                      id="connections.details.minutes"
+                      values={{ count: connection.max_session_duration }}
+                    />
+                  ) : (
+                    <FormattedMessage id="connections.details.organizationDefault" />
+                  )}
                 </dd>
               </div>
               <div className="col-span-2">
@@ -250,6 +323,8 @@ export default function ConnectionDetails({
           </dl>
         </div>
       </div>
+
+      <ConnectionSessions connectionId={connection.id} />
     </div>
   )
 }
@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { connectionService } from '@/lib/connections/connection.service'
+import { formatFileSize } from '@/lib/utils/file'
+import type { ConnectionSessionWithUser } from '@/types/connection'
+
+interface ConnectionSessionsProps {
+  connectionId: string
+}
+
+const STATUS_STYLES: Record<ConnectionSessionWithUser['status'], string> = {
+  active: 'bg-terminal-green/10 text-terminal-green',
+  idle: 'bg-yellow-500/10 text-yellow-500',
+  disconnected: 'bg-background-tertiary text-foreground-muted',
+  terminated: 'bg-red-500/10 text-red-500',
+}
+
+export default function ConnectionSessions({ connectionId }: ConnectionSessionsProps) {
+  const intl = useIntl()
+  const [sessions, setSessions] = useState<ConnectionSessionWithUser[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    connectionService
+      .getSessionHistory(connectionId)
+      .then((data) => {
+        if (!cancelled) setSessions(data)
+      })
+      .catch(() => {
+        if (!cancelled) setError(intl.formatMessage({ id: 'connections.sessions.loadError' }))
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [connectionId, intl])
+
+  const formatDuration = (session: ConnectionSessionWithUser) => {
+    // Live sessions run until now; the row's counters lag by up to a minute
+    const isLive = session.status === 'active' || session.status === 'idle'
+    const end = session.ended_at || (isLive ? new Date().toISOString() : session.last_activity_at)
+    const totalSeconds = Math.max(
+      0,
+      Math.floor((new Date(end).getTime() - new Date(session.started_at).getTime()) / 1000)
+    )
+    const hours = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+
+    if (hours > 0) {
+      return intl.formatMessage({ id: 'connections.sessions.durationHours' }, { hours, minutes })
+    }
+    return intl.formatMessage(
+      { id: 'connections.sessions.durationMinutes' },
+      { minutes, seconds: totalSeconds % 60 }
+    )
+  }
+
+  return (
+    <div className="mt-6 rounded-lg border border-border bg-background-secondary">
+      <div className="border-b border-border px-6 py-4">
+        <h2 className="text-lg font-semibold text-foreground">
+          <FormattedMessage id="connections.sessions.title" />
+        </h2>
+      </div>
+
+      {isLoading ? (
+        <p className="p-6 text-sm text-foreground-muted">
+          <FormattedMessage id="common.loading" />
+        </p>
+      ) : error ? (
+        <p className="p-6 text-sm text-red-500">{error}</p>
+      ) : sessions.length === 0 ? (
+        <p className="p-6 text-sm text-foreground-muted">
+          <FormattedMessage id="connections.sessions.empty" />
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="border-b border-border text-left text-foreground-muted">
+              <tr>
+                <th className="px-6 py-3 font-medium">
+                  <FormattedMessage id="connections.sessions.user" />
+                </th>
+                <th className="px-6 py-3 font-medium">
+                  <FormattedMessage id="connections.sessions.status" />
+                </th>
+                <th className="px-6 py-3 font-medium">
+                  <FormattedMessage id="connections.sessions.started" />
+                </th>
+                <th className="px-6 py-3 font-medium">
+                  <FormattedMessage id="connections.sessions.duration" />
+                </th>
+                <th className="px-6 py-3 text-right font-medium">
+                  <FormattedMessage id="connections.sessions.uploaded" />
+                </th>
+                <th className="px-6 py-3 text-right font-medium">
+                  <FormattedMessage id="connections.sessions.downloaded" />
+                </th>
+                <th className="px-6 py-3 text-right font-medium">
+                  <FormattedMessage id="connections.sessions.commands" />
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {sessions.map((session) => (
+                <tr key={session.id} className="text-foreground">
+                  <td className="px-6 py-3">
+                    {session.username || intl.formatMessage({ id: 'common.unknown' })}
+                  </td>
+                  <td className="px-6 py-3">
+                    <span
+                      className={`rounded px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[session.status]}`}
+                      title={session.termination_reason || undefined}
+                    >
+                      <FormattedMessage id={`connections.sessions.status.${session.status}`} />
+                    </span>
+                  </td>
+                  <td className="px-6 py-3">
+                    {new Date(session.started_at).toLocaleString(intl.locale)}
+                  </td>
+                  <td className="px-6 py-3">{formatDuration(session)}</td>
+                  <td className="px-6 py-3 text-right font-mono">
+                    {formatFileSize(session.bytes_uploaded)}
+                  </td>
+                  <td className="px-6 py-3 text-right font-mono">
+                    {formatFileSize(session.bytes_downloaded)}
+                  </td>
+                  <td className="px-6 py-3 text-right font-mono">{session.commands_executed}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,14 @@
 'use client'
 
 import { UseFormRegister, FieldErrors } from 'react-hook-form'
-import { FormattedMessage } from '@/lib/i18n'
+import { FormattedMessage, useIntl } from '@/lib/i18n'
 import { FormField } from '@/components/ui'
 import { ConnectionFormData } from './validation'
 
+// Blank policy fields are stored as null so the organization's setting applies
+const optionalNumber = (value: unknown) =>
+  value === '' || value === null || value === undefined ? null : Number(value)
+
 interface AdvancedSettingsSectionProps {
   register: UseFormRegister<ConnectionFormData>
   errors: FieldErrors<ConnectionFormData>
@@ -18,6 +22,8 @@ export const AdvancedSettingsSection = ({
   showAdvanced,
   onToggleAdvanced
 }: AdvancedSettingsSectionProps) => {
+  const intl = useIntl()
+
   return (
     <div className="space-y-6">
       <div>
@@ -81,12 +87,44 @@ export const AdvancedSettingsSection = ({
                 hint={<FormattedMessage id="connections.form.intervalInSeconds" />}
               >
                 <input
-                  {...register('keepalive_interval', { valueAsNumber: true })}
+                  {...register('keepalive_interval', { setValueAs: optionalNumber })}
                   type="number"
                   min="1"
                   max="300"
                   className="w-full rounded-lg border border-border bg-background px-4 py-3 text-sm text-foreground placeholder-foreground-muted transition-all focus:border-terminal-green focus:outline-none focus:ring-2 focus:ring-terminal-green/20"
-                  placeholder="60"
+                  placeholder={intl.formatMessage({ id: 'connections.form.organizationDefault' })}
+                />
+              </FormField>
+
+              <FormField
+                label={intl.formatMessage({ id: 'connections.form.idleTimeoutLabel' })}
+                error={errors.idle_timeout?.message}
+                optional
+                hint={intl.formatMessage({ id: 'connections.form.idleTimeoutHint' })}
+              >
+                <input
+                  {...register('idle_timeout', { setValueAs: optionalNumber })}
+                  type="number"
+                  min="1"
+                  max="1440"
+                  className="w-full rounded-lg border border-border bg-background px-4 py-3 text-sm text-foreground placeholder-foreground-muted transition-all focus:border-terminal-green focus:outline-none focus:ring-2 focus:ring-terminal-green/20"
+                  placeholder={intl.formatMessage({ id: 'connections.form.organizationDefault' })}
+                />
+              </FormField>
+
+              <FormField
+                label={intl.formatMessage({ id: 'connections.form.maxSessionDurationLabel' })}
+                error={errors.max_session_duration?.message}
+                optional
+                hint={intl.formatMessage({ id: 'connections.form.maxSessionDurationHint' })}
+              >
+                <input
+                  {...register('max_session_duration', { setValueAs: optionalNumber })}
+                  type="number"
+                  min="1"
+                  max="10080"
+                  className="w-full rounded-lg border border-border bg-background px-4 py-3 text-sm text-foreground placeholder-foreground-muted transition-all focus:border-terminal-green focus:outline-none focus:ring-2 focus:ring-terminal-green/20"
+                  placeholder={intl.formatMessage({ id: 'connections.form.organizationDefault' })}
                 />
               </FormField>
             </div>
@@ -1,7 +1,7 @@
 'use client'
 
 import { UseFormRegister, FieldErrors } from 'react-hook-form'
-import { FormattedMessage } from '@/lib/i18n'
+import { FormattedMessage, useIntl } from '@/lib/i18n'
 import { FormField } from '@/components/ui'
 import { ConnectionFormData } from './validation'
 
@@ -16,6 +16,8 @@ export const BasicConnectionSection = ({
   errors, 
   isEditing = false 
 }: BasicConnectionSectionProps) => {
+  const intl = useIntl()
+
   return (
     <div className="space-y-6">
       <div>
@@ -46,6 +48,20 @@ export const BasicConnectionSection = ({
               placeholder="Development server"
             />
           </FormField>
+
+          <div className="sm:col-span-2">
+            <FormField
+              label={intl.formatMessage({ id: 'connections.form.tags' })}
+              error={errors.tags?.message}
+              optional
+            >
+              <input
+                {...register('tags')}
+                className="w-full rounded-lg border border-border bg-background px-4 py-3 text-sm text-foreground placeholder-foreground-muted transition-all focus:border-terminal-green focus:outline-none focus:ring-2 focus:ring-terminal-green/20"
+                placeholder="web, production"
+              />
+            </FormField>
+          </div>
         </div>
       </div>
 
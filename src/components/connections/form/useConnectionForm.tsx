@@ -6,7 +6,7 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { useIntl } from '@/lib/i18n'
 import { useToast } from '@/components/ui'
 import { connectionService } from '@/lib/connections/connection.service'
-import { createConnectionSchema, ConnectionFormData } from './validation'
+import { createConnectionSchema, parseTags, ConnectionFormData } from './validation'
 import type { ConnectionWithDetails, CreateConnectionInput, UpdateConnectionInput } from '@/types/connection'
 
 interface UseConnectionFormOptions {
@@ -37,6 +37,7 @@ export const useConnectionForm = ({
     defaultValues: {
       name: connection?.name || '',
       description: connection?.description || '',
+      tags: connection?.tags?.join(', ') || '',
       host: connection?.host || '',
       port: connection?.port || 22,
       username: connection?.username || '',
@@ -46,7 +47,9 @@ export const useConnectionForm = ({
       passphrase: '',
       proxy_jump: connection?.proxy_jump || '',
       connection_timeout: connection?.connection_timeout || 30,
-      keepalive_interval: connection?.keepalive_interval || 60,
+      keepalive_interval: connection?.keepalive_interval ?? null,
+      idle_timeout: connection?.idle_timeout ?? null,
+      max_session_duration: connection?.max_session_duration ?? null,
       strict_host_checking: connection?.strict_host_checking ?? true,
     },
   })
@@ -57,6 +60,7 @@ export const useConnectionForm = ({
       if (isEditing && connection) {
         const updateData: UpdateConnectionInput = {
           ...data,
+          tags: parseTags(data.tags),
           credentials: {
             password: data.password,
             privateKey: data.privateKey,
@@ -70,6 +74,7 @@ export const useConnectionForm = ({
         const createData: CreateConnectionInput = {
           ...data,
           project_id: projectId,
+          tags: parseTags(data.tags),
           credentials: {
             password: data.password,
             privateKey: data.privateKey,
@@ -115,9 +120,13 @@ export const useConnectionForm = ({
         proxy_jump: formData.proxy_jump,
         connection_timeout: formData.connection_timeout,
         strict_host_checking: formData.strict_host_checking,
+        organization_id: organizationId,
       }
 
-      await connectionService.testConnection(testData)
+      const result = await connectionService.testConnection(testData)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
       toast.success(intl.formatMessage({ id: 'connections.form.testSuccess' }))
     } catch (error) {
       console.error('Connection test failed:', error)
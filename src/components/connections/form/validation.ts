@@ -8,6 +8,8 @@ export const createConnectionSchema = (intl: { formatMessage: (opts: { id: strin
       .max(100, intl.formatMessage({ id: 'connections.validation.nameTooLong' }))
       .trim(),
     description: z.string().optional().nullable(),
+    // Comma-separated in the form, stored as an array
+    tags: z.string().optional(),
     host: z
       .string()
       .min(1, intl.formatMessage({ id: 'connections.validation.hostRequired' }))
@@ -26,7 +28,10 @@ export const createConnectionSchema = (intl: { formatMessage: (opts: { id: strin
     passphrase: z.string().optional(),
     proxy_jump: z.string().optional().nullable(),
     connection_timeout: z.number().min(1).max(300).optional(),
-    keepalive_interval: z.number().min(1).max(300).optional(),
+    // Session policy overrides; null inherits the organization's setting
+    keepalive_interval: z.number().int().min(1).max(300).nullable().optional(),
+    idle_timeout: z.number().int().min(1).max(1440).nullable().optional(),
+    max_session_duration: z.number().int().min(1).max(10080).nullable().optional(),
     strict_host_checking: z.boolean(),
   })
   .refine(
@@ -48,4 +53,14 @@ export const createConnectionSchema = (intl: { formatMessage: (opts: { id: strin
     }
   )
 
-export type ConnectionFormData = z.infer<ReturnType<typeof createConnectionSchema>>
\ No newline at end of file
+export type ConnectionFormData = z.infer<ReturnType<typeof createConnectionSchema>>
+
+export const parseTags = (text?: string): string[] =>
+  Array.from(
+    new Set(
+      (text ?? '')
+        .split(',')
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  )
@@ -0,0 +1,69 @@
+'use client'
+
+import Link from 'next/link'
+import { useState, useEffect } from 'react'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { jobService } from '@/lib/jobs/job.service'
+import type { ScheduledJobRunWithDetails } from '@/types/job'
+
+interface FailedJobRunsProps {
+  organizationId: string
+  projectId: string
+}
+
+// Project overview card listing the latest failed scheduled runs; hidden when there are none
+export function FailedJobRuns({ organizationId, projectId }: FailedJobRunsProps) {
+  const intl = useIntl()
+  const [runs, setRuns] = useState<ScheduledJobRunWithDetails[]>([])
+
+  useEffect(() => {
+    jobService
+      .getFailedRuns(projectId)
+      .then(setRuns)
+      .catch((err) => console.error('Failed to load failed job runs:', err))
+  }, [projectId])
+
+  if (runs.length === 0) return null
+
+  return (
+    <div className="rounded-lg border border-red-500/30 bg-background-secondary">
+      <div className="border-b border-border px-6 py-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-foreground">
+            <FormattedMessage id="jobs.failedRuns.title" />
+          </h2>
+          <Link
+            href={`/dashboard/organizations/${organizationId}/projects/${projectId}/jobs`}
+            className="hover:text-terminal-green-hover text-sm text-terminal-green"
+          >
+            <FormattedMessage id="projects.overview.viewAll" />
+          </Link>
+        </div>
+      </div>
+      <div className="space-y-3 p-6">
+        {runs.map((run) => (
+          <div key={run.id} className="rounded-lg border border-border p-3">
+            <div className="flex items-center justify-between gap-3">
+              <p className="truncate font-medium text-foreground">
+                {run.job_name}
+                {run.connection_name && (
+                  <span className="font-normal text-foreground-muted">
+                    {' '}
+                    · {run.connection_name}
+                  </span>
+                )}
+              </p>
+              <span className="shrink-0 text-xs text-foreground-muted">
+                {new Date(run.started_at).toLocaleString(intl.locale)}
+              </span>
+            </div>
+            <p className="mt-1 truncate font-mono text-xs text-red-500">
+              {run.error ??
+                intl.formatMessage({ id: 'jobs.runs.exitCode' }, { code: run.exit_code ?? '?' })}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
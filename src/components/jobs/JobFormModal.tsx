@@ -0,0 +1,285 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { FormattedMessage, useIntl } from '@/lib/i18n'
+import { Button, Checkbox, Modal } from '@/components/ui'
+import { describeSchedule } from '@/components/ssh/cron/describeSchedule'
+import { getNextRuns, parseSchedule } from '@/lib/cron/schedule'
+import { validateJob, validateJobSchedule } from '@/lib/jobs/validation'
+import { validateParameterValues } from '@/lib/snippets/template'
+import type { ConnectionWithDetails } from '@/types/connection'
+import type { CreateScheduledJobInput, ScheduledJob } from '@/types/job'
+import type { Snippet } from '@/types/snippet'
+
+interface JobFormModalProps {
+  // null creates a new job
+  job: ScheduledJob | null
+  snippets: Snippet[]
+  connections: ConnectionWithDetails[]
+  onSave: (input: CreateScheduledJobInput) => Promise<void>
+  onClose: () => void
+}
+
+const PRESETS = ['0 * * * *', '0 3 * * *', '0 3 * * 0', '0 0 1 * *']
+const PREVIEW_RUNS = 3
+
+const inputClass =
+  'w-full rounded-lg border border-border bg-background-secondary px-3 py-2 text-sm text-foreground placeholder-foreground-muted focus:border-terminal-green focus:outline-none'
+
+export function JobFormModal({ job, snippets, connections, onSave, onClose }: JobFormModalProps) {
+  const intl = useIntl()
+  const [name, setName] = useState(job?.name ?? '')
+  const [schedule, setSchedule] = useState(job?.schedule ?? '0 3 * * *')
+  const [useSnippet, setUseSnippet] = useState(!!job?.snippet_id)
+  const [command, setCommand] = useState(job?.command ?? '')
+  const [snippetId, setSnippetId] = useState(job?.snippet_id ?? snippets[0]?.id ?? '')
+  const [parameters, setParameters] = useState<Record<string, string>>(job?.parameters ?? {})
+  const [connectionIds, setConnectionIds] = useState<string[]>(job?.connection_ids ?? [])
+  const [isEnabled, setIsEnabled] = useState(job?.is_enabled ?? true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const snippet = useSnippet ? snippets.find((item) => item.id === snippetId) : undefined
+
+  const preview = useMemo(() => {
+    const error = validateJobSchedule(schedule)
+    if (error) return { error, description: null, runs: [] }
+    const parsed = parseSchedule(schedule)
+    return {
+      error: null,
+      description: describeSchedule(parsed, intl),
+      runs: getNextRuns(parsed, PREVIEW_RUNS),
+    }
+  }, [schedule, intl])
+
+  const input: CreateScheduledJobInput = {
+    name: name.trim(),
+    schedule: schedule.trim(),
+    command: useSnippet ? null : command.trim() || null,
+    snippet_id: useSnippet ? snippetId || null : null,
+    // Only the selected snippet's values are kept
+    parameters: snippet
+      ? Object.fromEntries(
+          snippet.parameters.map((parameter) => [
+            parameter.name,
+            parameters[parameter.name] ??
+              parameter.defaultValue ??
+              (parameter.type === 'select' ? (parameter.options?.[0] ?? '') : ''),
+          ])
+        )
+      : {},
+    connection_ids: connectionIds,
+    is_enabled: isEnabled,
+  }
+  const invalid =
+    validateJob(input) ??
+    (snippet ? validateParameterValues(snippet.parameters, input.parameters) : null)
+
+  const toggleConnection = (id: string, checked: boolean) => {
+    setConnectionIds((prev) => (checked ? [...prev, id] : prev.filter((item) => item !== id)))
+  }
+
+  const handleSave = async () => {
+    if (invalid) return
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      await onSave(input)
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      closeOnOverlayClick={!isSaving}
+      title={intl.formatMessage({ id: job ? 'jobs.edit.title' : 'jobs.create.title' })}
+      size="xl"
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleSave()
+        }}
+        className="space-y-4"
+      >
+        <div>
+          <label htmlFor="job-name" className="mb-2 block text-sm font-medium text-foreground">
+            <FormattedMessage id="jobs.field.name" />
+          </label>
+          <input
+            id="job-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            autoFocus
+            placeholder={intl.formatMessage({ id: 'jobs.field.namePlaceholder' })}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="job-schedule" className="mb-2 block text-sm font-medium text-foreground">
+            <FormattedMessage id="jobs.field.schedule" />
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="job-schedule"
+              type="text"
+              value={schedule}
+              onChange={(e) => setSchedule(e.target.value)}
+              spellCheck={false}
+              className={`${inputClass} flex-1 font-mono`}
+            />
+            <select
+              value=""
+              onChange={(e) => e.target.value && setSchedule(e.target.value)}
+              className="rounded-lg border border-border bg-background-secondary px-2 py-2 text-sm text-foreground focus:outline-none"
+            >
+              <option value="">{intl.formatMessage({ id: 'cron.field.presets' })}</option>
+              {PRESETS.map((preset) => (
+                <option key={preset} value={preset}>
+                  {preset}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="mt-2 rounded-lg border border-border bg-background-secondary p-3 text-sm">
+            {preview.error ? (
+              <p className="text-red-500">{preview.error}</p>
+            ) : (
+              <>
+                <p className="font-medium text-foreground">{preview.description}</p>
+                <p className="mt-1 text-xs text-foreground-muted">
+                  <FormattedMessage id="jobs.field.timeZoneHint" />
+                </p>
+                {preview.runs.length > 0 && (
+                  <ul className="mt-2 space-y-0.5 font-mono text-xs text-foreground">
+                    {preview.runs.map((run) => (
+                      <li key={run.getTime()}>{run.toLocaleString(intl.locale)}</li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <div className="mb-2 flex gap-4 text-sm">
+            <label className="flex items-center gap-2 text-foreground">
+              <input type="radio" checked={!useSnippet} onChange={() => setUseSnippet(false)} />
+              <FormattedMessage id="jobs.field.runCommand" />
+            </label>
+            <label className="flex items-center gap-2 text-foreground">
+              <input
+                type="radio"
+                checked={useSnippet}
+                onChange={() => setUseSnippet(true)}
+                disabled={snippets.length === 0}
+              />
+              <FormattedMessage id="jobs.field.runSnippet" />
+            </label>
+          </div>
+
+          {useSnippet ? (
+            <div className="space-y-2">
+              <select
+                value={snippetId}
+                onChange={(e) => setSnippetId(e.target.value)}
+                className={inputClass}
+              >
+                {snippets.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+              {snippet?.parameters.map((parameter) => (
+                <label key={parameter.name} className="flex items-center gap-3 text-sm">
+                  <code className="w-32 shrink-0 truncate text-terminal-green">
+                    {parameter.name}
+                  </code>
+                  {parameter.type === 'select' ? (
+                    <select
+                      value={input.parameters[parameter.name]}
+                      onChange={(e) =>
+                        setParameters({ ...parameters, [parameter.name]: e.target.value })
+                      }
+                      className={inputClass}
+                    >
+                      {parameter.options?.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type={parameter.type === 'number' ? 'number' : 'text'}
+                      value={input.parameters[parameter.name]}
+                      onChange={(e) =>
+                        setParameters({ ...parameters, [parameter.name]: e.target.value })
+                      }
+                      className={`${inputClass} font-mono`}
+                    />
+                  )}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <textarea
+              value={command}
+              onChange={(e) => setCommand(e.target.value)}
+              rows={3}
+              spellCheck={false}
+              placeholder="find /var/log/app -name '*.log' -mtime +14 -delete"
+              className={`${inputClass} font-mono`}
+            />
+          )}
+        </div>
+
+        <div>
+          <p className="mb-2 text-sm font-medium text-foreground">
+            <FormattedMessage id="jobs.field.connections" />
+          </p>
+          <div className="max-h-48 space-y-2 overflow-auto rounded-lg border border-border p-3">
+            {connections.map((connection) => (
+              <Checkbox
+                key={connection.id}
+                id={`job-connection-${connection.id}`}
+                checked={connectionIds.includes(connection.id)}
+                onChange={(e) => toggleConnection(connection.id, e.target.checked)}
+                label={`${connection.name} (${connection.username}@${connection.host})`}
+              />
+            ))}
+          </div>
+        </div>
+
+        <Checkbox
+          id="job-enabled"
+          checked={isEnabled}
+          onChange={(e) => setIsEnabled(e.target.checked)}
+          label={intl.formatMessage({ id: 'jobs.field.enabled' })}
+        />
+
+        {invalid && name.trim() && <p className="text-sm text-red-500">{invalid}</p>}
+        {saveError && <p className="text-sm text-red-500">{saveError}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+            <FormattedMessage id="common.cancel" />
+          </Button>
+          <Button type="submit" disabled={!!invalid || isSaving} loading={isSaving}>
+            <FormattedMessage id="common.save" />
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { jobService } from '@/lib/jobs/job.service'
+import type { ConnectionWithDetails } from '@/types/connection'
+import type { JobRunStatus, ScheduledJobRun } from '@/types/job'
+
+interface JobRunsProps {
+  jobId: string
+  connections: ConnectionWithDetails[]
+}
+
+const runStatusClass: Record<JobRunStatus, string> = {
+  running: 'bg-blue-500/10 text-blue-400',
+  success: 'bg-terminal-green/10 text-terminal-green',
+  failed: 'bg-red-500/10 text-red-500',
+}
+
+export function JobRuns({ jobId, connections }: JobRunsProps) {
+  const intl = useIntl()
+  const [runs, setRuns] = useState<ScheduledJobRun[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  useEffect(() => {
+    jobService
+      .getJobRuns(jobId)
+      .then(setRuns)
+      .catch((err) => {
+        console.error('Failed to load job runs:', err)
+        setError(intl.formatMessage({ id: 'jobs.runs.loadFailed' }))
+      })
+  }, [jobId, intl])
+
+  if (error) return <p className="text-sm text-red-500">{error}</p>
+  if (!runs) {
+    return (
+      <p className="text-sm text-foreground-muted">
+        <FormattedMessage id="common.loading" />
+      </p>
+    )
+  }
+  if (runs.length === 0) {
+    return (
+      <p className="text-sm text-foreground-muted">
+        <FormattedMessage id="jobs.runs.empty" />
+      </p>
+    )
+  }
+
+  const connectionName = (id: string) =>
+    connections.find((connection) => connection.id === id)?.name ?? id
+
+  return (
+    <div className="divide-y divide-border rounded-lg border border-border">
+      {runs.map((run) => (
+        <div key={run.id} className="text-sm">
+          <button
+            onClick={() => setExpanded(expanded === run.id ? null : run.id)}
+            className="flex w-full items-center gap-3 px-3 py-2 text-left hover:bg-background-tertiary"
+          >
+            <span className={`rounded px-2 py-0.5 text-xs ${runStatusClass[run.status]}`}>
+              <FormattedMessage id={`jobs.runStatus.${run.status}`} />
+            </span>
+            <span className="min-w-0 flex-1 truncate text-foreground">
+              {connectionName(run.connection_id)}
+            </span>
+            {run.exit_code !== null && (
+              <span className="text-xs text-foreground-muted">
+                <FormattedMessage id="jobs.runs.exitCode" values={{ code: run.exit_code }} />
+              </span>
+            )}
+            <span className="text-xs text-foreground-muted">
+              {new Date(run.started_at).toLocaleString(intl.locale)}
+            </span>
+          </button>
+          {expanded === run.id && (
+            <div className="space-y-1 bg-background px-3 py-2 font-mono text-xs">
+              {run.command && <p className="text-terminal-green">$ {run.command}</p>}
+              {run.error && <p className="text-red-500">{run.error}</p>}
+              {run.stdout && (
+                <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all text-foreground">
+                  {run.stdout}
+                </pre>
+              )}
+              {run.stderr && (
+                <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all text-red-400">
+                  {run.stderr}
+                </pre>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import FormInput from '@/components/ui/FormInput'
+import { useToast } from '@/components/ui'
+import { organizationService } from '@/lib/organizations/organization.service'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import type { Organization } from '@/types/organization'
+
+interface SessionPolicySettingsProps {
+  organization: Organization
+  onSaved: (organization: Organization) => void
+}
+
+// Blank maximum duration means sessions are only limited by the idle timeout
+const optionalNumber = (value: unknown) =>
+  value === '' || value === null || value === undefined ? null : Number(value)
+
+const toFormValues = (organization: Organization) => ({
+  session_idle_timeout: organization.session_idle_timeout,
+  session_max_duration: organization.session_max_duration,
+  session_keepalive_interval: organization.session_keepalive_interval,
+})
+
+export function SessionPolicySettings({ organization, onSaved }: SessionPolicySettingsProps) {
+  const intl = useIntl()
+  const { toast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const invalidNumber = intl.formatMessage({ id: 'organization.settings.sessions.invalidNumber' })
+  const sessionPolicySchema = z.object({
+    session_idle_timeout: z.number({ message: invalidNumber }).int().min(1).max(1440),
+    session_max_duration: z.number({ message: invalidNumber }).int().min(1).max(10080).nullable(),
+    session_keepalive_interval: z.number({ message: invalidNumber }).int().min(5).max(300),
+  })
+
+  type SessionPolicyFormData = z.infer<typeof sessionPolicySchema>
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+  } = useForm<SessionPolicyFormData>({
+    resolver: zodResolver(sessionPolicySchema),
+    defaultValues: toFormValues(organization),
+  })
+
+  useEffect(() => {
+    reset(toFormValues(organization))
+  }, [organization, reset])
+
+  const onSubmit = async (data: SessionPolicyFormData) => {
+    try {
+      setIsSaving(true)
+      const updated = await organizationService.updateOrganization(organization.id, data)
+      onSaved(updated)
+      toast.success(intl.formatMessage({ id: 'organization.settings.saveSuccess' }))
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : intl.formatMessage({ id: 'organization.settings.saveError' })
+      toast.error(errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <div className="mb-6 rounded-lg border border-border bg-background-secondary">
+        <div className="border-b border-border px-6 py-4">
+          <h2 className="text-lg font-semibold text-foreground">
+            <FormattedMessage id="organization.settings.sessions.title" />
+          </h2>
+          <p className="mt-1 text-sm text-foreground-muted">
+            <FormattedMessage id="organization.settings.sessions.description" />
+          </p>
+        </div>
+
+        <div className="grid gap-6 p-6 md:grid-cols-3">
+          <FormInput
+            type="number"
+            min={1}
+            max={1440}
+            label={intl.formatMessage({ id: 'organization.settings.sessions.idleTimeout' })}
+            hint={intl.formatMessage({ id: 'organization.settings.sessions.idleTimeoutHint' })}
+            error={errors.session_idle_timeout?.message}
+            {...register('session_idle_timeout', { valueAsNumber: true })}
+          />
+          <FormInput
+            type="number"
+            min={1}
+            max={10080}
+            optional
+            placeholder={intl.formatMessage({ id: 'organization.settings.sessions.unlimited' })}
+            label={intl.formatMessage({ id: 'organization.settings.sessions.maxDuration' })}
+            hint={intl.formatMessage({ id: 'organization.settings.sessions.maxDurationHint' })}
+            error={errors.session_max_duration?.message}
+            {...register('session_max_duration', { setValueAs: optionalNumber })}
+          />
+          <FormInput
+            type="number"
+            min={5}
+            max={300}
+            label={intl.formatMessage({ id: 'organization.settings.sessions.keepalive' })}
+            hint={intl.formatMessage({ id: 'organization.settings.sessions.keepaliveHint' })}
+            error={errors.session_keepalive_interval?.message}
+            {...register('session_keepalive_interval', { valueAsNumber: true })}
+          />
+        </div>
+
+        <div className="flex justify-end gap-3 border-t border-border bg-background-tertiary/50 px-6 py-4">
+          <button
+            type="button"
+            onClick={() => reset(toFormValues(organization))}
+            disabled={!isDirty}
+            className="rounded-lg border border-border bg-background-secondary px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-background-tertiary disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:bg-background-secondary"
+          >
+            <FormattedMessage id="common.cancel" />
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !isDirty}
+            className="btn-primary disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSaving ? (
+              <FormattedMessage id="organization.settings.saving" />
+            ) : (
+              <FormattedMessage id="common.save" />
+            )}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
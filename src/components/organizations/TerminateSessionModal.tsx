@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { FormattedMessage, useIntl } from '@/lib/i18n'
+import { Button, Modal } from '@/components/ui'
+import type { OrganizationActiveSession } from '@/types/connection'
+
+interface TerminateSessionModalProps {
+  session: OrganizationActiveSession | null
+  onTerminate: (reason: string) => Promise<void>
+  onClose: () => void
+}
+
+export function TerminateSessionModal({
+  session,
+  onTerminate,
+  onClose,
+}: TerminateSessionModalProps) {
+  const intl = useIntl()
+  const [reason, setReason] = useState('')
+  const [isTerminating, setIsTerminating] = useState(false)
+
+  if (!session) return null
+
+  const handleClose = () => {
+    if (isTerminating) return
+    setReason('')
+    onClose()
+  }
+
+  const handleTerminate = async () => {
+    setIsTerminating(true)
+    try {
+      await onTerminate(reason.trim())
+      setReason('')
+    } finally {
+      setIsTerminating(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen
+      onClose={handleClose}
+      closeOnOverlayClick={!isTerminating}
+      closeOnEscape={!isTerminating}
+      title={intl.formatMessage({ id: 'organization.sessions.terminate.title' })}
+      size="md"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-foreground-muted">
+          <FormattedMessage
+            id="organization.sessions.terminate.description"
+            values={{
+              user: session.username || intl.formatMessage({ id: 'common.unknown' }),
+              connection: session.connection_name,
+            }}
+          />
+        </p>
+
+        <div>
+          <label
+            htmlFor="terminate-reason"
+            className="mb-2 block text-sm font-medium text-foreground"
+          >
+            <FormattedMessage id="organization.sessions.terminate.reason" />
+          </label>
+          <textarea
+            id="terminate-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            rows={3}
+            autoFocus
+            placeholder={intl.formatMessage({
+              id: 'organization.sessions.terminate.reasonPlaceholder',
+            })}
+            className="w-full rounded-lg border border-border bg-background-secondary px-3 py-2 text-sm text-foreground placeholder-foreground-muted focus:border-terminal-green focus:outline-none"
+          />
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={handleClose} disabled={isTerminating}>
+            <FormattedMessage id="common.cancel" />
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleTerminate}
+            disabled={isTerminating || !reason.trim()}
+            loading={isTerminating}
+          >
+            <FormattedMessage id="organization.sessions.terminate.confirm" />
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
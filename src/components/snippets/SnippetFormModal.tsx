@@ -0,0 +1,221 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { FormattedMessage, useIntl } from '@/lib/i18n'
+import { Button, Checkbox, Modal } from '@/components/ui'
+import { findPlaceholders, validateSnippet } from '@/lib/snippets/template'
+import { SNIPPET_PARAMETER_TYPES } from '@/types/snippet'
+import type {
+  CreateSnippetInput,
+  Snippet,
+  SnippetParameter,
+  SnippetParameterType,
+} from '@/types/snippet'
+
+interface SnippetFormModalProps {
+  // null creates a new snippet
+  snippet: Snippet | null
+  onSave: (input: CreateSnippetInput) => Promise<void>
+  onClose: () => void
+}
+
+const inputClass =
+  'w-full rounded-lg border border-border bg-background-secondary px-3 py-2 text-sm text-foreground placeholder-foreground-muted focus:border-terminal-green focus:outline-none'
+
+export function SnippetFormModal({ snippet, onSave, onClose }: SnippetFormModalProps) {
+  const intl = useIntl()
+  const [name, setName] = useState(snippet?.name ?? '')
+  const [description, setDescription] = useState(snippet?.description ?? '')
+  const [command, setCommand] = useState(snippet?.command ?? '')
+  const [isDangerous, setIsDangerous] = useState(snippet?.is_dangerous ?? false)
+  // Definitions by name; kept when a placeholder is removed so retyping it restores them
+  const [definitions, setDefinitions] = useState<Record<string, SnippetParameter>>(() =>
+    Object.fromEntries((snippet?.parameters ?? []).map((parameter) => [parameter.name, parameter]))
+  )
+  // Options as typed, so a trailing comma survives until the next value is entered
+  const [optionsText, setOptionsText] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  // Parameters follow the placeholders in the command, so the two never drift apart
+  const parameters = useMemo(
+    () =>
+      findPlaceholders(command).map(
+        (placeholder): SnippetParameter =>
+          definitions[placeholder] ?? { name: placeholder, type: 'text' }
+      ),
+    [command, definitions]
+  )
+  const invalid = validateSnippet(command, parameters)
+
+  const updateParameter = (parameter: SnippetParameter, changes: Partial<SnippetParameter>) => {
+    setDefinitions((prev) => ({ ...prev, [parameter.name]: { ...parameter, ...changes } }))
+  }
+
+  const handleSave = async () => {
+    if (!name.trim() || invalid) return
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim() || null,
+        command,
+        // Options only mean something for dropdowns
+        parameters: parameters.map(({ options, ...parameter }) =>
+          parameter.type === 'select' ? { ...parameter, options } : parameter
+        ),
+        is_dangerous: isDangerous,
+      })
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      closeOnOverlayClick={!isSaving}
+      title={intl.formatMessage({ id: snippet ? 'snippets.edit.title' : 'snippets.create.title' })}
+      size="xl"
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleSave()
+        }}
+        className="space-y-4"
+      >
+        <div>
+          <label htmlFor="snippet-name" className="mb-2 block text-sm font-medium text-foreground">
+            <FormattedMessage id="snippets.field.name" />
+          </label>
+          <input
+            id="snippet-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            autoFocus
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="snippet-description"
+            className="mb-2 block text-sm font-medium text-foreground"
+          >
+            <FormattedMessage id="snippets.field.description" />
+          </label>
+          <textarea
+            id="snippet-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="snippet-command"
+            className="mb-2 block text-sm font-medium text-foreground"
+          >
+            <FormattedMessage id="snippets.field.command" />
+          </label>
+          <textarea
+            id="snippet-command"
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            rows={4}
+            spellCheck={false}
+            placeholder="sudo systemctl restart {{service}}"
+            className={`${inputClass} font-mono`}
+          />
+          <p className="mt-1 text-xs text-foreground-muted">
+            <FormattedMessage id="snippets.field.commandHint" />
+          </p>
+        </div>
+
+        {parameters.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">
+              <FormattedMessage id="snippets.field.parameters" />
+            </p>
+            {parameters.map((parameter) => (
+              <div key={parameter.name} className="flex items-center gap-2">
+                <code className="w-32 shrink-0 truncate text-sm text-terminal-green">
+                  {`{{${parameter.name}}}`}
+                </code>
+                <select
+                  value={parameter.type}
+                  onChange={(e) =>
+                    updateParameter(parameter, { type: e.target.value as SnippetParameterType })
+                  }
+                  className="rounded-lg border border-border bg-background-secondary px-2 py-2 text-sm text-foreground focus:outline-none"
+                >
+                  {SNIPPET_PARAMETER_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {intl.formatMessage({ id: `snippets.parameterType.${type}` })}
+                    </option>
+                  ))}
+                </select>
+                {parameter.type === 'select' ? (
+                  <input
+                    type="text"
+                    value={optionsText[parameter.name] ?? parameter.options?.join(', ') ?? ''}
+                    onChange={(e) => {
+                      const text = e.target.value
+                      setOptionsText((prev) => ({ ...prev, [parameter.name]: text }))
+                      updateParameter(parameter, {
+                        options: text
+                          .split(',')
+                          .map((option) => option.trim())
+                          .filter(Boolean),
+                      })
+                    }}
+                    placeholder={intl.formatMessage({ id: 'snippets.field.options' })}
+                    className={inputClass}
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={parameter.defaultValue ?? ''}
+                    onChange={(e) =>
+                      updateParameter(parameter, { defaultValue: e.target.value || undefined })
+                    }
+                    placeholder={intl.formatMessage({ id: 'snippets.field.defaultValue' })}
+                    className={inputClass}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Checkbox
+          id="snippet-dangerous"
+          checked={isDangerous}
+          onChange={(e) => setIsDangerous(e.target.checked)}
+          label={intl.formatMessage({ id: 'snippets.field.dangerous' })}
+        />
+
+        {command.trim() && invalid && <p className="text-sm text-red-500">{invalid}</p>}
+        {saveError && <p className="text-sm text-red-500">{saveError}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+            <FormattedMessage id="common.cancel" />
+          </Button>
+          <Button type="submit" disabled={!name.trim() || !!invalid || isSaving} loading={isSaving}>
+            <FormattedMessage id="common.save" />
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useConfirmation } from '@/hooks/useConfirmation'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { snippetService } from '@/lib/snippets/snippet.service'
+import { renderSnippet } from '@/lib/snippets/template'
+import type { Snippet, SnippetParameter, SnippetRunResult } from '@/types/snippet'
+
+interface SnippetRunnerProps {
+  connectionId: string
+  projectId: string
+  sessionToken: string
+}
+
+interface SnippetRun {
+  id: number
+  snippet: string
+  result: SnippetRunResult | null
+  error: string | null
+}
+
+const inputClass =
+  'w-full rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green'
+
+function initialValues(parameters: SnippetParameter[]): Record<string, string> {
+  return Object.fromEntries(
+    parameters.map((parameter) => [
+      parameter.name,
+      parameter.defaultValue ?? (parameter.type === 'select' ? (parameter.options?.[0] ?? '') : ''),
+    ])
+  )
+}
+
+export function SnippetRunner({ connectionId, projectId, sessionToken }: SnippetRunnerProps) {
+  const intl = useIntl()
+  const { confirm, ConfirmationModal } = useConfirmation()
+
+  const [snippets, setSnippets] = useState<Snippet[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<Snippet | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [runs, setRuns] = useState<SnippetRun[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+
+  const loadSnippets = useCallback(async () => {
+    try {
+      setSnippets(await snippetService.getProjectSnippets(projectId))
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load snippets:', err)
+      setError(intl.formatMessage({ id: 'snippets.error.loadFailed' }))
+    }
+  }, [projectId, intl])
+
+  useEffect(() => {
+    loadSnippets()
+  }, [loadSnippets])
+
+  const selectSnippet = (snippet: Snippet) => {
+    setSelected(snippet)
+    setValues(initialValues(snippet.parameters))
+  }
+
+  // The same quoting the server applies, so what is shown is what runs
+  let preview: string | null = null
+  let previewError: string | null = null
+  if (selected) {
+    try {
+      preview = renderSnippet(selected.command, selected.parameters, values).toString()
+    } catch (err) {
+      previewError = err instanceof Error ? err.message : String(err)
+    }
+  }
+
+  const execute = async (snippet: Snippet) => {
+    const id = Date.now()
+    setRuns((prev) => [{ id, snippet: snippet.name, result: null, error: null }, ...prev])
+    setIsRunning(true)
+    try {
+      const result = await snippetService.runSnippet(
+        connectionId,
+        sessionToken,
+        snippet.id,
+        values,
+        snippet.is_dangerous
+      )
+      setRuns((prev) => prev.map((run) => (run.id === id ? { ...run, result } : run)))
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err)
+      setRuns((prev) => prev.map((run) => (run.id === id ? { ...run, error } : run)))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleRun = () => {
+    if (!selected || !preview || isRunning) return
+    if (!selected.is_dangerous) {
+      execute(selected)
+      return
+    }
+
+    const snippet = selected
+    confirm({
+      title: intl.formatMessage({ id: 'snippets.run.dangerousTitle' }, { name: snippet.name }),
+      message: intl.formatMessage({ id: 'snippets.run.dangerousMessage' }, { command: preview }),
+      confirmText: intl.formatMessage({ id: 'snippets.run.button' }),
+      cancelText: intl.formatMessage({ id: 'common.cancel' }),
+      variant: 'danger',
+      onConfirm: () => execute(snippet),
+    })
+  }
+
+  return (
+    <div className="flex h-full">
+      {/* Snippet list */}
+      <div className="w-72 shrink-0 overflow-auto border-r border-border bg-background-secondary">
+        {error && <p className="p-4 text-sm text-red-500">{error}</p>}
+        {!snippets ? (
+          !error && (
+            <p className="p-4 text-sm text-foreground-muted">
+              <FormattedMessage id="common.loading" />
+            </p>
+          )
+        ) : snippets.length === 0 ? (
+          <p className="p-4 text-sm text-foreground-muted">
+            <FormattedMessage id="snippets.empty" />
+          </p>
+        ) : (
+          snippets.map((snippet) => (
+            <button
+              key={snippet.id}
+              onClick={() => selectSnippet(snippet)}
+              className={`block w-full border-b border-border px-4 py-3 text-left text-sm hover:bg-background-tertiary ${
+                snippet.id === selected?.id ? 'bg-background-tertiary' : ''
+              }`}
+            >
+              <span className="flex items-center gap-2 font-medium text-foreground">
+                <span className="truncate">{snippet.name}</span>
+                {snippet.is_dangerous && (
+                  <span className="shrink-0 rounded bg-red-500/10 px-1.5 text-xs text-red-500">
+                    <FormattedMessage id="snippets.dangerous" />
+                  </span>
+                )}
+              </span>
+              {snippet.description && (
+                <span className="mt-0.5 line-clamp-2 text-xs text-foreground-muted">
+                  {snippet.description}
+                </span>
+              )}
+            </button>
+          ))
+        )}
+      </div>
+
+      <div className="flex min-w-0 flex-1 flex-col">
+        {selected ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleRun()
+            }}
+            className="space-y-3 border-b border-border p-6"
+          >
+            <div>
+              <h2 className="font-medium text-foreground">{selected.name}</h2>
+              {selected.description && (
+                <p className="mt-1 text-sm text-foreground-muted">{selected.description}</p>
+              )}
+            </div>
+
+            {selected.parameters.map((parameter) => (
+              <label key={parameter.name} className="flex items-center gap-3 text-sm">
+                <code className="w-32 shrink-0 truncate text-terminal-green">{parameter.name}</code>
+                {parameter.type === 'select' ? (
+                  <select
+                    value={values[parameter.name] ?? ''}
+                    onChange={(e) => setValues({ ...values, [parameter.name]: e.target.value })}
+                    className={inputClass}
+                  >
+                    {parameter.options?.map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type={parameter.type === 'number' ? 'number' : 'text'}
+                    value={values[parameter.name] ?? ''}
+                    onChange={(e) => setValues({ ...values, [parameter.name]: e.target.value })}
+                    className={`${inputClass} font-mono`}
+                  />
+                )}
+              </label>
+            ))}
+
+            <pre className="whitespace-pre-wrap break-all rounded bg-background-secondary p-3 font-mono text-xs text-foreground">
+              {preview ?? <span className="text-red-500">{previewError}</span>}
+            </pre>
+
+            <button
+              type="submit"
+              disabled={!preview || isRunning}
+              className={`rounded-lg px-3 py-1.5 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                selected.is_dangerous
+                  ? 'bg-red-500 text-white hover:bg-red-600'
+                  : 'hover:bg-terminal-green-hover bg-terminal-green text-background'
+              }`}
+            >
+              <FormattedMessage id={isRunning ? 'common.processing' : 'snippets.run.button'} />
+            </button>
+          </form>
+        ) : (
+          <p className="p-6 text-sm text-foreground-muted">
+            <FormattedMessage id="snippets.run.select" />
+          </p>
+        )}
+
+        {/* Output of this page's runs, newest first */}
+        <div className="flex-1 space-y-4 overflow-auto bg-background p-6 font-mono text-xs">
+          {runs.map((run) => (
+            <div key={run.id}>
+              <p className="font-sans text-sm font-medium text-foreground">{run.snippet}</p>
+              {run.error ? (
+                <p className="text-red-500">{run.error}</p>
+              ) : !run.result ? (
+                <p className="text-foreground-muted">
+                  <FormattedMessage id="common.processing" />
+                </p>
+              ) : (
+                <>
+                  <p className="text-terminal-green">$ {run.result.command}</p>
+                  <pre className="whitespace-pre-wrap break-all text-foreground">
+                    {run.result.stdout}
+                  </pre>
+                  <pre className="whitespace-pre-wrap break-all text-red-400">
+                    {run.result.stderr}
+                  </pre>
+                  <p className={run.result.code === 0 ? 'text-foreground-muted' : 'text-red-500'}>
+                    <FormattedMessage
+                      id="snippets.run.exitCode"
+                      values={{ code: run.result.code }}
+                    />
+                  </p>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <ConfirmationModal />
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useRef, Suspense, lazy } from 'react'
 import { FileList } from './FileList'
 import { FileEditor } from './FileEditor'
+import { LogTailViewer } from './LogTailViewer'
 import { FileBrowserToolbar } from './FileBrowserToolbar'
 import { FileContextMenu } from './FileContextMenu'
 import { useConfirmation } from '@/hooks/useConfirmation'
@@ -24,6 +25,9 @@ const CreateFileModal = lazy(() =>
 const CreateFolderModal = lazy(() =>
   import('./CreateFolderModal').then((m) => ({ default: m.CreateFolderModal }))
 )
+const CreateSymlinkModal = lazy(() =>
+  import('./CreateSymlinkModal').then((m) => ({ default: m.CreateSymlinkModal }))
+)
 const RenameModal = lazy(() => import('./RenameModal').then((m) => ({ default: m.RenameModal })))
 const FilePermissionsModal = lazy(() =>
   import('./FilePermissionsModal').then((m) => ({ default: m.FilePermissionsModal }))
@@ -40,8 +44,12 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
   const [files, setFiles] = useState<FileInfo[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [editingFile, setEditingFile] = useState<FileInfo | null>(null)
+  // Line to scroll to when the editor was opened from a content search match
+  const [editingLine, setEditingLine] = useState<number | undefined>(undefined)
+  const [tailingFile, setTailingFile] = useState<FileInfo | null>(null)
   const [showCreateFile, setShowCreateFile] = useState(false)
   const [showCreateFolder, setShowCreateFolder] = useState(false)
+  const [showCreateSymlink, setShowCreateSymlink] = useState(false)
   const [renameFile, setRenameFile] = useState<FileInfo | null>(null)
   const [permissionsFile, setPermissionsFile] = useState<FileInfo | null>(null)
   const [viewMode, setViewMode] = useState<'list' | 'grid'>('list')
@@ -60,6 +68,7 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
     onDisconnectRef.current = onDisconnect
   }, [onDisconnect])
   const { confirm, ConfirmationModal } = useConfirmation()
+  const { confirm: confirmProtected, ConfirmationModal: ProtectedDeleteModal } = useConfirmation()
 
   // Custom hooks
   const { currentPath, navigate, goBack, goForward, goUp, canGoBack, canGoForward } =
@@ -123,13 +132,40 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
   // File action handlers
   const handleFileDoubleClick = useCallback(
     (file: FileInfo) => {
-      if (file.type === 'directory') {
+      if (file.isBrokenLink) {
+        toast.error(
+          intl.formatMessage({ id: 'fileList.brokenLink' }, { target: file.linkTarget ?? '' })
+        )
+      } else if (file.type === 'directory' || file.linkTargetType === 'directory') {
+        // Keep the link's own path so breadcrumbs read like `cd` through a symlink
         navigate(file.path)
       } else {
         setEditingFile(file)
       }
     },
-    [navigate]
+    [navigate, toast, intl]
+  )
+
+  // System roots and the home directory are skipped by the server until confirmed separately
+  const deletePaths = useCallback(
+    async (paths: string[]) => {
+      const protectedPaths = await fileOps.deleteFiles(paths)
+      if (protectedPaths.length === 0) return
+
+      confirmProtected({
+        title: intl.formatMessage({ id: 'files.delete.protected.title' }),
+        message: intl.formatMessage(
+          { id: 'files.delete.protected.message' },
+          { paths: protectedPaths.join(', ') }
+        ),
+        confirmText: intl.formatMessage({ id: 'common.delete' }),
+        variant: 'danger',
+        onConfirm: async () => {
+          await fileOps.deleteFiles(protectedPaths, { confirmDangerous: true })
+        },
+      })
+    },
+    [fileOps, confirmProtected, intl]
   )
 
   const handleDeleteFiles = useCallback(async () => {
@@ -144,10 +180,10 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
       confirmText: intl.formatMessage({ id: 'common.delete' }),
       variant: 'danger',
       onConfirm: async () => {
-        await fileOps.deleteFiles(Array.from(selectedFiles))
+        await deletePaths(Array.from(selectedFiles))
       },
     })
-  }, [selectedFiles, confirm, intl, fileOps])
+  }, [selectedFiles, confirm, intl, deletePaths])
 
   const handleCreateFile = useCallback(
     async (name: string, content: string = '') => {
@@ -165,34 +201,12 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
     [currentPath, fileOps]
   )
 
-  const handleFileUpload = useCallback(
-    async (uploadedFiles: FileList) => {
-      try {
-        const uploadPromises = Array.from(uploadedFiles).map(async (file) => {
-          const formData = new FormData()
-          formData.append('file', file)
-          formData.append('path', currentPath)
-
-          const response = await fetch(`/api/connections/${connectionId}/files/upload`, {
-            method: 'POST',
-            headers: { 'x-session-token': sessionToken },
-            credentials: 'include',
-            body: formData,
-          })
-
-          if (!response.ok) {
-            throw new Error(`Failed to upload ${file.name}`)
-          }
-        })
-
-        await Promise.all(uploadPromises)
-        toast.success(intl.formatMessage({ id: 'files.upload.success' }))
-        loadFiles()
-      } catch (error) {
-        toast.error(intl.formatMessage({ id: 'files.upload.error' }))
-      }
+  const handleCreateSymlink = useCallback(
+    async (name: string, target: string) => {
+      const linkPath = currentPath.endsWith('/') ? currentPath + name : currentPath + '/' + name
+      await fileOps.createSymlink(linkPath, target)
     },
-    [currentPath, connectionId, sessionToken, loadFiles]
+    [currentPath, fileOps]
   )
 
   // Clipboard operation handlers
@@ -274,6 +288,21 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
     [navigate, handleFileSelect]
   )
 
+  const handleSearchMatch = useCallback(
+    (file: { path: string; name: string; size?: number }, line: number) => {
+      setEditingLine(line)
+      setEditingFile({
+        path: file.path,
+        name: file.name,
+        type: 'file',
+        size: file.size ?? 0,
+        permissions: '',
+        mtime: '',
+      })
+    },
+    []
+  )
+
   // Keyboard shortcuts
   useKeyboardShortcuts([
     { key: 'Delete', handler: handleDeleteFiles, enabled: selectedFiles.size > 0 },
@@ -299,15 +328,31 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
         connectionId={connectionId}
         file={editingFile}
         sessionToken={sessionToken}
-        onClose={() => setEditingFile(null)}
+        initialLine={editingLine}
+        onClose={() => {
+          setEditingFile(null)
+          setEditingLine(undefined)
+        }}
         onSave={() => {
           setEditingFile(null)
+          setEditingLine(undefined)
           loadFiles()
         }}
       />
     )
   }
 
+  if (tailingFile) {
+    return (
+      <LogTailViewer
+        connectionId={connectionId}
+        file={tailingFile}
+        sessionToken={sessionToken}
+        onClose={() => setTailingFile(null)}
+      />
+    )
+  }
+
   // Loading state
   if (!sessionToken) {
     return (
@@ -340,7 +385,7 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
         onViewModeChange={setViewMode}
         onCreateFile={() => setShowCreateFile(true)}
         onCreateFolder={() => setShowCreateFolder(true)}
-        onUpload={handleFileUpload}
+        onCreateSymlink={() => setShowCreateSymlink(true)}
         onDownload={() => fileOps.downloadFiles(files, selectedFiles)}
         onDelete={handleDeleteFiles}
         onPermissions={() => {
@@ -353,6 +398,7 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
         onRefresh={loadFiles}
         onDisconnect={onDisconnect}
         onSearch={handleSearchSelect}
+        onSearchMatch={handleSearchMatch}
         connectionId={connectionId}
         sessionToken={sessionToken}
       />
@@ -367,8 +413,9 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
           onFileSelect={handleFileSelect}
           onFileDoubleClick={handleFileDoubleClick}
           onRename={(file) => setRenameFile(file)}
-          onDelete={(filesToDelete) => fileOps.deleteFiles(filesToDelete.map((f) => f.path))}
+          onDelete={(filesToDelete) => deletePaths(filesToDelete.map((f) => f.path))}
           onPermissions={(file) => setPermissionsFile(file)}
+          onMove={(filesToMove, destination) => fileOps.moveFiles(filesToMove, destination)}
         />
       </div>
 
@@ -378,6 +425,13 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
           <CreateFileModal onClose={() => setShowCreateFile(false)} onCreate={handleCreateFile} />
         )}
 
+        {showCreateSymlink && (
+          <CreateSymlinkModal
+            onClose={() => setShowCreateSymlink(false)}
+            onCreate={handleCreateSymlink}
+          />
+        )}
+
         {showCreateFolder && (
           <CreateFolderModal
             onClose={() => setShowCreateFolder(false)}
@@ -445,9 +499,16 @@ export function FileBrowser({ connectionId, sessionToken, onDisconnect }: FileBr
           }
           closeContextMenu()
         }}
+        onTail={() => {
+          if (selectedItems.length === 1 && selectedItems[0].type === 'file') {
+            setTailingFile(selectedItems[0])
+          }
+          closeContextMenu()
+        }}
       />
 
       <ConfirmationModal />
+      <ProtectedDeleteModal />
     </div>
   )
 }
@@ -31,7 +31,7 @@ interface FileBrowserToolbarProps {
   onViewModeChange: (mode: 'list' | 'grid') => void
   onCreateFile: () => void
   onCreateFolder: () => void
-  onUpload: (files: FileList) => Promise<void>
+  onCreateSymlink: () => void
   onDownload: () => void
   onDelete: () => void
   onPermissions: () => void
@@ -39,6 +39,7 @@ interface FileBrowserToolbarProps {
   onRefresh: () => void
   onDisconnect: () => void
   onSearch: (file: { path: string; name: string; type: string }) => void
+  onSearchMatch: (file: { path: string; name: string; size?: number }, line: number) => void
 }
 
 export function FileBrowserToolbar({
@@ -57,7 +58,7 @@ export function FileBrowserToolbar({
   onViewModeChange,
   onCreateFile,
   onCreateFolder,
-  onUpload,
+  onCreateSymlink,
   onDownload,
   onDelete,
   onPermissions,
@@ -65,6 +66,7 @@ export function FileBrowserToolbar({
   onRefresh,
   onDisconnect,
   onSearch,
+  onSearchMatch,
 }: FileBrowserToolbarProps) {
   const intl = useIntl()
   const [showCreateDropdown, setShowCreateDropdown] = useState(false)
@@ -162,6 +164,7 @@ export function FileBrowserToolbar({
             sessionToken={sessionToken}
             currentPath={currentPath}
             onFileSelect={onSearch}
+            onMatchSelect={onSearchMatch}
           />
 
           {/* View mode toggle */}
@@ -268,12 +271,34 @@ export function FileBrowserToolbar({
                     </svg>
                     <FormattedMessage id="files.create.folder" />
                   </button>
+                  <button
+                    onClick={() => {
+                      onCreateSymlink()
+                      setShowCreateDropdown(false)
+                    }}
+                    className="flex w-full items-center gap-2 px-3 py-2 text-sm text-foreground hover:bg-background-tertiary"
+                  >
+                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
+                      />
+                    </svg>
+                    <FormattedMessage id="files.create.symlink" />
+                  </button>
                 </div>
               )}
             </div>
 
             {/* Upload button */}
-            <FileUpload onUpload={onUpload} onComplete={onRefresh} currentPath={currentPath} />
+            <FileUpload
+              connectionId={connectionId}
+              sessionToken={sessionToken}
+              onComplete={onRefresh}
+              currentPath={currentPath}
+            />
           </div>
 
           {/* Disconnect button */}
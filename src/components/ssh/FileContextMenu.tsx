@@ -32,6 +32,7 @@ interface FileContextMenuProps {
   onDownload: () => void
   onPermissions: () => void
   onEdit?: () => void
+  onTail?: () => void
 }
 
 export function FileContextMenu({
@@ -50,6 +51,7 @@ export function FileContextMenu({
   onDownload,
   onPermissions,
   onEdit,
+  onTail,
 }: FileContextMenuProps) {
   const intl = useIntl()
   const menuRef = useRef<HTMLDivElement>(null)
@@ -100,6 +102,21 @@ export function FileContextMenu({
         ]
       : []),
 
+    // Follow a growing file such as a log
+    ...(canEdit && onTail
+      ? [
+          {
+            key: 'tail',
+            label: <FormattedMessage id="fileBrowser.tail" />,
+            icon: '📜',
+            onClick: () => {
+              onTail()
+              onClose()
+            },
+          },
+        ]
+      : []),
+
     // Copy
     {
       key: 'copy',
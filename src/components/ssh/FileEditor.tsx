@@ -4,6 +4,7 @@ import { useState, useEffect, useRef, useCallback } from 'react'
 import { useToast } from '@/components/ui/ToastContext'
 import { useIntl, FormattedMessage } from '@/lib/i18n'
 import type { FileInfo } from '@/types/ssh'
+import { getFileDownloadUrl, triggerDownload } from '@/lib/utils/file'
 
 interface FileEditorProps {
   connectionId: string
@@ -11,6 +12,8 @@ interface FileEditorProps {
   sessionToken: string
   onClose: () => void
   onSave: () => void
+  // 1-based line to select and scroll to once the content has loaded
+  initialLine?: number
 }
 
 interface ErrorState {
@@ -20,7 +23,14 @@ interface ErrorState {
 
 type FileType = 'text' | 'image' | 'video' | 'pdf' | 'binary'
 
-export function FileEditor({ connectionId, file, sessionToken, onClose, onSave }: FileEditorProps) {
+export function FileEditor({
+  connectionId,
+  file,
+  sessionToken,
+  onClose,
+  onSave,
+  initialLine,
+}: FileEditorProps) {
   const intl = useIntl()
   const [content, setContent] = useState('')
   const [originalContent, setOriginalContent] = useState('')
@@ -37,6 +47,8 @@ export function FileEditor({ connectionId, file, sessionToken, onClose, onSave }
   const lastToastMessage = useRef<string>('')
   const mediaUrlRef = useRef<string | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const scrolledToLineRef = useRef(false)
 
   // Helper to determine file type
   const getFileType = (filename: string): FileType => {
@@ -96,6 +108,9 @@ export function FileEditor({ connectionId, file, sessionToken, onClose, onSave }
     // Check if filename has no extension but might be text
     if (!ext && filename.startsWith('.')) return 'text'
 
+    // Content search only matches text files, whatever their name
+    if (initialLine !== undefined) return 'text'
+
     return 'binary'
   }
 
@@ -137,6 +152,23 @@ export function FileEditor({ connectionId, file, sessionToken, onClose, onSave }
     setHasChanges(content !== originalContent)
   }, [content, originalContent])
 
+  // Select the requested line once, after the file has loaded
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (!initialLine || isLoading || !textarea || scrolledToLineRef.current) return
+    scrolledToLineRef.current = true
+
+    const lines = content.split('\n')
+    const index = Math.min(initialLine, lines.length) - 1
+    const start = lines.slice(0, index).reduce((offset, line) => offset + line.length + 1, 0)
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20
+
+    textarea.focus()
+    textarea.setSelectionRange(start, start + lines[index].length)
+    // Leave a few lines of context above the match
+    textarea.scrollTop = Math.max(0, (index - 5) * lineHeight)
+  }, [initialLine, isLoading, content])
+
   // Save file function
   const saveFile = useCallback(async () => {
     if (fileType !== 'text') return
@@ -205,29 +237,7 @@ export function FileEditor({ connectionId, file, sessionToken, onClose, onSave }
     try {
       setIsDownloading(true)
 
-      const response = await fetch(
-        `/api/connections/${connectionId}/files/download?path=${encodeURIComponent(file.path)}`,
-        {
-          headers: {
-            'x-session-token': sessionToken,
-          },
-          credentials: 'include',
-        }
-      )
-
-      if (!response.ok) {
-        throw new Error(intl.formatMessage({ id: 'fileEditor.error.download' }))
-      }
-
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = file.name
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
+      triggerDownload(await getFileDownloadUrl(connectionId, sessionToken, file.path), file.name)
 
       showToast(intl.formatMessage({ id: 'fileEditor.download.success' }), 'success')
     } catch (error) {
@@ -307,6 +317,14 @@ export function FileEditor({ connectionId, file, sessionToken, onClose, onSave }
             mediaUrlRef.current = null
           }
 
+          if (type === 'video') {
+            // Let the <video> element stream with Range requests so seeking works
+            setMediaUrl(
+              await getFileDownloadUrl(connectionId, sessionToken, file.path, { inline: true })
+            )
+            return
+          }
+
           const response = await fetch(
             `/api/connections/${connectionId}/files/download?path=${encodeURIComponent(file.path)}`,
             {
@@ -427,7 +445,11 @@ export function FileEditor({ connectionId, file, sessionToken, onClose, onSave }
           const data = await response.text()
           setContent(data)
           setOriginalContent(data)
-        } else if (type === 'image' || type === 'video' || type === 'pdf') {
+        } else if (type === 'video') {
+          setMediaUrl(
+              await getFileDownloadUrl(connectionId, sessionToken, file.path, { inline: true })
+            )
+        } else if (type === 'image' || type === 'pdf') {
           const response = await fetch(
             `/api/connections/${connectionId}/files/download?path=${encodeURIComponent(file.path)}`,
             {
@@ -718,6 +740,7 @@ export function FileEditor({ connectionId, file, sessionToken, onClose, onSave }
       <div className="relative flex-1 overflow-auto">
         {fileType === 'text' ? (
           <textarea
+            ref={textareaRef}
             value={content}
             onChange={(e) => setContent(e.target.value)}
             className="absolute inset-0 h-full w-full resize-none border-none bg-background p-4 font-mono text-sm text-foreground outline-none focus:outline-none"
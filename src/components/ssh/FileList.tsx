@@ -15,8 +15,12 @@ interface FileListProps {
   onRename?: (file: FileInfo) => void
   onDelete?: (files: FileInfo[]) => void
   onPermissions?: (file: FileInfo) => void
+  onMove?: (files: FileInfo[], destinationPath: string) => void
 }
 
+// Drag payload type, so drops from outside the list (e.g. desktop files) are ignored
+const DRAG_MIME_TYPE = 'application/x-connectix-paths'
+
 export function FileList({
   files,
   isLoading = false,
@@ -27,9 +31,13 @@ export function FileList({
   onRename,
   onDelete,
   onPermissions,
+  onMove,
 }: FileListProps) {
   const intl = useIntl()
-  const [sortBy, setSortBy] = useState<'name' | 'size' | 'modified' | 'permissions'>('name')
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [sortBy, setSortBy] = useState<'name' | 'size' | 'modified' | 'permissions' | 'owner'>(
+    'name'
+  )
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
 
   // Safety check: ensure files is always an array
@@ -66,6 +74,9 @@ export function FileList({
       case 'permissions':
         comparison = (a.permissions || '').localeCompare(b.permissions || '')
         break
+      case 'owner':
+        comparison = `${a.owner}:${a.group}`.localeCompare(`${b.owner}:${b.group}`)
+        break
     }
 
     return sortOrder === 'asc' ? comparison : -comparison
@@ -112,6 +123,57 @@ export function FileList({
     onFileSelect(filePath, !selectedFiles.has(filePath))
   }
 
+  // Dragging a selected item moves the whole selection; directories are drop targets
+  const getDragProps = (file: FileInfo) => {
+    if (!onMove) return {}
+
+    return {
+      draggable: true,
+      onDragStart: (e: React.DragEvent) => {
+        const paths = selectedFiles.has(file.path) ? Array.from(selectedFiles) : [file.path]
+        e.dataTransfer.setData(DRAG_MIME_TYPE, JSON.stringify(paths))
+        e.dataTransfer.effectAllowed = 'move'
+      },
+      ...(file.type === 'directory' && {
+        onDragOver: (e: React.DragEvent) => {
+          if (!e.dataTransfer.types.includes(DRAG_MIME_TYPE)) return
+          e.preventDefault()
+          e.dataTransfer.dropEffect = 'move'
+          setDropTarget(file.path)
+        },
+        onDragLeave: () => setDropTarget((current) => (current === file.path ? null : current)),
+        onDrop: (e: React.DragEvent) => {
+          e.preventDefault()
+          setDropTarget(null)
+
+          const paths: string[] = JSON.parse(e.dataTransfer.getData(DRAG_MIME_TYPE) || '[]')
+          const moving = safeFiles.filter((f) => paths.includes(f.path) && f.path !== file.path)
+          if (moving.length > 0) onMove(moving, file.path)
+        },
+      }),
+    }
+  }
+
+  const renderLinkTarget = (file: FileInfo) => {
+    if (file.type !== 'symlink') return null
+
+    return (
+      <span
+        className={`truncate font-mono text-xs ${
+          file.isBrokenLink ? 'text-red-500' : 'text-foreground-muted'
+        }`}
+        title={
+          file.isBrokenLink
+            ? intl.formatMessage({ id: 'fileList.brokenLink' }, { target: file.linkTarget ?? '' })
+            : file.linkResolvedPath
+        }
+      >
+        → {file.linkTarget ?? '?'}
+        {file.isBrokenLink && ` (${intl.formatMessage({ id: 'fileList.brokenLinkBadge' })})`}
+      </span>
+    )
+  }
+
   const handleCheckboxClick = (e: React.MouseEvent<HTMLInputElement>, filePath: string) => {
     e.stopPropagation()
     if (onFileSelect) {
@@ -207,6 +269,15 @@ export function FileList({
                     {sortBy === 'permissions' && <span>{sortOrder === 'asc' ? '↑' : '↓'}</span>}
                   </button>
                 </th>
+                <th className="px-4 py-3 text-left">
+                  <button
+                    onClick={() => handleSort('owner')}
+                    className="flex items-center gap-1 text-sm font-medium text-foreground hover:text-terminal-green"
+                  >
+                    <FormattedMessage id="fileList.column.owner" />
+                    {sortBy === 'owner' && <span>{sortOrder === 'asc' ? '↑' : '↓'}</span>}
+                  </button>
+                </th>
                 <th className="px-4 py-3 text-left">
                   <button
                     onClick={() => handleSort('modified')}
@@ -231,9 +302,10 @@ export function FileList({
                   <tr
                     key={file.path}
                     onClick={() => handleFileAction(file, 'open')}
+                    {...getDragProps(file)}
                     className={`cursor-pointer border-b border-border hover:bg-background-secondary ${
                       isSelected ? 'bg-terminal-green/10' : ''
-                    }`}
+                    } ${dropTarget === file.path ? 'outline outline-2 outline-terminal-green' : ''}`}
                   >
                     {onFileSelect && (
                       <td className="px-4 py-3">
@@ -250,17 +322,26 @@ export function FileList({
                       <div className="flex items-center gap-3">
                         <span className="text-lg">{getFileIcon(file)}</span>
                         <span className="font-medium text-foreground">{file.name}</span>
+                        {renderLinkTarget(file)}
                       </div>
                     </td>
                     <td className="px-4 py-3 text-sm text-foreground-muted">
-                      {file.type === 'directory' ? '-' : formatFileSize(file.size)}
+                      {file.type === 'directory' || file.linkTargetType === 'directory'
+                        ? '-'
+                        : formatFileSize(file.size)}
                     </td>
                     <td className="px-4 py-3">
                       <code className="font-mono text-xs text-foreground-muted">
-                        {file.type === 'directory' ? 'd' : '-'}
+                        {file.type === 'directory' ? 'd' : file.type === 'symlink' ? 'l' : '-'}
                         {file.permissions}
                       </code>
                     </td>
+                    <td
+                      className="px-4 py-3 font-mono text-xs text-foreground-muted"
+                      title={`uid ${file.uid ?? '?'}, gid ${file.gid ?? '?'}`}
+                    >
+                      {file.owner}:{file.group}
+                    </td>
                     <td className="px-4 py-3 text-sm text-foreground-muted">
                       {formatDate(file.mtime)}
                     </td>
@@ -309,9 +390,10 @@ export function FileList({
                 <div
                   key={file.path}
                   onClick={() => handleFileAction(file, 'open')}
+                  {...getDragProps(file)}
                   className={`group relative cursor-pointer rounded-lg border border-border p-3 hover:bg-background-secondary ${
                     isSelected ? 'border-terminal-green/30 bg-terminal-green/10' : ''
-                  }`}
+                  } ${dropTarget === file.path ? 'border-terminal-green' : ''}`}
                 >
                   {onFileSelect && (
                     <input
@@ -328,6 +410,11 @@ export function FileList({
                     <div className="mb-1 truncate text-sm font-medium text-foreground">
                       {file.name}
                     </div>
+                    {file.type === 'symlink' && (
+                      <div className="mb-1 flex max-w-full justify-center">
+                        {renderLinkTarget(file)}
+                      </div>
+                    )}
                     <div className="text-xs text-foreground-muted">
                       {file.type === 'directory'
                         ? intl.formatMessage({ id: 'fileList.folder' })
@@ -336,6 +423,9 @@ export function FileList({
                     <div className="mt-1 font-mono text-xs text-foreground-subtle">
                       {file.permissions}
                     </div>
+                    <div className="truncate font-mono text-xs text-foreground-subtle">
+                      {file.owner}:{file.group}
+                    </div>
                   </div>
 
                   {/* Action buttons on hover */}
@@ -3,7 +3,12 @@
 import { useState, useEffect, useRef } from 'react'
 import { useIntl, FormattedMessage } from '@/lib/i18n'
 import { useToast } from '@/components/ui/ToastContext'
-import type { FileInfo } from '@/types/ssh'
+import type {
+  AttributeChangeProgress,
+  AttributeChangeResult,
+  FileInfo,
+  OwnershipOptions,
+} from '@/types/ssh'
 
 interface FilePermissionsModalProps {
   file: FileInfo | null
@@ -19,6 +24,51 @@ interface PermissionSet {
   execute: boolean
 }
 
+interface SpecialBits {
+  setuid: boolean
+  setgid: boolean
+  sticky: boolean
+}
+
+const DEFAULT_FILE_MODE = '644'
+
+type Permissions = {
+  owner: PermissionSet
+  group: PermissionSet
+  other: PermissionSet
+  special: SpecialBits
+}
+
+function modeToPermissions(mode: number): Permissions {
+  const octalToSet = (num: number): PermissionSet => ({
+    read: (num & 4) !== 0,
+    write: (num & 2) !== 0,
+    execute: (num & 1) !== 0,
+  })
+
+  return {
+    owner: octalToSet((mode >> 6) & 7),
+    group: octalToSet((mode >> 3) & 7),
+    other: octalToSet(mode & 7),
+    special: {
+      setuid: (mode & 0o4000) !== 0,
+      setgid: (mode & 0o2000) !== 0,
+      sticky: (mode & 0o1000) !== 0,
+    },
+  }
+}
+
+// Three digits normally, four when any special bit is set (e.g. 2775)
+function calculateOctal(perms: Permissions): string {
+  const setToOctal = (set: PermissionSet): number =>
+    (set.read ? 4 : 0) + (set.write ? 2 : 0) + (set.execute ? 1 : 0)
+  const special =
+    (perms.special.setuid ? 4 : 0) + (perms.special.setgid ? 2 : 0) + (perms.special.sticky ? 1 : 0)
+  const base = `${setToOctal(perms.owner)}${setToOctal(perms.group)}${setToOctal(perms.other)}`
+
+  return special ? `${special}${base}` : base
+}
+
 export function FilePermissionsModal({
   file,
   connectionId,
@@ -32,56 +82,57 @@ export function FilePermissionsModal({
   const modalRef = useRef<HTMLDivElement>(null)
   const previousActiveElement = useRef<HTMLElement | null>(null)
 
-  // Parse current permissions from the file
-  const parsePermissions = (
-    permissions: string
-  ): { owner: PermissionSet; group: PermissionSet; other: PermissionSet } => {
-    if (!permissions || permissions.length !== 9) {
-      return {
-        owner: { read: true, write: true, execute: false },
-        group: { read: true, write: false, execute: false },
-        other: { read: true, write: false, execute: false },
+  // Parse current permissions from the file's mode, or its `rwxr-sr-t` string
+  const parsePermissions = (file: FileInfo): Permissions => {
+    let mode = file.mode !== undefined ? file.mode & 0o7777 : null
+
+    if (mode === null && file.permissions?.length === 9) {
+      mode = 0
+      for (let i = 0; i < 9; i++) {
+        const char = file.permissions[i]
+        if (char !== '-' && char !== 'S' && char !== 'T') mode |= 1 << (8 - i)
       }
+      if (/[sS]/.test(file.permissions[2])) mode |= 0o4000
+      if (/[sS]/.test(file.permissions[5])) mode |= 0o2000
+      if (/[tT]/.test(file.permissions[8])) mode |= 0o1000
     }
 
-    const parseSet = (perms: string): PermissionSet => ({
-      read: perms[0] === 'r',
-      write: perms[1] === 'w',
-      execute: perms[2] === 'x',
-    })
-
-    return {
-      owner: parseSet(permissions.slice(0, 3)),
-      group: parseSet(permissions.slice(3, 6)),
-      other: parseSet(permissions.slice(6, 9)),
-    }
+    return modeToPermissions(mode ?? 0o644)
   }
 
   const [permissions, setPermissions] = useState(() =>
-    file
-      ? parsePermissions(file.permissions)
-      : {
-          owner: { read: true, write: true, execute: false },
-          group: { read: true, write: false, execute: false },
-          other: { read: true, write: false, execute: false },
-        }
+    file ? parsePermissions(file) : modeToPermissions(0o644)
   )
 
-  const [octalMode, setOctalMode] = useState('')
+  const octalMode = calculateOctal(permissions)
+  const [modeInput, setModeInput] = useState(octalMode)
+  const [applyMode, setApplyMode] = useState(true)
+  const [applyOwnership, setApplyOwnership] = useState(false)
+  const [owner, setOwner] = useState(file?.owner ?? '')
+  const [group, setGroup] = useState(file?.group ?? '')
+  const [ownershipOptions, setOwnershipOptions] = useState<OwnershipOptions | null>(null)
+  const [recursive, setRecursive] = useState(false)
+  const [fileMode, setFileMode] = useState(DEFAULT_FILE_MODE)
+  const [progress, setProgress] = useState<AttributeChangeProgress | null>(null)
 
-  // Calculate octal representation
-  const calculateOctal = (perms: typeof permissions): string => {
-    const setToOctal = (set: PermissionSet): number => {
-      return (set.read ? 4 : 0) + (set.write ? 2 : 0) + (set.execute ? 1 : 0)
-    }
+  const isDirectory = file?.type === 'directory'
 
-    return `${setToOctal(perms.owner)}${setToOctal(perms.group)}${setToOctal(perms.other)}`
-  }
+  // Keep the text field in sync when checkboxes or presets change the mode
+  useEffect(() => {
+    setModeInput(octalMode)
+  }, [octalMode])
 
-  // Update octal mode when permissions change
+  // Load users and groups once the ownership section is opened
   useEffect(() => {
-    setOctalMode(calculateOctal(permissions))
-  }, [permissions, calculateOctal])
+    if (!applyOwnership || ownershipOptions) return
+
+    fetch(`/api/connections/${connectionId}/files/owners`, {
+      headers: { 'x-session-token': sessionToken },
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body) => setOwnershipOptions(body?.data ?? { users: [], groups: [] }))
+      .catch(() => setOwnershipOptions({ users: [], groups: [] }))
+  }, [applyOwnership, ownershipOptions, connectionId, sessionToken])
 
   // Focus management and keyboard handling
   useEffect(() => {
@@ -129,27 +180,14 @@ export function FilePermissionsModal({
     }
   }, [file, isSaving, onClose])
 
-  // Parse octal input
+  // Parse octal input; a fourth leading digit carries the special bits
   const handleOctalChange = (value: string) => {
     // Only allow digits 0-7
-    const cleanValue = value.replace(/[^0-7]/g, '').slice(0, 3)
-    setOctalMode(cleanValue)
-
-    if (cleanValue.length === 3) {
-      const octalToSet = (digit: string): PermissionSet => {
-        const num = parseInt(digit, 10)
-        return {
-          read: (num & 4) !== 0,
-          write: (num & 2) !== 0,
-          execute: (num & 1) !== 0,
-        }
-      }
+    const cleanValue = value.replace(/[^0-7]/g, '').slice(0, 4)
+    setModeInput(cleanValue)
 
-      setPermissions({
-        owner: octalToSet(cleanValue[0]),
-        group: octalToSet(cleanValue[1]),
-        other: octalToSet(cleanValue[2]),
-      })
+    if (cleanValue.length >= 3) {
+      setPermissions(modeToPermissions(parseInt(cleanValue, 8)))
     }
   }
 
@@ -167,10 +205,66 @@ export function FilePermissionsModal({
     }))
   }
 
+  const handleSpecialChange = (bit: keyof SpecialBits, value: boolean) => {
+    setPermissions((prev) => ({
+      ...prev,
+      special: {
+        ...prev.special,
+        [bit]: value,
+      },
+    }))
+  }
+
+  const isRecursive = recursive && isDirectory
+  const isFileModeValid = /^[0-7]{3,4}$/.test(fileMode)
+  const canSave =
+    (applyMode || applyOwnership) &&
+    (!applyMode || (modeInput.length >= 3 && (!isRecursive || isFileModeValid))) &&
+    (!applyOwnership || !!(owner.trim() || group.trim()))
+
+  // Recursive changes stream newline-delimited JSON progress lines
+  const readProgress = async (response: Response) => {
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let final:
+      | ({ type: 'done' } & AttributeChangeResult)
+      | { type: 'error'; error?: string }
+      | null = null
+
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        if (!line.trim()) continue
+        const message = JSON.parse(line)
+        if (message.type === 'progress') {
+          setProgress(message)
+        } else {
+          final = message
+        }
+      }
+    }
+
+    if (!final || final.type === 'error') {
+      throw new Error(
+        (final?.type === 'error' && final.error) ||
+          intl.formatMessage({ id: 'filePermissions.error' })
+      )
+    }
+    return final
+  }
+
   const handleSave = async () => {
-    if (!file || octalMode.length !== 3) return
+    if (!file || !canSave) return
 
     setIsSaving(true)
+    setProgress(null)
     try {
       const response = await fetch(`/api/connections/${connectionId}/files/chmod`, {
         method: 'POST',
@@ -180,7 +274,12 @@ export function FilePermissionsModal({
         },
         body: JSON.stringify({
           path: file.path,
-          mode: octalMode,
+          recursive: isRecursive,
+          ...(applyMode && (isRecursive ? { dirMode: modeInput, fileMode } : { mode: modeInput })),
+          ...(applyOwnership && {
+            owner: owner.trim() || undefined,
+            group: group.trim() || undefined,
+          }),
         }),
       })
 
@@ -189,13 +288,29 @@ export function FilePermissionsModal({
         throw new Error(error.error || intl.formatMessage({ id: 'filePermissions.error' }))
       }
 
-      toast.success(intl.formatMessage({ id: 'filePermissions.success' }))
+      const result = isRecursive ? await readProgress(response) : (await response.json()).data
+
+      if (result.failures.length > 0) {
+        toast.error(
+          intl.formatMessage(
+            { id: 'filePermissions.partialFailure' },
+            { count: result.failures.length, error: result.failures[0].error }
+          )
+        )
+      } else if (isRecursive) {
+        toast.success(
+          intl.formatMessage({ id: 'filePermissions.recursiveSuccess' }, { count: result.updated })
+        )
+      } else {
+        toast.success(intl.formatMessage({ id: 'filePermissions.success' }))
+      }
       onSuccess?.()
       onClose()
     } catch (error: any) {
       toast.error(error.message || intl.formatMessage({ id: 'filePermissions.error' }))
     } finally {
       setIsSaving(false)
+      setProgress(null)
     }
   }
 
@@ -277,7 +392,7 @@ export function FilePermissionsModal({
         </div>
 
         {/* Content */}
-        <div className="p-6">
+        <div className="max-h-[70vh] overflow-y-auto p-6">
           {/* Current permissions display */}
           <div className="mb-6 rounded-lg bg-background p-4">
             <p className="mb-2 text-xs font-medium uppercase text-foreground-muted">
@@ -290,186 +405,355 @@ export function FilePermissionsModal({
               </code>
               <span className="text-sm text-foreground-muted">({octalMode})</span>
             </div>
+            <p className="mt-2 text-sm text-foreground-muted">
+              <FormattedMessage
+                id="filePermissions.ownership"
+                values={{
+                  owner: file.owner ?? file.uid ?? '?',
+                  group: file.group ?? file.gid ?? '?',
+                }}
+              />
+            </p>
           </div>
 
-          {/* Permission matrix */}
-          <div className="mb-6">
-            <table className="w-full" role="table">
-              <thead>
-                <tr className="border-b border-border">
-                  <th scope="col" className="pb-3 text-left text-sm font-medium text-foreground">
-                    <FormattedMessage id="filePermissions.role" />
-                  </th>
-                  <th scope="col" className="pb-3 text-center text-sm font-medium text-foreground">
-                    <FormattedMessage id="filePermissions.read" />
-                  </th>
-                  <th scope="col" className="pb-3 text-center text-sm font-medium text-foreground">
-                    <FormattedMessage id="filePermissions.write" />
-                  </th>
-                  <th scope="col" className="pb-3 text-center text-sm font-medium text-foreground">
-                    <FormattedMessage id="filePermissions.execute" />
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-border">
-                <tr>
-                  <td className="py-3 text-sm font-medium text-foreground">
-                    <FormattedMessage id="filePermissions.owner" />
-                  </td>
-                  <td className="py-3 text-center">
-                    <PermissionCheckbox
-                      role="owner"
-                      type="read"
-                      checked={permissions.owner.read}
-                      onChange={(value) => handlePermissionChange('owner', 'read', value)}
-                    />
-                  </td>
-                  <td className="py-3 text-center">
-                    <PermissionCheckbox
-                      role="owner"
-                      type="write"
-                      checked={permissions.owner.write}
-                      onChange={(value) => handlePermissionChange('owner', 'write', value)}
-                    />
-                  </td>
-                  <td className="py-3 text-center">
-                    <PermissionCheckbox
-                      role="owner"
-                      type="execute"
-                      checked={permissions.owner.execute}
-                      onChange={(value) => handlePermissionChange('owner', 'execute', value)}
-                    />
-                  </td>
-                </tr>
-                <tr>
-                  <td className="py-3 text-sm font-medium text-foreground">
-                    <FormattedMessage id="filePermissions.group" />
-                  </td>
-                  <td className="py-3 text-center">
-                    <PermissionCheckbox
-                      role="group"
-                      type="read"
-                      checked={permissions.group.read}
-                      onChange={(value) => handlePermissionChange('group', 'read', value)}
-                    />
-                  </td>
-                  <td className="py-3 text-center">
-                    <PermissionCheckbox
-                      role="group"
-                      type="write"
-                      checked={permissions.group.write}
-                      onChange={(value) => handlePermissionChange('group', 'write', value)}
-                    />
-                  </td>
-                  <td className="py-3 text-center">
-                    <PermissionCheckbox
-                      role="group"
-                      type="execute"
-                      checked={permissions.group.execute}
-                      onChange={(value) => handlePermissionChange('group', 'execute', value)}
-                    />
-                  </td>
-                </tr>
-                <tr>
-                  <td className="py-3 text-sm font-medium text-foreground">
-                    <FormattedMessage id="filePermissions.other" />
-                  </td>
-                  <td className="py-3 text-center">
-                    <PermissionCheckbox
-                      role="other"
-                      type="read"
-                      checked={permissions.other.read}
-                      onChange={(value) => handlePermissionChange('other', 'read', value)}
-                    />
-                  </td>
-                  <td className="py-3 text-center">
-                    <PermissionCheckbox
-                      role="other"
-                      type="write"
-                      checked={permissions.other.write}
-                      onChange={(value) => handlePermissionChange('other', 'write', value)}
-                    />
-                  </td>
-                  <td className="py-3 text-center">
-                    <PermissionCheckbox
-                      role="other"
-                      type="execute"
-                      checked={permissions.other.execute}
-                      onChange={(value) => handlePermissionChange('other', 'execute', value)}
-                    />
-                  </td>
-                </tr>
-              </tbody>
-            </table>
-          </div>
-
-          {/* Octal input */}
-          <div className="mb-6">
-            <label htmlFor="octal-mode" className="mb-2 block text-sm font-medium text-foreground">
-              <FormattedMessage id="filePermissions.octalMode" />
-            </label>
+          <label className="mb-4 flex items-center gap-2 text-sm font-medium text-foreground">
             <input
-              id="octal-mode"
-              type="text"
-              value={octalMode}
-              onChange={(e) => handleOctalChange(e.target.value)}
-              maxLength={3}
-              pattern="[0-7]{3}"
-              className="w-32 rounded-lg border border-border bg-background px-4 py-2 font-mono text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
-              placeholder="755"
+              type="checkbox"
+              checked={applyMode}
+              onChange={(e) => setApplyMode(e.target.checked)}
               disabled={isSaving}
-              aria-describedby="octal-hint"
+              className="rounded border-border bg-background text-terminal-green focus:ring-terminal-green disabled:opacity-50"
             />
-            <p id="octal-hint" className="mt-2 text-sm text-foreground-muted">
-              <FormattedMessage id="filePermissions.octalHint" />
-            </p>
+            <FormattedMessage id="filePermissions.applyMode" />
+          </label>
+
+          {applyMode && (
+            <>
+              {/* Permission matrix */}
+              <div className="mb-6">
+                <table className="w-full" role="table">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th
+                        scope="col"
+                        className="pb-3 text-left text-sm font-medium text-foreground"
+                      >
+                        <FormattedMessage id="filePermissions.role" />
+                      </th>
+                      <th
+                        scope="col"
+                        className="pb-3 text-center text-sm font-medium text-foreground"
+                      >
+                        <FormattedMessage id="filePermissions.read" />
+                      </th>
+                      <th
+                        scope="col"
+                        className="pb-3 text-center text-sm font-medium text-foreground"
+                      >
+                        <FormattedMessage id="filePermissions.write" />
+                      </th>
+                      <th
+                        scope="col"
+                        className="pb-3 text-center text-sm font-medium text-foreground"
+                      >
+                        <FormattedMessage id="filePermissions.execute" />
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    <tr>
+                      <td className="py-3 text-sm font-medium text-foreground">
+                        <FormattedMessage id="filePermissions.owner" />
+                      </td>
+                      <td className="py-3 text-center">
+                        <PermissionCheckbox
+                          role="owner"
+                          type="read"
+                          checked={permissions.owner.read}
+                          onChange={(value) => handlePermissionChange('owner', 'read', value)}
+                        />
+                      </td>
+                      <td className="py-3 text-center">
+                        <PermissionCheckbox
+                          role="owner"
+                          type="write"
+                          checked={permissions.owner.write}
+                          onChange={(value) => handlePermissionChange('owner', 'write', value)}
+                        />
+                      </td>
+                      <td className="py-3 text-center">
+                        <PermissionCheckbox
+                          role="owner"
+                          type="execute"
+                          checked={permissions.owner.execute}
+                          onChange={(value) => handlePermissionChange('owner', 'execute', value)}
+                        />
+                      </td>
+                    </tr>
+                    <tr>
+                      <td className="py-3 text-sm font-medium text-foreground">
+                        <FormattedMessage id="filePermissions.group" />
+                      </td>
+                      <td className="py-3 text-center">
+                        <PermissionCheckbox
+                          role="group"
+                          type="read"
+                          checked={permissions.group.read}
+                          onChange={(value) => handlePermissionChange('group', 'read', value)}
+                        />
+                      </td>
+                      <td className="py-3 text-center">
+                        <PermissionCheckbox
+                          role="group"
+                          type="write"
+                          checked={permissions.group.write}
+                          onChange={(value) => handlePermissionChange('group', 'write', value)}
+                        />
+                      </td>
+                      <td className="py-3 text-center">
+                        <PermissionCheckbox
+                          role="group"
+                          type="execute"
+                          checked={permissions.group.execute}
+                          onChange={(value) => handlePermissionChange('group', 'execute', value)}
+                        />
+                      </td>
+                    </tr>
+                    <tr>
+                      <td className="py-3 text-sm font-medium text-foreground">
+                        <FormattedMessage id="filePermissions.other" />
+                      </td>
+                      <td className="py-3 text-center">
+                        <PermissionCheckbox
+                          role="other"
+                          type="read"
+                          checked={permissions.other.read}
+                          onChange={(value) => handlePermissionChange('other', 'read', value)}
+                        />
+                      </td>
+                      <td className="py-3 text-center">
+                        <PermissionCheckbox
+                          role="other"
+                          type="write"
+                          checked={permissions.other.write}
+                          onChange={(value) => handlePermissionChange('other', 'write', value)}
+                        />
+                      </td>
+                      <td className="py-3 text-center">
+                        <PermissionCheckbox
+                          role="other"
+                          type="execute"
+                          checked={permissions.other.execute}
+                          onChange={(value) => handlePermissionChange('other', 'execute', value)}
+                        />
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Special bits */}
+              <div className="mb-6 flex flex-wrap gap-4" role="group">
+                {(['setuid', 'setgid', 'sticky'] as const).map((bit) => (
+                  <label key={bit} className="flex items-center gap-2 text-sm text-foreground">
+                    <input
+                      type="checkbox"
+                      checked={permissions.special[bit]}
+                      onChange={(e) => handleSpecialChange(bit, e.target.checked)}
+                      disabled={isSaving}
+                      className="rounded border-border bg-background text-terminal-green focus:ring-terminal-green disabled:opacity-50"
+                    />
+                    <FormattedMessage id={`filePermissions.${bit}`} />
+                  </label>
+                ))}
+              </div>
+
+              {/* Octal input */}
+              <div className="mb-6">
+                <label
+                  htmlFor="octal-mode"
+                  className="mb-2 block text-sm font-medium text-foreground"
+                >
+                  <FormattedMessage id="filePermissions.octalMode" />
+                </label>
+                <input
+                  id="octal-mode"
+                  type="text"
+                  value={modeInput}
+                  onChange={(e) => handleOctalChange(e.target.value)}
+                  maxLength={4}
+                  pattern="[0-7]{3,4}"
+                  className="w-32 rounded-lg border border-border bg-background px-4 py-2 font-mono text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
+                  placeholder="755"
+                  disabled={isSaving}
+                  aria-describedby="octal-hint"
+                />
+                <p id="octal-hint" className="mt-2 text-sm text-foreground-muted">
+                  <FormattedMessage id="filePermissions.octalHint" />
+                </p>
+              </div>
+
+              {/* Common presets */}
+              <div>
+                <p className="mb-2 text-sm font-medium text-foreground">
+                  <FormattedMessage id="filePermissions.presets" />
+                </p>
+                <div className="flex flex-wrap gap-2" role="group" aria-label="Permission presets">
+                  <button
+                    onClick={() => handleOctalChange('755')}
+                    disabled={isSaving}
+                    className="rounded bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
+                    aria-label="Set permissions to 755"
+                  >
+                    755 - <FormattedMessage id="filePermissions.preset755" />
+                  </button>
+                  <button
+                    onClick={() => handleOctalChange('644')}
+                    disabled={isSaving}
+                    className="rounded bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
+                    aria-label="Set permissions to 644"
+                  >
+                    644 - <FormattedMessage id="filePermissions.preset644" />
+                  </button>
+                  <button
+                    onClick={() => handleOctalChange('700')}
+                    disabled={isSaving}
+                    className="rounded bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
+                    aria-label="Set permissions to 700"
+                  >
+                    700 - <FormattedMessage id="filePermissions.preset700" />
+                  </button>
+                  <button
+                    onClick={() => handleOctalChange('777')}
+                    disabled={isSaving}
+                    className="rounded bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
+                    aria-label="Set permissions to 777"
+                  >
+                    777 - <FormattedMessage id="filePermissions.preset777" />
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Ownership */}
+          <div className="mt-6 border-t border-border pt-6">
+            <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+              <input
+                type="checkbox"
+                checked={applyOwnership}
+                onChange={(e) => setApplyOwnership(e.target.checked)}
+                disabled={isSaving}
+                className="rounded border-border bg-background text-terminal-green focus:ring-terminal-green disabled:opacity-50"
+              />
+              <FormattedMessage id="filePermissions.applyOwnership" />
+            </label>
+
+            {applyOwnership && (
+              <div className="mt-4 grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="chown-user" className="mb-2 block text-sm text-foreground">
+                    <FormattedMessage id="filePermissions.owner" />
+                  </label>
+                  <input
+                    id="chown-user"
+                    type="text"
+                    list="chown-user-options"
+                    value={owner}
+                    onChange={(e) => setOwner(e.target.value)}
+                    disabled={isSaving}
+                    className="w-full rounded-lg border border-border bg-background px-4 py-2 font-mono text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
+                  />
+                  <datalist id="chown-user-options">
+                    {ownershipOptions?.users.map((user) => (
+                      <option key={user.id} value={user.name}>
+                        {user.id}
+                      </option>
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <label htmlFor="chown-group" className="mb-2 block text-sm text-foreground">
+                    <FormattedMessage id="filePermissions.group" />
+                  </label>
+                  <input
+                    id="chown-group"
+                    type="text"
+                    list="chown-group-options"
+                    value={group}
+                    onChange={(e) => setGroup(e.target.value)}
+                    disabled={isSaving}
+                    className="w-full rounded-lg border border-border bg-background px-4 py-2 font-mono text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
+                  />
+                  <datalist id="chown-group-options">
+                    {ownershipOptions?.groups.map((group) => (
+                      <option key={group.id} value={group.name}>
+                        {group.id}
+                      </option>
+                    ))}
+                  </datalist>
+                </div>
+                <p className="col-span-2 text-sm text-foreground-muted">
+                  <FormattedMessage id="filePermissions.ownershipHint" />
+                </p>
+              </div>
+            )}
           </div>
 
-          {/* Common presets */}
-          <div>
-            <p className="mb-2 text-sm font-medium text-foreground">
-              <FormattedMessage id="filePermissions.presets" />
-            </p>
-            <div className="flex flex-wrap gap-2" role="group" aria-label="Permission presets">
-              <button
-                onClick={() => handleOctalChange('755')}
-                disabled={isSaving}
-                className="rounded bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
-                aria-label="Set permissions to 755"
-              >
-                755 - <FormattedMessage id="filePermissions.preset755" />
-              </button>
-              <button
-                onClick={() => handleOctalChange('644')}
-                disabled={isSaving}
-                className="rounded bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
-                aria-label="Set permissions to 644"
-              >
-                644 - <FormattedMessage id="filePermissions.preset644" />
-              </button>
-              <button
-                onClick={() => handleOctalChange('700')}
-                disabled={isSaving}
-                className="rounded bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
-                aria-label="Set permissions to 700"
-              >
-                700 - <FormattedMessage id="filePermissions.preset700" />
-              </button>
-              <button
-                onClick={() => handleOctalChange('777')}
-                disabled={isSaving}
-                className="rounded bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
-                aria-label="Set permissions to 777"
-              >
-                777 - <FormattedMessage id="filePermissions.preset777" />
-              </button>
+          {/* Recursive */}
+          {isDirectory && (
+            <div className="mt-6 border-t border-border pt-6">
+              <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+                <input
+                  type="checkbox"
+                  checked={recursive}
+                  onChange={(e) => setRecursive(e.target.checked)}
+                  disabled={isSaving}
+                  className="rounded border-border bg-background text-terminal-green focus:ring-terminal-green disabled:opacity-50"
+                />
+                <FormattedMessage id="filePermissions.recursive" />
+              </label>
+
+              {recursive && applyMode && (
+                <div className="mt-4">
+                  <label htmlFor="file-mode" className="mb-2 block text-sm text-foreground">
+                    <FormattedMessage id="filePermissions.fileMode" />
+                  </label>
+                  <input
+                    id="file-mode"
+                    type="text"
+                    value={fileMode}
+                    onChange={(e) => setFileMode(e.target.value.replace(/[^0-7]/g, '').slice(0, 4))}
+                    maxLength={4}
+                    pattern="[0-7]{3,4}"
+                    className="w-32 rounded-lg border border-border bg-background px-4 py-2 font-mono text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
+                    placeholder={DEFAULT_FILE_MODE}
+                    disabled={isSaving}
+                    aria-describedby="file-mode-hint"
+                  />
+                  <p id="file-mode-hint" className="mt-2 text-sm text-foreground-muted">
+                    <FormattedMessage
+                      id="filePermissions.fileModeHint"
+                      values={{ dirMode: modeInput }}
+                    />
+                  </p>
+                </div>
+              )}
             </div>
-          </div>
+          )}
         </div>
 
         {/* Footer */}
         <div className="border-t border-border px-6 py-4">
           <div className="flex items-center justify-end gap-3">
+            {progress && (
+              <span className="mr-auto text-sm text-foreground-muted" role="status">
+                <FormattedMessage
+                  id="filePermissions.progress"
+                  values={{ updated: progress.updated, failed: progress.failed }}
+                />
+              </span>
+            )}
             <button
               onClick={onClose}
               disabled={isSaving}
@@ -479,7 +763,7 @@ export function FilePermissionsModal({
             </button>
             <button
               onClick={handleSave}
-              disabled={isSaving || octalMode.length !== 3}
+              disabled={isSaving || !canSave}
               className="rounded-lg bg-terminal-green px-4 py-2 text-sm font-medium text-background hover:bg-terminal-green/90 disabled:cursor-not-allowed disabled:opacity-50"
             >
               {isSaving ? (
@@ -5,40 +5,43 @@ import { useIntl, FormattedMessage } from '@/lib/i18n'
 import { useToast } from '@/components/ui/ToastContext'
 import { formatFileSize, getFileIcon } from '@/lib/utils/file'
 import debounce from 'lodash/debounce'
+import type { FileSearchResult } from '@/types/ssh'
 
 interface FileSearchProps {
   connectionId: string
   sessionToken: string
   currentPath: string
   onFileSelect?: (file: { path: string; name: string; type: string }) => void
+  onMatchSelect?: (file: { path: string; name: string; size?: number }, line: number) => void
   className?: string
 }
 
-interface SearchResult {
-  path: string
-  name: string
-  type: 'file' | 'directory'
-  size?: number
-  mtime?: string
-}
+const DEFAULT_EXCLUDE = '.git, node_modules'
+const MAX_FILE_SIZE_OPTIONS = [1024 * 1024, 10 * 1024 * 1024, 100 * 1024 * 1024]
 
 export function FileSearch({
   connectionId,
   sessionToken,
   currentPath,
   onFileSelect,
+  onMatchSelect,
   className = '',
 }: FileSearchProps) {
   const intl = useIntl()
   const [isOpen, setIsOpen] = useState(false)
   const [query, setQuery] = useState('')
   const [isSearching, setIsSearching] = useState(false)
-  const [results, setResults] = useState<SearchResult[]>([])
+  const [results, setResults] = useState<FileSearchResult[]>([])
   const [searchError, setSearchError] = useState<string | null>(null)
   const [searchType, setSearchType] = useState<'all' | 'file' | 'directory'>('all')
   const [showAdvanced, setShowAdvanced] = useState(false)
   const [caseSensitive, setCaseSensitive] = useState(false)
   const [useRegex, setUseRegex] = useState(false)
+  const [searchContent, setSearchContent] = useState(false)
+  const [includeGlobs, setIncludeGlobs] = useState('')
+  const [excludeGlobs, setExcludeGlobs] = useState(DEFAULT_EXCLUDE)
+  const [maxFileSize, setMaxFileSize] = useState(MAX_FILE_SIZE_OPTIONS[0])
+  const [truncated, setTruncated] = useState(false)
 
   const searchInputRef = useRef<HTMLInputElement>(null)
   const searchRef = useRef<HTMLDivElement>(null)
@@ -49,6 +52,7 @@ export function FileSearch({
     setIsOpen(false)
     setQuery('')
     setResults([])
+    setTruncated(false)
     setSearchError(null)
     setShowAdvanced(false)
     
@@ -115,6 +119,10 @@ export function FileSearch({
             searchType: 'all' | 'file' | 'directory'
             caseSensitive: boolean
             useRegex: boolean
+            searchContent: boolean
+            includeGlobs: string
+            excludeGlobs: string
+            maxFileSize: number
             signal?: AbortSignal
           }
         ) => {
@@ -149,7 +157,13 @@ export function FileSearch({
                 type: options.searchType,
                 caseSensitive: options.caseSensitive,
                 regex: options.useRegex,
-                maxResults: 50,
+                maxResults: options.searchContent ? 200 : 50,
+                ...(options.searchContent && {
+                  content: true,
+                  include: options.includeGlobs,
+                  exclude: options.excludeGlobs,
+                  maxFileSize: options.maxFileSize,
+                }),
               }),
               signal: options.signal,
             })
@@ -164,11 +178,16 @@ export function FileSearch({
             const results = responseData?.data?.results || responseData?.results || []
             
             setResults(results)
+            setTruncated(!!responseData?.data?.truncated)
             setSearchError(null)
             setIsSearching(false)
 
             if (results.length === 0) {
-              setSearchError(intl.formatMessage({ id: 'fileSearch.noResults' }))
+              setSearchError(
+                intl.formatMessage({
+                  id: options.searchContent ? 'fileSearch.noMatches' : 'fileSearch.noResults',
+                })
+              )
             }
           } catch (error) {
             if (error instanceof Error && error.name !== 'AbortError') {
@@ -208,11 +227,16 @@ export function FileSearch({
         searchType,
         caseSensitive,
         useRegex,
+        searchContent,
+        includeGlobs,
+        excludeGlobs,
+        maxFileSize,
         signal: abortControllerRef.current.signal,
       })
     } else {
       debouncedSearch.cancel()
       setResults([])
+      setTruncated(false)
       setIsSearching(false)
       setSearchError(null)
     }
@@ -230,12 +254,16 @@ export function FileSearch({
     searchType,
     caseSensitive,
     useRegex,
+    searchContent,
+    includeGlobs,
+    excludeGlobs,
+    maxFileSize,
     debouncedSearch,
   ])
 
 
   const handleResultClick = useCallback(
-    (result: SearchResult) => {
+    (result: FileSearchResult) => {
       if (onFileSelect) {
         onFileSelect(result)
         handleClose()
@@ -244,6 +272,16 @@ export function FileSearch({
     [onFileSelect, handleClose]
   )
 
+  const handleMatchClick = useCallback(
+    (result: FileSearchResult, line: number) => {
+      if (onMatchSelect) {
+        onMatchSelect(result, line)
+        handleClose()
+      }
+    },
+    [onMatchSelect, handleClose]
+  )
+
   const highlightMatch = useCallback(
     (text: string, searchQuery: string) => {
       if (!searchQuery || useRegex) return text
@@ -300,7 +338,7 @@ export function FileSearch({
       {isOpen && (
         <div
           id="file-search-dropdown"
-          className="absolute right-0 top-full z-50 mt-2 w-96 rounded-lg border border-border bg-background-secondary shadow-xl"
+          className={`absolute right-0 top-full z-50 mt-2 ${searchContent ? 'w-[36rem]' : 'w-96'} rounded-lg border border-border bg-background-secondary shadow-xl`}
           role="dialog"
           aria-label={intl.formatMessage({ id: 'fileSearch.title' })}
         >
@@ -312,7 +350,9 @@ export function FileSearch({
                 type="text"
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
-                placeholder={intl.formatMessage({ id: 'fileSearch.placeholder' })}
+                placeholder={intl.formatMessage({
+                  id: searchContent ? 'fileSearch.placeholderContent' : 'fileSearch.placeholder',
+                })}
                 className="w-full rounded-lg border border-border bg-background px-4 py-2 pr-10 text-foreground placeholder-foreground-muted focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
                 aria-label={intl.formatMessage({ id: 'fileSearch.input' })}
                 aria-describedby={searchError ? 'search-error' : undefined}
@@ -349,31 +389,88 @@ export function FileSearch({
 
               {showAdvanced && (
                 <div className="mt-3 space-y-3">
-                  {/* File Type Filter */}
-                  <div>
-                    <label className="mb-1 block text-xs font-medium text-foreground-muted">
-                      <FormattedMessage id="fileSearch.fileType" />
-                    </label>
-                    <div className="flex gap-2" role="radiogroup" aria-label="File type filter">
-                      {(['all', 'file', 'directory'] as const).map((type) => (
-                        <button
-                          key={type}
-                          onClick={() => setSearchType(type)}
-                          className={`rounded px-2 py-1 text-xs ${
-                            searchType === type
-                              ? 'bg-terminal-green text-background'
-                              : 'bg-background text-foreground hover:bg-background-tertiary'
-                          }`}
-                          role="radio"
-                          aria-checked={searchType === type}
+                  {/* Search mode */}
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={searchContent}
+                      onChange={(e) => setSearchContent(e.target.checked)}
+                      className="rounded border-border bg-background text-terminal-green focus:ring-terminal-green"
+                    />
+                    <span className="text-xs text-foreground">
+                      <FormattedMessage id="fileSearch.searchContent" />
+                    </span>
+                  </label>
+
+                  {searchContent ? (
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="block">
+                        <span className="mb-1 block text-xs font-medium text-foreground-muted">
+                          <FormattedMessage id="fileSearch.include" />
+                        </span>
+                        <input
+                          type="text"
+                          value={includeGlobs}
+                          onChange={(e) => setIncludeGlobs(e.target.value)}
+                          placeholder="*.ts, *.conf"
+                          className="w-full rounded border border-border bg-background px-2 py-1 font-mono text-xs text-foreground focus:border-terminal-green focus:outline-none"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="mb-1 block text-xs font-medium text-foreground-muted">
+                          <FormattedMessage id="fileSearch.exclude" />
+                        </span>
+                        <input
+                          type="text"
+                          value={excludeGlobs}
+                          onChange={(e) => setExcludeGlobs(e.target.value)}
+                          className="w-full rounded border border-border bg-background px-2 py-1 font-mono text-xs text-foreground focus:border-terminal-green focus:outline-none"
+                        />
+                      </label>
+                      <label className="col-span-2 flex items-center gap-2">
+                        <span className="text-xs font-medium text-foreground-muted">
+                          <FormattedMessage id="fileSearch.maxFileSize" />
+                        </span>
+                        <select
+                          value={maxFileSize}
+                          onChange={(e) => setMaxFileSize(Number(e.target.value))}
+                          className="rounded border border-border bg-background px-2 py-1 text-xs text-foreground focus:border-terminal-green focus:outline-none"
                         >
-                          <FormattedMessage
-                            id={`fileSearch.type${type.charAt(0).toUpperCase() + type.slice(1)}`}
-                          />
-                        </button>
-                      ))}
+                          {MAX_FILE_SIZE_OPTIONS.map((size) => (
+                            <option key={size} value={size}>
+                              {formatFileSize(size)}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
                     </div>
-                  </div>
+                  ) : (
+                    // File type filter only applies to name searches
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-foreground-muted">
+                        <FormattedMessage id="fileSearch.fileType" />
+                      </label>
+                      <div className="flex gap-2" role="radiogroup" aria-label="File type filter">
+                        {(['all', 'file', 'directory'] as const).map((type) => (
+                          <button
+                            key={type}
+                            onClick={() => setSearchType(type)}
+                            className={`rounded px-2 py-1 text-xs ${
+                              searchType === type
+                                ? 'bg-terminal-green text-background'
+                                : 'bg-background text-foreground hover:bg-background-tertiary'
+                            }`}
+                            role="radio"
+                            aria-checked={searchType === type}
+                          >
+                            <FormattedMessage
+                              id={`fileSearch.type${type.charAt(0).toUpperCase() + type.slice(1)}`}
+                            />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
 
                   {/* Options */}
                   <div className="space-y-2">
@@ -431,35 +528,82 @@ export function FileSearch({
             {results.length > 0 && (
               <div className="p-2">
                 <p className="mb-2 px-2 text-xs text-foreground-muted">
-                  <FormattedMessage
-                    id="fileSearch.resultCount"
-                    values={{ count: results.length }}
-                  />
+                  {searchContent ? (
+                    <FormattedMessage
+                      id={truncated ? 'fileSearch.matchCountTruncated' : 'fileSearch.matchCount'}
+                      values={{
+                        count: results.reduce(
+                          (total, result) => total + (result.matches?.length ?? 0),
+                          0
+                        ),
+                        files: results.length,
+                      }}
+                    />
+                  ) : (
+                    <FormattedMessage
+                      id="fileSearch.resultCount"
+                      values={{ count: results.length }}
+                    />
+                  )}
                 </p>
                 <div className="space-y-1" role="list">
-                  {results.map((result, index) => (
-                    <button
-                      key={`${result.path}-${index}`}
-                      onClick={() => handleResultClick(result)}
-                      className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-left hover:bg-background-tertiary focus:bg-background-tertiary focus:outline-none"
-                      role="listitem"
-                    >
-                      <span className="text-lg">
-                        {getFileIcon({ type: result.type || 'file', name: result.name })}
-                      </span>
-                      <div className="flex-1 overflow-hidden">
-                        <div className="truncate text-sm font-medium text-foreground">
-                          {highlightMatch(result.name, query)}
-                        </div>
-                        <div className="truncate text-xs text-foreground-muted">{result.path}</div>
+                  {results.map((result, index) =>
+                    result.matches ? (
+                      <div key={`${result.path}-${index}`} role="listitem">
+                        <button
+                          onClick={() => handleMatchClick(result, result.matches![0].line)}
+                          className="flex w-full items-center gap-2 rounded-lg px-3 py-1.5 text-left hover:bg-background-tertiary focus:bg-background-tertiary focus:outline-none"
+                        >
+                          <span>{getFileIcon({ type: 'file', name: result.name })}</span>
+                          <span className="truncate text-xs font-medium text-foreground">
+                            {result.path}
+                          </span>
+                        </button>
+                        {result.matches.map((match) => (
+                          <button
+                            key={`${match.line}-${match.column}`}
+                            onClick={() => handleMatchClick(result, match.line)}
+                            className="flex w-full items-baseline gap-3 rounded px-3 py-0.5 pl-9 text-left font-mono text-xs hover:bg-background-tertiary focus:bg-background-tertiary focus:outline-none"
+                            title={intl.formatMessage(
+                              { id: 'fileSearch.openAtLine' },
+                              { line: match.line }
+                            )}
+                          >
+                            <span className="w-10 shrink-0 text-right text-foreground-subtle">
+                              {match.line}
+                            </span>
+                            <span className="truncate text-foreground-muted">
+                              {highlightMatch(match.text.trim(), query)}
+                            </span>
+                          </button>
+                        ))}
                       </div>
-                      {result.type === 'file' && result.size !== undefined && (
-                        <span className="text-xs text-foreground-muted">
-                          {formatFileSize(result.size)}
+                    ) : (
+                      <button
+                        key={`${result.path}-${index}`}
+                        onClick={() => handleResultClick(result)}
+                        className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-left hover:bg-background-tertiary focus:bg-background-tertiary focus:outline-none"
+                        role="listitem"
+                      >
+                        <span className="text-lg">
+                          {getFileIcon({ type: result.type || 'file', name: result.name })}
                         </span>
-                      )}
-                    </button>
-                  ))}
+                        <div className="flex-1 overflow-hidden">
+                          <div className="truncate text-sm font-medium text-foreground">
+                            {highlightMatch(result.name, query)}
+                          </div>
+                          <div className="truncate text-xs text-foreground-muted">
+                            {result.path}
+                          </div>
+                        </div>
+                        {result.type === 'file' && result.size !== undefined && (
+                          <span className="text-xs text-foreground-muted">
+                            {formatFileSize(result.size)}
+                          </span>
+                        )}
+                      </button>
+                    )
+                  )}
                 </div>
               </div>
             )}
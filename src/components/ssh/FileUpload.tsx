@@ -2,54 +2,25 @@
 
 import { useState } from 'react'
 import { FileUploadModal } from './upload/FileUploadModal'
-import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { FormattedMessage } from '@/lib/i18n'
 
 interface FileUploadProps {
-  onUpload: (files: FileList) => Promise<void>
+  connectionId: string
+  sessionToken: string
   onComplete?: () => void // Add callback for when modal closes after successful uploads
   disabled?: boolean
   currentPath?: string
 }
 
 export function FileUpload({
-  onUpload,
+  connectionId,
+  sessionToken,
   onComplete,
   disabled = false,
   currentPath = '/',
 }: FileUploadProps) {
-  const intl = useIntl()
   const [showModal, setShowModal] = useState(false)
 
-  const handleUpload = async (files: File[]) => {
-    const results: { file: File; success: boolean; error?: string }[] = []
-
-    for (const file of files) {
-      try {
-        // Create a FileList-like object for compatibility
-        const fileList = {
-          0: file,
-          length: 1,
-          item: (index: number) => (index === 0 ? file : null),
-          [Symbol.iterator]: function* () {
-            yield file
-          },
-        } as unknown as FileList
-
-        await onUpload(fileList)
-        results.push({ file, success: true })
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error)
-        results.push({
-          file,
-          success: false,
-          error: errorMessage || intl.formatMessage({ id: 'fileUpload.error.unknown' }),
-        })
-      }
-    }
-
-    return results
-  }
-
   return (
     <>
       <button
@@ -63,7 +34,8 @@ export function FileUpload({
       <FileUploadModal
         isOpen={showModal}
         onClose={() => setShowModal(false)}
-        onUpload={handleUpload}
+        connectionId={connectionId}
+        sessionToken={sessionToken}
         onComplete={onComplete}
         currentPath={currentPath}
       />
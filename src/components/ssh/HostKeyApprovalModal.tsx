@@ -0,0 +1,97 @@
+'use client'
+
+import { useState } from 'react'
+import { FormattedMessage, useIntl } from '@/lib/i18n'
+import { Button, Modal } from '@/components/ui'
+import type { HostKeyDetails } from '@/types/ssh'
+
+interface HostKeyApprovalModalProps {
+  hostKey: HostKeyDetails | null
+  onApprove: () => Promise<void>
+  onClose: () => void
+}
+
+export function HostKeyApprovalModal({ hostKey, onApprove, onClose }: HostKeyApprovalModalProps) {
+  const intl = useIntl()
+  const [isApproving, setIsApproving] = useState(false)
+
+  if (!hostKey) return null
+
+  const isChanged = !!hostKey.expectedFingerprint
+
+  const handleApprove = async () => {
+    setIsApproving(true)
+    try {
+      await onApprove()
+    } finally {
+      setIsApproving(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      closeOnOverlayClick={!isApproving}
+      closeOnEscape={!isApproving}
+      title={intl.formatMessage({
+        id: isChanged ? 'hostKey.changed.title' : 'hostKey.unknown.title',
+      })}
+      size="md"
+    >
+      <div className="space-y-4">
+        <p className={`text-sm ${isChanged ? 'text-red-500' : 'text-foreground-muted'}`}>
+          <FormattedMessage
+            id={isChanged ? 'hostKey.changed.description' : 'hostKey.unknown.description'}
+            values={{ host: `${hostKey.host}:${hostKey.port}` }}
+          />
+        </p>
+
+        <div className="space-y-3 rounded-lg border border-border bg-background-secondary p-4 font-mono text-xs">
+          <div>
+            <div className="text-foreground-subtle">
+              <FormattedMessage id="hostKey.keyType" />
+            </div>
+            <div className="text-foreground">{hostKey.keyType}</div>
+          </div>
+          {isChanged && (
+            <div>
+              <div className="text-foreground-subtle">
+                <FormattedMessage id="hostKey.expectedFingerprint" />
+              </div>
+              <div className="break-all text-foreground-muted line-through">
+                {hostKey.expectedFingerprint}
+              </div>
+            </div>
+          )}
+          <div>
+            <div className="text-foreground-subtle">
+              <FormattedMessage id="hostKey.fingerprint" />
+            </div>
+            <div className="break-all text-terminal-green">{hostKey.fingerprint}</div>
+          </div>
+        </div>
+
+        <p className="text-xs text-foreground-subtle">
+          <FormattedMessage id="hostKey.verifyHint" />
+        </p>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isApproving}>
+            <FormattedMessage id="common.cancel" />
+          </Button>
+          <Button
+            variant={isChanged ? 'danger' : 'primary'}
+            onClick={handleApprove}
+            disabled={isApproving}
+            loading={isApproving}
+          >
+            <FormattedMessage
+              id={isChanged ? 'hostKey.changed.approve' : 'hostKey.unknown.approve'}
+            />
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,364 @@
+'use client'
+
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { getFileTailUrl } from '@/lib/utils/file'
+import type { FileInfo, TailMode, TailServerMessage } from '@/types/ssh'
+
+interface LogTailViewerProps {
+  connectionId: string
+  file: FileInfo
+  sessionToken: string
+  onClose: () => void
+}
+
+interface TailLine {
+  id: number
+  text: string
+}
+
+type TailStatus = 'connecting' | 'live' | 'ended' | 'error'
+
+// Lines requested from the end of the file when the viewer opens
+const INITIAL_LINES = 200
+const LINE_LIMITS = [500, 1000, 5000, 10000]
+
+const STATUS_STYLES: Record<TailStatus, string> = {
+  connecting: 'bg-terminal-yellow/20 text-terminal-yellow',
+  live: 'bg-terminal-green/20 text-terminal-green',
+  ended: 'bg-background-tertiary text-foreground-muted',
+  error: 'bg-red-500/20 text-red-500',
+}
+
+function highlight(text: string, pattern: RegExp) {
+  const parts: React.ReactNode[] = []
+  let lastIndex = 0
+  pattern.lastIndex = 0
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    // Zero-length matches (e.g. `^`) would loop forever and highlight nothing
+    if (!match[0]) {
+      pattern.lastIndex++
+      continue
+    }
+    if (match.index > lastIndex) parts.push(text.slice(lastIndex, match.index))
+    parts.push(
+      <mark key={match.index} className="rounded-sm bg-terminal-yellow/40 text-foreground">
+        {match[0]}
+      </mark>
+    )
+    lastIndex = match.index + match[0].length
+  }
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex))
+
+  return parts
+}
+
+export function LogTailViewer({ connectionId, file, sessionToken, onClose }: LogTailViewerProps) {
+  const intl = useIntl()
+  const [lines, setLines] = useState<TailLine[]>([])
+  const [status, setStatus] = useState<TailStatus>('connecting')
+  const [mode, setMode] = useState<TailMode | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [paused, setPaused] = useState(false)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [follow, setFollow] = useState(true)
+  const [lineLimit, setLineLimit] = useState(LINE_LIMITS[1])
+  const [pattern, setPattern] = useState('')
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [filterMode, setFilterMode] = useState<'highlight' | 'filter'>('highlight')
+  // Bumped to open a fresh stream after an error or the end of one
+  const [attempt, setAttempt] = useState(0)
+
+  const containerRef = useRef<HTMLDivElement>(null)
+  const nextIdRef = useRef(0)
+  const pausedRef = useRef(false)
+  const pendingRef = useRef<TailLine[]>([])
+  const lineLimitRef = useRef(lineLimit)
+
+  useEffect(() => {
+    pausedRef.current = paused
+  }, [paused])
+
+  useEffect(() => {
+    lineLimitRef.current = lineLimit
+    setLines((prev) => prev.slice(-lineLimit))
+  }, [lineLimit])
+
+  const appendLines = useCallback((incoming: string[]) => {
+    const limit = lineLimitRef.current
+    const entries = incoming.map((text) => ({ id: nextIdRef.current++, text }))
+
+    if (pausedRef.current) {
+      // Keep buffering while paused, but never more than the viewer would show
+      pendingRef.current = pendingRef.current.concat(entries).slice(-limit)
+      setPendingCount(pendingRef.current.length)
+      return
+    }
+
+    setLines((prev) => prev.concat(entries).slice(-limit))
+  }, [])
+
+  useEffect(() => {
+    let source: EventSource | null = null
+    let cancelled = false
+    setStatus('connecting')
+    setError(null)
+
+    const open = (url: string) => {
+      const stream = new EventSource(url)
+      source = stream
+
+      stream.onmessage = (event) => {
+        const message = JSON.parse(event.data) as TailServerMessage
+        switch (message.type) {
+          case 'ready':
+            setMode(message.mode)
+            setStatus('live')
+            break
+          case 'lines':
+            appendLines(message.lines)
+            break
+          case 'error':
+            setError(message.message)
+            setStatus('error')
+            stream.close()
+            break
+          case 'end':
+            setStatus('ended')
+            stream.close()
+            break
+        }
+      }
+
+      // EventSource would silently reconnect and replay the initial lines, and its
+      // ticket is single use anyway; let the user decide
+      stream.onerror = () => {
+        stream.close()
+        setStatus((current) => (current === 'ended' ? current : 'error'))
+        setError((current) => current ?? intl.formatMessage({ id: 'logTail.error.connection' }))
+      }
+    }
+
+    getFileTailUrl(connectionId, sessionToken, file.path, INITIAL_LINES)
+      .then((url) => {
+        if (!cancelled) open(url)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setError(err instanceof Error ? err.message : String(err))
+        setStatus('error')
+      })
+
+    return () => {
+      cancelled = true
+      source?.close()
+    }
+  }, [connectionId, sessionToken, file.path, attempt, appendLines, intl])
+
+  useEffect(() => {
+    if (follow && containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight
+    }
+  }, [lines, follow])
+
+  const togglePause = () => {
+    if (paused) {
+      const pending = pendingRef.current
+      pendingRef.current = []
+      setPendingCount(0)
+      setLines((prev) => prev.concat(pending).slice(-lineLimitRef.current))
+    }
+    setPaused(!paused)
+  }
+
+  const reconnect = () => {
+    setLines([])
+    pendingRef.current = []
+    setPendingCount(0)
+    setAttempt((value) => value + 1)
+  }
+
+  // Scrolling up stops following; scrolling back to the bottom resumes it
+  const handleScroll = () => {
+    const container = containerRef.current
+    if (!container) return
+    const atBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 20
+    if (atBottom !== follow) setFollow(atBottom)
+  }
+
+  const { regex, patternError } = useMemo(() => {
+    if (!pattern) return { regex: null, patternError: false }
+    try {
+      return { regex: new RegExp(pattern, caseSensitive ? 'g' : 'gi'), patternError: false }
+    } catch {
+      return { regex: null, patternError: true }
+    }
+  }, [pattern, caseSensitive])
+
+  const visibleLines = useMemo(() => {
+    if (!regex || filterMode !== 'filter') return lines
+    return lines.filter((line) => {
+      regex.lastIndex = 0
+      return regex.test(line.text)
+    })
+  }, [lines, regex, filterMode])
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="border-b border-border bg-background-secondary px-4 py-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h2 className="font-medium text-foreground">{file.name}</h2>
+            <span className={`rounded px-2 py-1 text-xs ${STATUS_STYLES[status]}`}>
+              <FormattedMessage id={`logTail.status.${status}`} />
+            </span>
+            {mode && (
+              <span className="text-xs text-foreground-muted">
+                <FormattedMessage id={`logTail.mode.${mode}`} />
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            {status === 'live' ? (
+              <button
+                onClick={togglePause}
+                className="hover:bg-terminal-green-hover rounded-lg bg-terminal-green px-3 py-1.5 text-sm font-medium text-background transition-colors"
+              >
+                {paused ? (
+                  <FormattedMessage id="logTail.resume" values={{ count: pendingCount }} />
+                ) : (
+                  <FormattedMessage id="logTail.pause" />
+                )}
+              </button>
+            ) : (
+              status !== 'connecting' && (
+                <button
+                  onClick={reconnect}
+                  className="hover:bg-terminal-green-hover rounded-lg bg-terminal-green px-3 py-1.5 text-sm font-medium text-background transition-colors"
+                >
+                  <FormattedMessage id="logTail.reconnect" />
+                </button>
+              )
+            )}
+            <button
+              onClick={onClose}
+              className="rounded-lg border border-border bg-background px-3 py-1.5 text-sm font-medium text-foreground hover:bg-background-secondary"
+            >
+              <FormattedMessage id="common.close" />
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-2 flex items-center gap-2 text-xs text-foreground-muted">
+          <span>{file.path}</span>
+          <span>•</span>
+          <span>
+            <FormattedMessage
+              id="logTail.lineCount"
+              values={{ shown: visibleLines.length, total: lines.length }}
+            />
+          </span>
+        </div>
+
+        {/* Controls */}
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder={intl.formatMessage({ id: 'logTail.pattern.placeholder' })}
+              className={`w-64 rounded-lg border bg-background px-3 py-1.5 font-mono text-sm text-foreground placeholder-foreground-subtle focus:outline-none focus:ring-1 ${
+                patternError
+                  ? 'border-red-500 focus:ring-red-500'
+                  : 'border-border focus:border-terminal-green focus:ring-terminal-green'
+              }`}
+            />
+            <select
+              value={filterMode}
+              onChange={(e) => setFilterMode(e.target.value as 'highlight' | 'filter')}
+              className="rounded-lg border border-border bg-background px-2 py-1.5 text-sm text-foreground focus:outline-none"
+            >
+              <option value="highlight">
+                {intl.formatMessage({ id: 'logTail.pattern.highlight' })}
+              </option>
+              <option value="filter">{intl.formatMessage({ id: 'logTail.pattern.filter' })}</option>
+            </select>
+            <label className="flex items-center gap-1.5 text-foreground-muted">
+              <input
+                type="checkbox"
+                checked={caseSensitive}
+                onChange={(e) => setCaseSensitive(e.target.checked)}
+                className="rounded border-border"
+              />
+              <FormattedMessage id="logTail.pattern.caseSensitive" />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-1.5 text-foreground-muted">
+            <input
+              type="checkbox"
+              checked={follow}
+              onChange={(e) => setFollow(e.target.checked)}
+              className="rounded border-border"
+            />
+            <FormattedMessage id="logTail.follow" />
+          </label>
+
+          <label className="flex items-center gap-1.5 text-foreground-muted">
+            <FormattedMessage id="logTail.lineLimit" />
+            <select
+              value={lineLimit}
+              onChange={(e) => setLineLimit(Number(e.target.value))}
+              className="rounded-lg border border-border bg-background px-2 py-1.5 text-sm text-foreground focus:outline-none"
+            >
+              {LINE_LIMITS.map((limit) => (
+                <option key={limit} value={limit}>
+                  {limit.toLocaleString()}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <button
+            onClick={() => setLines([])}
+            className="rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground hover:bg-background-secondary"
+          >
+            <FormattedMessage id="logTail.clear" />
+          </button>
+        </div>
+
+        {patternError && (
+          <p className="mt-2 text-xs text-red-500">
+            <FormattedMessage id="logTail.pattern.invalid" />
+          </p>
+        )}
+        {error && <p className="mt-2 text-xs text-red-500">{error}</p>}
+      </div>
+
+      {/* Lines */}
+      <div
+        ref={containerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-auto bg-background p-4 font-mono text-sm text-foreground"
+      >
+        {visibleLines.length === 0 ? (
+          <p className="text-foreground-muted">
+            <FormattedMessage
+              id={status === 'connecting' ? 'logTail.connecting' : 'logTail.empty'}
+            />
+          </p>
+        ) : (
+          visibleLines.map((line) => (
+            <div key={line.id} className="whitespace-pre-wrap break-all">
+              {regex && filterMode === 'highlight' ? highlight(line.text, regex) : line.text}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
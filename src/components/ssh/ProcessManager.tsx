@@ -0,0 +1,273 @@
+'use client'
+
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
+import { useToast } from '@/components/ui/ToastContext'
+import { useConfirmation } from '@/hooks/useConfirmation'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { apiCall, PROCESS_SIGNALS } from '@/types/ssh'
+import type { ProcessSignal, RemoteProcess } from '@/types/ssh'
+import type { ApiSuccessResponse } from '@/lib/api/response'
+
+interface ProcessManagerProps {
+  connectionId: string
+  sessionToken: string
+}
+
+type SortKey = 'pid' | 'user' | 'cpu' | 'mem' | 'startedAt' | 'command'
+
+// Auto-refresh choices in seconds; 0 turns it off
+const REFRESH_INTERVALS = [0, 5, 10, 30]
+
+const COLUMNS: { key: SortKey; className: string }[] = [
+  { key: 'pid', className: 'w-20 text-right' },
+  { key: 'user', className: 'w-28' },
+  { key: 'cpu', className: 'w-20 text-right' },
+  { key: 'mem', className: 'w-20 text-right' },
+  { key: 'startedAt', className: 'w-44' },
+  { key: 'command', className: '' },
+]
+
+const SIGNAL_STYLES: Record<ProcessSignal, string> = {
+  TERM: 'text-yellow-500 hover:bg-yellow-500/10',
+  KILL: 'text-red-500 hover:bg-red-500/10',
+  HUP: 'text-terminal-blue hover:bg-terminal-blue/10',
+}
+
+export function ProcessManager({ connectionId, sessionToken }: ProcessManagerProps) {
+  const intl = useIntl()
+  const { toast } = useToast()
+  const { confirm, ConfirmationModal } = useConfirmation()
+
+  const [processes, setProcesses] = useState<RemoteProcess[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [filter, setFilter] = useState('')
+  const [sortKey, setSortKey] = useState<SortKey>('cpu')
+  const [sortAscending, setSortAscending] = useState(false)
+  const [refreshInterval, setRefreshInterval] = useState(10)
+  const loadingRef = useRef(false)
+
+  const loadProcesses = useCallback(async () => {
+    // Skip a tick rather than stacking requests on a slow host
+    if (loadingRef.current) return
+    loadingRef.current = true
+
+    try {
+      const response = await apiCall<ApiSuccessResponse<{ processes: RemoteProcess[] }>>(
+        `/api/connections/${connectionId}/processes`,
+        { headers: { 'x-session-token': sessionToken } }
+      )
+      setProcesses(response.data.processes)
+      setLastUpdated(new Date())
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load processes:', err)
+      setError(intl.formatMessage({ id: 'processes.error.loadFailed' }))
+    } finally {
+      loadingRef.current = false
+      setIsLoading(false)
+    }
+  }, [connectionId, sessionToken, intl])
+
+  useEffect(() => {
+    loadProcesses()
+  }, [loadProcesses])
+
+  useEffect(() => {
+    if (!refreshInterval) return
+    const timer = setInterval(loadProcesses, refreshInterval * 1000)
+    return () => clearInterval(timer)
+  }, [refreshInterval, loadProcesses])
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortKey(key)
+      // Busiest and newest first; names and IDs alphabetically
+      setSortAscending(key === 'pid' || key === 'user' || key === 'command')
+    }
+  }
+
+  const visibleProcesses = useMemo(() => {
+    const query = filter.trim().toLowerCase()
+    const filtered = query
+      ? processes.filter(
+          (process) =>
+            process.command.toLowerCase().includes(query) ||
+            process.user.toLowerCase().includes(query) ||
+            String(process.pid) === query
+        )
+      : processes
+
+    const direction = sortAscending ? 1 : -1
+    return [...filtered].sort((a, b) => {
+      const left = a[sortKey]
+      const right = b[sortKey]
+      const order =
+        typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right))
+      return order * direction || a.pid - b.pid
+    })
+  }, [processes, filter, sortKey, sortAscending])
+
+  const sendSignal = (process: RemoteProcess, signal: ProcessSignal) => {
+    confirm({
+      title: intl.formatMessage({ id: 'processes.signal.title' }, { signal }),
+      message: intl.formatMessage(
+        { id: `processes.signal.message.${signal}` },
+        { pid: process.pid, command: process.command.slice(0, 120) }
+      ),
+      confirmText: intl.formatMessage({ id: 'processes.signal.confirm' }, { signal }),
+      cancelText: intl.formatMessage({ id: 'common.cancel' }),
+      variant: signal === 'KILL' ? 'danger' : 'warning',
+      onConfirm: async () => {
+        try {
+          const response = await fetch(`/api/connections/${connectionId}/processes`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-session-token': sessionToken },
+            body: JSON.stringify({ pid: process.pid, signal }),
+          })
+          // Surface kill's own error, e.g. "Operation not permitted" for other users' processes
+          if (!response.ok) {
+            const data = await response.json().catch(() => ({}))
+            throw new Error(data.error)
+          }
+          toast.success(
+            intl.formatMessage({ id: 'processes.signal.success' }, { signal, pid: process.pid })
+          )
+          loadProcesses()
+        } catch (err) {
+          toast.error(
+            err instanceof Error && err.message
+              ? err.message
+              : intl.formatMessage({ id: 'processes.signal.error' })
+          )
+        }
+      },
+    })
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 border-b border-border bg-background-secondary px-6 py-3 text-sm">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={intl.formatMessage({ id: 'processes.filter.placeholder' })}
+          className="w-72 rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
+        />
+
+        <label className="flex items-center gap-1.5 text-foreground-muted">
+          <FormattedMessage id="processes.refresh.label" />
+          <select
+            value={refreshInterval}
+            onChange={(e) => setRefreshInterval(Number(e.target.value))}
+            className="rounded-lg border border-border bg-background px-2 py-1.5 text-sm text-foreground focus:outline-none"
+          >
+            {REFRESH_INTERVALS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds
+                  ? intl.formatMessage({ id: 'processes.refresh.seconds' }, { seconds })
+                  : intl.formatMessage({ id: 'processes.refresh.off' })}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={loadProcesses}
+          className="rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground hover:bg-background-tertiary"
+        >
+          <FormattedMessage id="common.refresh" />
+        </button>
+
+        <span className="ml-auto text-xs text-foreground-muted">
+          <FormattedMessage
+            id="processes.count"
+            values={{ shown: visibleProcesses.length, total: processes.length }}
+          />
+          {lastUpdated && (
+            <>
+              {' • '}
+              <FormattedMessage
+                id="processes.updatedAt"
+                values={{ time: lastUpdated.toLocaleTimeString(intl.locale) }}
+              />
+            </>
+          )}
+        </span>
+      </div>
+
+      {error && <p className="border-b border-border px-6 py-2 text-sm text-red-500">{error}</p>}
+
+      {/* Process table */}
+      <div className="flex-1 overflow-auto">
+        {isLoading ? (
+          <p className="p-6 text-sm text-foreground-muted">
+            <FormattedMessage id="common.loading" />
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-background-secondary text-left text-xs uppercase text-foreground-muted">
+              <tr>
+                {COLUMNS.map((column) => (
+                  <th key={column.key} className={`px-3 py-2 font-medium ${column.className}`}>
+                    <button
+                      onClick={() => handleSort(column.key)}
+                      className="uppercase hover:text-foreground"
+                    >
+                      <FormattedMessage id={`processes.column.${column.key}`} />
+                      {sortKey === column.key && (sortAscending ? ' ▲' : ' ▼')}
+                    </button>
+                  </th>
+                ))}
+                <th className="w-48 px-3 py-2 text-right font-medium">
+                  <FormattedMessage id="processes.column.actions" />
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border font-mono">
+              {visibleProcesses.map((process) => (
+                <tr key={process.pid} className="hover:bg-background-secondary">
+                  <td className="px-3 py-1.5 text-right">{process.pid}</td>
+                  <td className="truncate px-3 py-1.5">{process.user}</td>
+                  <td className="px-3 py-1.5 text-right">{process.cpu.toFixed(1)}</td>
+                  <td className="px-3 py-1.5 text-right">{process.mem.toFixed(1)}</td>
+                  <td className="px-3 py-1.5 text-foreground-muted">
+                    {new Date(process.startedAt).toLocaleString(intl.locale)}
+                  </td>
+                  <td className="max-w-0 truncate px-3 py-1.5" title={process.command}>
+                    {process.command}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {PROCESS_SIGNALS.map((signal) => (
+                      <button
+                        key={signal}
+                        onClick={() => sendSignal(process, signal)}
+                        className={`ml-1 rounded px-2 py-0.5 text-xs font-medium ${SIGNAL_STYLES[signal]}`}
+                      >
+                        {signal}
+                      </button>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {!isLoading && visibleProcesses.length === 0 && (
+          <p className="p-6 text-sm text-foreground-muted">
+            <FormattedMessage id="processes.empty" />
+          </p>
+        )}
+      </div>
+
+      <ConfirmationModal />
+    </div>
+  )
+}
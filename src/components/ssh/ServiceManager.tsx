@@ -0,0 +1,346 @@
+'use client'
+
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useToast } from '@/components/ui/ToastContext'
+import { useConfirmation } from '@/hooks/useConfirmation'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { apiCall, SERVICE_ACTIONS } from '@/types/ssh'
+import type { ServiceAction, ServiceDetails, SystemdUnit } from '@/types/ssh'
+import type { ApiSuccessResponse } from '@/lib/api/response'
+
+interface ServiceManagerProps {
+  connectionId: string
+  sessionToken: string
+}
+
+type StateFilter = 'all' | 'active' | 'failed' | 'inactive'
+
+const STATE_FILTERS: StateFilter[] = ['all', 'active', 'failed', 'inactive']
+const JOURNAL_LINES = [50, 100, 500, 1000]
+
+const ACTIVE_STYLES: Record<string, string> = {
+  active: 'bg-terminal-green/10 text-terminal-green',
+  failed: 'bg-red-500/10 text-red-500',
+  activating: 'bg-yellow-500/10 text-yellow-500',
+  deactivating: 'bg-yellow-500/10 text-yellow-500',
+}
+
+export function ServiceManager({ connectionId, sessionToken }: ServiceManagerProps) {
+  const intl = useIntl()
+  const { toast } = useToast()
+  const { confirm, ConfirmationModal } = useConfirmation()
+
+  const [services, setServices] = useState<SystemdUnit[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [filter, setFilter] = useState('')
+  const [stateFilter, setStateFilter] = useState<StateFilter>('all')
+  const [useSudo, setUseSudo] = useState(false)
+  const [selectedUnit, setSelectedUnit] = useState<string | null>(null)
+  const [details, setDetails] = useState<ServiceDetails | null>(null)
+  const [detailsError, setDetailsError] = useState<string | null>(null)
+  const [isLoadingDetails, setIsLoadingDetails] = useState(false)
+  const [journalLines, setJournalLines] = useState(JOURNAL_LINES[1])
+
+  const headers = useMemo(() => ({ 'x-session-token': sessionToken }), [sessionToken])
+
+  const loadServices = useCallback(async () => {
+    try {
+      const response = await apiCall<ApiSuccessResponse<{ services: SystemdUnit[] }>>(
+        `/api/connections/${connectionId}/services`,
+        { headers }
+      )
+      setServices(response.data.services)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load services:', err)
+      setError(intl.formatMessage({ id: 'services.error.loadFailed' }))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [connectionId, headers, intl])
+
+  // apiCall drops the route's error text, which here is what the user needs (e.g. sudo's)
+  const requestJson = useCallback(
+    async <T,>(url: string, init?: RequestInit): Promise<T> => {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...headers },
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || response.statusText)
+      return data.data as T
+    },
+    [headers]
+  )
+
+  const loadDetails = useCallback(
+    async (unit: string) => {
+      setIsLoadingDetails(true)
+      setDetailsError(null)
+      try {
+        const params = new URLSearchParams({ unit, lines: String(journalLines) })
+        if (useSudo) params.set('sudo', '1')
+        setDetails(
+          await requestJson<ServiceDetails>(
+            `/api/connections/${connectionId}/services/details?${params.toString()}`
+          )
+        )
+      } catch (err) {
+        setDetails(null)
+        setDetailsError(err instanceof Error ? err.message : String(err))
+      } finally {
+        setIsLoadingDetails(false)
+      }
+    },
+    [connectionId, journalLines, useSudo, requestJson]
+  )
+
+  useEffect(() => {
+    loadServices()
+  }, [loadServices])
+
+  useEffect(() => {
+    if (selectedUnit) loadDetails(selectedUnit)
+  }, [selectedUnit, loadDetails])
+
+  const visibleServices = useMemo(() => {
+    const query = filter.trim().toLowerCase()
+    return services.filter((service) => {
+      if (stateFilter !== 'all' && service.active !== stateFilter) return false
+      return (
+        !query ||
+        service.unit.toLowerCase().includes(query) ||
+        service.description.toLowerCase().includes(query)
+      )
+    })
+  }, [services, filter, stateFilter])
+
+  const runAction = (unit: string, action: ServiceAction) => {
+    confirm({
+      title: intl.formatMessage({ id: 'services.action.title' }, { action, unit }),
+      message: intl.formatMessage(
+        { id: `services.action.message.${action}` },
+        { unit, sudo: useSudo ? 'yes' : 'no' }
+      ),
+      confirmText: intl.formatMessage({ id: `services.action.${action}` }),
+      cancelText: intl.formatMessage({ id: 'common.cancel' }),
+      variant: action === 'stop' || action === 'disable' ? 'danger' : 'warning',
+      onConfirm: async () => {
+        try {
+          await requestJson(`/api/connections/${connectionId}/services`, {
+            method: 'POST',
+            body: JSON.stringify({ unit, action, sudo: useSudo }),
+          })
+          toast.success(intl.formatMessage({ id: 'services.action.success' }, { action, unit }))
+        } catch (err) {
+          toast.error(err instanceof Error ? err.message : String(err))
+        }
+        loadServices()
+        if (unit === selectedUnit) loadDetails(unit)
+      },
+    })
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 border-b border-border bg-background-secondary px-6 py-3 text-sm">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={intl.formatMessage({ id: 'services.filter.placeholder' })}
+          className="w-72 rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
+        />
+        <select
+          value={stateFilter}
+          onChange={(e) => setStateFilter(e.target.value as StateFilter)}
+          className="rounded-lg border border-border bg-background px-2 py-1.5 text-sm text-foreground focus:outline-none"
+        >
+          {STATE_FILTERS.map((state) => (
+            <option key={state} value={state}>
+              {intl.formatMessage({ id: `services.filter.${state}` })}
+            </option>
+          ))}
+        </select>
+        <label
+          className="flex items-center gap-1.5 text-foreground-muted"
+          title={intl.formatMessage({ id: 'services.sudo.hint' })}
+        >
+          <input
+            type="checkbox"
+            checked={useSudo}
+            onChange={(e) => setUseSudo(e.target.checked)}
+            className="rounded border-border"
+          />
+          <FormattedMessage id="services.sudo.label" />
+        </label>
+        <button
+          onClick={loadServices}
+          className="rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground hover:bg-background-tertiary"
+        >
+          <FormattedMessage id="common.refresh" />
+        </button>
+        <span className="ml-auto text-xs text-foreground-muted">
+          <FormattedMessage
+            id="services.count"
+            values={{ shown: visibleServices.length, total: services.length }}
+          />
+        </span>
+      </div>
+
+      {error && <p className="border-b border-border px-6 py-2 text-sm text-red-500">{error}</p>}
+
+      <div className="flex min-h-0 flex-1">
+        {/* Unit list */}
+        <div className="min-w-0 flex-1 overflow-auto">
+          {isLoading ? (
+            <p className="p-6 text-sm text-foreground-muted">
+              <FormattedMessage id="common.loading" />
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background-secondary text-left text-xs uppercase text-foreground-muted">
+                <tr>
+                  <th className="px-3 py-2 font-medium">
+                    <FormattedMessage id="services.column.unit" />
+                  </th>
+                  <th className="px-3 py-2 font-medium">
+                    <FormattedMessage id="services.column.state" />
+                  </th>
+                  <th className="px-3 py-2 font-medium">
+                    <FormattedMessage id="services.column.enabled" />
+                  </th>
+                  <th className="px-3 py-2 text-right font-medium">
+                    <FormattedMessage id="services.column.actions" />
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {visibleServices.map((service) => (
+                  <tr
+                    key={service.unit}
+                    onClick={() => setSelectedUnit(service.unit)}
+                    className={`cursor-pointer hover:bg-background-secondary ${
+                      service.unit === selectedUnit ? 'bg-background-secondary' : ''
+                    }`}
+                  >
+                    <td className="max-w-0 px-3 py-1.5">
+                      <p className="truncate font-mono text-foreground">{service.unit}</p>
+                      <p className="truncate text-xs text-foreground-muted">
+                        {service.description}
+                      </p>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-1.5">
+                      <span
+                        className={`rounded px-2 py-0.5 text-xs ${
+                          ACTIVE_STYLES[service.active] ??
+                          'bg-background-tertiary text-foreground-muted'
+                        }`}
+                      >
+                        {service.active} ({service.sub})
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-1.5 text-xs text-foreground-muted">
+                      {service.enabled ?? '–'}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-1.5 text-right">
+                      {SERVICE_ACTIONS.map((action) => (
+                        <button
+                          key={action}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            runAction(service.unit, action)
+                          }}
+                          className="ml-1 rounded px-2 py-0.5 text-xs text-foreground-muted hover:bg-background-tertiary hover:text-foreground"
+                        >
+                          <FormattedMessage id={`services.action.${action}`} />
+                        </button>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {!isLoading && visibleServices.length === 0 && (
+            <p className="p-6 text-sm text-foreground-muted">
+              <FormattedMessage id="services.empty" />
+            </p>
+          )}
+        </div>
+
+        {/* Status and journal of the selected unit */}
+        {selectedUnit && (
+          <div className="flex w-1/2 min-w-0 flex-col border-l border-border">
+            <div className="flex items-center justify-between gap-3 border-b border-border bg-background-secondary px-4 py-2 text-sm">
+              <h2 className="truncate font-mono font-medium text-foreground">{selectedUnit}</h2>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1.5 text-foreground-muted">
+                  <FormattedMessage id="services.journal.lines" />
+                  <select
+                    value={journalLines}
+                    onChange={(e) => setJournalLines(Number(e.target.value))}
+                    className="rounded-lg border border-border bg-background px-2 py-1 text-sm text-foreground focus:outline-none"
+                  >
+                    {JOURNAL_LINES.map((lines) => (
+                      <option key={lines} value={lines}>
+                        {lines}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={() => loadDetails(selectedUnit)}
+                  disabled={isLoadingDetails}
+                  className="rounded-lg border border-border bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
+                >
+                  <FormattedMessage id="common.refresh" />
+                </button>
+                <button
+                  onClick={() => {
+                    setSelectedUnit(null)
+                    setDetails(null)
+                  }}
+                  className="rounded-lg border border-border bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary"
+                >
+                  <FormattedMessage id="common.close" />
+                </button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-auto bg-background p-4 font-mono text-xs text-foreground">
+              {detailsError ? (
+                <p className="text-red-500">{detailsError}</p>
+              ) : !details ? (
+                <p className="text-foreground-muted">
+                  <FormattedMessage id="common.loading" />
+                </p>
+              ) : (
+                <>
+                  <pre className="whitespace-pre-wrap">{details.status}</pre>
+                  <h3 className="mb-2 mt-4 font-sans text-sm font-medium text-foreground-muted">
+                    <FormattedMessage id="services.journal.title" />
+                  </h3>
+                  {details.journal.length ? (
+                    details.journal.map((line, index) => (
+                      <div key={index} className="whitespace-pre-wrap break-all">
+                        {line}
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-foreground-muted">
+                      <FormattedMessage id="services.journal.empty" />
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmationModal />
+    </div>
+  )
+}
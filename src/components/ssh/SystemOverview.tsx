@@ -0,0 +1,228 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { Sparkline } from '@/components/ui'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { formatFileSize } from '@/lib/utils/file'
+import { apiCall } from '@/types/ssh'
+import type { SystemInfo, SystemStats } from '@/types/ssh'
+import type { ApiSuccessResponse } from '@/lib/api/response'
+
+interface SystemOverviewProps {
+  connectionId: string
+  sessionToken: string
+}
+
+interface Sample {
+  stats: SystemStats
+  // Percent of CPU time spent busy since the previous sample
+  cpuPercent: number | null
+  memoryPercent: number
+}
+
+const SAMPLE_INTERVAL = 3000
+// Five minutes of history at the interval above
+const MAX_SAMPLES = 100
+
+function toSample(stats: SystemStats, previous: SystemStats | undefined): Sample {
+  let cpuPercent: number | null = null
+  if (previous) {
+    const total = stats.cpu.total - previous.cpu.total
+    const idle = stats.cpu.idle - previous.cpu.idle
+    cpuPercent = total > 0 ? Math.min(100, Math.max(0, ((total - idle) / total) * 100)) : 0
+  }
+
+  const { total, available } = stats.memory
+  return {
+    stats,
+    cpuPercent,
+    memoryPercent: total ? ((total - available) / total) * 100 : 0,
+  }
+}
+
+export function SystemOverview({ connectionId, sessionToken }: SystemOverviewProps) {
+  const intl = useIntl()
+  const [info, setInfo] = useState<SystemInfo | null>(null)
+  const [samples, setSamples] = useState<Sample[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const loadingRef = useRef(false)
+  const infoLoadedRef = useRef(false)
+
+  const sample = useCallback(async () => {
+    // Background tabs and slow hosts skip a tick instead of queueing requests
+    if (loadingRef.current || document.hidden) return
+    loadingRef.current = true
+
+    try {
+      const response = await apiCall<ApiSuccessResponse<{ stats: SystemStats; info?: SystemInfo }>>(
+        `/api/connections/${connectionId}/system${infoLoadedRef.current ? '' : '?info=1'}`,
+        { headers: { 'x-session-token': sessionToken } }
+      )
+      const { stats, info } = response.data
+      if (info) {
+        infoLoadedRef.current = true
+        setInfo(info)
+      }
+      setSamples((prev) =>
+        prev.concat(toSample(stats, prev[prev.length - 1]?.stats)).slice(-MAX_SAMPLES)
+      )
+      setError(null)
+    } catch (err) {
+      console.error('Failed to sample system stats:', err)
+      setError(intl.formatMessage({ id: 'system.error.loadFailed' }))
+    } finally {
+      loadingRef.current = false
+    }
+  }, [connectionId, sessionToken, intl])
+
+  useEffect(() => {
+    sample()
+    const timer = setInterval(sample, SAMPLE_INTERVAL)
+    return () => clearInterval(timer)
+  }, [sample])
+
+  const latest = samples[samples.length - 1]
+
+  const formatUptime = (seconds: number) => {
+    const days = Math.floor(seconds / 86400)
+    const hours = Math.floor((seconds % 86400) / 3600)
+    const minutes = Math.floor((seconds % 3600) / 60)
+    return intl.formatMessage({ id: 'system.uptimeValue' }, { days, hours, minutes })
+  }
+
+  if (!latest) {
+    return (
+      <div className="p-6 text-sm">
+        {error ? (
+          <p className="text-red-500">{error}</p>
+        ) : (
+          <p className="text-foreground-muted">
+            <FormattedMessage id="common.loading" />
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  const { stats } = latest
+  const cpuCount = info?.cpuCount ?? 1
+  const cpuHistory = samples
+    .map((entry) => entry.cpuPercent)
+    .filter((value): value is number => value !== null)
+  const swapUsed = stats.memory.swapTotal - stats.memory.swapFree
+
+  return (
+    <div className="space-y-6 p-6">
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {/* Host */}
+      {info && (
+        <div className="rounded-lg border border-border bg-background-secondary p-6">
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-4 text-sm">
+            <div>
+              <dt className="font-medium text-foreground-muted">
+                <FormattedMessage id="system.hostname" />
+              </dt>
+              <dd className="mt-1 font-mono text-foreground">{info.hostname}</dd>
+            </div>
+            <div>
+              <dt className="font-medium text-foreground-muted">
+                <FormattedMessage id="system.os" />
+              </dt>
+              <dd className="mt-1 text-foreground">
+                {info.os ?? intl.formatMessage({ id: 'system.unknown' })}
+              </dd>
+            </div>
+            <div>
+              <dt className="font-medium text-foreground-muted">
+                <FormattedMessage id="system.uptime" />
+              </dt>
+              <dd className="mt-1 text-foreground">{formatUptime(stats.uptimeSeconds)}</dd>
+            </div>
+            <div>
+              <dt className="font-medium text-foreground-muted">
+                <FormattedMessage id="system.cpus" />
+              </dt>
+              <dd className="mt-1 text-foreground">{info.cpuCount}</dd>
+            </div>
+            <div className="col-span-2">
+              <dt className="font-medium text-foreground-muted">
+                <FormattedMessage id="system.kernel" />
+              </dt>
+              <dd className="mt-1 break-all font-mono text-xs text-foreground">{info.kernel}</dd>
+            </div>
+          </dl>
+        </div>
+      )}
+
+      {/* Live metrics */}
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="rounded-lg border border-border bg-background-secondary p-4">
+          <p className="text-sm font-medium text-foreground-muted">
+            <FormattedMessage id="system.cpu" />
+          </p>
+          <p className="mt-1 text-2xl font-semibold text-foreground">
+            {latest.cpuPercent === null ? '–' : `${latest.cpuPercent.toFixed(1)}%`}
+          </p>
+          <Sparkline values={cpuHistory} max={100} width={240} className="mt-3 w-full" />
+        </div>
+
+        <div className="rounded-lg border border-border bg-background-secondary p-4">
+          <p className="text-sm font-medium text-foreground-muted">
+            <FormattedMessage id="system.memory" />
+          </p>
+          <p className="mt-1 text-2xl font-semibold text-foreground">
+            {latest.memoryPercent.toFixed(1)}%
+          </p>
+          <p className="text-xs text-foreground-muted">
+            <FormattedMessage
+              id="system.memoryUsage"
+              values={{
+                used: formatFileSize(stats.memory.total - stats.memory.available),
+                total: formatFileSize(stats.memory.total),
+              }}
+            />
+            {stats.memory.swapTotal > 0 && (
+              <>
+                {' • '}
+                <FormattedMessage
+                  id="system.swapUsage"
+                  values={{
+                    used: formatFileSize(swapUsed),
+                    total: formatFileSize(stats.memory.swapTotal),
+                  }}
+                />
+              </>
+            )}
+          </p>
+          <Sparkline
+            values={samples.map((entry) => entry.memoryPercent)}
+            max={100}
+            width={240}
+            className="mt-2 w-full text-terminal-blue"
+          />
+        </div>
+
+        <div className="rounded-lg border border-border bg-background-secondary p-4">
+          <p className="text-sm font-medium text-foreground-muted">
+            <FormattedMessage id="system.load" />
+          </p>
+          <p className="mt-1 text-2xl font-semibold text-foreground">
+            {stats.load.map((value) => value.toFixed(2)).join(' ')}
+          </p>
+          {/* A load equal to the CPU count means every core is busy */}
+          <Sparkline
+            values={samples.map((entry) => entry.stats.load[0])}
+            max={cpuCount}
+            width={240}
+            className={`mt-3 w-full ${stats.load[0] > cpuCount ? 'text-red-500' : 'text-yellow-500'}`}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-foreground-muted">
+        <FormattedMessage id="system.sampling" values={{ seconds: SAMPLE_INTERVAL / 1000 }} />
+      </p>
+    </div>
+  )
+}
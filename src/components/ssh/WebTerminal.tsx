@@ -0,0 +1,184 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Terminal } from '@xterm/xterm'
+import '@xterm/xterm/css/xterm.css'
+import { FormattedMessage } from '@/lib/i18n'
+import { apiCall } from '@/lib/api/client'
+import type {
+  TerminalClientMessage,
+  TerminalServerMessage,
+  TerminalTicketResponse,
+} from '@/types/ssh'
+
+type TerminalStatus = 'connecting' | 'connected' | 'closed' | 'error'
+
+interface WebTerminalProps {
+  connectionId: string
+  sessionToken: string
+}
+
+const STATUS_COLORS: Record<TerminalStatus, string> = {
+  connecting: 'text-terminal-yellow',
+  connected: 'text-terminal-green',
+  closed: 'text-foreground-muted',
+  error: 'text-red-500',
+}
+
+export function WebTerminal({ connectionId, sessionToken }: WebTerminalProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [status, setStatus] = useState<TerminalStatus>('connecting')
+  const [error, setError] = useState<string | null>(null)
+  // Bumped to tear down and reopen the shell
+  const [attempt, setAttempt] = useState(0)
+
+  useEffect(() => {
+    let disposed = false
+    let terminal: Terminal | null = null
+    let socket: WebSocket | null = null
+    let resizeObserver: ResizeObserver | null = null
+
+    const send = (message: TerminalClientMessage) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message))
+      }
+    }
+
+    const start = async () => {
+      setStatus('connecting')
+      setError(null)
+
+      try {
+        const [{ Terminal }, { FitAddon }] = await Promise.all([
+          import('@xterm/xterm'),
+          import('@xterm/addon-fit'),
+        ])
+        if (disposed || !containerRef.current) return
+
+        terminal = new Terminal({
+          cursorBlink: true,
+          fontFamily: '"JetBrains Mono", "Fira Code", monospace',
+          fontSize: 13,
+          scrollback: 5000,
+          theme: {
+            background: '#0a0a0a',
+            foreground: '#e4e4e7',
+            cursor: '#50fa7b',
+            selectionBackground: '#50fa7b40',
+            green: '#50fa7b',
+            red: '#ff5555',
+            yellow: '#f1fa8c',
+            blue: '#8be9fd',
+            magenta: '#bd93f9',
+            cyan: '#8be9fd',
+          },
+        })
+        const fitAddon = new FitAddon()
+        terminal.loadAddon(fitAddon)
+        terminal.open(containerRef.current)
+        fitAddon.fit()
+
+        const { ticket, port, url } = await apiCall<TerminalTicketResponse>(
+          `/api/connections/${connectionId}/terminal`,
+          { headers: { 'x-session-token': sessionToken } }
+        )
+        if (disposed) return
+
+        const baseUrl =
+          url ||
+          `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.hostname}:${port}`
+        const query = new URLSearchParams({
+          ticket,
+          cols: String(terminal.cols),
+          rows: String(terminal.rows),
+        })
+
+        socket = new WebSocket(`${baseUrl}?${query.toString()}`)
+        socket.binaryType = 'arraybuffer'
+
+        socket.onmessage = (event) => {
+          if (typeof event.data !== 'string') {
+            terminal?.write(new Uint8Array(event.data as ArrayBuffer))
+            return
+          }
+
+          const message = JSON.parse(event.data) as TerminalServerMessage
+          if (message.type === 'ready') {
+            setStatus('connected')
+            terminal?.focus()
+          } else if (message.type === 'exit') {
+            terminal?.write(`\r\n\x1b[90m[exit ${message.code ?? '?'}]\x1b[0m\r\n`)
+          } else if (message.type === 'error') {
+            setError(message.message)
+            setStatus('error')
+          }
+        }
+
+        socket.onclose = () => {
+          if (disposed) return
+          setStatus((current) => (current === 'error' ? current : 'closed'))
+        }
+
+        socket.onerror = () => {
+          if (disposed) return
+          setStatus('error')
+        }
+
+        // Keystrokes, Ctrl-C and pasted text all arrive through onData
+        terminal.onData((data) => send({ type: 'input', data }))
+        terminal.onResize(({ cols, rows }) => send({ type: 'resize', cols, rows }))
+
+        resizeObserver = new ResizeObserver(() => {
+          try {
+            fitAddon.fit()
+          } catch {
+            // The container can be detached while a resize is pending
+          }
+        })
+        resizeObserver.observe(containerRef.current)
+      } catch (err) {
+        if (disposed) return
+        setError(err instanceof Error ? err.message : String(err))
+        setStatus('error')
+      }
+    }
+
+    start()
+
+    return () => {
+      disposed = true
+      resizeObserver?.disconnect()
+      socket?.close()
+      terminal?.dispose()
+    }
+  }, [connectionId, sessionToken, attempt])
+
+  const handleReconnect = useCallback(() => {
+    setAttempt((value) => value + 1)
+  }, [])
+
+  return (
+    <div className="terminal-window flex h-full flex-col">
+      <div className="terminal-header justify-between">
+        <div className="flex items-center gap-2">
+          <div className="terminal-dot bg-red-500" />
+          <div className="terminal-dot bg-yellow-500" />
+          <div className="terminal-dot bg-green-500" />
+          <span className={`ml-2 text-xs ${STATUS_COLORS[status]}`}>
+            <FormattedMessage id={`terminal.status.${status}`} />
+          </span>
+          {error && <span className="truncate text-xs text-red-500">{error}</span>}
+        </div>
+        {(status === 'closed' || status === 'error') && (
+          <button
+            onClick={handleReconnect}
+            className="rounded px-2 py-1 text-xs text-terminal-green transition-colors hover:bg-terminal-green/10"
+          >
+            <FormattedMessage id="terminal.reconnect" />
+          </button>
+        )}
+      </div>
+      <div ref={containerRef} className="min-h-0 flex-1 bg-background p-2" />
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { FormattedMessage, useIntl } from '@/lib/i18n'
+import { Button, Checkbox, Modal } from '@/components/ui'
+import { CronParseError, getNextRuns, parseSchedule } from '@/lib/cron/schedule'
+import type { CrontabEntry } from '@/lib/cron/crontab'
+import { describeSchedule } from './describeSchedule'
+
+interface CronEntryModalProps {
+  // null adds a new entry
+  entry: CrontabEntry | null
+  onSave: (entry: CrontabEntry) => void
+  onClose: () => void
+}
+
+const PRESETS = ['*/5 * * * *', '0 * * * *', '0 0 * * *', '0 3 * * 0', '0 0 1 * *', '@reboot']
+const PREVIEW_RUNS = 5
+
+export function CronEntryModal({ entry, onSave, onClose }: CronEntryModalProps) {
+  const intl = useIntl()
+  const [schedule, setSchedule] = useState(entry?.schedule ?? '0 * * * *')
+  const [command, setCommand] = useState(entry?.command ?? '')
+  const [enabled, setEnabled] = useState(entry?.enabled ?? true)
+
+  const preview = useMemo(() => {
+    try {
+      const parsed = parseSchedule(schedule)
+      return {
+        error: null,
+        description: describeSchedule(parsed, intl),
+        runs: getNextRuns(parsed, PREVIEW_RUNS),
+      }
+    } catch (error) {
+      if (!(error instanceof CronParseError)) throw error
+      return { error: error.message, description: null, runs: [] }
+    }
+  }, [schedule, intl])
+
+  const trimmedCommand = command.trim()
+  const canSave = !preview.error && trimmedCommand !== '' && !trimmedCommand.includes('\n')
+
+  const handleSave = () => {
+    if (!canSave) return
+    onSave({ type: 'entry', schedule: schedule.trim(), command: trimmedCommand, enabled })
+  }
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={intl.formatMessage({ id: entry ? 'cron.edit.title' : 'cron.add.title' })}
+      size="lg"
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleSave()
+        }}
+        className="space-y-4"
+      >
+        <div>
+          <label htmlFor="cron-schedule" className="mb-2 block text-sm font-medium text-foreground">
+            <FormattedMessage id="cron.field.schedule" />
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="cron-schedule"
+              type="text"
+              value={schedule}
+              onChange={(e) => setSchedule(e.target.value)}
+              autoFocus
+              spellCheck={false}
+              className="flex-1 rounded-lg border border-border bg-background-secondary px-3 py-2 font-mono text-sm text-foreground focus:border-terminal-green focus:outline-none"
+            />
+            <select
+              value=""
+              onChange={(e) => e.target.value && setSchedule(e.target.value)}
+              className="rounded-lg border border-border bg-background-secondary px-2 py-2 text-sm text-foreground focus:outline-none"
+            >
+              <option value="">{intl.formatMessage({ id: 'cron.field.presets' })}</option>
+              {PRESETS.map((preset) => (
+                <option key={preset} value={preset}>
+                  {preset}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="mt-1 font-mono text-xs text-foreground-muted">
+            <FormattedMessage id="cron.field.scheduleHint" />
+          </p>
+        </div>
+
+        <div className="rounded-lg border border-border bg-background-secondary p-3 text-sm">
+          {preview.error ? (
+            <p className="text-red-500">{preview.error}</p>
+          ) : (
+            <>
+              <p className="font-medium text-foreground">{preview.description}</p>
+              {preview.runs.length > 0 && (
+                <>
+                  <p className="mt-2 text-xs text-foreground-muted">
+                    <FormattedMessage id="cron.nextRuns" values={{ count: preview.runs.length }} />
+                  </p>
+                  <ul className="mt-1 space-y-0.5 font-mono text-xs text-foreground">
+                    {preview.runs.map((run) => (
+                      <li key={run.getTime()}>{run.toLocaleString(intl.locale)}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="cron-command" className="mb-2 block text-sm font-medium text-foreground">
+            <FormattedMessage id="cron.field.command" />
+          </label>
+          <input
+            id="cron-command"
+            type="text"
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            spellCheck={false}
+            placeholder={intl.formatMessage({ id: 'cron.field.commandPlaceholder' })}
+            className="w-full rounded-lg border border-border bg-background-secondary px-3 py-2 font-mono text-sm text-foreground placeholder-foreground-muted focus:border-terminal-green focus:outline-none"
+          />
+          <p className="mt-1 text-xs text-foreground-muted">
+            <FormattedMessage id="cron.field.commandHint" />
+          </p>
+        </div>
+
+        <Checkbox
+          id="cron-enabled"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          label={intl.formatMessage({ id: 'cron.field.enabled' })}
+        />
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            <FormattedMessage id="common.cancel" />
+          </Button>
+          <Button type="submit" disabled={!canSave}>
+            <FormattedMessage id={entry ? 'common.save' : 'cron.add.confirm'} />
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
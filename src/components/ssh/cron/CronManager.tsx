@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useToast } from '@/components/ui/ToastContext'
+import { useConfirmation } from '@/hooks/useConfirmation'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { apiCall } from '@/lib/api/client'
+import { CronParseError, getNextRuns, parseSchedule } from '@/lib/cron/schedule'
+import { parseCrontab, serializeCrontab } from '@/lib/cron/crontab'
+import type { CrontabEntry, CrontabLine } from '@/lib/cron/crontab'
+import { CronEntryModal } from './CronEntryModal'
+import { describeSchedule } from './describeSchedule'
+
+interface CronManagerProps {
+  connectionId: string
+  sessionToken: string
+}
+
+interface CronRow {
+  line: CrontabEntry
+  // Position in the crontab lines, comments and variables included
+  index: number
+  description: string | null
+  nextRun: Date | null
+  error: string | null
+}
+
+// Index into the crontab lines, or 'new' while adding an entry
+type EditTarget = number | 'new' | null
+
+export function CronManager({ connectionId, sessionToken }: CronManagerProps) {
+  const intl = useIntl()
+  const { toast } = useToast()
+  const { confirm, ConfirmationModal } = useConfirmation()
+
+  // The crontab as installed on the host when it was last loaded
+  const [original, setOriginal] = useState<string | null>(null)
+  const [lines, setLines] = useState<CrontabLine[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [editing, setEditing] = useState<EditTarget>(null)
+
+  const url = `/api/connections/${connectionId}/cron`
+  const headers = useMemo(() => ({ 'x-session-token': sessionToken }), [sessionToken])
+
+  const loadCrontab = useCallback(async () => {
+    try {
+      const { content } = await apiCall<{ content: string }>(url, { headers })
+      setOriginal(content)
+      setLines(parseCrontab(content))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [url, headers])
+
+  useEffect(() => {
+    loadCrontab()
+  }, [loadCrontab])
+
+  const content = serializeCrontab(lines)
+  // Compare normalized forms so loading alone never counts as a change
+  const isDirty = original !== null && content !== serializeCrontab(parseCrontab(original))
+  const otherLines = lines.filter((line) => line.type === 'text' && line.text.trim()).length
+
+  const rows = useMemo(
+    () =>
+      lines.flatMap((line, index): CronRow[] => {
+        if (line.type !== 'entry') return []
+        try {
+          const schedule = parseSchedule(line.schedule)
+          return [
+            {
+              line,
+              index,
+              description: describeSchedule(schedule, intl),
+              nextRun: line.enabled ? (getNextRuns(schedule, 1)[0] ?? null) : null,
+              error: null,
+            },
+          ]
+        } catch (err) {
+          if (!(err instanceof CronParseError)) throw err
+          return [{ line, index, description: null, nextRun: null, error: err.message }]
+        }
+      }),
+    [lines, intl]
+  )
+  const hasErrors = rows.some((row) => row.error && row.line.enabled)
+
+  const updateLine = (index: number, line: CrontabLine | null) => {
+    setLines((prev) =>
+      line ? prev.map((item, i) => (i === index ? line : item)) : prev.filter((_, i) => i !== index)
+    )
+  }
+
+  const handleSaveEntry = (entry: CrontabEntry) => {
+    if (editing === 'new') {
+      setLines((prev) => [...prev, entry])
+    } else if (editing !== null) {
+      updateLine(editing, entry)
+    }
+    setEditing(null)
+  }
+
+  const install = async () => {
+    if (original === null) return
+    setIsSaving(true)
+    try {
+      const { backupPath } = await apiCall<{ backupPath: string | null }>(url, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ content, expected: original }),
+      })
+      toast.success(
+        backupPath
+          ? intl.formatMessage({ id: 'cron.save.successWithBackup' }, { path: backupPath })
+          : intl.formatMessage({ id: 'cron.save.success' })
+      )
+      await loadCrontab()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const discard = () => {
+    confirm({
+      title: intl.formatMessage({ id: 'cron.discard.title' }),
+      message: intl.formatMessage({ id: 'cron.discard.message' }),
+      confirmText: intl.formatMessage({ id: 'cron.discard.confirm' }),
+      cancelText: intl.formatMessage({ id: 'common.cancel' }),
+      variant: 'warning',
+      onConfirm: loadCrontab,
+    })
+  }
+
+  const cell = 'px-3 py-1.5'
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 border-b border-border bg-background-secondary px-6 py-3 text-sm">
+        <button
+          onClick={() => setEditing('new')}
+          disabled={original === null}
+          className="hover:bg-terminal-green-hover rounded-lg bg-terminal-green px-3 py-1.5 text-sm font-medium text-background transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <FormattedMessage id="cron.add.button" />
+        </button>
+        <button
+          onClick={install}
+          disabled={!isDirty || hasErrors || isSaving}
+          className="rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
+        >
+          <FormattedMessage id={isSaving ? 'common.processing' : 'cron.save.button'} />
+        </button>
+        <button
+          onClick={isDirty ? discard : loadCrontab}
+          disabled={isSaving}
+          className="rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
+        >
+          <FormattedMessage id={isDirty ? 'cron.discard.button' : 'common.refresh'} />
+        </button>
+        <span className="ml-auto text-xs text-foreground-muted">
+          {isDirty ? (
+            <span className="text-yellow-500">
+              <FormattedMessage id="cron.unsaved" />
+            </span>
+          ) : (
+            <FormattedMessage id="cron.timezoneHint" />
+          )}
+        </span>
+      </div>
+
+      {error && <p className="border-b border-border px-6 py-2 text-sm text-red-500">{error}</p>}
+
+      <div className="flex-1 overflow-auto">
+        {original === null ? (
+          !error && (
+            <p className="p-6 text-sm text-foreground-muted">
+              <FormattedMessage id="common.loading" />
+            </p>
+          )
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background-secondary text-left text-xs uppercase text-foreground-muted">
+                <tr>
+                  <th className="w-72 px-3 py-2 font-medium">
+                    <FormattedMessage id="cron.column.schedule" />
+                  </th>
+                  <th className="px-3 py-2 font-medium">
+                    <FormattedMessage id="cron.column.command" />
+                  </th>
+                  <th className="w-48 px-3 py-2 font-medium">
+                    <FormattedMessage id="cron.column.nextRun" />
+                  </th>
+                  <th className="px-3 py-2 text-right font-medium">
+                    <FormattedMessage id="cron.column.actions" />
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {rows.map(({ line, index, description, nextRun, error }) => (
+                  <tr
+                    key={index}
+                    className={`hover:bg-background-secondary ${line.enabled ? '' : 'opacity-50'}`}
+                  >
+                    <td className={`${cell} max-w-0`}>
+                      <p className="truncate font-mono text-foreground">{line.schedule}</p>
+                      <p
+                        className={`truncate text-xs ${error ? 'text-red-500' : 'text-foreground-muted'}`}
+                      >
+                        {error ?? description}
+                      </p>
+                    </td>
+                    <td className={`${cell} max-w-0 truncate font-mono`} title={line.command}>
+                      {line.command}
+                    </td>
+                    <td className={`${cell} text-xs text-foreground-muted`}>
+                      {line.enabled
+                        ? (nextRun?.toLocaleString(intl.locale) ?? '–')
+                        : intl.formatMessage({ id: 'common.disabled' })}
+                    </td>
+                    <td className={`${cell} whitespace-nowrap text-right`}>
+                      <button
+                        onClick={() => setEditing(index)}
+                        className="ml-1 rounded px-2 py-0.5 text-xs text-foreground-muted hover:bg-background-tertiary hover:text-foreground"
+                      >
+                        <FormattedMessage id="cron.action.edit" />
+                      </button>
+                      <button
+                        onClick={() => updateLine(index, { ...line, enabled: !line.enabled })}
+                        className="ml-1 rounded px-2 py-0.5 text-xs text-foreground-muted hover:bg-background-tertiary hover:text-foreground"
+                      >
+                        <FormattedMessage
+                          id={line.enabled ? 'cron.action.disable' : 'cron.action.enable'}
+                        />
+                      </button>
+                      <button
+                        onClick={() => updateLine(index, null)}
+                        className="ml-1 rounded px-2 py-0.5 text-xs text-red-500 hover:bg-background-tertiary"
+                      >
+                        <FormattedMessage id="common.delete" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length === 0 && (
+              <p className="p-6 text-sm text-foreground-muted">
+                <FormattedMessage id="cron.empty" />
+              </p>
+            )}
+            {otherLines > 0 && (
+              <p className="px-6 py-3 text-xs text-foreground-muted">
+                <FormattedMessage id="cron.otherLines" values={{ count: otherLines }} />
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {editing !== null && (
+        <CronEntryModal
+          entry={editing === 'new' ? null : (lines[editing] as CrontabEntry)}
+          onSave={handleSaveEntry}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      <ConfirmationModal />
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import type { IntlShape } from 'react-intl'
+import type { CronSchedule } from '@/lib/cron/schedule'
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Spells out a parsed schedule, e.g. "At 02:30, on Monday and Friday"
+export function describeSchedule(schedule: CronSchedule, intl: IntlShape): string {
+  if (schedule.reboot) return intl.formatMessage({ id: 'cron.describe.reboot' })
+
+  const [minute, hour, , month] = schedule.fields
+  const parts: string[] = []
+
+  const step = minute.match(/^\*\/(\d+)$/)
+  if (minute === '*' && hour === '*') {
+    parts.push(intl.formatMessage({ id: 'cron.describe.everyMinute' }))
+  } else if (step && hour === '*') {
+    parts.push(intl.formatMessage({ id: 'cron.describe.everyMinutes' }, { step: step[1] }))
+  } else if (schedule.minutes.length === 1 && schedule.hours.length === 1) {
+    parts.push(
+      intl.formatMessage(
+        { id: 'cron.describe.at' },
+        { time: `${pad(schedule.hours[0])}:${pad(schedule.minutes[0])}` }
+      )
+    )
+  } else if (hour === '*') {
+    parts.push(intl.formatMessage({ id: 'cron.describe.minuteOfEveryHour' }, { minute }))
+  } else {
+    parts.push(intl.formatMessage({ id: 'cron.describe.minutePastHour' }, { minute, hour }))
+  }
+
+  const days: string[] = []
+  if (schedule.dayOfMonthRestricted) {
+    days.push(
+      intl.formatMessage(
+        { id: 'cron.describe.daysOfMonth' },
+        { days: intl.formatList(schedule.daysOfMonth.map(String)) }
+      )
+    )
+  }
+  if (schedule.dayOfWeekRestricted) {
+    // 7 January 2024 was a Sunday
+    const weekdays = schedule.daysOfWeek.map((day) =>
+      intl.formatDate(new Date(2024, 0, 7 + day), { weekday: 'long' })
+    )
+    days.push(
+      intl.formatMessage({ id: 'cron.describe.daysOfWeek' }, { days: intl.formatList(weekdays) })
+    )
+  }
+  // Both restricted means either day matches
+  if (days.length) parts.push(intl.formatList(days, { type: 'disjunction' }))
+
+  if (month !== '*') {
+    const months = schedule.months.map((value) =>
+      intl.formatDate(new Date(2024, value - 1, 1), { month: 'long' })
+    )
+    parts.push(
+      intl.formatMessage({ id: 'cron.describe.months' }, { months: intl.formatList(months) })
+    )
+  }
+
+  return parts.join(', ')
+}
@@ -0,0 +1,382 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { apiCall } from '@/lib/api/client'
+import type { CommandResult, ContainerFileEntry, DockerContainer } from '@/types/ssh'
+
+interface ContainerDetailsProps {
+  connectionId: string
+  sessionToken: string
+  container: DockerContainer
+  useSudo: boolean
+  onClose: () => void
+}
+
+type DetailsTab = 'logs' | 'files' | 'exec'
+
+const TABS: DetailsTab[] = ['logs', 'files', 'exec']
+const LOG_LINES = [100, 200, 1000, 5000]
+const LOG_REFRESH_INTERVAL = 5000
+
+interface ExecRun {
+  id: number
+  command: string
+  result: CommandResult | null
+  error: string | null
+}
+
+function parentPath(path: string): string {
+  const parent = path.replace(/\/+$/, '').split('/').slice(0, -1).join('/')
+  return parent || '/'
+}
+
+function joinPath(directory: string, name: string): string {
+  return `${directory.replace(/\/+$/, '')}/${name}`
+}
+
+/**
+ * Side panel for one container: its logs, a read-only file browser and a
+ * command runner, all going through `docker exec` on the connection's host.
+ */
+export function ContainerDetails({
+  connectionId,
+  sessionToken,
+  container,
+  useSudo,
+  onClose,
+}: ContainerDetailsProps) {
+  const intl = useIntl()
+  const [tab, setTab] = useState<DetailsTab>('logs')
+  const running = container.state === 'running'
+
+  const baseUrl = `/api/connections/${connectionId}/docker/containers/${encodeURIComponent(container.id)}`
+  const headers = useMemo(() => ({ 'x-session-token': sessionToken }), [sessionToken])
+
+  // Logs
+  const [logLines, setLogLines] = useState(LOG_LINES[1])
+  const [logs, setLogs] = useState<string[] | null>(null)
+  const [logsError, setLogsError] = useState<string | null>(null)
+  const [autoRefresh, setAutoRefresh] = useState(false)
+
+  const loadLogs = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ lines: String(logLines) })
+      if (useSudo) params.set('sudo', '1')
+      const data = await apiCall<{ lines: string[] }>(`${baseUrl}/logs?${params.toString()}`, {
+        headers,
+      })
+      setLogs(data.lines)
+      setLogsError(null)
+    } catch (err) {
+      setLogsError(err instanceof Error ? err.message : String(err))
+    }
+  }, [baseUrl, headers, logLines, useSudo])
+
+  useEffect(() => {
+    if (tab !== 'logs') return
+    loadLogs()
+    if (!autoRefresh) return
+    const timer = setInterval(loadLogs, LOG_REFRESH_INTERVAL)
+    return () => clearInterval(timer)
+  }, [tab, autoRefresh, loadLogs])
+
+  // Files
+  const [path, setPath] = useState('/')
+  const [entries, setEntries] = useState<ContainerFileEntry[] | null>(null)
+  const [openFile, setOpenFile] = useState<{
+    path: string
+    content: string
+    truncated: boolean
+  } | null>(null)
+  const [filesError, setFilesError] = useState<string | null>(null)
+
+  const loadDirectory = useCallback(
+    async (directory: string) => {
+      setEntries(null)
+      setFilesError(null)
+      try {
+        const params = new URLSearchParams({ path: directory })
+        if (useSudo) params.set('sudo', '1')
+        const data = await apiCall<{ entries: ContainerFileEntry[] }>(
+          `${baseUrl}/files?${params.toString()}`,
+          { headers }
+        )
+        setEntries(data.entries)
+      } catch (err) {
+        setFilesError(err instanceof Error ? err.message : String(err))
+      }
+    },
+    [baseUrl, headers, useSudo]
+  )
+
+  useEffect(() => {
+    if (tab === 'files' && running) loadDirectory(path)
+  }, [tab, running, path, loadDirectory])
+
+  const openEntry = async (entry: ContainerFileEntry) => {
+    const target = joinPath(path, entry.name)
+    if (entry.type === 'directory') {
+      setPath(target)
+      return
+    }
+
+    setFilesError(null)
+    try {
+      const params = new URLSearchParams({ path: target })
+      if (useSudo) params.set('sudo', '1')
+      const data = await apiCall<{ content: string; truncated: boolean }>(
+        `${baseUrl}/files/content?${params.toString()}`,
+        { headers }
+      )
+      setOpenFile({ path: target, ...data })
+    } catch (err) {
+      setFilesError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  // Exec
+  const [command, setCommand] = useState('')
+  const [runs, setRuns] = useState<ExecRun[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+
+  const runCommand = async () => {
+    const text = command.trim()
+    if (!text || isRunning) return
+
+    const id = Date.now()
+    setRuns((prev) => [{ id, command: text, result: null, error: null }, ...prev])
+    setCommand('')
+    setIsRunning(true)
+    try {
+      const result = await apiCall<CommandResult>(`${baseUrl}/exec`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ command: text, sudo: useSudo }),
+      })
+      setRuns((prev) => prev.map((run) => (run.id === id ? { ...run, result } : run)))
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err)
+      setRuns((prev) => prev.map((run) => (run.id === id ? { ...run, error } : run)))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <div className="flex w-1/2 min-w-0 flex-col border-l border-border">
+      <div className="flex items-center justify-between gap-3 border-b border-border bg-background-secondary px-4 py-2 text-sm">
+        <div className="flex min-w-0 items-center gap-3">
+          <h2 className="truncate font-mono font-medium text-foreground">{container.name}</h2>
+          <div className="flex rounded-lg border border-border bg-background p-0.5">
+            {TABS.map((name) => (
+              <button
+                key={name}
+                onClick={() => setTab(name)}
+                className={`rounded-md px-2 py-0.5 text-xs ${
+                  tab === name
+                    ? 'bg-terminal-green/10 text-terminal-green'
+                    : 'text-foreground-muted hover:text-foreground'
+                }`}
+              >
+                <FormattedMessage id={`docker.details.${name}`} />
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-lg border border-border bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary"
+        >
+          <FormattedMessage id="common.close" />
+        </button>
+      </div>
+
+      {tab === 'logs' && (
+        <>
+          <div className="flex items-center gap-3 border-b border-border px-4 py-2 text-sm">
+            <label className="flex items-center gap-1.5 text-foreground-muted">
+              <FormattedMessage id="services.journal.lines" />
+              <select
+                value={logLines}
+                onChange={(e) => setLogLines(Number(e.target.value))}
+                className="rounded-lg border border-border bg-background px-2 py-1 text-sm text-foreground focus:outline-none"
+              >
+                {LOG_LINES.map((lines) => (
+                  <option key={lines} value={lines}>
+                    {lines}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5 text-foreground-muted">
+              <input
+                type="checkbox"
+                checked={autoRefresh}
+                onChange={(e) => setAutoRefresh(e.target.checked)}
+                className="rounded border-border"
+              />
+              <FormattedMessage
+                id="docker.logs.autoRefresh"
+                values={{ seconds: LOG_REFRESH_INTERVAL / 1000 }}
+              />
+            </label>
+            <button
+              onClick={loadLogs}
+              className="ml-auto rounded-lg border border-border bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary"
+            >
+              <FormattedMessage id="common.refresh" />
+            </button>
+          </div>
+          <div className="flex-1 overflow-auto bg-background p-4 font-mono text-xs text-foreground">
+            {logsError ? (
+              <p className="text-red-500">{logsError}</p>
+            ) : !logs ? (
+              <p className="text-foreground-muted">
+                <FormattedMessage id="common.loading" />
+              </p>
+            ) : logs.length === 0 ? (
+              <p className="text-foreground-muted">
+                <FormattedMessage id="docker.logs.empty" />
+              </p>
+            ) : (
+              logs.map((line, index) => (
+                <div key={index} className="whitespace-pre-wrap break-all">
+                  {line}
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+
+      {tab === 'files' &&
+        (!running ? (
+          <p className="p-4 text-sm text-foreground-muted">
+            <FormattedMessage id="docker.notRunning" />
+          </p>
+        ) : openFile ? (
+          <>
+            <div className="flex items-center justify-between gap-3 border-b border-border px-4 py-2 text-sm">
+              <span className="truncate font-mono text-foreground">{openFile.path}</span>
+              <button
+                onClick={() => setOpenFile(null)}
+                className="rounded-lg border border-border bg-background px-3 py-1 text-sm text-foreground hover:bg-background-tertiary"
+              >
+                <FormattedMessage id="common.back" />
+              </button>
+            </div>
+            {openFile.truncated && (
+              <p className="border-b border-border px-4 py-2 text-xs text-yellow-500">
+                <FormattedMessage id="docker.files.truncated" />
+              </p>
+            )}
+            <pre className="flex-1 overflow-auto whitespace-pre-wrap break-all bg-background p-4 font-mono text-xs text-foreground">
+              {openFile.content}
+            </pre>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 border-b border-border px-4 py-2 text-sm">
+              <button
+                onClick={() => setPath(parentPath(path))}
+                disabled={path === '/'}
+                className="rounded-lg border border-border bg-background px-2 py-1 text-sm text-foreground hover:bg-background-tertiary disabled:opacity-50"
+              >
+                ↑
+              </button>
+              <span className="truncate font-mono text-foreground">{path}</span>
+            </div>
+            <div className="flex-1 overflow-auto text-sm">
+              {filesError ? (
+                <p className="p-4 text-red-500">{filesError}</p>
+              ) : !entries ? (
+                <p className="p-4 text-foreground-muted">
+                  <FormattedMessage id="common.loading" />
+                </p>
+              ) : (
+                entries.map((entry) => (
+                  <button
+                    key={entry.name}
+                    onClick={() => openEntry(entry)}
+                    className="flex w-full items-center gap-2 px-4 py-1.5 text-left font-mono hover:bg-background-secondary"
+                  >
+                    <span>{entry.type === 'directory' ? '📁' : '📄'}</span>
+                    <span className="truncate">{entry.name}</span>
+                  </button>
+                ))
+              )}
+            </div>
+          </>
+        ))}
+
+      {tab === 'exec' &&
+        (!running ? (
+          <p className="p-4 text-sm text-foreground-muted">
+            <FormattedMessage id="docker.notRunning" />
+          </p>
+        ) : (
+          <>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                runCommand()
+              }}
+              className="flex items-center gap-2 border-b border-border px-4 py-2"
+            >
+              <input
+                type="text"
+                value={command}
+                onChange={(e) => setCommand(e.target.value)}
+                placeholder={intl.formatMessage({ id: 'docker.exec.placeholder' })}
+                className="flex-1 rounded-lg border border-border bg-background px-3 py-1.5 font-mono text-sm text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
+              />
+              <button
+                type="submit"
+                disabled={!command.trim() || isRunning}
+                className="hover:bg-terminal-green-hover rounded-lg bg-terminal-green px-3 py-1.5 text-sm font-medium text-background transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <FormattedMessage id="docker.exec.run" />
+              </button>
+            </form>
+            <div className="flex-1 space-y-4 overflow-auto bg-background p-4 font-mono text-xs">
+              {runs.length === 0 && (
+                <p className="font-sans text-sm text-foreground-muted">
+                  <FormattedMessage id="docker.exec.hint" />
+                </p>
+              )}
+              {runs.map((run) => (
+                <div key={run.id}>
+                  <p className="text-terminal-green">$ {run.command}</p>
+                  {run.error ? (
+                    <p className="text-red-500">{run.error}</p>
+                  ) : !run.result ? (
+                    <p className="text-foreground-muted">
+                      <FormattedMessage id="common.processing" />
+                    </p>
+                  ) : (
+                    <>
+                      <pre className="whitespace-pre-wrap break-all text-foreground">
+                        {run.result.stdout}
+                      </pre>
+                      <pre className="whitespace-pre-wrap break-all text-red-400">
+                        {run.result.stderr}
+                      </pre>
+                      <p
+                        className={run.result.code === 0 ? 'text-foreground-muted' : 'text-red-500'}
+                      >
+                        <FormattedMessage
+                          id="docker.exec.exitCode"
+                          values={{ code: run.result.code }}
+                        />
+                      </p>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        ))}
+    </div>
+  )
+}
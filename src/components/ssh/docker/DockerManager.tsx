@@ -0,0 +1,316 @@
+'use client'
+
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useToast } from '@/components/ui/ToastContext'
+import { useConfirmation } from '@/hooks/useConfirmation'
+import { useIntl, FormattedMessage } from '@/lib/i18n'
+import { apiCall } from '@/lib/api/client'
+import { CONTAINER_ACTIONS } from '@/types/ssh'
+import type { ContainerAction, DockerContainer, DockerResources } from '@/types/ssh'
+import { ContainerDetails } from './ContainerDetails'
+
+interface DockerManagerProps {
+  connectionId: string
+  sessionToken: string
+}
+
+type DockerTab = 'containers' | 'images' | 'volumes'
+
+const TABS: DockerTab[] = ['containers', 'images', 'volumes']
+
+const STATE_STYLES: Record<string, string> = {
+  running: 'bg-terminal-green/10 text-terminal-green',
+  restarting: 'bg-yellow-500/10 text-yellow-500',
+  paused: 'bg-yellow-500/10 text-yellow-500',
+  dead: 'bg-red-500/10 text-red-500',
+}
+
+// Only offer what applies to the container's current state
+function availableActions(container: DockerContainer): ContainerAction[] {
+  const running = container.state === 'running' || container.state === 'restarting'
+  return CONTAINER_ACTIONS.filter((action) =>
+    action === 'start' || action === 'remove' ? !running : running
+  )
+}
+
+export function DockerManager({ connectionId, sessionToken }: DockerManagerProps) {
+  const intl = useIntl()
+  const { toast } = useToast()
+  const { confirm, ConfirmationModal } = useConfirmation()
+
+  const [resources, setResources] = useState<DockerResources | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [tab, setTab] = useState<DockerTab>('containers')
+  const [filter, setFilter] = useState('')
+  const [useSudo, setUseSudo] = useState(false)
+  const [selected, setSelected] = useState<DockerContainer | null>(null)
+
+  const headers = useMemo(() => ({ 'x-session-token': sessionToken }), [sessionToken])
+
+  const loadResources = useCallback(async () => {
+    try {
+      const data = await apiCall<DockerResources>(
+        `/api/connections/${connectionId}/docker${useSudo ? '?sudo=1' : ''}`,
+        { headers }
+      )
+      setResources(data)
+      setError(null)
+      // Keep the open container's details in sync with the refreshed list
+      setSelected((current) =>
+        current ? (data.containers.find((c) => c.id === current.id) ?? null) : null
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [connectionId, headers, useSudo])
+
+  useEffect(() => {
+    loadResources()
+  }, [loadResources])
+
+  const runAction = (container: DockerContainer, action: ContainerAction) => {
+    confirm({
+      title: intl.formatMessage({ id: 'docker.action.title' }, { action, name: container.name }),
+      message: intl.formatMessage(
+        { id: `docker.action.message.${action}` },
+        { name: container.name }
+      ),
+      confirmText: intl.formatMessage({ id: `docker.action.${action}` }),
+      cancelText: intl.formatMessage({ id: 'common.cancel' }),
+      variant: action === 'remove' || action === 'stop' ? 'danger' : 'warning',
+      onConfirm: async () => {
+        try {
+          await apiCall(
+            `/api/connections/${connectionId}/docker/containers/${encodeURIComponent(container.id)}`,
+            { method: 'POST', headers, body: JSON.stringify({ action, sudo: useSudo }) }
+          )
+          toast.success(
+            intl.formatMessage({ id: 'docker.action.success' }, { action, name: container.name })
+          )
+        } catch (err) {
+          toast.error(err instanceof Error ? err.message : String(err))
+        }
+        loadResources()
+      },
+    })
+  }
+
+  const query = filter.trim().toLowerCase()
+  const matches = (...values: string[]) =>
+    !query || values.some((value) => value.toLowerCase().includes(query))
+
+  const containers = resources?.containers.filter((c) => matches(c.name, c.image, c.id)) ?? []
+  const images = resources?.images.filter((i) => matches(i.repository, i.tag, i.id)) ?? []
+  const volumes = resources?.volumes.filter((v) => matches(v.name, v.driver)) ?? []
+
+  const headerCell = 'px-3 py-2 font-medium'
+  const cell = 'px-3 py-1.5'
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 border-b border-border bg-background-secondary px-6 py-3 text-sm">
+        <div className="flex rounded-lg border border-border bg-background p-0.5">
+          {TABS.map((name) => (
+            <button
+              key={name}
+              onClick={() => setTab(name)}
+              className={`rounded-md px-3 py-1 ${
+                tab === name
+                  ? 'bg-terminal-green/10 text-terminal-green'
+                  : 'text-foreground-muted hover:text-foreground'
+              }`}
+            >
+              <FormattedMessage
+                id={`docker.tab.${name}`}
+                values={{ count: resources?.[name].length ?? 0 }}
+              />
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={intl.formatMessage({ id: 'docker.filter.placeholder' })}
+          className="w-64 rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground focus:border-terminal-green focus:outline-none focus:ring-1 focus:ring-terminal-green"
+        />
+        <label
+          className="flex items-center gap-1.5 text-foreground-muted"
+          title={intl.formatMessage({ id: 'docker.sudo.hint' })}
+        >
+          <input
+            type="checkbox"
+            checked={useSudo}
+            onChange={(e) => setUseSudo(e.target.checked)}
+            className="rounded border-border"
+          />
+          <FormattedMessage id="services.sudo.label" />
+        </label>
+        <button
+          onClick={loadResources}
+          className="rounded-lg border border-border bg-background px-3 py-1.5 text-sm text-foreground hover:bg-background-tertiary"
+        >
+          <FormattedMessage id="common.refresh" />
+        </button>
+      </div>
+
+      {error && <p className="border-b border-border px-6 py-2 text-sm text-red-500">{error}</p>}
+
+      <div className="flex min-h-0 flex-1">
+        <div className="min-w-0 flex-1 overflow-auto">
+          {!resources ? (
+            !error && (
+              <p className="p-6 text-sm text-foreground-muted">
+                <FormattedMessage id="common.loading" />
+              </p>
+            )
+          ) : tab === 'containers' ? (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background-secondary text-left text-xs uppercase text-foreground-muted">
+                <tr>
+                  <th className={headerCell}>
+                    <FormattedMessage id="docker.column.name" />
+                  </th>
+                  <th className={headerCell}>
+                    <FormattedMessage id="docker.column.image" />
+                  </th>
+                  <th className={headerCell}>
+                    <FormattedMessage id="docker.column.status" />
+                  </th>
+                  <th className={`${headerCell} text-right`}>
+                    <FormattedMessage id="docker.column.actions" />
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {containers.map((container) => (
+                  <tr
+                    key={container.id}
+                    onClick={() => setSelected(container)}
+                    className={`cursor-pointer hover:bg-background-secondary ${
+                      container.id === selected?.id ? 'bg-background-secondary' : ''
+                    }`}
+                  >
+                    <td className={`${cell} max-w-0`}>
+                      <p className="truncate font-mono text-foreground">{container.name}</p>
+                      <p className="truncate text-xs text-foreground-muted">
+                        {container.id.slice(0, 12)}
+                        {container.ports && ` • ${container.ports}`}
+                      </p>
+                    </td>
+                    <td className={`${cell} max-w-0 truncate font-mono text-xs`}>
+                      {container.image}
+                    </td>
+                    <td className={`${cell} whitespace-nowrap`}>
+                      <span
+                        className={`rounded px-2 py-0.5 text-xs ${
+                          STATE_STYLES[container.state] ??
+                          'bg-background-tertiary text-foreground-muted'
+                        }`}
+                      >
+                        {container.status}
+                      </span>
+                    </td>
+                    <td className={`${cell} whitespace-nowrap text-right`}>
+                      {availableActions(container).map((action) => (
+                        <button
+                          key={action}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            runAction(container, action)
+                          }}
+                          className={`ml-1 rounded px-2 py-0.5 text-xs hover:bg-background-tertiary ${
+                            action === 'remove'
+                              ? 'text-red-500'
+                              : 'text-foreground-muted hover:text-foreground'
+                          }`}
+                        >
+                          <FormattedMessage id={`docker.action.${action}`} />
+                        </button>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : tab === 'images' ? (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background-secondary text-left text-xs uppercase text-foreground-muted">
+                <tr>
+                  <th className={headerCell}>
+                    <FormattedMessage id="docker.column.repository" />
+                  </th>
+                  <th className={headerCell}>
+                    <FormattedMessage id="docker.column.tag" />
+                  </th>
+                  <th className={headerCell}>
+                    <FormattedMessage id="docker.column.id" />
+                  </th>
+                  <th className={headerCell}>
+                    <FormattedMessage id="docker.column.created" />
+                  </th>
+                  <th className={`${headerCell} text-right`}>
+                    <FormattedMessage id="docker.column.size" />
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {images.map((image) => (
+                  <tr key={`${image.id}-${image.repository}-${image.tag}`}>
+                    <td className={`${cell} font-mono`}>{image.repository}</td>
+                    <td className={`${cell} font-mono`}>{image.tag}</td>
+                    <td className={`${cell} font-mono text-xs text-foreground-muted`}>
+                      {image.id.replace(/^sha256:/, '').slice(0, 12)}
+                    </td>
+                    <td className={`${cell} text-foreground-muted`}>{image.createdSince}</td>
+                    <td className={`${cell} text-right`}>{image.size}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background-secondary text-left text-xs uppercase text-foreground-muted">
+                <tr>
+                  <th className={headerCell}>
+                    <FormattedMessage id="docker.column.name" />
+                  </th>
+                  <th className={headerCell}>
+                    <FormattedMessage id="docker.column.driver" />
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {volumes.map((volume) => (
+                  <tr key={volume.name}>
+                    <td className={`${cell} font-mono`}>{volume.name}</td>
+                    <td className={`${cell} text-foreground-muted`}>{volume.driver}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {resources && { containers, images, volumes }[tab].length === 0 && (
+            <p className="p-6 text-sm text-foreground-muted">
+              <FormattedMessage id="docker.empty" />
+            </p>
+          )}
+        </div>
+
+        {tab === 'containers' && selected && (
+          <ContainerDetails
+            key={selected.id}
+            connectionId={connectionId}
+            sessionToken={sessionToken}
+            container={selected}
+            useSudo={useSudo}
+            onClose={() => setSelected(null)}
+          />
+        )}
+      </div>
+
+      <ConfirmationModal />
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { useCallback, useState } from 'react'
 import { FormattedMessage } from '@/lib/i18n'
 import { Button, Icon } from '@/components/ui'
 import { cn } from '@/lib/utils/cn'
+import { MAX_FILE_SIZE, formatFileSize } from './constants'
 
 interface DropZoneProps {
   onFilesAdded: (files: File[]) => void
@@ -125,7 +126,7 @@ export const DropZone = ({
         {canAddMoreFiles && (
           <div className="text-xs text-foreground-muted">
             <p>
-              <FormattedMessage id="files.upload.maxFileSize" values={{ size: '100MB' }} />
+              <FormattedMessage id="files.upload.maxFileSize" values={{ size: formatFileSize(MAX_FILE_SIZE) }} />
             </p>
             <p>
               <FormattedMessage 
@@ -11,7 +11,8 @@ import { FileUploadModalProps } from './types'
 export const FileUploadModal = ({
   isOpen,
   onClose,
-  onUpload,
+  connectionId,
+  sessionToken,
   onComplete,
   currentPath,
 }: FileUploadModalProps) => {
@@ -26,7 +27,7 @@ export const FileUploadModal = ({
     startUpload,
     clearCompleted,
     reset,
-  } = useFileUpload({ onUpload, onComplete })
+  } = useFileUpload({ connectionId, sessionToken, currentPath, onComplete })
 
   // Reset state when modal closes
   useEffect(() => {
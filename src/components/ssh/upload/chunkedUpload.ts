@@ -0,0 +1,130 @@
+import { UPLOAD_CHUNK_SIZE, UPLOAD_MAX_RETRIES } from './constants'
+
+interface ChunkedUploadOptions {
+  connectionId: string
+  sessionToken: string
+  directory: string
+  file: File
+  onProgress: (uploadedBytes: number) => void
+}
+
+interface UploadState {
+  uploadId: string
+  offset: number
+}
+
+class UploadRequestError extends Error {
+  status: number
+  // Confirmed offset reported by the server on an offset mismatch
+  offset?: number
+
+  constructor(message: string, status: number, offset?: number) {
+    super(message)
+    this.status = status
+    this.offset = offset
+  }
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function request<T>(url: string, sessionToken: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...init.headers, 'x-session-token': sessionToken },
+    credentials: 'include',
+  })
+  const body = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new UploadRequestError(
+      body.error || body.message || `Upload failed (${response.status})`,
+      response.status,
+      typeof body.offset === 'number' ? body.offset : undefined
+    )
+  }
+
+  return body.data as T
+}
+
+/**
+ * Uploads a file with the init / chunk / finalize protocol. Failed chunks are
+ * retried with backoff after re-initialising, which picks up the offset the
+ * server actually confirmed, so a dropped connection never restarts from zero.
+ * Resolves with the remote path.
+ */
+export async function uploadFileInChunks({
+  connectionId,
+  sessionToken,
+  directory,
+  file,
+  onProgress,
+}: ChunkedUploadOptions): Promise<string> {
+  const baseUrl = `/api/connections/${connectionId}/files/upload`
+  let state: UploadState | null = null
+  let failures = 0
+
+  while (true) {
+    try {
+      if (!state) {
+        state = await request<UploadState>(baseUrl, sessionToken, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            path: directory,
+            filename: file.name,
+            size: file.size,
+            lastModified: file.lastModified,
+          }),
+        })
+        onProgress(state.offset)
+      }
+
+      if (state.offset >= file.size) {
+        const result = await request<{ path: string }>(
+          `${baseUrl}/${state.uploadId}`,
+          sessionToken,
+          { method: 'POST' }
+        )
+        return result.path
+      }
+
+      const chunk = file.slice(state.offset, state.offset + UPLOAD_CHUNK_SIZE)
+      const result: { offset: number } = await request(
+        `${baseUrl}/${state.uploadId}?offset=${state.offset}`,
+        sessionToken,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: chunk,
+        }
+      )
+
+      state.offset = result.offset
+      failures = 0
+      onProgress(state.offset)
+    } catch (error) {
+      // The server already has a different offset; continue from there
+      if (state && error instanceof UploadRequestError && error.offset !== undefined) {
+        state.offset = error.offset
+        onProgress(state.offset)
+        continue
+      }
+
+      // Client errors (bad input, expired session, no access) will not go away on retry
+      if (
+        error instanceof UploadRequestError &&
+        error.status >= 400 &&
+        error.status < 500 &&
+        error.status !== 408
+      ) {
+        throw error
+      }
+
+      failures += 1
+      if (failures > UPLOAD_MAX_RETRIES) throw error
+
+      await delay(Math.min(1000 * 2 ** (failures - 1), 15000))
+      state = null
+    }
+  }
+}
@@ -1,6 +1,6 @@
 // Security constants
-export const MAX_FILE_SIZE = 100 * 1024 * 1024 // 100MB
-export const MAX_TOTAL_SIZE = 500 * 1024 * 1024 // 500MB total
+export const MAX_FILE_SIZE = 10 * 1024 * 1024 * 1024 // 10GB, sent in chunks
+export const MAX_TOTAL_SIZE = 20 * 1024 * 1024 * 1024 // 20GB total
 
 // Dangerous file extensions to block
 export const BLOCKED_EXTENSIONS = [
@@ -41,4 +41,7 @@ export const isFileAllowed = (filename: string): boolean => {
 // Image file check
 export const isImageFile = (file: File): boolean => {
   return file.type.startsWith('image/')
-}
\ No newline at end of file
+}
+// Chunked upload tuning
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024 // 4MB per request
+export const UPLOAD_MAX_RETRIES = 5
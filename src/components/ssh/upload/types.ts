@@ -10,7 +10,8 @@ export interface FileWithPreview {
 export interface FileUploadModalProps {
   isOpen: boolean
   onClose: () => void
-  onUpload: (files: File[]) => Promise<{ file: File; success: boolean; error?: string }[]>
+  connectionId: string
+  sessionToken: string
   onComplete?: () => void
   currentPath: string
 }
@@ -4,15 +4,30 @@ import { useState, useCallback } from 'react'
 import { useIntl } from '@/lib/i18n'
 import { useToast } from '@/components/ui'
 import { FileWithPreview, UploadResult } from './types'
-import { MAX_FILE_SIZE, MAX_TOTAL_SIZE, isFileAllowed, isImageFile } from './constants'
+import {
+  MAX_FILE_SIZE,
+  MAX_TOTAL_SIZE,
+  formatFileSize,
+  isFileAllowed,
+  isImageFile,
+} from './constants'
+import { uploadFileInChunks } from './chunkedUpload'
 
 interface UseFileUploadOptions {
-  onUpload: (files: File[]) => Promise<UploadResult[]>
+  connectionId: string
+  sessionToken: string
+  currentPath: string
   onComplete?: () => void
   maxFiles?: number
 }
 
-export const useFileUpload = ({ onUpload, onComplete, maxFiles = 10 }: UseFileUploadOptions) => {
+export const useFileUpload = ({
+  connectionId,
+  sessionToken,
+  currentPath,
+  onComplete,
+  maxFiles = 10,
+}: UseFileUploadOptions) => {
   const intl = useIntl()
   const { toast } = useToast()
   const [files, setFiles] = useState<FileWithPreview[]>([])
@@ -53,7 +68,7 @@ export const useFileUpload = ({ onUpload, onComplete, maxFiles = 10 }: UseFileUp
           errors.push(
             intl.formatMessage(
               { id: 'files.upload.validation.fileTooLarge' },
-              { name: file.name, size: '100MB' }
+              { name: file.name, size: formatFileSize(MAX_FILE_SIZE) }
             )
           )
           continue
@@ -64,7 +79,7 @@ export const useFileUpload = ({ onUpload, onComplete, maxFiles = 10 }: UseFileUp
           errors.push(
             intl.formatMessage(
               { id: 'files.upload.validation.totalSizeTooLarge' },
-              { size: '500MB' }
+              { size: formatFileSize(MAX_TOTAL_SIZE) }
             )
           )
           break
@@ -140,30 +155,39 @@ export const useFileUpload = ({ onUpload, onComplete, maxFiles = 10 }: UseFileUp
     setIsUploading(true)
 
     try {
-      // Set all files to uploading
-      setFiles((prev) =>
-        prev.map((f) =>
-          f.status === 'pending' ? { ...f, status: 'uploading' as const, progress: 0 } : f
-        )
-      )
-
-      // Upload files
-      const results = await onUpload(pendingFiles.map((f) => f.file))
-
-      // Update file statuses based on results
-      setFiles((prev) =>
-        prev.map((f) => {
-          const result = results.find((r) => r.file === f.file)
-          if (!result) return f
-
-          return {
-            ...f,
-            status: result.success ? ('success' as const) : ('error' as const),
-            progress: 100,
-            error: result.error,
-          }
-        })
-      )
+      const results: UploadResult[] = []
+
+      // One file at a time so each gets the full bandwidth and accurate progress
+      for (const item of pendingFiles) {
+        const updateFile = (changes: Partial<FileWithPreview>) =>
+          setFiles((prev) => prev.map((f) => (f.id === item.id ? { ...f, ...changes } : f)))
+
+        updateFile({ status: 'uploading', progress: 0 })
+
+        try {
+          await uploadFileInChunks({
+            connectionId,
+            sessionToken,
+            directory: currentPath,
+            file: item.file,
+            onProgress: (uploadedBytes) =>
+              updateFile({
+                progress: item.file.size ? Math.floor((uploadedBytes / item.file.size) * 100) : 100,
+              }),
+          })
+
+          updateFile({ status: 'success', progress: 100 })
+          results.push({ file: item.file, success: true })
+        } catch (error) {
+          const message =
+            error instanceof Error && error.message
+              ? error.message
+              : intl.formatMessage({ id: 'fileUpload.error.unknown' })
+
+          updateFile({ status: 'error', error: message })
+          results.push({ file: item.file, success: false, error: message })
+        }
+      }
 
       const successCount = results.filter((r) => r.success).length
       const errorCount = results.filter((r) => !r.success).length
@@ -194,7 +218,7 @@ export const useFileUpload = ({ onUpload, onComplete, maxFiles = 10 }: UseFileUp
     } finally {
       setIsUploading(false)
     }
-  }, [files, onUpload, onComplete])
+  }, [files, connectionId, sessionToken, currentPath, onComplete])
 
   const clearCompleted = useCallback(() => {
     setFiles((prev) => prev.filter((f) => f.status !== 'success'))
@@ -0,0 +1,53 @@
+'use client'
+
+import { cn } from '@/lib/utils/cn'
+
+export interface SparklineProps {
+  values: number[]
+  // Top of the scale; defaults to the largest value so the line fills the height
+  max?: number
+  width?: number
+  height?: number
+  className?: string
+}
+
+// Minimal inline chart; the stroke uses the current text color
+const Sparkline = ({ values, max, width = 160, height = 40, className }: SparklineProps) => {
+  if (values.length < 2) {
+    return <svg width={width} height={height} className={cn('text-terminal-green', className)} />
+  }
+
+  const top = Math.max(max ?? 0, ...values) || 1
+  const step = width / (values.length - 1)
+  const points = values.map((value, index) => {
+    const x = index * step
+    // Keep a pixel of margin so the stroke is not clipped at the edges
+    const y = height - 1 - (Math.max(value, 0) / top) * (height - 2)
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  })
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn('text-terminal-green', className)}
+      preserveAspectRatio="none"
+    >
+      <polygon
+        points={`0,${height} ${points.join(' ')} ${width},${height}`}
+        fill="currentColor"
+        fillOpacity={0.15}
+      />
+      <polyline
+        points={points.join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+      />
+    </svg>
+  )
+}
+
+export { Sparkline }
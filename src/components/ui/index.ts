@@ -4,6 +4,7 @@ export { Modal } from './Modal'
 export { LoadingSpinner } from './LoadingSpinner'
 export { ErrorBoundary, DefaultErrorFallback, useErrorHandler } from './ErrorBoundary'
 export { Icon } from './Icon'
+export { Sparkline } from './Sparkline'
 
 // Form Components
 export { FormInput } from './FormInput'
@@ -20,6 +21,7 @@ export type { ModalProps } from './Modal'
 export type { LoadingSpinnerProps } from './LoadingSpinner'
 export type { ErrorBoundaryProps, ErrorFallbackProps } from './ErrorBoundary'
 export type { IconProps } from './Icon'
+export type { SparklineProps } from './Sparkline'
 export type { FormInputProps } from './FormInput'
 export type { FormFieldProps } from './FormField'
 export type { SelectProps, SelectOption } from './Select'
\ No newline at end of file
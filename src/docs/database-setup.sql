@@ -3,6 +3,10 @@
 -- =====================================================
 
 -- Drop all tables (CASCADE drops everything related)
+DROP TABLE IF EXISTS public.scheduled_job_runs CASCADE;
+DROP TABLE IF EXISTS public.scheduled_jobs CASCADE;
+DROP TABLE IF EXISTS public.project_snippets CASCADE;
+DROP TABLE IF EXISTS public.known_hosts CASCADE;
 DROP TABLE IF EXISTS public.connection_activity_logs CASCADE;
 DROP TABLE IF EXISTS public.connection_sessions CASCADE;
 DROP TABLE IF EXISTS public.connections CASCADE;
@@ -29,6 +33,7 @@ DROP FUNCTION IF EXISTS public.can_manage_connection(UUID, UUID) CASCADE;
 DROP FUNCTION IF EXISTS public.cleanup_expired_sessions() CASCADE;
 DROP FUNCTION IF EXISTS public.log_connection_activity() CASCADE;
 DROP FUNCTION IF EXISTS public.get_encryption_key_id(UUID, UUID) CASCADE;
+DROP FUNCTION IF EXISTS public.touch_known_host(UUID) CASCADE;
 DROP FUNCTION IF EXISTS public.validate_connection_project() CASCADE;
 
 -- Drop trigger on auth.users (if exists)
@@ -73,6 +78,10 @@ CREATE TABLE public.organizations (
   name TEXT NOT NULL,
   slug TEXT NOT NULL,
   owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Session policy defaults for the organization's connections
+  session_idle_timeout INTEGER NOT NULL DEFAULT 30 CHECK (session_idle_timeout > 0), -- minutes
+  session_max_duration INTEGER CHECK (session_max_duration > 0), -- minutes, NULL = unlimited
+  session_keepalive_interval INTEGER NOT NULL DEFAULT 60 CHECK (session_keepalive_interval > 0), -- seconds
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -142,9 +151,14 @@ CREATE TABLE public.connections (
   encryption_key_id UUID REFERENCES public.encryption_keys(id) NOT NULL,
   proxy_jump TEXT,
   connection_timeout INTEGER DEFAULT 30,
-  keepalive_interval INTEGER DEFAULT 60,
+  -- Session policy overrides; NULL inherits the organization's setting
+  keepalive_interval INTEGER CHECK (keepalive_interval > 0), -- seconds
+  idle_timeout INTEGER CHECK (idle_timeout > 0), -- minutes
+  max_session_duration INTEGER CHECK (max_session_duration > 0), -- minutes
   strict_host_checking BOOLEAN DEFAULT TRUE,
   custom_options JSONB,
+  -- Free-form labels used to pick groups of connections, e.g. for broadcasts
+  tags TEXT[] NOT NULL DEFAULT '{}',
   created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
   last_used_at TIMESTAMPTZ,
   last_used_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
@@ -159,6 +173,7 @@ CREATE INDEX idx_connections_organization_id ON public.connections(organization_
 CREATE INDEX idx_connections_project_id ON public.connections(project_id);
 CREATE INDEX idx_connections_created_by ON public.connections(created_by);
 CREATE INDEX idx_connections_last_used ON public.connections(last_used_at DESC);
+CREATE INDEX idx_connections_tags ON public.connections USING GIN (tags);
 
 -- Connection sessions
 CREATE TABLE public.connection_sessions (
@@ -196,7 +211,8 @@ CREATE TABLE public.connection_activity_logs (
     'connection.tested', 'session.started', 'session.ended',
     'file.read', 'file.write', 'file.delete', 'file.rename',
     'directory.create', 'directory.delete', 'directory.list',
-    'command.execute', 'error.occurred'
+    'command.execute', 'terminal.opened', 'terminal.closed',
+    'error.occurred'
   )),
   details JSONB,
   ip_address INET,
@@ -211,6 +227,81 @@ CREATE INDEX idx_connection_activity_logs_user_id ON public.connection_activity_
 CREATE INDEX idx_connection_activity_logs_created_at ON public.connection_activity_logs(created_at DESC);
 CREATE INDEX idx_connection_activity_logs_activity_type ON public.connection_activity_logs(activity_type);
 
+-- Known host keys (per organization, trust on first use)
+CREATE TABLE public.known_hosts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  host TEXT NOT NULL,
+  port INTEGER NOT NULL DEFAULT 22,
+  key_type TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  last_seen_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(organization_id, host, port)
+);
+
+CREATE INDEX idx_known_hosts_organization_id ON public.known_hosts(organization_id);
+
+-- Project command snippets; {{name}} placeholders in command are declared in parameters
+CREATE TABLE public.project_snippets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  command TEXT NOT NULL,
+  parameters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_dangerous BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(project_id, name)
+);
+
+CREATE INDEX idx_project_snippets_project_id ON public.project_snippets(project_id);
+
+-- Scheduled jobs run either a command or a snippet (with fixed parameter values)
+-- on their connections; next_run_at is filled in by the server's scheduler
+CREATE TABLE public.scheduled_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  schedule TEXT NOT NULL,
+  command TEXT,
+  snippet_id UUID REFERENCES public.project_snippets(id) ON DELETE CASCADE,
+  parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  connection_ids UUID[] NOT NULL DEFAULT '{}',
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (num_nonnulls(command, snippet_id) = 1)
+);
+
+CREATE INDEX idx_scheduled_jobs_project_id ON public.scheduled_jobs(project_id);
+CREATE INDEX idx_scheduled_jobs_next_run ON public.scheduled_jobs(next_run_at) WHERE is_enabled;
+
+-- One row per connection each time a job runs
+CREATE TABLE public.scheduled_job_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID REFERENCES public.scheduled_jobs(id) ON DELETE CASCADE NOT NULL,
+  connection_id UUID REFERENCES public.connections(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed')),
+  command TEXT,
+  stdout TEXT,
+  stderr TEXT,
+  exit_code INTEGER,
+  error TEXT,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_scheduled_job_runs_job_id ON public.scheduled_job_runs(job_id, started_at DESC);
+CREATE INDEX idx_scheduled_job_runs_failed ON public.scheduled_job_runs(started_at DESC) WHERE status = 'failed';
+
 -- =====================================================
 -- CREATE FUNCTIONS
 -- =====================================================
@@ -526,16 +617,37 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Record that a trusted host key was seen again. Members cannot update
+-- known_hosts themselves, so a changed fingerprint needs an admin.
+CREATE OR REPLACE FUNCTION public.touch_known_host(known_host_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.known_hosts kh
+  SET last_seen_at = NOW()
+  WHERE kh.id = known_host_id
+    AND (
+      auth.role() = 'service_role' OR
+      public.is_organization_member(kh.organization_id, auth.uid())
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- Cleanup expired sessions
 CREATE OR REPLACE FUNCTION public.cleanup_expired_sessions()
 RETURNS TRIGGER AS $$
 BEGIN
-  UPDATE public.connection_sessions
+  -- Backstop for sessions whose server went away; live ones are ended by the app
+  UPDATE public.connection_sessions s
   SET status = 'disconnected',
       ended_at = NOW(),
-      termination_reason = 'Idle timeout'
-  WHERE status = 'active'
-    AND last_activity_at < NOW() - INTERVAL '30 minutes';
+      termination_reason = 'idle_timeout'
+  FROM public.connections c
+  JOIN public.organizations o ON o.id = c.organization_id
+  WHERE c.id = s.connection_id
+    AND s.status = 'active'
+    AND s.last_activity_at < NOW() - make_interval(
+      mins => COALESCE(c.idle_timeout, o.session_idle_timeout)
+    );
   
   UPDATE public.connection_sessions
   SET status = 'terminated'
@@ -666,6 +778,21 @@ CREATE TRIGGER update_connection_sessions_updated_at
   FOR EACH ROW 
   EXECUTE FUNCTION public.update_updated_at_column();
 
+CREATE TRIGGER update_known_hosts_updated_at
+  BEFORE UPDATE ON public.known_hosts
+  FOR EACH ROW 
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_project_snippets_updated_at
+  BEFORE UPDATE ON public.project_snippets
+  FOR EACH ROW 
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_scheduled_jobs_updated_at
+  BEFORE UPDATE ON public.scheduled_jobs
+  FOR EACH ROW 
+  EXECUTE FUNCTION public.update_updated_at_column();
+
 CREATE TRIGGER on_organization_created
   AFTER INSERT ON public.organizations
   FOR EACH ROW 
@@ -705,6 +832,10 @@ ALTER TABLE public.encryption_keys ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.connections ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.connection_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.connection_activity_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.known_hosts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_snippets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_job_runs ENABLE ROW LEVEL SECURITY;
 
 -- =====================================================
 -- CREATE POLICIES (with fixed profile policies)
@@ -837,6 +968,16 @@ CREATE POLICY "Users can update their own sessions"
   ON public.connection_sessions FOR UPDATE 
   USING (user_id = auth.uid());
 
+CREATE POLICY "Organization admins can terminate sessions"
+  ON public.connection_sessions FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.connections c
+      WHERE c.id = connection_id
+      AND public.is_organization_admin(c.organization_id, auth.uid())
+    )
+  );
+
 -- Connection activity logs
 CREATE POLICY "Users can view connection activity logs" 
   ON public.connection_activity_logs FOR SELECT 
@@ -852,6 +993,113 @@ CREATE POLICY "System can create activity logs"
   ON public.connection_activity_logs FOR INSERT 
   WITH CHECK (true);
 
+-- Known hosts
+CREATE POLICY "Members can view known hosts" 
+  ON public.known_hosts FOR SELECT 
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+CREATE POLICY "Members can approve known hosts" 
+  ON public.known_hosts FOR INSERT 
+  WITH CHECK (public.is_organization_member(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can update known hosts" 
+  ON public.known_hosts FOR UPDATE 
+  USING (public.is_organization_admin(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can delete known hosts" 
+  ON public.known_hosts FOR DELETE 
+  USING (public.is_organization_admin(organization_id, auth.uid()));
+
+-- Project snippets
+CREATE POLICY "Members can view project snippets"
+  ON public.project_snippets FOR SELECT
+  USING (public.is_project_member(project_id, auth.uid()));
+
+CREATE POLICY "Members can create project snippets"
+  ON public.project_snippets FOR INSERT
+  WITH CHECK (public.is_project_member(project_id, auth.uid()) AND auth.uid() = created_by);
+
+-- Scheduled jobs run the current snippet as the job's author, so only the
+-- snippet's author and admins may change what it runs
+CREATE POLICY "Authors and admins can update project snippets"
+  ON public.project_snippets FOR UPDATE
+  USING (
+    public.is_project_member(project_id, auth.uid()) AND (
+      created_by = auth.uid() OR
+      EXISTS (
+        SELECT 1 FROM public.projects p
+        WHERE p.id = project_id
+        AND public.is_organization_admin(p.organization_id, auth.uid())
+      )
+    )
+  )
+  WITH CHECK (
+    public.is_project_member(project_id, auth.uid()) AND (
+      created_by = auth.uid() OR
+      EXISTS (
+        SELECT 1 FROM public.projects p
+        WHERE p.id = project_id
+        AND public.is_organization_admin(p.organization_id, auth.uid())
+      )
+    )
+  );
+
+CREATE POLICY "Authors and admins can delete project snippets"
+  ON public.project_snippets FOR DELETE
+  USING (
+    created_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = project_id
+      AND public.is_organization_admin(p.organization_id, auth.uid())
+    )
+  );
+
+-- Scheduled jobs; runs are written by the scheduler with the service role
+CREATE POLICY "Members can view scheduled jobs"
+  ON public.scheduled_jobs FOR SELECT
+  USING (public.is_project_member(project_id, auth.uid()));
+
+CREATE POLICY "Members can create scheduled jobs"
+  ON public.scheduled_jobs FOR INSERT
+  WITH CHECK (public.is_project_member(project_id, auth.uid()) AND auth.uid() = created_by);
+
+-- A job runs as created_by, so whoever edits it takes it over and runs it as themselves
+CREATE POLICY "Authors and admins can update scheduled jobs"
+  ON public.scheduled_jobs FOR UPDATE
+  USING (
+    public.is_project_member(project_id, auth.uid()) AND (
+      created_by = auth.uid() OR
+      EXISTS (
+        SELECT 1 FROM public.projects p
+        WHERE p.id = project_id
+        AND public.is_organization_admin(p.organization_id, auth.uid())
+      )
+    )
+  )
+  WITH CHECK (public.is_project_member(project_id, auth.uid()) AND auth.uid() = created_by);
+
+CREATE POLICY "Authors and admins can delete scheduled jobs"
+  ON public.scheduled_jobs FOR DELETE
+  USING (
+    created_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = project_id
+      AND public.is_organization_admin(p.organization_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Members can view scheduled job runs"
+  ON public.scheduled_job_runs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.scheduled_jobs j
+      WHERE j.id = job_id
+      AND public.is_project_member(j.project_id, auth.uid())
+    )
+  );
+
 -- =====================================================
 -- GRANT PERMISSIONS
 -- =====================================================
@@ -865,6 +1113,10 @@ GRANT SELECT ON public.encryption_keys TO authenticated;
 GRANT ALL ON public.connections TO authenticated;
 GRANT ALL ON public.connection_sessions TO authenticated;
 GRANT ALL ON public.connection_activity_logs TO authenticated;
+GRANT ALL ON public.known_hosts TO authenticated;
+GRANT ALL ON public.project_snippets TO authenticated;
+GRANT ALL ON public.scheduled_jobs TO authenticated;
+GRANT SELECT ON public.scheduled_job_runs TO authenticated;
 
 GRANT EXECUTE ON FUNCTION public.is_organization_member(UUID, UUID) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.is_organization_owner(UUID, UUID) TO authenticated;
@@ -876,6 +1128,7 @@ GRANT EXECUTE ON FUNCTION public.get_organization_projects(UUID) TO authenticate
 GRANT EXECUTE ON FUNCTION public.can_access_connection(UUID, UUID) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.can_manage_connection(UUID, UUID) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.get_encryption_key_id(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.touch_known_host(UUID) TO authenticated;
 
 GRANT USAGE ON ALL SEQUENCES IN SCHEMA public TO authenticated;
 
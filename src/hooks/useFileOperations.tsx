@@ -1,9 +1,10 @@
 import { useState, useCallback, useRef } from 'react'
 import { useToast } from '@/components/ui'
 import { useIntl } from '@/lib/i18n'
-import type { FileInfo, FileOperationResponse } from '@/types/ssh'
+import type { CopyResult, DeleteResult, FileInfo, FileOperationResponse } from '@/types/ssh'
 import { ApiResponseError } from '@/types/ssh'
 import { apiCall } from '@/types/ssh'
+import { getFileDownloadUrl, triggerDownload } from '@/lib/utils/file'
 
 interface UseFileOperationsOptions {
   connectionId: string
@@ -52,25 +53,78 @@ export function useFileOperations({
     }
   }, [])
 
+  // Deletes recursively and returns the protected paths (system roots, home)
+  // that were skipped and need to be retried with `confirmDangerous`
   const deleteFiles = useCallback(
-    async (filePaths: string[]) => {
-      try {
-        await Promise.all(
-          filePaths.map((path) =>
-            apiCall(`/api/connections/${connectionIdRef.current}/files${path}`, {
+    async (filePaths: string[], options: { confirmDangerous?: boolean } = {}) => {
+      const query = `?recursive=1${options.confirmDangerous ? '&confirm=1' : ''}`
+      const totals: DeleteResult = { deletedFiles: 0, deletedDirectories: 0, failures: [] }
+      const protectedPaths: string[] = []
+
+      const results = await Promise.allSettled(
+        filePaths.map((path) =>
+          apiCall<{ data: DeleteResult }>(
+            `/api/connections/${connectionIdRef.current}/files${path}${query}`,
+            {
               method: 'DELETE',
               headers: { 'x-session-token': sessionTokenRef.current },
-            })
+            }
           )
         )
+      )
+
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          totals.deletedFiles += result.value.data.deletedFiles
+          totals.deletedDirectories += result.value.data.deletedDirectories
+          totals.failures.push(...result.value.data.failures)
+        } else if (
+          result.reason instanceof ApiResponseError &&
+          result.reason.code === 'CONFIRMATION_REQUIRED'
+        ) {
+          protectedPaths.push(filePaths[index])
+        } else {
+          const error = result.reason
+          totals.failures.push({
+            path: filePaths[index],
+            error:
+              error instanceof Error
+                ? error.message
+                : intl.formatMessage({ id: 'files.delete.error' }),
+          })
+        }
+      })
 
+      if (totals.deletedFiles > 0 || totals.deletedDirectories > 0) {
         toast.success(
-          intl.formatMessage({ id: 'files.delete.success' }, { count: filePaths.length })
+          intl.formatMessage(
+            { id: 'files.delete.summary' },
+            { files: totals.deletedFiles, directories: totals.deletedDirectories }
+          )
         )
-        await onRefreshRef.current()
-      } catch (error) {
-        handleApiError(error, intl.formatMessage({ id: 'files.delete.error' }))
       }
+
+      if (totals.failures.length > 0) {
+        const sessionFailure = results.find(
+          (result): result is PromiseRejectedResult =>
+            result.status === 'rejected' &&
+            result.reason instanceof ApiResponseError &&
+            result.reason.code === 'SESSION_EXPIRED'
+        )
+        if (sessionFailure) {
+          handleApiError(sessionFailure.reason, intl.formatMessage({ id: 'files.delete.error' }))
+        } else {
+          toast.error(
+            intl.formatMessage(
+              { id: 'files.delete.partialFailure' },
+              { count: totals.failures.length, error: totals.failures[0].error }
+            )
+          )
+        }
+      }
+
+      await onRefreshRef.current()
+      return protectedPaths
     },
     [handleApiError]
   )
@@ -134,6 +188,24 @@ export function useFileOperations({
     [handleApiError]
   )
 
+  const createSymlink = useCallback(
+    async (linkPath: string, target: string) => {
+      try {
+        await apiCall(`/api/connections/${connectionIdRef.current}/files/symlink`, {
+          method: 'POST',
+          headers: { 'x-session-token': sessionTokenRef.current },
+          body: JSON.stringify({ linkPath, target }),
+        })
+
+        toast.success(intl.formatMessage({ id: 'files.createSymlink.success' }))
+        await onRefreshRef.current()
+      } catch (error) {
+        handleApiError(error, intl.formatMessage({ id: 'files.createSymlink.error' }))
+      }
+    },
+    [handleApiError, intl, toast]
+  )
+
   const changePermissions = useCallback(
     async (path: string, mode: string) => {
       try {
@@ -168,19 +240,16 @@ export function useFileOperations({
       setIsDownloading(true)
       try {
         if (selectedFiles.length === 1) {
-          // Single file download
-          const response = await fetch(
-            `/api/connections/${connectionIdRef.current}/files/download?path=${encodeURIComponent(selectedFiles[0].path)}`,
-            {
-              headers: { 'x-session-token': sessionTokenRef.current },
-              credentials: 'include',
-            }
+          // Single file download, streamed by the browser straight to disk
+          triggerDownload(
+            await getFileDownloadUrl(
+              connectionIdRef.current,
+              sessionTokenRef.current,
+              selectedFiles[0].path
+            ),
+            selectedFiles[0].name
           )
-
-          if (!response.ok) throw new Error('Download failed')
-
-          const blob = await response.blob()
-          downloadBlob(blob, selectedFiles[0].name)
+          // The browser reports progress and failures from here on
           toast.success(intl.formatMessage({ id: 'files.download.success' }))
         } else {
           // Multiple files as zip
@@ -223,9 +292,9 @@ export function useFileOperations({
   const copyFiles = useCallback(
     async (sourceFiles: FileInfo[], destinationPath: string) => {
       try {
-        await Promise.all(
+        const results = await Promise.all(
           sourceFiles.map((file) =>
-            apiCall(`/api/connections/${connectionIdRef.current}/files/copy`, {
+            apiCall<{ data: CopyResult }>(`/api/connections/${connectionIdRef.current}/files/copy`, {
               method: 'POST',
               headers: { 'x-session-token': sessionTokenRef.current },
               body: JSON.stringify({
@@ -236,12 +305,19 @@ export function useFileOperations({
           )
         )
 
-        toast.success(
-          intl.formatMessage(
-            { id: 'files.copy.success' },
-            { count: sourceFiles.length }
+        const failures = results.flatMap((result) => result.data.failures)
+        if (failures.length > 0) {
+          toast.error(
+            intl.formatMessage(
+              { id: 'files.copy.partialFailure' },
+              { count: failures.length, error: failures[0].error }
+            )
           )
-        )
+        } else {
+          toast.success(
+            intl.formatMessage({ id: 'files.copy.success' }, { count: sourceFiles.length })
+          )
+        }
         await onRefreshRef.current()
       } catch (error) {
         handleApiError(error, intl.formatMessage({ id: 'files.copy.error' }))
@@ -252,9 +328,17 @@ export function useFileOperations({
 
   const moveFiles = useCallback(
     async (sourceFiles: FileInfo[], destinationPath: string) => {
+      // Skip items already in the destination and folders dropped into themselves
+      const toMove = sourceFiles.filter(
+        (file) =>
+          (file.path.substring(0, file.path.lastIndexOf('/')) || '/') !== destinationPath &&
+          !`${destinationPath}/`.startsWith(`${file.path}/`)
+      )
+      if (toMove.length === 0) return
+
       try {
         await Promise.all(
-          sourceFiles.map((file) =>
+          toMove.map((file) =>
             apiCall(`/api/connections/${connectionIdRef.current}/files/move`, {
               method: 'POST',
               headers: { 'x-session-token': sessionTokenRef.current },
@@ -269,7 +353,7 @@ export function useFileOperations({
         toast.success(
           intl.formatMessage(
             { id: 'files.move.success' },
-            { count: sourceFiles.length }
+            { count: toMove.length }
           )
         )
         await onRefreshRef.current()
@@ -285,6 +369,7 @@ export function useFileOperations({
     renameFile,
     createFile,
     createFolder,
+    createSymlink,
     changePermissions,
     downloadFiles,
     copyFiles,
@@ -1,6 +1,12 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { useToast } from '@/components/ui/ToastContext'
 import { useIntl } from '@/lib/i18n'
+import { connectionService } from '@/lib/connections/connection.service'
+import type { HostKeyDetails, SessionExpiry } from '@/types/ssh'
+
+// Polling the session does not count as activity, unlike keepAlive
+const STATUS_POLL_INTERVAL = 30 * 1000
+const EXPIRY_WARNING_WINDOW = 2 * 60 * 1000
 
 interface UseSSHSessionProps {
   connectionId: string
@@ -14,9 +20,15 @@ interface UseSSHSessionReturn {
   isConnecting: boolean
   isConnected: boolean
   error: string | null
+  // Host key waiting for the user's approval before the session can open
+  pendingHostKey: HostKeyDetails | null
+  // Set shortly before the server ends the session for idling or reaching its maximum duration
+  expiryWarning: SessionExpiry | null
   connect: () => Promise<void>
   disconnect: () => void
   keepAlive: () => Promise<void>
+  approveHostKey: () => Promise<void>
+  rejectHostKey: () => void
 }
 
 export function useSSHSession({
@@ -29,11 +41,15 @@ export function useSSHSession({
   const [isConnecting, setIsConnecting] = useState(false)
   const [isConnected, setIsConnected] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [pendingHostKey, setPendingHostKey] = useState<HostKeyDetails | null>(null)
+  const [expiryWarning, setExpiryWarning] = useState<SessionExpiry | null>(null)
+  const hostKeyMessageRef = useRef<string | null>(null)
+  const warnedExpiryRef = useRef<string | null>(null)
 
   const { toast } = useToast()
   const intl = useIntl()
 
-  // Keep-alive interval reference
+  // Status poll interval reference
   const keepAliveIntervalRef = useRef<NodeJS.Timeout | null>(null)
 
   // Refs for callbacks to avoid dependency issues
@@ -47,7 +63,75 @@ export function useSSHSession({
     onErrorRef.current = onError
   }, [onConnect, onDisconnect, onError])
 
-  // Keep session alive
+  // The server ended the session (policy or an admin), so drop it locally
+  const handleSessionEnded = useCallback(() => {
+    if (keepAliveIntervalRef.current) {
+      clearInterval(keepAliveIntervalRef.current)
+      keepAliveIntervalRef.current = null
+    }
+
+    setSessionToken(null)
+    setIsConnected(false)
+    setExpiryWarning(null)
+    warnedExpiryRef.current = null
+
+    toast.warning(intl.formatMessage({ id: 'ssh.session.expired' }))
+
+    if (onDisconnectRef.current) {
+      onDisconnectRef.current()
+    }
+  }, [toast, intl])
+
+  // Check when the server will end the session, without resetting its idle timer
+  const checkExpiry = useCallback(async () => {
+    if (!sessionToken) return
+
+    try {
+      const response = await fetch(`/api/connections/${connectionId}/session`, {
+        headers: {
+          'x-session-token': sessionToken,
+        },
+      })
+
+      // Only a missing session or revoked access is final; retry on the next check otherwise
+      if (response.status === 404 || response.status === 401) {
+        handleSessionEnded()
+        return
+      }
+      if (!response.ok) return
+
+      const data = await response.json()
+      const expiry: SessionExpiry | undefined = data.session?.expiry
+      if (!expiry) return
+
+      const remaining = new Date(expiry.expiresAt).getTime() - Date.now()
+      if (remaining > EXPIRY_WARNING_WINDOW) {
+        setExpiryWarning(null)
+        return
+      }
+
+      setExpiryWarning(expiry)
+      if (warnedExpiryRef.current !== expiry.expiresAt) {
+        warnedExpiryRef.current = expiry.expiresAt
+        toast.warning(
+          intl.formatMessage(
+            {
+              id:
+                expiry.reason === 'max_lifetime'
+                  ? 'ssh.session.maxLifetimeWarning'
+                  : 'ssh.session.idleWarning',
+            },
+            { minutes: Math.max(1, Math.ceil(remaining / 60000)) }
+          )
+        )
+      }
+    } catch (err) {
+      console.error('Session status error:', err)
+      // Network hiccups are retried on the next poll
+    }
+  }, [connectionId, sessionToken, handleSessionEnded, toast, intl])
+
+  // Keep session alive; resets the server's idle timer
   const keepAlive = useCallback(async () => {
     if (!sessionToken) return
 
@@ -62,11 +146,13 @@ export function useSSHSession({
       if (!response.ok) {
         throw new Error('Keep-alive failed')
       }
+
+      await checkExpiry()
     } catch (err) {
       console.error('Keep-alive error:', err)
       // Don't show error toast for keep-alive failures
     }
-  }, [connectionId, sessionToken])
+  }, [connectionId, sessionToken, checkExpiry])
 
   // Connect to SSH
   const connect = useCallback(async () => {
@@ -85,6 +171,11 @@ export function useSSHSession({
 
       if (!response.ok) {
         const errorData = await response.json()
+        if (errorData.hostKey) {
+          hostKeyMessageRef.current = errorData.error
+          setPendingHostKey(errorData.hostKey)
+          return
+        }
         throw new Error(errorData.error || 'Failed to connect')
       }
 
@@ -114,16 +205,38 @@ export function useSSHSession({
     }
   }, [connectionId, isConnecting, isConnected])
 
-  // Start keep-alive interval when connected
+  // Trust the presented host key for the organization, then retry
+  const approveHostKey = useCallback(async () => {
+    if (!pendingHostKey) return
+
+    try {
+      await connectionService.approveHostKey(connectionId, pendingHostKey)
+      setPendingHostKey(null)
+      await connect()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err))
+    }
+  }, [connectionId, pendingHostKey, connect, toast])
+
+  const rejectHostKey = useCallback(() => {
+    setPendingHostKey(null)
+    const message = hostKeyMessageRef.current || 'Host key was not approved'
+    setError(message)
+
+    if (onErrorRef.current) {
+      onErrorRef.current(message)
+    }
+  }, [])
+
+  // Poll the session's expiry while connected
   useEffect(() => {
     if (!sessionToken) {
       return
     }
 
-    // Start keep-alive interval
     keepAliveIntervalRef.current = setInterval(() => {
-      keepAlive()
-    }, 30000) // 30 seconds
+      checkExpiry()
+    }, STATUS_POLL_INTERVAL)
 
     return () => {
       if (keepAliveIntervalRef.current) {
@@ -131,7 +244,7 @@ export function useSSHSession({
         keepAliveIntervalRef.current = null
       }
     }
-  }, [sessionToken, keepAlive])
+  }, [sessionToken, checkExpiry])
 
   // Disconnect from SSH
   const disconnect = useCallback(() => {
@@ -156,6 +269,7 @@ export function useSSHSession({
     setSessionToken(null)
     setIsConnected(false)
     setError(null)
+    setExpiryWarning(null)
 
     toast.info(intl.formatMessage({ id: 'ssh.session.disconnected' }))
 
@@ -189,8 +303,12 @@ export function useSSHSession({
     isConnecting,
     isConnected,
     error,
+    pendingHostKey,
+    expiryWarning,
     connect,
     disconnect,
     keepAlive,
+    approveHostKey,
+    rejectHostKey,
   }
 }
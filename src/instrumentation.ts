@@ -0,0 +1,7 @@
+// Runs once when the server starts; the scheduler needs the Node.js runtime
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { ensureJobScheduler } = await import('@/lib/jobs/scheduler')
+    ensureJobScheduler()
+  }
+}
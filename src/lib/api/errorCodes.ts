@@ -17,12 +17,17 @@ export const ErrorCodes = {
   FILE_ACCESS_DENIED: 'FILE_ACCESS_DENIED',
   FILE_OPERATION_FAILED: 'FILE_OPERATION_FAILED',
   PATH_TRAVERSAL_ATTEMPT: 'PATH_TRAVERSAL_ATTEMPT',
+  UPLOAD_OFFSET_MISMATCH: 'UPLOAD_OFFSET_MISMATCH',
+  CONFIRMATION_REQUIRED: 'CONFIRMATION_REQUIRED',
+  CRONTAB_CHANGED: 'CRONTAB_CHANGED',
 
   // Connection errors
   CONNECTION_FAILED: 'CONNECTION_FAILED',
   HOST_UNREACHABLE: 'HOST_UNREACHABLE',
   AUTHENTICATION_FAILED: 'AUTHENTICATION_FAILED',
   CONNECTION_TIMEOUT: 'CONNECTION_TIMEOUT',
+  HOST_KEY_UNKNOWN: 'HOST_KEY_UNKNOWN',
+  HOST_KEY_CHANGED: 'HOST_KEY_CHANGED',
 
   // Database errors
   DATABASE_ERROR: 'DATABASE_ERROR',
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { consumeFileTicket, type FileTicketKind } from '@/lib/ssh/file-tickets'
 import type { SupabaseClient, User } from '@supabase/supabase-js'
 
 export type SSHAuthHandler = (
@@ -13,7 +14,13 @@ export type SSHAuthHandler = (
   }
 ) => Promise<NextResponse>
 
-export function createSSHAuthenticatedRoute(handler: SSHAuthHandler) {
+// Passive routes serve polling views: they check the session without counting
+// the request as activity, so an open dashboard does not defeat the idle timeout.
+// Routes that set `ticket` also accept a file ticket of that kind on plain GETs.
+export function createSSHAuthenticatedRoute(
+  handler: SSHAuthHandler,
+  options: { passive?: boolean; ticket?: FileTicketKind } = {}
+) {
   return async (
     request: NextRequest,
     context: { params: Promise<Record<string, string | string[]>> }
@@ -47,15 +54,36 @@ export function createSSHAuthenticatedRoute(handler: SSHAuthHandler) {
         return NextResponse.json({ error: 'Access denied' }, { status: 403 })
       }
 
-      // Get SSH session token from header
-      const sshSessionToken = request.headers.get('x-session-token')
+      // Get SSH session token from header. Plain GETs such as <video src>, native
+      // downloads and EventSource cannot set headers, so they present a ticket for
+      // one path instead; the session token itself never travels in a URL.
+      const searchParams = request.nextUrl.searchParams
+      const isPlainGet = request.method === 'GET' || request.method === 'HEAD'
+      let sshSessionToken = request.headers.get('x-session-token')
+
+      if (!sshSessionToken && options.ticket && isPlainGet && searchParams.has('ticket')) {
+        const ticket = consumeFileTicket(searchParams.get('ticket'), options.ticket)
+        if (
+          !ticket ||
+          ticket.connectionId !== connectionId ||
+          ticket.userId !== user.id ||
+          ticket.path !== searchParams.get('path') ||
+          ticket.inline !== (searchParams.get('inline') === '1')
+        ) {
+          return NextResponse.json({ error: 'Invalid or expired ticket' }, { status: 401 })
+        }
+        sshSessionToken = ticket.sessionToken
+      }
+
       if (!sshSessionToken) {
         return NextResponse.json({ error: 'SSH session token required' }, { status: 401 })
       }
       
       // Validate session exists and is active
       const { SSHConnectionManager } = await import('@/lib/ssh/connection-manager')
-      const isValidSession = await SSHConnectionManager.validateSession(sshSessionToken)
+      const isValidSession = await SSHConnectionManager.validateSession(sshSessionToken, {
+        touch: !options.passive,
+      })
       if (!isValidSession) {
         console.log('Session validation failed for token:', sshSessionToken)
         return NextResponse.json({ 
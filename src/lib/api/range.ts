@@ -0,0 +1,53 @@
+export interface ByteRange {
+  start: number
+  // Inclusive, like the Range header itself
+  end: number
+}
+
+/**
+ * Parses a `Range: bytes=...` header against a resource of `size` bytes.
+ * Returns null when the whole resource should be served (no header, multiple
+ * ranges, other units) and 'unsatisfiable' when the range is out of bounds.
+ */
+export function parseRangeHeader(
+  header: string | null,
+  size: number
+): ByteRange | null | 'unsatisfiable' {
+  if (!header) return null
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match) return null
+
+  const [, rawStart, rawEnd] = match
+  if (!rawStart && !rawEnd) return null
+
+  let start: number
+  let end: number
+
+  if (!rawStart) {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(rawEnd, 10)
+    if (suffix === 0) return 'unsatisfiable'
+    start = Math.max(size - suffix, 0)
+    end = size - 1
+  } else {
+    start = parseInt(rawStart, 10)
+    end = rawEnd ? Math.min(parseInt(rawEnd, 10), size - 1) : size - 1
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable'
+
+  return { start, end }
+}
+
+// RFC 6266 header with an ASCII fallback for older clients
+export function contentDisposition(type: 'attachment' | 'inline', filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+}
+
+// Media the file editor previews. Anything else, SVG and HTML included, could run
+// script on the app's origin, so it is only ever served as an attachment.
+export function canServeInline(mimeType: string | null): boolean {
+  return !!mimeType && /^(image\/(?!svg)|video\/|audio\/)/.test(mimeType)
+}
@@ -0,0 +1,174 @@
+import type { BroadcastHostResult, BroadcastOptions, BroadcastTarget } from '@/types/broadcast'
+
+export const DEFAULT_BROADCAST_OPTIONS: BroadcastOptions = {
+  concurrency: 5,
+  timeoutSeconds: 60,
+}
+
+export const MAX_BROADCAST_CONCURRENCY = 20
+export const MAX_BROADCAST_TIMEOUT = 600
+
+export function queuedResult(target: BroadcastTarget): BroadcastHostResult {
+  return {
+    connectionId: target.id,
+    name: target.name,
+    host: target.host,
+    status: 'queued',
+    stdout: '',
+    stderr: '',
+    code: null,
+    error: null,
+    startedAt: null,
+    durationMs: null,
+  }
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => null)
+  return typeof data?.error === 'string' ? data.error : fallback
+}
+
+// Opens a session through the same endpoint as the connection page, so host key
+// checks, session policies and activity logging all apply to every host
+async function openSession(connectionId: string, signal: AbortSignal): Promise<string> {
+  const response = await fetch(`/api/connections/${connectionId}/session`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    signal,
+  })
+  if (!response.ok) throw new Error(await readError(response, 'Failed to connect'))
+
+  const data = await response.json()
+  return data.sessionToken
+}
+
+function closeSession(connectionId: string, sessionToken: string) {
+  fetch(`/api/connections/${connectionId}/session`, {
+    method: 'DELETE',
+    headers: { 'x-session-token': sessionToken },
+  }).catch((err) => console.error('Failed to close broadcast session:', err))
+}
+
+async function runOnHost(
+  target: BroadcastTarget,
+  command: string,
+  timeoutSeconds: number,
+  signal: AbortSignal,
+  update: (changes: Partial<BroadcastHostResult>) => void
+) {
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutSeconds * 1000)
+  const cancel = () => controller.abort()
+  signal.addEventListener('abort', cancel)
+
+  const started = Date.now()
+  update({ status: 'connecting', startedAt: new Date(started).toISOString() })
+
+  let sessionToken: string | null = null
+  try {
+    sessionToken = await openSession(target.id, controller.signal)
+    update({ status: 'running' })
+
+    const response = await fetch(`/api/connections/${target.id}/terminal`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-session-token': sessionToken },
+      body: JSON.stringify({ command }),
+      signal: controller.signal,
+    })
+    if (!response.ok) throw new Error(await readError(response, 'Failed to execute command'))
+
+    const data = await response.json()
+    update({
+      status: 'completed',
+      stdout: data.output ?? '',
+      stderr: data.error ?? '',
+      code: typeof data.exitCode === 'number' ? data.exitCode : null,
+      durationMs: Date.now() - started,
+    })
+  } catch (err) {
+    const error = timedOut
+      ? `No result after ${timeoutSeconds}s`
+      : err instanceof Error
+        ? err.message
+        : String(err)
+    update({
+      status: timedOut ? 'timeout' : signal.aborted ? 'cancelled' : 'failed',
+      error,
+      durationMs: Date.now() - started,
+    })
+  } finally {
+    clearTimeout(timer)
+    signal.removeEventListener('abort', cancel)
+    // Closing the session also stops a command that is still running
+    if (sessionToken) closeSession(target.id, sessionToken)
+  }
+}
+
+/**
+ * Runs one command on every target, at most `concurrency` hosts at a time.
+ * Each host gets its own session, opened on demand and closed when its command
+ * finishes, fails or runs out of time. A session that was still being opened
+ * when its host timed out is left to the idle timeout, since there is no token
+ * to close it with yet. `onUpdate` receives every change to a host's result.
+ */
+export async function runBroadcast(
+  targets: BroadcastTarget[],
+  command: string,
+  options: BroadcastOptions,
+  onUpdate: (result: BroadcastHostResult) => void,
+  signal: AbortSignal
+): Promise<BroadcastHostResult[]> {
+  const results = targets.map(queuedResult)
+  const concurrency = Math.min(Math.max(1, options.concurrency), MAX_BROADCAST_CONCURRENCY)
+  const timeoutSeconds = Math.min(Math.max(1, options.timeoutSeconds), MAX_BROADCAST_TIMEOUT)
+
+  let next = 0
+  const worker = async () => {
+    while (next < targets.length) {
+      const index = next++
+      if (signal.aborted) {
+        results[index] = { ...results[index], status: 'cancelled' }
+        onUpdate(results[index])
+        continue
+      }
+
+      await runOnHost(targets[index], command, timeoutSeconds, signal, (changes) => {
+        results[index] = { ...results[index], ...changes }
+        onUpdate(results[index])
+      })
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, targets.length) }, worker))
+  return results
+}
+
+// The shape written by the JSON export
+export function broadcastReport(
+  command: string,
+  options: BroadcastOptions,
+  results: BroadcastHostResult[]
+) {
+  return {
+    command,
+    concurrency: options.concurrency,
+    timeoutSeconds: options.timeoutSeconds,
+    exportedAt: new Date().toISOString(),
+    hosts: results.map((result) => ({
+      connectionId: result.connectionId,
+      name: result.name,
+      host: result.host,
+      status: result.status,
+      exitCode: result.code,
+      durationMs: result.durationMs,
+      startedAt: result.startedAt,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      error: result.error,
+    })),
+  }
+}
@@ -8,8 +8,10 @@ import type {
   TestConnectionInput,
   TestConnectionResult,
   ConnectionSession,
+  ConnectionSessionWithUser,
   ConnectionActivityLog,
 } from '@/types/connection'
+import type { HostKeyDetails } from '@/types/ssh'
 
 export const connectionService = {
   // Get all connections for a project
@@ -320,6 +322,26 @@ export const connectionService = {
     return result
   },
 
+  // Trust a host key fingerprint for the connection's organization
+  async approveHostKey(connectionId: string, hostKey: HostKeyDetails): Promise<void> {
+    if (!connectionId) {
+      throw new Error('connections.error.connectionIdRequired')
+    }
+
+    const response = await fetch(`/api/connections/${connectionId}/host-key`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(hostKey),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.message || errorData.error || 'Failed to approve host key')
+    }
+  },
+
   // Get active sessions for a connection
   async getConnectionSessions(connectionId: string): Promise<ConnectionSession[]> {
     if (!connectionId) {
@@ -343,6 +365,43 @@ export const connectionService = {
     return data || []
   },
 
+  // Get recent sessions for a connection, including ended ones, with transfer counters
+  async getSessionHistory(connectionId: string, limit = 20): Promise<ConnectionSessionWithUser[]> {
+    if (!connectionId) {
+      throw new Error('connections.error.connectionIdRequired')
+    }
+
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('connection_sessions')
+      .select('*')
+      .eq('connection_id', connectionId)
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const userIds = Array.from(new Set((data || []).map((s) => s.user_id)))
+
+    let profileMap = new Map<string, string>()
+    if (userIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, username')
+        .in('id', userIds)
+
+      profileMap = new Map(profiles?.map((p) => [p.id, p.username]) || [])
+    }
+
+    return (data || []).map((session) => ({
+      ...session,
+      username: profileMap.get(session.user_id) || null,
+    }))
+  },
+
   // Get activity logs for a connection
   async getConnectionActivityLogs(
     connectionId: string,
@@ -0,0 +1,88 @@
+import { validateSchedule } from './schedule'
+
+/**
+ * One line of a user crontab. Comments, blank lines and variable assignments
+ * such as `MAILTO=` are kept verbatim so a round trip through the editor only
+ * changes the entries that were edited. A commented-out line that still reads
+ * as a valid entry is treated as a disabled entry.
+ */
+export type CrontabLine =
+  | { type: 'entry'; schedule: string; command: string; enabled: boolean }
+  | { type: 'text'; text: string }
+
+export type CrontabEntry = Extract<CrontabLine, { type: 'entry' }>
+
+const VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\s*=/
+
+// Splits "<schedule> <command>" where the schedule is five fields or one @shortcut
+export function splitEntry(line: string): { schedule: string; command: string } | null {
+  const words = line.trim().split(/(\s+)/)
+  const fieldCount = words[0]?.startsWith('@') ? 1 : 5
+  // split() keeps the separators, so every field is followed by one whitespace run
+  const scheduleWords = words.slice(0, fieldCount * 2 - 1)
+  const command = words
+    .slice(fieldCount * 2)
+    .join('')
+    .trim()
+
+  if (scheduleWords.length < fieldCount * 2 - 1 || !command) return null
+  return { schedule: scheduleWords.join(''), command }
+}
+
+export function parseCrontab(content: string): CrontabLine[] {
+  const lines = content.replace(/\n$/, '').split('\n')
+  if (lines.length === 1 && lines[0] === '') return []
+
+  return lines.map((text): CrontabLine => {
+    const trimmed = text.trim()
+
+    if (trimmed.startsWith('#')) {
+      const entry = splitEntry(trimmed.replace(/^#+/, ''))
+      if (entry && validateSchedule(entry.schedule) === null) {
+        return { type: 'entry', ...entry, enabled: false }
+      }
+      return { type: 'text', text }
+    }
+
+    if (!trimmed || VARIABLE_PATTERN.test(trimmed)) return { type: 'text', text }
+
+    // Invalid schedules still come back as entries so the editor can flag them
+    const entry = splitEntry(trimmed)
+    return entry ? { type: 'entry', ...entry, enabled: true } : { type: 'text', text }
+  })
+}
+
+// cron ignores a last line without a newline, so always end with one
+export function serializeCrontab(lines: CrontabLine[]): string {
+  if (!lines.length) return ''
+
+  return (
+    lines
+      .map((line) =>
+        line.type === 'text'
+          ? line.text
+          : `${line.enabled ? '' : '# '}${line.schedule} ${line.command}`
+      )
+      .join('\n') + '\n'
+  )
+}
+
+// Lists the problems that would make `crontab` reject the content, one per line
+export function validateCrontab(lines: CrontabLine[]): string[] {
+  const errors: string[] = []
+
+  lines.forEach((line, index) => {
+    if (line.type === 'entry') {
+      if (!line.enabled) return
+      const error = validateSchedule(line.schedule)
+      if (error) errors.push(`Line ${index + 1}: ${error}`)
+      if (line.command.includes('\n')) errors.push(`Line ${index + 1}: command spans lines`)
+    } else if (line.text.trim() && !line.text.trim().startsWith('#')) {
+      if (!VARIABLE_PATTERN.test(line.text.trim())) {
+        errors.push(`Line ${index + 1}: not a schedule, comment or variable`)
+      }
+    }
+  })
+
+  return errors
+}
@@ -0,0 +1,226 @@
+/**
+ * Parses the five-field schedules of Vixie/cronie crontabs: minute, hour,
+ * day of month, month and day of week. Each field takes `*`, numbers, names
+ * (`jan`, `mon`), ranges, `/step`s and comma lists, and the `@daily`-style
+ * shortcuts are expanded to their five-field form.
+ */
+export interface CronSchedule {
+  expression: string
+  // The five fields after expanding shortcuts; empty for @reboot
+  fields: string[]
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: number[]
+  months: number[]
+  // 0 is Sunday; 7 is accepted and folded into 0
+  daysOfWeek: number[]
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+  // @reboot runs once when cron starts and has no calendar times
+  reboot: boolean
+}
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CronParseError'
+  }
+}
+
+export const CRON_SHORTCUTS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  {
+    name: 'day of week',
+    min: 0,
+    max: 7,
+    names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+  },
+]
+
+// Feb 29 on a given weekday can be decades away; past this, stop looking
+const MAX_SEARCH_DAYS = 366 * 30
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(text.toLowerCase()) ?? -1
+  // Month names are 1-based, weekday names 0-based
+  if (index !== -1) return index + spec.min
+
+  if (!/^\d+$/.test(text)) {
+    throw new CronParseError(`Invalid ${spec.name} value "${text}"`)
+  }
+  const value = Number(text)
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(
+      `The ${spec.name} must be between ${spec.min} and ${spec.max}, got ${value}`
+    )
+  }
+  return value
+}
+
+function parseField(text: string, spec: FieldSpec): number[] {
+  const values = new Set<number>()
+
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/')
+    if (rest.length || !range) {
+      throw new CronParseError(`Invalid ${spec.name} "${part}"`)
+    }
+
+    let step = 1
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+        throw new CronParseError(`Invalid ${spec.name} step "${stepText}"`)
+      }
+      step = Number(stepText)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = spec.min
+      end = spec.max
+    } else if (range.includes('-')) {
+      const [from, to, ...extra] = range.split('-')
+      if (extra.length) throw new CronParseError(`Invalid ${spec.name} range "${range}"`)
+      start = parseValue(from, spec)
+      end = parseValue(to, spec)
+      if (start > end) {
+        throw new CronParseError(`The ${spec.name} range "${range}" runs backwards`)
+      }
+    } else {
+      start = parseValue(range, spec)
+      // `5/15` means "from 5 to the end in steps of 15", as in cronie
+      end = stepText === undefined ? start : spec.max
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+
+  return [...values].sort((a, b) => a - b)
+}
+
+export function parseSchedule(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+
+  if (trimmed.startsWith('@')) {
+    const keyword = trimmed.toLowerCase()
+    if (keyword === '@reboot') {
+      return {
+        expression: trimmed,
+        fields: [],
+        minutes: [],
+        hours: [],
+        daysOfMonth: [],
+        months: [],
+        daysOfWeek: [],
+        dayOfMonthRestricted: false,
+        dayOfWeekRestricted: false,
+        reboot: true,
+      }
+    }
+    if (!CRON_SHORTCUTS[keyword]) {
+      throw new CronParseError(`Unknown schedule shortcut "${trimmed}"`)
+    }
+    return { ...parseSchedule(CRON_SHORTCUTS[keyword]), expression: trimmed }
+  }
+
+  const fields = trimmed.split(/\s+/)
+  if (fields.length !== 5) {
+    throw new CronParseError(`A schedule needs 5 fields, got ${trimmed ? fields.length : 0}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index])
+  )
+
+  return {
+    expression: trimmed,
+    fields,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: [...new Set(daysOfWeek.map((day) => day % 7))].sort((a, b) => a - b),
+    // cron only treats a day field as unrestricted when it starts with `*`
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*'),
+    reboot: false,
+  }
+}
+
+// Returns the reason the expression is invalid, or null when it parses
+export function validateSchedule(expression: string): string | null {
+  try {
+    parseSchedule(expression)
+    return null
+  } catch (error) {
+    if (error instanceof CronParseError) return error.message
+    throw error
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.includes(date.getMonth() + 1)) return false
+
+  const dayOfMonth = schedule.daysOfMonth.includes(date.getDate())
+  const dayOfWeek = schedule.daysOfWeek.includes(date.getDay())
+  // With both day fields restricted, cron runs when either one matches
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek
+  }
+  return dayOfMonth && dayOfWeek
+}
+
+/**
+ * Lists the next `count` times the schedule fires after `from`, in the local
+ * time zone of the caller. cron itself uses the host's time zone.
+ */
+export function getNextRuns(schedule: CronSchedule, count: number, from = new Date()): Date[] {
+  const runs: Date[] = []
+  if (schedule.reboot) return runs
+
+  // Runs are on whole minutes, strictly after `from`
+  const start = new Date(from)
+  start.setSeconds(0, 0)
+  start.setMinutes(start.getMinutes() + 1)
+
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate())
+  for (let i = 0; i < MAX_SEARCH_DAYS && runs.length < count; i++) {
+    if (matchesDay(schedule, day)) {
+      for (const hour of schedule.hours) {
+        for (const minute of schedule.minutes) {
+          const run = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute)
+          if (run >= start && runs.length < count) runs.push(run)
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1)
+  }
+
+  return runs
+}
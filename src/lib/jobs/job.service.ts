@@ -0,0 +1,120 @@
+import { createClient } from '@/lib/supabase/client'
+import { validateJob } from './validation'
+import type {
+  ScheduledJob,
+  ScheduledJobRun,
+  ScheduledJobRunWithDetails,
+  CreateScheduledJobInput,
+  UpdateScheduledJobInput,
+} from '@/types/job'
+
+export const jobService = {
+  async getProjectJobs(projectId: string): Promise<ScheduledJob[]> {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('scheduled_jobs')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('name')
+
+    if (error) throw new Error(error.message)
+    return data || []
+  },
+
+  async createJob(projectId: string, input: CreateScheduledJobInput): Promise<ScheduledJob> {
+    const invalid = validateJob(input)
+    if (invalid) throw new Error(invalid)
+
+    const supabase = createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) throw new Error('auth.error.notAuthenticated')
+
+    const { data, error } = await supabase
+      .from('scheduled_jobs')
+      .insert({
+        ...input,
+        project_id: projectId,
+        created_by: user.id,
+      })
+      .select()
+      .single()
+
+    if (error) throw new Error(error.message)
+    return data
+  },
+
+  async updateJob(job: ScheduledJob, updates: UpdateScheduledJobInput): Promise<ScheduledJob> {
+    const invalid = validateJob({ ...job, ...updates })
+    if (invalid) throw new Error(invalid)
+
+    const supabase = createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) throw new Error('auth.error.notAuthenticated')
+
+    const { data, error } = await supabase
+      .from('scheduled_jobs')
+      .update({
+        ...updates,
+        // Jobs run as their author, so an admin editing someone else's job takes it over
+        created_by: user.id,
+        // The scheduler works out the next run again, in the server's time zone
+        ...((updates.schedule !== undefined || updates.is_enabled !== undefined) && {
+          next_run_at: null,
+        }),
+      })
+      .eq('id', job.id)
+      .select()
+      .maybeSingle()
+
+    if (error) throw new Error(error.message)
+    // Row level security hides the update from anyone but the author and admins
+    if (!data) throw new Error("Only the job's author or an organization admin can change it")
+    return data
+  },
+
+  async deleteJob(jobId: string): Promise<void> {
+    const supabase = createClient()
+    const { error } = await supabase.from('scheduled_jobs').delete().eq('id', jobId)
+
+    if (error) throw new Error(error.message)
+  },
+
+  async getJobRuns(jobId: string, limit = 20): Promise<ScheduledJobRun[]> {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('scheduled_job_runs')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw new Error(error.message)
+    return data || []
+  },
+
+  // Latest failed runs across a project's jobs, for the project overview
+  async getFailedRuns(projectId: string, limit = 5): Promise<ScheduledJobRunWithDetails[]> {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('scheduled_job_runs')
+      .select('*, scheduled_jobs!inner(name, project_id), connections(name)')
+      .eq('scheduled_jobs.project_id', projectId)
+      .eq('status', 'failed')
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw new Error(error.message)
+    return (data || []).map(({ scheduled_jobs, connections, ...run }) => ({
+      ...run,
+      job_name: scheduled_jobs?.name || '',
+      connection_name: connections?.name || null,
+    }))
+  },
+}
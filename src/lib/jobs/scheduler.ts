@@ -0,0 +1,261 @@
+import { SSHConnectionManager } from '@/lib/ssh/connection-manager'
+import { createServiceClient } from '@/lib/supabase/service'
+import { decryptCredentials } from '@/lib/connections/encryption'
+import { resolveJumpHosts } from '@/lib/ssh/proxy-jump'
+import { createHostKeyVerifier } from '@/lib/ssh/known-hosts'
+import { resolveSessionPolicy } from '@/lib/ssh/session-policy'
+import { getNextRuns, parseSchedule } from '@/lib/cron/schedule'
+import { renderSnippet } from '@/lib/snippets/template'
+import { raw, type ShellCommand } from '@/lib/ssh/shell'
+import { validateJobSchedule } from './validation'
+import type { Database } from '@/types/database'
+import type { ScheduledJob } from '@/types/job'
+import type { SnippetParameter } from '@/types/snippet'
+
+type ServiceClient = ReturnType<typeof createServiceClient>
+type ConnectionRow = Database['public']['Tables']['connections']['Row']
+
+const TICK_INTERVAL = 30 * 1000 // 30 seconds
+// Output kept per run; the rest of a chatty job is dropped
+const MAX_OUTPUT_LENGTH = 64 * 1024
+
+// Use global to keep a single scheduler across module reloads in development
+const globalForScheduler = globalThis as unknown as {
+  jobScheduler: NodeJS.Timeout | undefined
+  runningJobs: Set<string> | undefined
+}
+
+function getRunningJobs(): Set<string> {
+  if (!globalForScheduler.runningJobs) {
+    globalForScheduler.runningJobs = new Set<string>()
+  }
+  return globalForScheduler.runningJobs
+}
+
+/**
+ * Starts the in-process scheduler for scheduled jobs. Schedules are cron
+ * expressions in the server's time zone. Due jobs are claimed by moving their
+ * next_run_at forward before running, so several app servers sharing one
+ * database still run each job once. Jobs run as their author (the member who
+ * last edited them), who must still have access to each connection, with the
+ * connection's stored credentials.
+ */
+export function ensureJobScheduler(): void {
+  if (globalForScheduler.jobScheduler) return
+
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.warn('Scheduled jobs are disabled: SUPABASE_SERVICE_ROLE_KEY is not configured')
+    return
+  }
+
+  globalForScheduler.jobScheduler = setInterval(() => {
+    tick().catch((error) => console.error('Job scheduler tick failed:', error))
+  }, TICK_INTERVAL)
+}
+
+function nextRunAt(schedule: string, from: Date): string | null {
+  if (validateJobSchedule(schedule)) return null
+  const [next] = getNextRuns(parseSchedule(schedule), 1, from)
+  return next ? next.toISOString() : null
+}
+
+async function tick(): Promise<void> {
+  const supabase = createServiceClient()
+  const now = new Date()
+
+  // New and edited jobs get their next run worked out here, in the server's time zone
+  const { data: unscheduled } = await supabase
+    .from('scheduled_jobs')
+    .select('id, schedule')
+    .eq('is_enabled', true)
+    .is('next_run_at', null)
+
+  for (const job of unscheduled ?? []) {
+    const next = nextRunAt(job.schedule, now)
+    if (!next) {
+      console.error(`Disabling scheduled job ${job.id}: invalid schedule "${job.schedule}"`)
+    }
+    await supabase
+      .from('scheduled_jobs')
+      .update(next ? { next_run_at: next } : { is_enabled: false })
+      .eq('id', job.id)
+  }
+
+  const { data: due, error } = await supabase
+    .from('scheduled_jobs')
+    .select('*')
+    .eq('is_enabled', true)
+    .lte('next_run_at', now.toISOString())
+
+  if (error) throw new Error(error.message)
+
+  const running = getRunningJobs()
+  for (const job of (due ?? []) as ScheduledJob[]) {
+    // A run that outlasts its interval skips the overlapping run
+    if (running.has(job.id)) continue
+
+    const { data: claimed } = await supabase
+      .from('scheduled_jobs')
+      .update({ next_run_at: nextRunAt(job.schedule, now), last_run_at: now.toISOString() })
+      .eq('id', job.id)
+      .eq('next_run_at', job.next_run_at!)
+      .select('id')
+
+    if (!claimed?.length) continue
+
+    running.add(job.id)
+    runJob(supabase, job)
+      .catch((runError) => console.error(`Scheduled job ${job.id} failed:`, runError))
+      .finally(() => running.delete(job.id))
+  }
+}
+
+async function resolveCommand(supabase: ServiceClient, job: ScheduledJob): Promise<ShellCommand> {
+  if (!job.snippet_id) {
+    // Written by a project member, so it runs as typed like a terminal command
+    return raw(job.command ?? '')
+  }
+
+  const { data: snippet } = await supabase
+    .from('project_snippets')
+    .select('*')
+    .eq('id', job.snippet_id)
+    .eq('project_id', job.project_id)
+    .single()
+
+  if (!snippet) throw new Error('The snippet this job runs no longer exists')
+  return renderSnippet(
+    snippet.command,
+    snippet.parameters as unknown as SnippetParameter[],
+    job.parameters
+  )
+}
+
+async function runJob(supabase: ServiceClient, job: ScheduledJob): Promise<void> {
+  const { data: connections } = await supabase
+    .from('connections')
+    .select('*')
+    .in('id', job.connection_ids)
+    .eq('project_id', job.project_id)
+
+  let command: ShellCommand | null = null
+  let setupError: string | null = null
+  try {
+    if (!job.created_by) throw new Error('The job has no author to run as')
+    command = await resolveCommand(supabase, job)
+  } catch (error) {
+    setupError = error instanceof Error ? error.message : String(error)
+  }
+
+  // One connection at a time keeps a job's load on shared infrastructure predictable
+  for (const connection of connections ?? []) {
+    await runOnConnection(supabase, job, connection, command, setupError)
+  }
+}
+
+async function runOnConnection(
+  supabase: ServiceClient,
+  job: ScheduledJob,
+  connection: ConnectionRow,
+  command: ShellCommand | null,
+  setupError: string | null
+): Promise<void> {
+  const { data: run, error: insertError } = await supabase
+    .from('scheduled_job_runs')
+    .insert({
+      job_id: job.id,
+      connection_id: connection.id,
+      command: command?.toString() ?? null,
+    })
+    .select('id')
+    .single()
+
+  if (insertError || !run) {
+    console.error('Failed to record scheduled job run:', insertError)
+    return
+  }
+
+  const finish = (updates: Database['public']['Tables']['scheduled_job_runs']['Update']) =>
+    supabase
+      .from('scheduled_job_runs')
+      .update({ ...updates, finished_at: new Date().toISOString() })
+      .eq('id', run.id)
+
+  try {
+    if (setupError || !command) throw new Error(setupError ?? 'Nothing to run')
+
+    const { data: canAccess } = await supabase.rpc('can_access_connection', {
+      conn_id: connection.id,
+      check_user_id: job.created_by!,
+    })
+    if (!canAccess) throw new Error("The job's author no longer has access to this connection")
+
+    const sessionToken = await openSession(supabase, connection, job.created_by!)
+    try {
+      const result = await SSHConnectionManager.executeCommand(sessionToken, command, {
+        scheduled_job: { id: job.id, name: job.name },
+      })
+      await finish({
+        status: result.code === 0 ? 'success' : 'failed',
+        stdout: result.stdout.substring(0, MAX_OUTPUT_LENGTH),
+        stderr: result.stderr.substring(0, MAX_OUTPUT_LENGTH),
+        exit_code: result.code,
+      })
+    } finally {
+      await SSHConnectionManager.closeSession(sessionToken)
+    }
+  } catch (error) {
+    await finish({
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+// Mirrors the session route, with the job author in place of the signed-in user
+async function openSession(
+  supabase: ServiceClient,
+  connection: ConnectionRow,
+  userId: string
+): Promise<string> {
+  if (!connection.encrypted_credentials) {
+    throw new Error('No credentials found for this connection')
+  }
+  const credentials = decryptCredentials(connection.encrypted_credentials)
+
+  const jumpHosts = await resolveJumpHosts(supabase, userId, connection.proxy_jump, {
+    username: connection.username,
+    auth_type: connection.auth_type,
+    credentials,
+  })
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('session_idle_timeout, session_max_duration, session_keepalive_interval')
+    .eq('id', connection.organization_id)
+    .single()
+
+  const strictHostChecking = connection.strict_host_checking ?? false
+
+  return SSHConnectionManager.createSession(
+    connection.id,
+    userId,
+    {
+      host: connection.host,
+      port: connection.port,
+      username: connection.username,
+      auth_type: connection.auth_type,
+      credentials,
+      proxy_jump: connection.proxy_jump,
+      jump_hosts: jumpHosts,
+      host_key_verifier: createHostKeyVerifier(supabase, connection.organization_id, {
+        strict: strictHostChecking,
+        userId,
+      }),
+      connection_timeout: connection.connection_timeout || 30,
+      strict_host_checking: strictHostChecking,
+      session_policy: resolveSessionPolicy(connection, organization),
+    },
+    { userAgent: 'Connectix scheduler' }
+  )
+}
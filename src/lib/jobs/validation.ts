@@ -0,0 +1,25 @@
+import { parseSchedule, validateSchedule } from '@/lib/cron/schedule'
+import type { CreateScheduledJobInput } from '@/types/job'
+
+// Returns the schedule's problem for a scheduled job, or null when it can be used
+export function validateJobSchedule(expression: string): string | null {
+  const invalid = validateSchedule(expression)
+  if (invalid) return invalid
+  // The scheduler lives in the app server, which has no boot of its own to hook into
+  if (parseSchedule(expression).reboot) return '@reboot is not supported for scheduled jobs'
+  return null
+}
+
+// Returns what is wrong with a job definition, or null when it can be saved
+export function validateJob(input: CreateScheduledJobInput): string | null {
+  if (!input.name.trim()) return 'The name is required'
+
+  const invalidSchedule = validateJobSchedule(input.schedule)
+  if (invalidSchedule) return invalidSchedule
+
+  if (!input.command?.trim() && !input.snippet_id) return 'Choose a command or a snippet to run'
+  if (input.command && input.snippet_id) return 'A job runs either a command or a snippet'
+  if (input.connection_ids.length === 0) return 'Choose at least one connection'
+
+  return null
+}
@@ -1,6 +1,8 @@
 import { createClient } from '@/lib/supabase/client'
 import { storableError } from '@/lib/errors'
+import { apiCall } from '@/lib/api/client'
 import type { Organization, OrganizationWithDetails } from '@/types/organization'
+import type { OrganizationActiveSession } from '@/types/connection'
 import type { Database } from '@/types/database'
 
 export const organizationService = {
@@ -76,7 +78,13 @@ export const organizationService = {
 
   async updateOrganization(
     id: string,
-    updates: { name?: string; slug?: string }
+    updates: {
+      name?: string
+      slug?: string
+      session_idle_timeout?: number
+      session_max_duration?: number | null
+      session_keepalive_interval?: number
+    }
   ): Promise<Organization> {
     const supabase = createClient()
 
@@ -139,4 +147,16 @@ export const organizationService = {
     if (error) return false
     return data || false
   },
+
+  // Active SSH sessions on the organization's connections (admins only)
+  async getActiveSessions(organizationId: string): Promise<OrganizationActiveSession[]> {
+    return apiCall<OrganizationActiveSession[]>(`/api/organizations/${organizationId}/sessions`)
+  },
+
+  async terminateSession(organizationId: string, sessionId: string, reason: string): Promise<void> {
+    await apiCall(`/api/organizations/${organizationId}/sessions/${sessionId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ reason }),
+    })
+  },
 }
@@ -0,0 +1,105 @@
+import { createClient } from '@/lib/supabase/client'
+import { apiCall } from '@/lib/api/client'
+import { validateSnippet } from './template'
+import type {
+  Snippet,
+  CreateSnippetInput,
+  UpdateSnippetInput,
+  SnippetRunResult,
+} from '@/types/snippet'
+
+export const snippetService = {
+  async getProjectSnippets(projectId: string): Promise<Snippet[]> {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('project_snippets')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('name')
+
+    if (error) throw new Error(error.message)
+    return data || []
+  },
+
+  async createSnippet(projectId: string, input: CreateSnippetInput): Promise<Snippet> {
+    const invalid = validateSnippet(input.command, input.parameters)
+    if (invalid) throw new Error(invalid)
+
+    const supabase = createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) throw new Error('auth.error.notAuthenticated')
+
+    const { data, error } = await supabase
+      .from('project_snippets')
+      .insert({
+        project_id: projectId,
+        name: input.name,
+        description: input.description || null,
+        command: input.command,
+        parameters: input.parameters,
+        is_dangerous: input.is_dangerous,
+        created_by: user.id,
+      })
+      .select()
+      .single()
+
+    if (error) throw new Error(error.message)
+    return data
+  },
+
+  async updateSnippet(snippet: Snippet, updates: UpdateSnippetInput): Promise<Snippet> {
+    const invalid = validateSnippet(
+      updates.command ?? snippet.command,
+      updates.parameters ?? snippet.parameters
+    )
+    if (invalid) throw new Error(invalid)
+
+    const supabase = createClient()
+    const { data, error } = await supabase
+      .from('project_snippets')
+      .update({
+        ...updates,
+        ...(updates.description !== undefined && { description: updates.description || null }),
+      })
+      .eq('id', snippet.id)
+      .select()
+      .maybeSingle()
+
+    if (error) throw new Error(error.message)
+    // Row level security hides the update from anyone but the author and admins
+    if (!data) throw new Error("Only the snippet's author or an organization admin can change it")
+    return data
+  },
+
+  async deleteSnippet(snippetId: string): Promise<void> {
+    const supabase = createClient()
+    const { data, error } = await supabase
+      .from('project_snippets')
+      .delete()
+      .eq('id', snippetId)
+      .select('id')
+
+    if (error) throw new Error(error.message)
+    if (!data.length) {
+      throw new Error("Only the snippet's author or an organization admin can delete it")
+    }
+  },
+
+  // Runs on the server so parameter values are quoted where the command is executed
+  async runSnippet(
+    connectionId: string,
+    sessionToken: string,
+    snippetId: string,
+    values: Record<string, string>,
+    confirmed = false
+  ): Promise<SnippetRunResult> {
+    return apiCall<SnippetRunResult>(`/api/connections/${connectionId}/snippets/run`, {
+      method: 'POST',
+      headers: { 'x-session-token': sessionToken },
+      body: JSON.stringify({ snippetId, values, confirmed }),
+    })
+  },
+}
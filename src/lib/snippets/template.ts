@@ -0,0 +1,81 @@
+import { quoteArg, raw, type ShellCommand } from '@/lib/ssh/shell'
+import type { SnippetParameter } from '@/types/snippet'
+
+/**
+ * Snippet commands are shell text written by the project's members, with
+ * `{{name}}` placeholders for the values picked at run time. The command is
+ * trusted like anything typed into the terminal; the values are not, so each
+ * one is single-quoted into a single argument. Placeholders therefore belong
+ * outside quotes: `systemctl restart {{service}}`, not `"{{service}}"`.
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+export const PARAMETER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+
+// Placeholder names in order of first use
+export function findPlaceholders(command: string): string[] {
+  return [...new Set(Array.from(command.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]))]
+}
+
+// Returns what is wrong with a snippet definition, or null when it can be saved
+export function validateSnippet(command: string, parameters: SnippetParameter[]): string | null {
+  if (!command.trim()) return 'The command is required'
+
+  const names = new Set<string>()
+  for (const parameter of parameters) {
+    if (!PARAMETER_NAME_PATTERN.test(parameter.name)) {
+      return `"${parameter.name}" is not a valid parameter name`
+    }
+    if (names.has(parameter.name)) return `Parameter ${parameter.name} is declared twice`
+    names.add(parameter.name)
+
+    if (parameter.type === 'select' && !parameter.options?.length) {
+      return `Parameter ${parameter.name} needs at least one allowed value`
+    }
+  }
+
+  const placeholders = findPlaceholders(command)
+  const undeclared = placeholders.find((name) => !names.has(name))
+  if (undeclared) return `{{${undeclared}}} is used in the command but not declared`
+  const unused = parameters.find((parameter) => !placeholders.includes(parameter.name))
+  if (unused) return `Parameter ${unused.name} is not used in the command`
+
+  return null
+}
+
+// Returns the first value that does not fit its parameter, or null when all do
+export function validateParameterValues(
+  parameters: SnippetParameter[],
+  values: Record<string, string>
+): string | null {
+  for (const parameter of parameters) {
+    const value = values[parameter.name]
+    if (value === undefined) return `A value for ${parameter.name} is required`
+
+    if (parameter.type === 'number' && !NUMBER_PATTERN.test(value)) {
+      return `${parameter.name} must be a number`
+    }
+    if (parameter.type === 'select' && !parameter.options?.includes(value)) {
+      return `${parameter.name} must be one of ${parameter.options?.join(', ')}`
+    }
+  }
+  return null
+}
+
+export function renderSnippet(
+  command: string,
+  parameters: SnippetParameter[],
+  values: Record<string, string>
+): ShellCommand {
+  const error = validateParameterValues(parameters, values)
+  if (error) throw new Error(error)
+
+  return raw(
+    command.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+      if (values[name] === undefined) throw new Error(`A value for ${name} is required`)
+      return quoteArg(values[name])
+    })
+  )
+}
@@ -1,16 +1,100 @@
-import { Client, ConnectConfig, SFTPWrapper } from 'ssh2'
+import {
+  Client,
+  ClientChannel,
+  ConnectConfig,
+  FileEntryWithStats,
+  SFTPWrapper,
+  Stats,
+} from 'ssh2'
 import { createClient } from '@/lib/supabase/server'
-import { randomBytes } from 'crypto'
+import { createServiceClient } from '@/lib/supabase/service'
+import { openJumpChain, JumpHostConfig } from './proxy-jump'
+import type { HostKeyVerifier } from './known-hosts'
+import { raw, sh, ShellCommand } from './shell'
+import { DEFAULT_SESSION_POLICY } from './session-policy'
+import { createHash, randomBytes } from 'crypto'
+import { PassThrough, Readable, Transform } from 'stream'
+import { posix } from 'path'
+import type {
+  AttributeChangeProgress,
+  AttributeChangeResult,
+  AttributeChanges,
+  ContentSearchResult,
+  CopyEntryResult,
+  CopyResult,
+  DeleteResult,
+  FileOperationFailure,
+  FileSearchOptions,
+  FileSearchResult,
+  OwnershipOptions,
+  SessionExpiry,
+  SessionPolicy,
+  TailMode,
+  RemoteProcess,
+  ProcessSignal,
+  SystemInfo,
+  SystemStats,
+  SystemdUnit,
+  ServiceAction,
+  ServiceDetails,
+  DockerResources,
+  ContainerAction,
+  ContainerFileEntry,
+  CommandResult,
+} from '@/types/ssh'
 
 interface SSHSession {
   id: string
   connectionId: string
   userId: string
   client: Client
+  jumpClients: Client[]
   sftp: SFTPWrapper | null
   isConnected: boolean
   lastActivity: Date
   config: SSHConnectionConfig
+  uploads: Map<string, PendingUpload>
+  // Whether the host lets us open exec channels; null until first tried
+  execAllowed: boolean | null
+  // uid/gid to name lookups, loaded on first use
+  idNames: Promise<IdNameMaps> | null
+  startedAt: Date
+  policy: SessionPolicy
+  metrics: SessionMetrics
+  // connection_sessions row, once inserted
+  recordId: string | null
+  metricsFlushedAt: Date | null
+  recordEnded: boolean
+}
+
+// Counters mirrored to connection_sessions
+interface SessionMetrics {
+  bytesUploaded: number
+  bytesDownloaded: number
+  commandsExecuted: number
+}
+
+type SessionEndStatus = 'disconnected' | 'terminated'
+
+interface SessionClientInfo {
+  ip?: string | null
+  userAgent?: string | null
+}
+
+interface IdNameMaps {
+  users: Map<number, string>
+  groups: Map<number, string>
+}
+
+// A chunked upload being written to a temp file next to its destination
+interface PendingUpload {
+  targetPath: string
+  tempPath: string
+  size: number
+  // Bytes confirmed written; chunks must start exactly here
+  offset: number
+  // Tail of the chunk queue, so two chunks never both pass the offset check
+  writing: Promise<unknown>
 }
 
 interface SSHConnectionConfig {
@@ -24,17 +108,23 @@ interface SSHConnectionConfig {
     passphrase?: string
   }
   proxy_jump?: string | null
+  jump_hosts?: JumpHostConfig[]
+  host_key_verifier?: HostKeyVerifier
   connection_timeout?: number
   strict_host_checking?: boolean
+  session_policy?: SessionPolicy
 }
 
-interface SessionInfo {
+interface SessionInfo extends SessionMetrics {
   id: string
   connectionId: string
   userId: string
   isConnected: boolean
+  startedAt: Date
   lastActivity: Date
   uptime: number
+  policy: SessionPolicy
+  expiry: SessionExpiry
 }
 
 interface DiskUsageInfo {
@@ -54,6 +144,54 @@ interface FileInfo {
   permissions: string
   owner: string
   group: string
+  uid: number
+  gid: number
+  linkTarget?: string
+  linkResolvedPath?: string
+  linkTargetType?: 'file' | 'directory' | 'symlink'
+  isBrokenLink?: boolean
+}
+
+// `drwxr-xr-x  2 owner group ...` lines from readdir
+const LONGNAME_PATTERN = /^[-dlcbps][-rwxsStT]{9}[.+@]?\s+\d+\s+\S+\s+\S+/
+
+// SSH_FX_FAILURE, the generic status servers use for errors like EXDEV and EEXIST
+const SFTP_STATUS_FAILURE = 4
+
+type SFTPError = Error & { code?: number }
+
+// Recursive deletes refuse these unless the caller confirms explicitly
+const PROTECTED_PATHS = [
+  '/',
+  '/bin',
+  '/boot',
+  '/dev',
+  '/etc',
+  '/home',
+  '/lib',
+  '/opt',
+  '/proc',
+  '/root',
+  '/sbin',
+  '/sys',
+  '/usr',
+  '/var',
+]
+const REMOVE_BATCH_SIZE = 16
+const METRICS_FLUSH_INTERVAL = 60 * 1000
+const SESSION_SWEEP_INTERVAL = 60 * 1000
+// Matched lines longer than this are cut (minified files would flood the response)
+const SEARCH_LINE_MAX_LENGTH = 500
+// SFTP tail fallback: how often to poll, how far back to look for the
+// initial lines, and how much to read per poll
+const TAIL_POLL_INTERVAL = 1000
+const TAIL_INITIAL_BYTES = 256 * 1024
+const TAIL_MAX_READ = 1024 * 1024
+// Largest file shown from inside a container; the rest is cut off
+const CONTAINER_FILE_MAX_BYTES = 1024 * 1024
+
+function joinRemotePath(dir: string, name: string): string {
+  return dir.endsWith('/') ? dir + name : `${dir}/${name}`
 }
 
 // Use global to persist sessions across module reloads in development
@@ -61,6 +199,41 @@ const globalForSessions = globalThis as unknown as {
   sshSessions: Map<string, SSHSession> | undefined
 }
 
+// Thrown when a session token is not live in this process, e.g. after it expired
+class SessionNotFoundError extends Error {
+  constructor() {
+    super('Session not found')
+    this.name = 'SessionNotFoundError'
+  }
+}
+
+// Thrown when a recursive delete targets a system root or the home directory
+class ProtectedPathError extends Error {
+  constructor(path: string) {
+    super(`Refusing to recursively delete ${path} without explicit confirmation`)
+    this.name = 'ProtectedPathError'
+  }
+}
+
+// Thrown when a chunk does not start at the last confirmed offset
+class UploadOffsetError extends Error {
+  offset: number
+
+  constructor(offset: number) {
+    super(`Upload offset mismatch, expected ${offset}`)
+    this.name = 'UploadOffsetError'
+    this.offset = offset
+  }
+}
+
+// Thrown when the crontab changed on the host after the editor loaded it
+class CrontabConflictError extends Error {
+  constructor() {
+    super('The crontab was changed on the host since it was loaded')
+    this.name = 'CrontabConflictError'
+  }
+}
+
 class SSHConnectionManager {
   private static get sessions(): Map<string, SSHSession> {
     if (!globalForSessions.sshSessions) {
@@ -70,12 +243,14 @@ class SSHConnectionManager {
   }
   
   private static cleanupInterval: NodeJS.Timeout | null = null
+  private static metricsInterval: NodeJS.Timeout | null = null
   private static initialized = false
 
   static {
     if (!this.initialized) {
       // Start cleanup interval
       this.startCleanup()
+      this.startMetricsFlush()
       this.initialized = true
     }
   }
@@ -83,19 +258,41 @@ class SSHConnectionManager {
   static async createSession(
     connectionId: string,
     userId: string,
-    config: SSHConnectionConfig
+    config: SSHConnectionConfig,
+    clientInfo: SessionClientInfo = {}
   ): Promise<string> {
     const sessionToken = randomBytes(32).toString('hex')
 
     const client = new Client()
+    const readyTimeout = (config.connection_timeout || 30) * 1000
+    const policy = config.session_policy ?? DEFAULT_SESSION_POLICY
+
+    // Tunnel through the bastion chain first when proxy_jump is configured
+    const jumpChain = config.jump_hosts?.length
+      ? await openJumpChain(
+          config.jump_hosts,
+          { host: config.host, port: config.port },
+          readyTimeout,
+          config.host_key_verifier
+        )
+      : null
+    const jumpClients = jumpChain?.clients ?? []
+    const endJumpClients = () => {
+      jumpClients
+        .slice()
+        .reverse()
+        .forEach((jumpClient) => jumpClient.end())
+    }
 
     return new Promise((resolve, reject) => {
       const connectConfig: ConnectConfig = {
         host: config.host,
         port: config.port,
         username: config.username,
-        readyTimeout: (config.connection_timeout || 30) * 1000,
-        keepaliveInterval: 30000,
+        sock: jumpChain?.sock,
+        hostVerifier: config.host_key_verifier?.forHost(config.host, config.port),
+        readyTimeout,
+        keepaliveInterval: policy.keepaliveIntervalSeconds * 1000,
         keepaliveCountMax: 3,
       }
 
@@ -124,13 +321,24 @@ class SSHConnectionManager {
               connectionId,
               userId,
               client,
+              jumpClients,
               sftp,
               isConnected: true,
               lastActivity: new Date(),
               config,
+              uploads: new Map(),
+              execAllowed: null,
+              idNames: null,
+              startedAt: new Date(),
+              policy,
+              metrics: { bytesUploaded: 0, bytesDownloaded: 0, commandsExecuted: 0 },
+              recordId: null,
+              metricsFlushedAt: null,
+              recordEnded: false,
             }
 
             this.sessions.set(sessionToken, session)
+            this.recordSessionStart(session, clientInfo)
             
             console.log('Session created successfully:', sessionToken)
             console.log('Total active sessions:', this.sessions.size)
@@ -139,6 +347,9 @@ class SSHConnectionManager {
             this.logActivity(sessionToken, 'session.started', {
               host: config.host,
               username: config.username,
+              jump_hosts: jumpClients.length
+                ? config.jump_hosts?.map((hop) => `${hop.username}@${hop.host}:${hop.port}`)
+                : undefined,
             })
 
             resolve(sessionToken)
@@ -150,14 +361,21 @@ class SSHConnectionManager {
       })
 
       client.on('error', (err) => {
-        reject(new Error(`SSH connection failed: ${err.message}`))
+        endJumpClients()
+        reject(config.host_key_verifier?.error ?? new Error(`SSH connection failed: ${err.message}`))
       })
 
       client.on('close', () => {
+        endJumpClients()
+        // Sessions closed on purpose are already gone from the map
+        const session = this.sessions.get(sessionToken)
+        if (session) {
+          this.logActivity(sessionToken, 'session.ended', {
+            termination_reason: 'Connection closed',
+          })
+          this.recordSessionEnd(session, 'Connection closed')
+        }
         this.sessions.delete(sessionToken)
-        this.logActivity(sessionToken, 'session.ended', {
-          termination_reason: 'Connection closed',
-        })
       })
 
       client.connect(connectConfig)
@@ -168,36 +386,138 @@ class SSHConnectionManager {
     const session = this.getSession(sessionToken)
     if (!session.sftp) throw new Error('SFTP not available')
 
-    return new Promise((resolve, reject) => {
+    const list = await new Promise<FileEntryWithStats[]>((resolve, reject) => {
       session.sftp!.readdir(path, (err, list) => {
         if (err) {
           reject(new Error(`Failed to list directory: ${err.message}`))
           return
         }
+        resolve(list)
+      })
+    })
 
-        const files: FileInfo[] = list.map((item) => ({
-          name: item.filename,
-          path: path.endsWith('/') ? path + item.filename : path + '/' + item.filename,
-          type: this.getFileType(item.attrs.mode),
-          size: item.attrs.size,
-          mode: item.attrs.mode,
-          mtime: new Date(item.attrs.mtime * 1000),
-          permissions: this.formatPermissions(item.attrs.mode),
-          owner: item.attrs.uid?.toString() || 'unknown',
-          group: item.attrs.gid?.toString() || 'unknown',
-        }))
+    const idNames = await this.getIdNames(session)
 
-        session.lastActivity = new Date()
-        this.logActivity(sessionToken, 'directory.list', { path, fileCount: files.length })
-
-        resolve(
-          files.sort((a, b) => {
-            // Directories first, then files, both alphabetically
-            if (a.type === 'directory' && b.type !== 'directory') return -1
-            if (a.type !== 'directory' && b.type === 'directory') return 1
-            return a.name.localeCompare(b.name)
+    const files: FileInfo[] = list.map((item) => {
+      // The server's own `ls -l` style line already has names, including LDAP users
+      const [, , longOwner, longGroup] = LONGNAME_PATTERN.test(item.longname)
+        ? item.longname.split(/\s+/)
+        : []
+      if (longOwner && !/^\d+$/.test(longOwner)) idNames.users.set(item.attrs.uid, longOwner)
+      if (longGroup && !/^\d+$/.test(longGroup)) idNames.groups.set(item.attrs.gid, longGroup)
+
+      return {
+        name: item.filename,
+        path: path.endsWith('/') ? path + item.filename : path + '/' + item.filename,
+        type: this.getFileType(item.attrs.mode),
+        size: item.attrs.size,
+        mode: item.attrs.mode,
+        mtime: new Date(item.attrs.mtime * 1000),
+        permissions: this.formatPermissions(item.attrs.mode),
+        owner: idNames.users.get(item.attrs.uid) ?? item.attrs.uid?.toString() ?? 'unknown',
+        group: idNames.groups.get(item.attrs.gid) ?? item.attrs.gid?.toString() ?? 'unknown',
+        uid: item.attrs.uid,
+        gid: item.attrs.gid,
+      }
+    })
+
+    // readdir reports lstat attributes, so resolve links separately
+    await Promise.all(
+      files
+        .filter((file) => file.type === 'symlink')
+        .map(async (file) => Object.assign(file, await this.resolveSymlink(session, file.path)))
+    )
+
+    session.lastActivity = new Date()
+    this.logActivity(sessionToken, 'directory.list', { path, fileCount: files.length })
+
+    return files.sort((a, b) => {
+      // Directories first, then files, both alphabetically
+      if (a.type === 'directory' && b.type !== 'directory') return -1
+      if (a.type !== 'directory' && b.type === 'directory') return 1
+      return a.name.localeCompare(b.name)
+    })
+  }
+
+  /**
+   * Reads /etc/passwd and /etc/group once per session. Unreadable files just
+   * leave the maps empty; listFiles also fills them from readdir longnames.
+   */
+  private static getIdNames(session: SSHSession): Promise<IdNameMaps> {
+    if (!session.idNames) {
+      const sftp = session.sftp!
+      const parse = (file: string) =>
+        new Promise<Map<number, string>>((resolve) => {
+          sftp.readFile(file, (err, data) => {
+            const names = new Map<number, string>()
+            if (!err) {
+              for (const line of data.toString('utf8').split('\n')) {
+                const [name, , id] = line.split(':')
+                if (name && id && /^\d+$/.test(id) && !names.has(Number(id))) {
+                  names.set(Number(id), name)
+                }
+              }
+            }
+            resolve(names)
           })
-        )
+        })
+
+      session.idNames = Promise.all([parse('/etc/passwd'), parse('/etc/group')]).then(
+        ([users, groups]) => ({ users, groups })
+      )
+    }
+    return session.idNames
+  }
+
+  // A link is broken when its target cannot be stat'ed (missing, or a loop)
+  private static async resolveSymlink(
+    session: SSHSession,
+    path: string
+  ): Promise<Pick<FileInfo, 'linkTarget' | 'linkResolvedPath' | 'linkTargetType' | 'isBrokenLink'>> {
+    const sftp = session.sftp!
+
+    const [linkTarget, linkResolvedPath, targetStats] = await Promise.all([
+      new Promise<string | undefined>((resolve) => {
+        sftp.readlink(path, (err, target) => resolve(err ? undefined : target))
+      }),
+      new Promise<string | undefined>((resolve) => {
+        sftp.realpath(path, (err, resolved) => resolve(err ? undefined : resolved))
+      }),
+      new Promise<Stats | null>((resolve) => {
+        sftp.stat(path, (err, stats) => resolve(err ? null : stats))
+      }),
+    ])
+
+    return {
+      linkTarget,
+      linkResolvedPath,
+      linkTargetType: targetStats ? this.getFileType(targetStats.mode) : undefined,
+      isBrokenLink: !targetStats,
+    }
+  }
+
+  static async createSymlink(
+    sessionToken: string,
+    targetPath: string,
+    linkPath: string
+  ): Promise<void> {
+    const session = this.getSession(sessionToken)
+    if (!session.sftp) throw new Error('SFTP not available')
+
+    return new Promise((resolve, reject) => {
+      session.sftp!.symlink(targetPath, linkPath, (err) => {
+        if (err) {
+          reject(new Error(`Failed to create symlink: ${err.message}`))
+          return
+        }
+
+        session.lastActivity = new Date()
+        this.logActivity(sessionToken, 'file.write', {
+          path: linkPath,
+          target: targetPath,
+          operation: 'symlink',
+        })
+        resolve()
       })
     })
   }
@@ -214,6 +534,7 @@ class SSHConnectionManager {
         }
 
         session.lastActivity = new Date()
+        session.metrics.bytesDownloaded += Buffer.byteLength(data, 'utf8')
         this.logActivity(sessionToken, 'file.read', {
           path,
           bytes_affected: Buffer.byteLength(data, 'utf8'),
@@ -236,6 +557,7 @@ class SSHConnectionManager {
         }
 
         session.lastActivity = new Date()
+        session.metrics.bytesUploaded += Buffer.byteLength(content, 'utf8')
         this.logActivity(sessionToken, 'file.write', {
           path,
           bytes_affected: Buffer.byteLength(content, 'utf8'),
@@ -258,6 +580,7 @@ class SSHConnectionManager {
         }
 
         session.lastActivity = new Date()
+        session.metrics.bytesDownloaded += data.length
         this.logActivity(sessionToken, 'file.read', {
           path,
           bytes_affected: data.length,
@@ -281,6 +604,7 @@ class SSHConnectionManager {
 
       stream.on('close', () => {
         session.lastActivity = new Date()
+        session.metrics.bytesUploaded += buffer.length
         this.logActivity(sessionToken, 'file.write', {
           path,
           bytes_affected: buffer.length,
@@ -292,47 +616,357 @@ class SSHConnectionManager {
     })
   }
 
-  static async deleteFile(sessionToken: string, path: string): Promise<void> {
+  /**
+   * Starts or resumes a chunked upload. The id is derived from the destination
+   * and the client's file fingerprint, so re-initialising after a dropped
+   * connection finds the same temp file and continues from its current size.
+   */
+  static async initUpload(
+    sessionToken: string,
+    targetPath: string,
+    size: number,
+    fingerprint: string
+  ): Promise<{ uploadId: string; offset: number; size: number }> {
     const session = this.getSession(sessionToken)
     if (!session.sftp) throw new Error('SFTP not available')
+    const sftp = session.sftp
 
-    return new Promise((resolve, reject) => {
-      // First check if it's a directory or file
-      session.sftp!.stat(path, (err, stats) => {
+    const uploadId = createHash('sha256')
+      .update(`${targetPath}:${size}:${fingerprint}`)
+      .digest('hex')
+      .slice(0, 24)
+    const slash = targetPath.lastIndexOf('/')
+    const tempPath = `${targetPath.slice(0, slash + 1)}.${targetPath.slice(slash + 1)}.${uploadId}.part`
+
+    const existingSize = await new Promise<number | null>((resolve) => {
+      sftp.stat(tempPath, (err, stats) => resolve(err ? null : stats.size))
+    })
+
+    let offset = 0
+    if (existingSize !== null && existingSize <= size) {
+      offset = existingSize
+    } else {
+      await new Promise<void>((resolve, reject) => {
+        sftp.open(tempPath, 'w', (err, handle) => {
+          if (err) {
+            reject(new Error(`Failed to start upload: ${err.message}`))
+            return
+          }
+          sftp.close(handle, () => resolve())
+        })
+      })
+    }
+
+    session.uploads.set(uploadId, {
+      targetPath,
+      tempPath,
+      size,
+      offset,
+      writing: Promise.resolve(),
+    })
+    session.lastActivity = new Date()
+
+    return { uploadId, offset, size }
+  }
+
+  static getUploadStatus(
+    sessionToken: string,
+    uploadId: string
+  ): { uploadId: string; offset: number; size: number } {
+    const upload = this.getUpload(sessionToken, uploadId)
+    return { uploadId, offset: upload.offset, size: upload.size }
+  }
+
+  /**
+   * Writes one chunk at `offset` with a positional SFTP write. Chunks must
+   * arrive in order; a mismatch means the client missed an acknowledgement and
+   * should continue from the offset carried by the error.
+   */
+  static async writeUploadChunk(
+    sessionToken: string,
+    uploadId: string,
+    offset: number,
+    data: Buffer
+  ): Promise<number> {
+    const session = this.getSession(sessionToken)
+    if (!session.sftp) throw new Error('SFTP not available')
+    const upload = this.getUpload(sessionToken, uploadId)
+
+    // Chunks for one upload run one at a time; a chunk that raced another then
+    // fails the offset check instead of interleaving its write
+    const write = upload.writing.then(() => this.writeChunkAt(session, upload, offset, data))
+    upload.writing = write.catch(() => undefined)
+    return write
+  }
+
+  private static async writeChunkAt(
+    session: SSHSession,
+    upload: PendingUpload,
+    offset: number,
+    data: Buffer
+  ): Promise<number> {
+    const sftp = session.sftp!
+
+    if (offset !== upload.offset) {
+      throw new UploadOffsetError(upload.offset)
+    }
+    if (offset + data.length > upload.size) {
+      throw new Error('Failed to write chunk: chunk exceeds the declared file size')
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      sftp.open(upload.tempPath, 'r+', (err, handle) => {
         if (err) {
-          reject(new Error(`Failed to stat file: ${err.message}`))
+          reject(new Error(`Failed to write chunk: ${err.message}`))
           return
         }
 
-        const isDirectory = (stats.mode & 0o170000) === 0o040000
-
-        if (isDirectory) {
-          session.sftp!.rmdir(path, (err) => {
-            if (err) {
-              reject(new Error(`Failed to remove directory: ${err.message}`))
+        sftp.write(handle, data, 0, data.length, offset, (writeErr) => {
+          sftp.close(handle, () => {
+            if (writeErr) {
+              reject(new Error(`Failed to write chunk: ${writeErr.message}`))
               return
             }
-
-            session.lastActivity = new Date()
-            this.logActivity(sessionToken, 'directory.delete', { path })
             resolve()
           })
-        } else {
-          session.sftp!.unlink(path, (err) => {
-            if (err) {
-              reject(new Error(`Failed to delete file: ${err.message}`))
-              return
-            }
+        })
+      })
+    })
 
-            session.lastActivity = new Date()
-            this.logActivity(sessionToken, 'file.delete', { path })
+    upload.offset = offset + data.length
+    session.lastActivity = new Date()
+    session.metrics.bytesUploaded += data.length
+
+    return upload.offset
+  }
+
+  // Moves the completed temp file over the destination in a single rename
+  static async finalizeUpload(sessionToken: string, uploadId: string): Promise<string> {
+    const session = this.getSession(sessionToken)
+    if (!session.sftp) throw new Error('SFTP not available')
+    const upload = this.getUpload(sessionToken, uploadId)
+
+    if (upload.offset !== upload.size) {
+      throw new UploadOffsetError(upload.offset)
+    }
+
+    await this.replacePath(session.sftp, upload.tempPath, upload.targetPath).catch((err) => {
+      throw new Error(`Failed to finalize upload: ${err.message}`)
+    })
+
+    session.uploads.delete(uploadId)
+    session.lastActivity = new Date()
+    this.logActivity(sessionToken, 'file.write', {
+      path: upload.targetPath,
+      bytes_affected: upload.size,
+      operation: 'upload',
+    })
+
+    return upload.targetPath
+  }
+
+  static async abortUpload(sessionToken: string, uploadId: string): Promise<void> {
+    const session = this.getSession(sessionToken)
+    if (!session.sftp) throw new Error('SFTP not available')
+    const upload = this.getUpload(sessionToken, uploadId)
+
+    session.uploads.delete(uploadId)
+    await new Promise<void>((resolve) => {
+      session.sftp!.unlink(upload.tempPath, () => resolve())
+    })
+  }
+
+  private static getUpload(sessionToken: string, uploadId: string): PendingUpload {
+    const upload = this.getSession(sessionToken).uploads.get(uploadId)
+    if (!upload) throw new Error('Upload not found')
+    return upload
+  }
+
+  /**
+   * Renames `from` onto `to`, replacing it atomically. Plain SFTP rename
+   * refuses to overwrite, so prefer the posix-rename extension and fall back
+   * to unlink + rename on servers without it.
+   */
+  private static replacePath(sftp: SFTPWrapper, from: string, to: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const fallback = () => {
+        sftp.rename(from, to, (err) => {
+          if (!err) {
             resolve()
+            return
+          }
+          sftp.unlink(to, () => {
+            sftp.rename(from, to, (retryErr) => (retryErr ? reject(retryErr) : resolve()))
           })
+        })
+      }
+
+      try {
+        sftp.ext_openssh_rename(from, to, (err) => (err ? fallback() : resolve()))
+      } catch {
+        // Thrown synchronously when the server does not advertise the extension
+        fallback()
+      }
+    })
+  }
+
+  /**
+   * Deletes a file, symlink or directory. Non-empty directories need
+   * `recursive`, which walks the tree over SFTP so every removal and failure
+   * is counted. System roots and the home directory also need `confirmDangerous`.
+   */
+  static async deleteFile(
+    sessionToken: string,
+    path: string,
+    options: { recursive?: boolean; confirmDangerous?: boolean } = {}
+  ): Promise<DeleteResult> {
+    const session = this.getSession(sessionToken)
+    if (!session.sftp) throw new Error('SFTP not available')
+    const sftp = session.sftp
+
+    // lstat so a symlink to a directory removes the link, not the target's contents
+    const stats = await new Promise<Stats>((resolve, reject) => {
+      sftp.lstat(path, (err, stats) => {
+        if (err) {
+          reject(new Error(`Failed to stat file: ${err.message}`))
+          return
+        }
+        resolve(stats)
+      })
+    })
+
+    if (this.getFileType(stats.mode) !== 'directory') {
+      await new Promise<void>((resolve, reject) => {
+        sftp.unlink(path, (err) => {
+          if (err) {
+            reject(new Error(`Failed to delete file: ${err.message}`))
+            return
+          }
+          resolve()
+        })
+      })
+
+      session.lastActivity = new Date()
+      this.logActivity(sessionToken, 'file.delete', { path })
+      return { deletedFiles: 1, deletedDirectories: 0, failures: [] }
+    }
+
+    if (!options.recursive) {
+      await new Promise<void>((resolve, reject) => {
+        sftp.rmdir(path, (err) => {
+          if (err) {
+            reject(new Error(`Failed to remove directory: ${err.message}`))
+            return
+          }
+          resolve()
+        })
+      })
+
+      session.lastActivity = new Date()
+      this.logActivity(sessionToken, 'directory.delete', { path })
+      return { deletedFiles: 0, deletedDirectories: 1, failures: [] }
+    }
+
+    if (!options.confirmDangerous && (await this.isProtectedPath(sftp, path))) {
+      throw new ProtectedPathError(path)
+    }
+
+    const result: DeleteResult = { deletedFiles: 0, deletedDirectories: 0, failures: [] }
+    await this.removeTree(session, path, result)
+
+    session.lastActivity = new Date()
+    this.logActivity(sessionToken, 'directory.delete', {
+      path,
+      recursive: true,
+      files_deleted: result.deletedFiles,
+      directories_deleted: result.deletedDirectories,
+      failed: result.failures.length,
+    })
+
+    return result
+  }
+
+  // Depth-first removal; a directory is only removed once all of its entries are gone
+  private static async removeTree(
+    session: SSHSession,
+    dir: string,
+    result: DeleteResult
+  ): Promise<boolean> {
+    const sftp = session.sftp!
+
+    let entries: FileEntryWithStats[]
+    try {
+      entries = await new Promise<FileEntryWithStats[]>((resolve, reject) => {
+        sftp.readdir(dir, (err, list) => (err ? reject(err) : resolve(list)))
+      })
+    } catch (err) {
+      result.failures.push({ path: dir, error: (err as Error).message })
+      return false
+    }
+
+    let complete = true
+    const files = entries.filter((entry) => this.getFileType(entry.attrs.mode) !== 'directory')
+    const directories = entries.filter(
+      (entry) => this.getFileType(entry.attrs.mode) === 'directory'
+    )
+
+    // Unlink in small batches to keep a few SFTP requests in flight without flooding the channel
+    for (let i = 0; i < files.length; i += REMOVE_BATCH_SIZE) {
+      await Promise.all(
+        files.slice(i, i + REMOVE_BATCH_SIZE).map(
+          (entry) =>
+            new Promise<void>((resolve) => {
+              const entryPath = joinRemotePath(dir, entry.filename)
+              sftp.unlink(entryPath, (err) => {
+                if (err) {
+                  complete = false
+                  result.failures.push({ path: entryPath, error: err.message })
+                } else {
+                  result.deletedFiles++
+                }
+                resolve()
+              })
+            })
+        )
+      )
+      session.lastActivity = new Date()
+    }
+
+    for (const entry of directories) {
+      const removed = await this.removeTree(session, joinRemotePath(dir, entry.filename), result)
+      complete = complete && removed
+    }
+
+    if (!complete) return false
+
+    return new Promise((resolve) => {
+      sftp.rmdir(dir, (err) => {
+        if (err) {
+          result.failures.push({ path: dir, error: err.message })
+          resolve(false)
+          return
         }
+        result.deletedDirectories++
+        resolve(true)
       })
     })
   }
 
+  // Checks the path as given and as the server resolves it, so `.`, `..` and
+  // symlinks such as `link/` pointing at `/` cannot slip past the list
+  private static async isProtectedPath(sftp: SFTPWrapper, path: string): Promise<boolean> {
+    const normalize = (value: string) => posix.normalize(value).replace(/(.)\/+$/, '$1')
+    const realpath = (value: string) =>
+      new Promise<string | null>((resolve) => {
+        sftp.realpath(value, (err, absPath) => resolve(err ? null : normalize(absPath)))
+      })
+
+    const [resolved, home] = await Promise.all([realpath(path), realpath('.')])
+    const candidates = [normalize(path), resolved].filter((value): value is string => !!value)
+
+    return candidates.some((value) => PROTECTED_PATHS.includes(value) || value === home)
+  }
+
   static async createDirectory(sessionToken: string, path: string): Promise<void> {
     const session = this.getSession(sessionToken)
     if (!session.sftp) throw new Error('SFTP not available')
@@ -373,26 +1007,56 @@ class SSHConnectionManager {
   }
 
   static async closeSession(sessionToken: string): Promise<void> {
+    await this.endSession(sessionToken, 'disconnected', 'Manual disconnect')
+  }
+
+  /**
+   * Ends someone else's session, e.g. from the organization session monitor.
+   * Returns false when the session was not live in this process; its row is
+   * still marked terminated so it stops showing as active.
+   */
+  static async terminateSession(
+    sessionToken: string,
+    reason: string,
+    terminatedBy: string
+  ): Promise<boolean> {
+    return this.endSession(sessionToken, 'terminated', reason, { terminated_by: terminatedBy })
+  }
+
+  private static async endSession(
+    sessionToken: string,
+    status: SessionEndStatus,
+    reason: string,
+    details: Record<string, unknown> = {}
+  ): Promise<boolean> {
     const session = this.sessions.get(sessionToken)
     if (session) {
-      session.client.end()
+      this.logActivity(sessionToken, 'session.ended', {
+        termination_reason: reason,
+        ...details,
+      })
       this.sessions.delete(sessionToken)
+      await this.recordSessionEnd(session, reason, status)
+      session.client.end()
+      return true
     }
-    
-    // Also mark as disconnected in database
+
+    // Not in memory (e.g. after a restart), but the row may still say active
     try {
-      const supabase = await createClient()
+      const supabase = await this.getDatabaseClient()
       await supabase
         .from('connection_sessions')
-        .update({ 
-          status: 'disconnected',
+        .update({
+          status,
           ended_at: new Date().toISOString(),
-          termination_reason: 'Manual disconnect'
+          termination_reason: reason,
         })
         .eq('session_token', sessionToken)
+        .in('status', ['active', 'idle'])
     } catch (error) {
       console.error('Error updating session status in database:', error)
     }
+    return false
   }
 
   private static getSession(sessionToken: string): SSHSession {
@@ -406,7 +1070,11 @@ class SSHConnectionManager {
     return session
   }
   
-  static async validateSession(sessionToken: string): Promise<boolean> {
+  // Pass `touch: false` for polling reads that should not reset the idle timer
+  static async validateSession(
+    sessionToken: string,
+    options: { touch?: boolean } = {}
+  ): Promise<boolean> {
     if (!sessionToken) {
       return false
     }
@@ -415,7 +1083,7 @@ class SSHConnectionManager {
     const memorySession = this.sessions.get(sessionToken)
     if (memorySession && memorySession.isConnected) {
       // Update last activity for in-memory session
-      memorySession.lastActivity = new Date()
+      if (options.touch !== false) memorySession.lastActivity = new Date()
       return true
     }
     
@@ -435,10 +1103,17 @@ class SSHConnectionManager {
     const group = (perms >> 3) & 7
     const other = perms & 7
 
-    const formatOctet = (octet: number) =>
-      (octet & 4 ? 'r' : '-') + (octet & 2 ? 'w' : '-') + (octet & 1 ? 'x' : '-')
+    // Special bits replace the execute column the way `ls -l` shows them
+    const formatOctet = (octet: number, special: boolean, setChar: string) =>
+      (octet & 4 ? 'r' : '-') +
+      (octet & 2 ? 'w' : '-') +
+      (special ? (octet & 1 ? setChar : setChar.toUpperCase()) : octet & 1 ? 'x' : '-')
 
-    return formatOctet(owner) + formatOctet(group) + formatOctet(other)
+    return (
+      formatOctet(owner, (mode & 0o4000) !== 0, 's') +
+      formatOctet(group, (mode & 0o2000) !== 0, 's') +
+      formatOctet(other, (mode & 0o1000) !== 0, 't')
+    )
   }
 
   private static async logActivity(
@@ -450,9 +1125,10 @@ class SSHConnectionManager {
       const session = this.sessions.get(sessionToken)
       if (!session) return
 
-      const supabase = await createClient()
+      const supabase = await this.getDatabaseClient()
       await supabase.from('connection_activity_logs').insert({
         connection_id: session.connectionId,
+        session_id: session.recordId,
         user_id: session.userId,
         activity_type: activityType,
         details,
@@ -463,52 +1139,156 @@ class SSHConnectionManager {
     }
   }
 
+  // Terminal sockets and timers run outside a request, where the cookie-based
+  // client is unavailable, so fall back to the service-role client there.
+  private static async getDatabaseClient() {
+    try {
+      return await createClient()
+    } catch {
+      return createServiceClient()
+    }
+  }
+
+  // Ends sessions that went idle or outlived their policy's maximum duration
   private static startCleanup(): void {
     if (this.cleanupInterval) return
 
-    this.cleanupInterval = setInterval(
-      () => {
-        const now = new Date()
-        const timeout = 30 * 60 * 1000 // 30 minutes
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now()
 
-        for (const [token, session] of this.sessions.entries()) {
-          if (now.getTime() - session.lastActivity.getTime() > timeout) {
-            console.log(`Cleaning up expired session: ${token}`)
-            session.client.end()
-            this.sessions.delete(token)
-          }
+      for (const [token, session] of this.sessions.entries()) {
+        const expiry = this.getSessionExpiry(session)
+        if (new Date(expiry.expiresAt).getTime() <= now) {
+          console.log(`Ending session ${session.id.slice(0, 8)}: ${expiry.reason}`)
+          this.endSession(token, 'disconnected', expiry.reason)
         }
-      },
-      5 * 60 * 1000
-    ) // Check every 5 minutes
+      }
+    }, SESSION_SWEEP_INTERVAL)
   }
 
-  static async executeCommand(
-    sessionToken: string,
-    command: string
-  ): Promise<{
-    stdout: string
-    stderr: string
-    code: number
-  }> {
-    const session = this.getSession(sessionToken)
+  // Whichever limit the session reaches first
+  private static getSessionExpiry(session: SSHSession): SessionExpiry {
+    const idleExpiresAt =
+      session.lastActivity.getTime() + session.policy.idleTimeoutMinutes * 60 * 1000
+    const maxDuration = session.policy.maxDurationMinutes
+    const maxExpiresAt =
+      maxDuration === null ? Infinity : session.startedAt.getTime() + maxDuration * 60 * 1000
+
+    return maxExpiresAt <= idleExpiresAt
+      ? { reason: 'max_lifetime', expiresAt: new Date(maxExpiresAt).toISOString() }
+      : { reason: 'idle_timeout', expiresAt: new Date(idleExpiresAt).toISOString() }
+  }
 
-    return new Promise((resolve, reject) => {
-      session.client.exec(command, (err, stream) => {
-        if (err) {
-          reject(new Error(`Failed to execute command: ${err.message}`))
-          return
+  // Keeps connection_sessions counters and last_activity_at current for live sessions
+  private static startMetricsFlush(): void {
+    if (this.metricsInterval) return
+
+    this.metricsInterval = setInterval(() => {
+      for (const session of this.sessions.values()) {
+        if (!session.metricsFlushedAt || session.lastActivity > session.metricsFlushedAt) {
+          this.flushSessionMetrics(session)
         }
+      }
+    }, METRICS_FLUSH_INTERVAL)
+  }
 
-        let stdout = ''
-        let stderr = ''
+  private static async recordSessionStart(
+    session: SSHSession,
+    clientInfo: SessionClientInfo
+  ): Promise<void> {
+    try {
+      const supabase = await this.getDatabaseClient()
+      const { data, error } = await supabase
+        .from('connection_sessions')
+        .insert({
+          connection_id: session.connectionId,
+          user_id: session.userId,
+          session_token: session.id,
+          client_ip: clientInfo.ip || null,
+          user_agent: clientInfo.userAgent || null,
+          status: 'active',
+          started_at: session.startedAt.toISOString(),
+          last_activity_at: session.lastActivity.toISOString(),
+        })
+        .select('id')
+        .single()
 
-        stream.on('close', (code: number) => {
-          session.lastActivity = new Date()
-          this.logActivity(sessionToken, 'command.execute', {
-            command,
-            exitCode: code,
-            stdout: stdout.substring(0, 1000), // Limit log size
+      if (error) throw error
+      session.recordId = data.id
+      session.metricsFlushedAt = new Date()
+    } catch (error) {
+      console.error('Failed to record session start:', error)
+    }
+  }
+
+  private static async flushSessionMetrics(
+    session: SSHSession,
+    end?: { reason: string; status: SessionEndStatus }
+  ): Promise<void> {
+    const flushedAt = new Date()
+    try {
+      const supabase = await this.getDatabaseClient()
+      await supabase
+        .from('connection_sessions')
+        .update({
+          bytes_uploaded: session.metrics.bytesUploaded,
+          bytes_downloaded: session.metrics.bytesDownloaded,
+          commands_executed: session.metrics.commandsExecuted,
+          last_activity_at: session.lastActivity.toISOString(),
+          ...(end && {
+            status: end.status,
+            ended_at: flushedAt.toISOString(),
+            termination_reason: end.reason,
+          }),
+        })
+        .eq('session_token', session.id)
+      session.metricsFlushedAt = flushedAt
+    } catch (error) {
+      console.error('Failed to flush session metrics:', error)
+    }
+  }
+
+  // Final flush; the close event may follow an explicit close, so only the first call writes
+  private static async recordSessionEnd(
+    session: SSHSession,
+    reason: string,
+    status: SessionEndStatus = 'disconnected'
+  ): Promise<void> {
+    if (session.recordEnded) return
+    session.recordEnded = true
+    await this.flushSessionMetrics(session, { reason, status })
+  }
+
+  // `details` are added to the command.execute log entry, e.g. which snippet ran
+  static async executeCommand(
+    sessionToken: string,
+    command: ShellCommand,
+    details?: Record<string, unknown>
+  ): Promise<{
+    stdout: string
+    stderr: string
+    code: number
+  }> {
+    const session = this.getSession(sessionToken)
+
+    return new Promise((resolve, reject) => {
+      session.client.exec(command.toString(), (err, stream) => {
+        if (err) {
+          reject(new Error(`Failed to execute command: ${err.message}`))
+          return
+        }
+
+        let stdout = ''
+        let stderr = ''
+
+        stream.on('close', (code: number) => {
+          session.lastActivity = new Date()
+          session.metrics.commandsExecuted++
+          this.logActivity(sessionToken, 'command.execute', {
+            ...details,
+            command: command.toString(),
+            exitCode: code,
+            stdout: stdout.substring(0, 1000), // Limit log size
             stderr: stderr.substring(0, 1000),
           })
 
@@ -526,162 +1306,776 @@ class SSHConnectionManager {
     })
   }
 
-  static async downloadFile(
+  static async openShell(
     sessionToken: string,
-    path: string
-  ): Promise<{
-    buffer: Buffer
+    window: { cols: number; rows: number }
+  ): Promise<ClientChannel> {
+    const session = this.getSession(sessionToken)
+
+    return new Promise((resolve, reject) => {
+      session.client.shell(
+        { term: 'xterm-256color', cols: window.cols, rows: window.rows },
+        (err, channel) => {
+          if (err) {
+            reject(new Error(`Failed to open shell: ${err.message}`))
+            return
+          }
+
+          const openedAt = Date.now()
+          session.lastActivity = new Date()
+          this.logActivity(sessionToken, 'terminal.opened', {
+            cols: window.cols,
+            rows: window.rows,
+          })
+
+          // An interactive shell counts as activity, so idle cleanup leaves it alone
+          channel.on('data', () => {
+            session.lastActivity = new Date()
+          })
+
+          channel.on('close', () => {
+            this.logActivity(sessionToken, 'terminal.closed', {
+              duration_ms: Date.now() - openedAt,
+            })
+          })
+
+          resolve(channel)
+        }
+      )
+    })
+  }
+
+  /**
+   * Opens a read stream over SFTP so large files never sit in memory. `range`
+   * is inclusive on both ends, matching HTTP Range semantics.
+   */
+  static createDownloadStream(
+    sessionToken: string,
+    path: string,
+    range?: { start: number; end: number }
+  ): {
+    stream: Readable
     filename: string
     mimeType: string | null
-  }> {
+  } {
     const session = this.getSession(sessionToken)
     if (!session.sftp) throw new Error('SFTP not available')
 
+    const stream = session.sftp.createReadStream(path, range ? { ...range } : {})
+    const filename = path.split('/').pop() || 'download'
+    const mimeType = this.getMimeType(filename)
+
+    let bytes = 0
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length
+        session.metrics.bytesDownloaded += chunk.length
+        session.lastActivity = new Date()
+        callback(null, chunk)
+      },
+    })
+
+    stream.on('error', (err: Error) => {
+      counter.destroy(new Error(`Failed to download file: ${err.message}`))
+    })
+    counter.on('close', () => stream.destroy())
+    counter.on('end', () => {
+      this.logActivity(sessionToken, 'file.read', {
+        path,
+        bytes_affected: bytes,
+        operation: 'download',
+        ...(range && { range: `${range.start}-${range.end}` }),
+      })
+    })
+
+    session.lastActivity = new Date()
+    return { stream: stream.pipe(counter), filename, mimeType }
+  }
+
+  /**
+   * Follows a growing file like `tail -F`: the last `lines` lines first, then
+   * whatever is appended. Runs `tail` over exec when the server allows it and
+   * otherwise polls over SFTP. Destroy the stream to stop following.
+   */
+  static async createTailStream(
+    sessionToken: string,
+    path: string,
+    lines: number
+  ): Promise<{ stream: Readable; mode: TailMode }> {
+    const session = this.getSession(sessionToken)
+    const sftp = session.sftp
+    if (!sftp) throw new Error('SFTP not available')
+
+    const stats = await new Promise<Stats>((resolve, reject) => {
+      sftp.stat(path, (err, stats) => {
+        if (err) reject(new Error(`Failed to tail file: ${err.message}`))
+        else resolve(stats)
+      })
+    })
+    if (this.getFileType(stats.mode) === 'directory') {
+      throw new Error('Cannot tail a directory')
+    }
+
+    let mode: TailMode = 'sftp'
+    if (session.execAllowed !== false) {
+      try {
+        const probe = await this.executeCommand(sessionToken, sh`command -v tail`)
+        if (probe.code === 0) mode = 'exec'
+      } catch {
+        session.execAllowed = false
+      }
+    }
+
+    const stream =
+      mode === 'exec'
+        ? await this.tailWithExec(session, path, lines)
+        : this.tailWithSftp(session, path, lines, stats.size)
+
+    const startedAt = Date.now()
+    let bytes = 0
+    stream.on('data', (chunk: Buffer) => {
+      bytes += chunk.length
+      session.metrics.bytesDownloaded += chunk.length
+      session.lastActivity = new Date()
+    })
+    stream.on('close', () => {
+      this.logActivity(sessionToken, 'file.read', {
+        path,
+        operation: 'tail',
+        mode,
+        bytes_affected: bytes,
+        duration_ms: Date.now() - startedAt,
+      })
+    })
+
+    session.lastActivity = new Date()
+    return { stream, mode }
+  }
+
+  private static tailWithExec(session: SSHSession, path: string, lines: number): Promise<Readable> {
     return new Promise((resolve, reject) => {
-      session.sftp!.readFile(path, (err, data) => {
+      session.client.exec(sh`tail -n ${lines} -F -- ${path}`.toString(), (err, channel) => {
         if (err) {
-          reject(new Error(`Failed to download file: ${err.message}`))
+          reject(new Error(`Failed to tail file: ${err.message}`))
           return
         }
 
-        const filename = path.split('/').pop() || 'download'
-        const mimeType = this.getMimeType(filename)
+        const output = new PassThrough()
+        let channelClosed = false
+        let stderr = ''
 
-        session.lastActivity = new Date()
-        this.logActivity(sessionToken, 'file.read', {
-          path,
-          bytes_affected: data.length,
-          operation: 'download',
+        channel.on('data', (chunk: Buffer) => output.write(chunk))
+        // tail -F also reports rotations here; only surfaced if it exits with an error
+        channel.stderr.on('data', (chunk: Buffer) => {
+          stderr = (stderr + chunk.toString()).slice(-1000)
+        })
+        channel.on('close', (code: number | null) => {
+          channelClosed = true
+          if (code) {
+            output.destroy(new Error(`Failed to tail file: ${stderr.trim() || `exit ${code}`}`))
+          } else {
+            output.end()
+          }
+        })
+
+        // Closing the channel alone leaves a quiet tail running until its next write
+        output.on('close', () => {
+          if (channelClosed) return
+          channel.signal('TERM')
+          channel.close()
         })
 
-        resolve({ buffer: data, filename, mimeType })
+        resolve(output)
       })
     })
   }
 
+  // SFTP has no inode numbers, so rotation is only noticed once the new file is smaller
+  private static tailWithSftp(
+    session: SSHSession,
+    path: string,
+    lines: number,
+    size: number
+  ): Readable {
+    const sftp = session.sftp as SFTPWrapper
+    const output = new PassThrough()
+    let offset = Math.max(0, size - TAIL_INITIAL_BYTES)
+    let initial = true
+    let timer: NodeJS.Timeout | null = null
+    let stopped = false
+
+    const stat = () =>
+      new Promise<Stats>((resolve, reject) => {
+        sftp.stat(path, (err, stats) => (err ? reject(err) : resolve(stats)))
+      })
+
+    const read = (start: number, length: number) =>
+      new Promise<Buffer>((resolve, reject) => {
+        sftp.open(path, 'r', (err, handle) => {
+          if (err) return reject(err)
+          const buffer = Buffer.alloc(length)
+          sftp.read(handle, buffer, 0, length, start, (readErr, bytesRead) => {
+            sftp.close(handle, () => {
+              if (readErr) reject(readErr)
+              else resolve(buffer.subarray(0, bytesRead))
+            })
+          })
+        })
+      })
+
+    // Last `lines` complete lines of the initial window; the first may be cut off
+    const lastLines = (chunk: Buffer, fromStart: boolean) => {
+      const text = chunk.toString('utf8')
+      const parts = text.split('\n')
+      if (!fromStart) parts.shift()
+      const trailingNewline = text.endsWith('\n')
+      if (trailingNewline) parts.pop()
+      const kept = lines > 0 ? parts.slice(-lines) : []
+      return kept.length ? kept.join('\n') + (trailingNewline ? '\n' : '') : ''
+    }
+
+    const poll = async () => {
+      try {
+        const stats = await stat()
+        if (stats.size < offset) {
+          // Truncated or replaced by a smaller file: start over from the top
+          offset = 0
+        }
+        if (stats.size > offset) {
+          const start = offset
+          const chunk = await read(start, Math.min(stats.size - start, TAIL_MAX_READ))
+          offset = start + chunk.length
+          const text = initial ? lastLines(chunk, start === 0) : chunk.toString('utf8')
+          if (text && !stopped) output.write(text)
+        }
+        initial = false
+      } catch {
+        // The file can be missing for a moment while it is rotated; keep polling
+      }
+      if (!stopped) timer = setTimeout(poll, TAIL_POLL_INTERVAL)
+    }
+
+    output.on('close', () => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+    })
+    poll()
+
+    return output
+  }
+
   static async downloadMultipleFiles(): Promise<Buffer> {
     // This would require a zip library like 'archiver'
     // For now, throw an error indicating it needs implementation
     throw new Error('Multiple file download requires zip implementation - install archiver package')
   }
 
-  static async changeFilePermissions(
+  /**
+   * Applies mode and/or ownership changes to a path, and to everything below
+   * it when `recursive` is set. Directories are updated before their contents
+   * so a fixed mode can make them readable; symlinks are skipped while
+   * recursing because SFTP would change their targets instead.
+   */
+  static async changeAttributes(
     sessionToken: string,
     path: string,
-    mode: number
-  ): Promise<void> {
+    changes: AttributeChanges,
+    onProgress?: (progress: AttributeChangeProgress) => void
+  ): Promise<AttributeChangeResult> {
     const session = this.getSession(sessionToken)
     if (!session.sftp) throw new Error('SFTP not available')
 
-    return new Promise((resolve, reject) => {
-      session.sftp!.chmod(path, mode, (err) => {
-        if (err) {
-          reject(new Error(`Failed to change permissions: ${err.message}`))
-          return
-        }
+    const stats = await new Promise<Stats>((resolve, reject) => {
+      session.sftp!.stat(path, (err, stats) => {
+        if (err) reject(new Error(`Failed to change permissions: ${err.message}`))
+        else resolve(stats)
+      })
+    })
 
-        session.lastActivity = new Date()
-        this.logActivity(sessionToken, 'file.chmod', {
-          path,
-          mode: mode.toString(8),
-        })
+    const result: AttributeChangeResult = { updated: 0, skippedLinks: 0, failures: [] }
+    const report = (entryPath: string) =>
+      onProgress?.({ updated: result.updated, failed: result.failures.length, path: entryPath })
 
-        resolve()
+    const rootError = await this.applyAttributes(session, path, stats, changes)
+    if (rootError) throw new Error(`Failed to change permissions: ${rootError}`)
+    result.updated++
+    report(path)
+
+    if (changes.recursive && stats.isDirectory()) {
+      await this.applyAttributesTree(session, path, changes, result, report)
+    }
+
+    session.lastActivity = new Date()
+    this.logActivity(sessionToken, 'file.chmod', {
+      path,
+      mode: changes.mode?.toString(8),
+      fileMode: changes.fileMode?.toString(8),
+      dirMode: changes.dirMode?.toString(8),
+      uid: changes.uid,
+      gid: changes.gid,
+      recursive: !!changes.recursive,
+      updated: result.updated,
+      failed: result.failures.length,
+    })
+
+    return result
+  }
+
+  private static async applyAttributesTree(
+    session: SSHSession,
+    dir: string,
+    changes: AttributeChanges,
+    result: AttributeChangeResult,
+    report: (path: string) => void
+  ): Promise<void> {
+    const sftp = session.sftp!
+
+    let entries: FileEntryWithStats[]
+    try {
+      entries = await new Promise<FileEntryWithStats[]>((resolve, reject) => {
+        sftp.readdir(dir, (err, list) => (err ? reject(err) : resolve(list)))
       })
+    } catch (err) {
+      result.failures.push({ path: dir, error: (err as Error).message })
+      report(dir)
+      return
+    }
+
+    const directories: string[] = []
+
+    for (let i = 0; i < entries.length; i += REMOVE_BATCH_SIZE) {
+      await Promise.all(
+        entries.slice(i, i + REMOVE_BATCH_SIZE).map(async (entry) => {
+          const entryPath = joinRemotePath(dir, entry.filename)
+          const type = this.getFileType(entry.attrs.mode)
+
+          if (type === 'symlink') {
+            result.skippedLinks++
+            return
+          }
+
+          const error = await this.applyAttributes(session, entryPath, entry.attrs, changes)
+          if (error) {
+            result.failures.push({ path: entryPath, error })
+          } else {
+            result.updated++
+            if (type === 'directory') directories.push(entryPath)
+          }
+          report(entryPath)
+        })
+      )
+      session.lastActivity = new Date()
+    }
+
+    for (const directory of directories) {
+      await this.applyAttributesTree(session, directory, changes, result, report)
+    }
+  }
+
+  // Resolves to an error message rather than rejecting so tree walks can keep going
+  private static applyAttributes(
+    session: SSHSession,
+    path: string,
+    stats: Stats,
+    changes: AttributeChanges
+  ): Promise<string | null> {
+    const isDirectory = this.getFileType(stats.mode) === 'directory'
+    const mode = (isDirectory ? changes.dirMode : changes.fileMode) ?? changes.mode
+    const attributes: { mode?: number; uid?: number; gid?: number } = {}
+
+    if (mode !== undefined) attributes.mode = mode
+    // SFTP only sets uid and gid together
+    if (changes.uid !== undefined || changes.gid !== undefined) {
+      attributes.uid = changes.uid ?? stats.uid
+      attributes.gid = changes.gid ?? stats.gid
+    }
+
+    return new Promise((resolve) => {
+      session.sftp!.setstat(path, attributes, (err) => resolve(err ? err.message : null))
     })
   }
 
-  static async getFileInfo(sessionToken: string, path: string): Promise<FileInfo> {
+  // Known users and groups for ownership pickers, sorted by name
+  static async getOwnershipOptions(sessionToken: string): Promise<OwnershipOptions> {
     const session = this.getSession(sessionToken)
     if (!session.sftp) throw new Error('SFTP not available')
 
-    return new Promise((resolve, reject) => {
+    const idNames = await this.getIdNames(session)
+    const toOptions = (names: Map<number, string>) =>
+      Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) =>
+        a.name.localeCompare(b.name)
+      )
+
+    session.lastActivity = new Date()
+    return { users: toOptions(idNames.users), groups: toOptions(idNames.groups) }
+  }
+
+  static async getFileInfo(
+    sessionToken: string,
+    path: string
+  ): Promise<FileInfo & { atime: Date }> {
+    const session = this.getSession(sessionToken)
+    if (!session.sftp) throw new Error('SFTP not available')
+
+    const stats = await new Promise<Stats>((resolve, reject) => {
       session.sftp!.stat(path, (err, stats) => {
         if (err) {
           reject(new Error(`Failed to get file info: ${err.message}`))
           return
         }
-
-        const fileInfo = {
-          size: stats.size,
-          mode: stats.mode,
-          mtime: new Date(stats.mtime * 1000),
-          atime: new Date(stats.atime * 1000),
-          uid: stats.uid,
-          gid: stats.gid,
-          type: this.getFileType(stats.mode),
-          permissions: this.formatPermissions(stats.mode),
-        }
-
-        session.lastActivity = new Date()
-        resolve(fileInfo)
+        resolve(stats)
       })
     })
+    const idNames = await this.getIdNames(session)
+
+    session.lastActivity = new Date()
+    return {
+      name: path.split('/').pop() || path,
+      path,
+      size: stats.size,
+      mode: stats.mode,
+      mtime: new Date(stats.mtime * 1000),
+      atime: new Date(stats.atime * 1000),
+      uid: stats.uid,
+      gid: stats.gid,
+      owner: idNames.users.get(stats.uid) ?? stats.uid.toString(),
+      group: idNames.groups.get(stats.gid) ?? stats.gid.toString(),
+      type: this.getFileType(stats.mode),
+      permissions: this.formatPermissions(stats.mode),
+    }
   }
 
+  /**
+   * Copies a file or directory tree, preserving modes and mtimes. Runs
+   * `cp -a` on the host when exec is allowed so bytes never leave the server,
+   * and falls back to streaming each entry over SFTP otherwise.
+   */
   static async copyFile(
     sessionToken: string,
     sourcePath: string,
     destinationPath: string,
     overwrite: boolean = false
-  ): Promise<void> {
+  ): Promise<CopyResult> {
     const session = this.getSession(sessionToken)
     if (!session.sftp) throw new Error('SFTP not available')
-
-    // Check if destination exists
-    if (!overwrite) {
-      try {
-        await this.getFileInfo(sessionToken, destinationPath)
-        throw new Error('Destination file already exists')
-      } catch (err: unknown) {
-        if (err instanceof Error && !err.message.includes('Failed to get file info')) {
-          throw err
-        }
-        // File doesn't exist, continue with copy
-      }
+    const sftp = session.sftp
+
+    // Copying a directory into itself would recurse until the disk fills
+    const normalizedSource = posix.normalize(sourcePath).replace(/(.)\/+$/, '$1')
+    const normalizedDestination = posix.normalize(destinationPath).replace(/(.)\/+$/, '$1')
+    if (
+      normalizedDestination === normalizedSource ||
+      normalizedDestination.startsWith(
+        normalizedSource === '/' ? '/' : `${normalizedSource}/`
+      )
+    ) {
+      throw new Error('Cannot copy a file or directory into itself')
     }
 
-    // Read source file
-    const sourceData = await new Promise<Buffer>((resolve, reject) => {
-      session.sftp!.readFile(sourcePath, (err, data) => {
+    const sourceStats = await new Promise<Stats>((resolve, reject) => {
+      sftp.lstat(sourcePath, (err, stats) => {
         if (err) reject(new Error(`Failed to read source file: ${err.message}`))
-        else resolve(data)
+        else resolve(stats)
       })
     })
-
-    // Write to destination
-    await new Promise<void>((resolve, reject) => {
-      session.sftp!.writeFile(destinationPath, sourceData, (err) => {
-        if (err) reject(new Error(`Failed to write destination file: ${err.message}`))
-        else resolve()
-      })
+    const destinationStats = await new Promise<Stats | null>((resolve) => {
+      sftp.lstat(destinationPath, (err, stats) => resolve(err ? null : stats))
     })
 
+    if (destinationStats && !overwrite) {
+      throw new Error('Destination file already exists')
+    }
+
+    // `cp -a src dst` nests into an existing directory instead of merging, so
+    // only hand it targets that do not exist yet or are plain files
+    const canUseExec =
+      session.execAllowed !== false &&
+      (!destinationStats || this.getFileType(destinationStats.mode) === 'file')
+
+    let result: CopyResult | null = null
+    if (canUseExec) {
+      result = await this.copyWithExec(sessionToken, sourcePath, destinationPath)
+    }
+    if (!result) {
+      result = { method: 'sftp', entries: [], bytesCopied: 0, failures: [] }
+      await this.copyTree(session, sourcePath, destinationPath, sourceStats, result)
+    }
+
     session.lastActivity = new Date()
     this.logActivity(sessionToken, 'file.copy', {
       sourcePath,
       destinationPath,
-      bytes_affected: sourceData.length,
+      method: result.method,
+      copied: result.entries.filter((entry) => entry.success).length,
+      failed: result.failures.length,
+      bytes_affected: result.bytesCopied,
     })
+
+    return result
   }
 
-  static async moveFile(
+  // Returns null when exec is unavailable so the caller can fall back to SFTP
+  private static async copyWithExec(
     sessionToken: string,
     sourcePath: string,
+    destinationPath: string
+  ): Promise<CopyResult | null> {
+    const session = this.getSession(sessionToken)
+
+    let output: { stdout: string; stderr: string; code: number }
+    try {
+      output = await this.executeCommand(
+        sessionToken,
+        sh`cp -av -- ${sourcePath} ${destinationPath}`
+      )
+    } catch {
+      session.execAllowed = false
+      return null
+    }
+
+    // 126/127: cp missing or not executable, e.g. a restricted shell
+    if (output.code === 126 || output.code === 127) {
+      session.execAllowed = false
+      return null
+    }
+    session.execAllowed = true
+
+    const unquote = (value: string) => value.replace(/^'(.*)'$/, '$1')
+    const entries: CopyEntryResult[] = output.stdout
+      .split('\n')
+      .map((line) => line.match(/^(.+?) -> (.+)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(([, from, to]) => ({
+        path: unquote(from),
+        destinationPath: unquote(to),
+        success: true,
+      }))
+
+    const failures: FileOperationFailure[] = output.stderr
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => ({
+        path: line.match(/'([^']+)'/)?.[1] ?? sourcePath,
+        error: line.replace(/^cp: /, ''),
+      }))
+
+    if (output.code !== 0 && failures.length === 0) {
+      failures.push({ path: sourcePath, error: `cp exited with code ${output.code}` })
+    }
+    entries.push(
+      ...failures.map((failure) => ({
+        path: failure.path,
+        destinationPath: failure.path.replace(sourcePath, destinationPath),
+        success: false,
+        error: failure.error,
+      }))
+    )
+
+    const bytesCopied = await this.getFileInfo(sessionToken, destinationPath)
+      .then((info) => (info.type === 'file' ? info.size : 0))
+      .catch(() => 0)
+
+    return { method: 'exec', entries, bytesCopied, failures }
+  }
+
+  private static async copyTree(
+    session: SSHSession,
+    sourcePath: string,
     destinationPath: string,
-    overwrite: boolean = false
+    stats: Stats,
+    result: CopyResult
   ): Promise<void> {
-    // First copy the file
-    await this.copyFile(sessionToken, sourcePath, destinationPath, overwrite)
+    const sftp = session.sftp!
+    const type = this.getFileType(stats.mode)
+    const record = (error?: Error) => {
+      result.entries.push({
+        path: sourcePath,
+        destinationPath,
+        type,
+        success: !error,
+        error: error?.message,
+      })
+      if (error) result.failures.push({ path: sourcePath, error: error.message })
+    }
+    const call = (fn: (cb: (err?: Error | null) => void) => void) =>
+      new Promise<void>((resolve, reject) => fn((err) => (err ? reject(err) : resolve())))
 
-    // Then delete the source
-    await this.deleteFile(sessionToken, sourcePath)
+    try {
+      if (type === 'symlink') {
+        const target = await new Promise<string>((resolve, reject) => {
+          sftp.readlink(sourcePath, (err, target) => (err ? reject(err) : resolve(target)))
+        })
+        await call((cb) => sftp.unlink(destinationPath, () => cb()))
+        await call((cb) => sftp.symlink(target, destinationPath, cb))
+        record()
+        return
+      }
+
+      if (type === 'directory') {
+        await call((cb) =>
+          sftp.mkdir(destinationPath, { mode: stats.mode & 0o7777 }, (err) => {
+            if (!err || (err as SFTPError).code !== SFTP_STATUS_FAILURE) return cb(err)
+            // An existing directory is fine when overwriting; entries are merged into it
+            sftp.lstat(destinationPath, (statErr, existing) =>
+              cb(!statErr && existing.isDirectory() ? null : err)
+            )
+          })
+        )
+        record()
+
+        const entries = await new Promise<FileEntryWithStats[]>((resolve, reject) => {
+          sftp.readdir(sourcePath, (err, list) => (err ? reject(err) : resolve(list)))
+        })
+        for (const entry of entries) {
+          await this.copyTree(
+            session,
+            joinRemotePath(sourcePath, entry.filename),
+            joinRemotePath(destinationPath, entry.filename),
+            entry.attrs,
+            result
+          )
+        }
+      } else {
+        await new Promise<void>((resolve, reject) => {
+          const reader = sftp.createReadStream(sourcePath)
+          const writer = sftp.createWriteStream(destinationPath, { mode: stats.mode & 0o7777 })
+          reader.on('error', reject)
+          writer.on('error', reject)
+          writer.on('close', () => resolve())
+          reader.pipe(writer)
+        })
+        result.bytesCopied += stats.size
+        record()
+      }
+
+      // Set after the contents are written, or writing children would bump the mtime
+      await call((cb) =>
+        sftp.setstat(
+          destinationPath,
+          { mode: stats.mode & 0o7777, atime: stats.atime, mtime: stats.mtime },
+          cb
+        )
+      )
+      session.lastActivity = new Date()
+    } catch (err) {
+      if (!result.entries.some((entry) => entry.path === sourcePath)) {
+        record(err as Error)
+      } else {
+        result.failures.push({ path: sourcePath, error: (err as Error).message })
+      }
+    }
+  }
+
+  /**
+   * Moves a file or directory with a single SFTP rename, which is atomic on
+   * the same filesystem. Overwrites go through posix-rename. Only a move
+   * across filesystems falls back to copying and then deleting the source,
+   * and the source is kept if any entry failed to copy.
+   */
+  static async moveFile(
+    sessionToken: string,
+    sourcePath: string,
+    destinationPath: string,
+    overwrite: boolean = false,
+    options: { confirmDangerous?: boolean } = {}
+  ): Promise<{ method: 'rename' | 'copy'; copy?: CopyResult }> {
+    const session = this.getSession(sessionToken)
+    if (!session.sftp) throw new Error('SFTP not available')
+    const sftp = session.sftp
+
+    const destinationExists = await new Promise<boolean>((resolve) => {
+      sftp.lstat(destinationPath, (err) => resolve(!err))
+    })
+    if (destinationExists && !overwrite) {
+      throw new Error('Destination file already exists')
+    }
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        if (destinationExists) {
+          this.replacePath(sftp, sourcePath, destinationPath).then(resolve, reject)
+        } else {
+          sftp.rename(sourcePath, destinationPath, (err) => (err ? reject(err) : resolve()))
+        }
+      })
+
+      session.lastActivity = new Date()
+      this.logActivity(sessionToken, 'file.move', {
+        sourcePath,
+        destinationPath,
+        method: 'rename',
+      })
+      return { method: 'rename' }
+    } catch (err) {
+      if (!(await this.isCrossDevice(sftp, sourcePath, destinationPath, err as SFTPError))) {
+        throw new Error(`Failed to move file: ${(err as Error).message}`)
+      }
+    }
+
+    // The source is deleted recursively afterwards, so refuse before copying anything
+    if (!options.confirmDangerous && (await this.isProtectedPath(sftp, sourcePath))) {
+      throw new ProtectedPathError(sourcePath)
+    }
+
+    const copy = await this.copyFile(sessionToken, sourcePath, destinationPath, overwrite)
+    if (copy.failures.length > 0) {
+      throw new Error(
+        `Failed to move file: ${copy.failures.length} entries could not be copied, ` +
+          `the source was left in place`
+      )
+    }
+
+    const removed = await this.deleteFile(sessionToken, sourcePath, {
+      recursive: true,
+      confirmDangerous: options.confirmDangerous,
+    })
+    if (removed.failures.length > 0) {
+      throw new Error(
+        `Moved to ${destinationPath}, but ${removed.failures.length} source entries ` +
+          `could not be removed`
+      )
+    }
 
-    this.getSession(sessionToken)
     this.logActivity(sessionToken, 'file.move', {
       sourcePath,
       destinationPath,
+      method: 'copy',
+      bytes_affected: copy.bytesCopied,
     })
+    return { method: 'copy', copy }
+  }
+
+  /**
+   * SFTP has no EXDEV status; servers report a cross-device rename as a
+   * generic failure. Compare filesystem ids via statvfs to be sure, and only
+   * assume EXDEV from the status code when the extension is unavailable.
+   */
+  private static async isCrossDevice(
+    sftp: SFTPWrapper,
+    sourcePath: string,
+    destinationPath: string,
+    err: SFTPError
+  ): Promise<boolean> {
+    if (err.code !== SFTP_STATUS_FAILURE) return false
+
+    const fsid = (path: string) =>
+      new Promise<string | null>((resolve) => {
+        try {
+          sftp.ext_openssh_statvfs(path, (statErr, info) =>
+            resolve(statErr ? null : String(info.f_sid))
+          )
+        } catch {
+          resolve(null)
+        }
+      })
+
+    const [sourceFs, destinationFs] = await Promise.all([
+      fsid(sourcePath),
+      fsid(destinationPath.slice(0, destinationPath.lastIndexOf('/')) || '/'),
+    ])
+
+    if (sourceFs === null || destinationFs === null) return true
+    return sourceFs !== destinationFs
   }
 
   static async searchFiles(
@@ -700,27 +2094,20 @@ class SSHConnectionManager {
 
     // This is a basic implementation using find command
     const findType =
-      options.type === 'file' ? '-type f' : options.type === 'directory' ? '-type d' : ''
+      options.type === 'file'
+        ? raw('-type f')
+        : options.type === 'directory'
+          ? raw('-type d')
+          : null
 
-    // Escape special characters in query to prevent command injection
-    const escapedQuery = options.query.replace(/["'\\]/g, '\\$&')
-    
     // Fixed: Use -iname for case-insensitive search
     const namePattern = options.regex
-      ? `-regex ".*${escapedQuery}.*"`
-      : options.caseSensitive
-        ? `-name "*${escapedQuery}*"`
-        : `-iname "*${escapedQuery}*"`
-
-    // Construct command parts
-    const commandParts = ['find', `"${options.path}"`]
-    if (findType) commandParts.push(findType)
-    commandParts.push(namePattern)
-    commandParts.push('2>/dev/null')
-    commandParts.push('|', 'head', `-${options.maxResults || 100}`)
-    
-    const command = commandParts.join(' ')
-    
+      ? sh`-regex ${`.*${options.query}.*`}`
+      : sh`${raw(options.caseSensitive ? '-name' : '-iname')} ${`*${options.query}*`}`
+
+    const command = sh`find ${options.path} ${findType} ${namePattern} 2>/dev/null
+      | head -n ${options.maxResults || 100}`
+
     const result = await this.executeCommand(sessionToken, command)
 
     let files = result.stdout
@@ -735,7 +2122,7 @@ class SSHConnectionManager {
     // If no results with find, try a simpler ls-based approach as fallback
     if (files.length === 0 && !options.regex) {
       try {
-        const lsCommand = `ls -la "${options.path}" | grep -i "${escapedQuery}"`
+        const lsCommand = sh`ls -la -- ${options.path} | grep -i -F -e ${options.query}`
         const lsResult = await this.executeCommand(sessionToken, lsCommand)
         
         const lsFiles = lsResult.stdout
@@ -789,42 +2176,697 @@ class SSHConnectionManager {
     return filesWithTypes
   }
 
+  /**
+   * Full-text search under a path. Uses ripgrep when the host has it and
+   * `find | xargs grep` otherwise; both honour the include/exclude globs
+   * (matched against names), skip binary files and files over `maxFileSize`,
+   * and stop after `maxResults` matching lines.
+   */
+  static async searchFileContents(
+    sessionToken: string,
+    options: FileSearchOptions
+  ): Promise<ContentSearchResult> {
+    const session = this.getSession(sessionToken)
+    const maxResults = options.maxResults || 200
+    const include = (options.include ?? []).filter(Boolean)
+    const exclude = (options.exclude ?? []).filter(Boolean)
+    const maxFileSize = options.maxFileSize ? Math.floor(options.maxFileSize) : null
+    // find has no glob lists, so build `\( -name a -o -name b \)`
+    const nameAlternatives = (globs: string[]) =>
+      sh`\\( ${globs.flatMap((glob, index) => [index > 0 && raw('-o'), raw('-name'), glob])} \\)`
+
+    const rg = sh`rg --no-heading --with-filename --line-number --column --null --color never
+      --hidden --no-ignore --max-columns ${SEARCH_LINE_MAX_LENGTH} --max-columns-preview
+      ${raw(options.caseSensitive ? '--case-sensitive' : '--ignore-case')}
+      ${!options.regex && raw('--fixed-strings')}
+      ${maxFileSize !== null && sh`--max-filesize ${maxFileSize}`}
+      ${include.map((glob) => sh`--glob ${glob}`)}
+      ${exclude.map((glob) => sh`--glob ${`!${glob}`}`)}
+      -e ${options.query} -- ${options.path}`
+
+    // Excluded names are pruned so whole directories like node_modules are skipped
+    const grep = sh`find ${options.path}
+      ${exclude.length > 0 && sh`${nameAlternatives(exclude)} -prune -o`}
+      -type f ${maxFileSize !== null && sh`-size ${`-${maxFileSize + 1}c`}`}
+      ${include.length > 0 && nameAlternatives(include)} -print0
+      | xargs -0 -r grep -nHIZ ${!options.caseSensitive && raw('-i')}
+      ${raw(options.regex ? '-E' : '-F')} -e ${options.query}`
+
+    // The first output line names the tool; one extra line tells us the cap was hit
+    const command = sh`{ if command -v rg >/dev/null 2>&1; then echo rg; ${rg};
+      else echo grep; ${grep}; fi; } 2>/dev/null | head -n ${maxResults + 2}`
+
+    const result = await this.executeCommand(sessionToken, command)
+    const [tool, ...lines] = result.stdout.split('\n').filter((line) => line.length > 0)
+    if (tool !== 'rg' && tool !== 'grep') {
+      throw new Error(`Failed to search file contents: ${result.stderr || 'no output'}`)
+    }
+
+    const truncated = lines.length > maxResults
+    const columnPattern = this.createColumnPattern(options)
+    const byPath = new Map<string, FileSearchResult>()
+
+    for (const line of lines.slice(0, maxResults)) {
+      const separator = line.indexOf('\0')
+      if (separator === -1) continue
+
+      const path = line.slice(0, separator)
+      const match =
+        tool === 'rg'
+          ? line.slice(separator + 1).match(/^(\d+):(\d+):(.*)$/)
+          : line.slice(separator + 1).match(/^(\d+):()(.*)$/)
+      if (!match) continue
+
+      const text = match[3].slice(0, SEARCH_LINE_MAX_LENGTH)
+      // grep has no column output, so locate the match ourselves
+      const column = match[2]
+        ? parseInt(match[2], 10)
+        : (columnPattern ? text.search(columnPattern) : -1) + 1 || 1
+
+      let entry = byPath.get(path)
+      if (!entry) {
+        entry = { path, name: path.split('/').pop() || path, type: 'file', matches: [] }
+        byPath.set(path, entry)
+      }
+      entry.matches!.push({ line: parseInt(match[1], 10), column, text })
+    }
+
+    const results = Array.from(byPath.values())
+    const sftp = session.sftp
+    if (sftp) {
+      await Promise.all(
+        results.map(
+          (entry) =>
+            new Promise<void>((resolve) => {
+              sftp.stat(entry.path, (err, stats) => {
+                if (!err) {
+                  entry.size = stats.size
+                  entry.mtime = new Date(stats.mtime * 1000).toISOString()
+                }
+                resolve()
+              })
+            })
+        )
+      )
+    }
+
+    session.lastActivity = new Date()
+    this.logActivity(sessionToken, 'file.search', {
+      query: options.query,
+      path: options.path,
+      content: true,
+      tool,
+      fileCount: results.length,
+      resultCount: Math.min(lines.length, maxResults),
+      truncated,
+    })
+
+    return { results, truncated, tool }
+  }
+
+  private static createColumnPattern(options: FileSearchOptions): RegExp | null {
+    const source = options.regex
+      ? options.query
+      : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    try {
+      return new RegExp(source, options.caseSensitive ? '' : 'i')
+    } catch {
+      // POSIX ERE that JavaScript cannot parse; fall back to column 1
+      return null
+    }
+  }
+
   static async getSessionInfo(sessionToken: string): Promise<SessionInfo> {
     const session = this.sessions.get(sessionToken)
     if (!session) {
-      throw new Error('Session not found')
+      throw new SessionNotFoundError()
     }
 
-    const startTime = new Date(session.lastActivity.getTime() - 30 * 60 * 1000) // Approximate
-    const uptime = Date.now() - startTime.getTime()
+    return this.toSessionInfo(session)
+  }
 
+  // Live sessions in this process, optionally limited to some connections
+  static listSessions(connectionIds?: string[]): SessionInfo[] {
+    const wanted = connectionIds ? new Set(connectionIds) : null
+    return Array.from(this.sessions.values())
+      .filter((session) => !wanted || wanted.has(session.connectionId))
+      .map((session) => this.toSessionInfo(session))
+  }
+
+  private static toSessionInfo(session: SSHSession): SessionInfo {
     return {
       id: session.id,
       connectionId: session.connectionId,
       userId: session.userId,
       isConnected: session.isConnected,
+      startedAt: session.startedAt,
       lastActivity: session.lastActivity,
-      uptime,
+      uptime: Date.now() - session.startedAt.getTime(),
+      policy: session.policy,
+      expiry: this.getSessionExpiry(session),
+      ...session.metrics,
     }
   }
 
-  static async keepSessionAlive(sessionToken: string): Promise<void> {
+  /**
+   * Lists every process on the host. Needs procps `ps` (any Linux from the last
+   * decade); the start time is derived from the elapsed seconds so it does not
+   * depend on the remote timezone or locale. The process list polls this, so
+   * like getSystemStats it is neither logged nor counted as activity.
+   */
+  static async listProcesses(sessionToken: string): Promise<RemoteProcess[]> {
+    const result = await this.readCommand(
+      this.getSession(sessionToken),
+      sh`ps -eo pid=,user:32=,pcpu=,pmem=,etimes=,args=`
+    )
+    if (result.code !== 0) {
+      throw new Error(`Failed to list processes: ${result.stderr.trim() || `exit ${result.code}`}`)
+    }
+
+    const now = Date.now()
+    const processes: RemoteProcess[] = []
+    for (const line of result.stdout.split('\n')) {
+      const match = line.match(/^\s*(\d+)\s+(\S+)\s+([\d.]+)\s+([\d.]+)\s+(\d+)\s+(.*)$/)
+      if (!match) continue
+
+      const [, pid, user, cpu, mem, elapsed, command] = match
+      processes.push({
+        pid: parseInt(pid, 10),
+        user,
+        cpu: parseFloat(cpu),
+        mem: parseFloat(mem),
+        startedAt: new Date(now - parseInt(elapsed, 10) * 1000).toISOString(),
+        command,
+      })
+    }
+
+    return processes
+  }
+
+  // Runs `kill` as the connection's user, so it is logged like any other command
+  static async signalProcess(
+    sessionToken: string,
+    pid: number,
+    signal: ProcessSignal
+  ): Promise<void> {
+    const result = await this.executeCommand(sessionToken, sh`kill -s ${signal} ${pid}`)
+    if (result.code !== 0) {
+      throw new Error(`Failed to send ${signal} to ${pid}: ${result.stderr.trim()}`)
+    }
+  }
+
+  static async getSystemInfo(sessionToken: string): Promise<SystemInfo> {
+    const session = this.getSession(sessionToken)
+
+    const [uname, osRelease, stat] = await Promise.all([
+      this.executeCommand(sessionToken, sh`uname -a`),
+      this.readVirtualFile(session, '/etc/os-release').catch(() => ''),
+      this.readVirtualFile(session, '/proc/stat'),
+    ])
+    if (uname.code !== 0) {
+      throw new Error(`Failed to read system info: ${uname.stderr.trim()}`)
+    }
+
+    const kernel = uname.stdout.trim()
+    const prettyName = osRelease.match(/^PRETTY_NAME=(.*)$/m)?.[1]
+
+    return {
+      hostname: kernel.split(/\s+/)[1] || session.config.host,
+      kernel,
+      os: prettyName ? prettyName.replace(/^["']|["']$/g, '') : null,
+      cpuCount: stat.split('\n').filter((line) => /^cpu\d+\s/.test(line)).length || 1,
+    }
+  }
+
+  /**
+   * Samples load, memory and CPU counters from /proc over SFTP. Sampling is
+   * frequent, so unlike commands it is neither logged nor counted as activity.
+   */
+  static async getSystemStats(sessionToken: string): Promise<SystemStats> {
+    const session = this.getSession(sessionToken)
+
+    let files: string[]
+    try {
+      files = await Promise.all(
+        ['/proc/loadavg', '/proc/meminfo', '/proc/stat', '/proc/uptime'].map((path) =>
+          this.readVirtualFile(session, path)
+        )
+      )
+    } catch (err) {
+      throw new Error(
+        `Failed to read system stats: ${err instanceof Error ? err.message : String(err)}`
+      )
+    }
+    const [loadavg, meminfo, stat, uptime] = files
+
+    // meminfo reports kB
+    const memValue = (key: string) => {
+      const match = meminfo.match(new RegExp(`^${key}:\\s+(\\d+)`, 'm'))
+      return match ? parseInt(match[1], 10) * 1024 : 0
+    }
+    const total = memValue('MemTotal')
+    // MemAvailable is missing before Linux 3.14
+    const available = memValue('MemAvailable') || memValue('MemFree') + memValue('Cached')
+
+    // cpu  user nice system idle iowait irq softirq steal ...
+    const cpuTimes = (stat.match(/^cpu\s+(.*)$/m)?.[1] ?? '')
+      .trim()
+      .split(/\s+/)
+      .slice(0, 8)
+      .map((value) => parseInt(value, 10) || 0)
+    const [load1, load5, load15] = loadavg.split(/\s+/).map((value) => parseFloat(value) || 0)
+
+    return {
+      sampledAt: new Date().toISOString(),
+      uptimeSeconds: parseFloat(uptime) || 0,
+      load: [load1 ?? 0, load5 ?? 0, load15 ?? 0],
+      memory: {
+        total,
+        available,
+        swapTotal: memValue('SwapTotal'),
+        swapFree: memValue('SwapFree'),
+      },
+      cpu: {
+        idle: (cpuTimes[3] ?? 0) + (cpuTimes[4] ?? 0),
+        total: cpuTimes.reduce((sum, value) => sum + value, 0),
+      },
+    }
+  }
+
+  // Runs a read-only command for polling views without logging it or resetting
+  // the idle timer, so an open dashboard does not keep the session alive
+  private static async readCommand(
+    session: SSHSession,
+    command: ShellCommand
+  ): Promise<{ stdout: string; stderr: string; code: number }> {
+    const result = await this.readCommandBytes(session, command)
+    return {
+      stdout: result.stdout.toString('utf8'),
+      stderr: result.stderr.toString('utf8'),
+      code: result.code,
+    }
+  }
+
+  // Keeps the output as the bytes the remote side wrote, so it can be measured
+  // and cut without decoding it first
+  private static readCommandBytes(
+    session: SSHSession,
+    command: ShellCommand
+  ): Promise<{ stdout: Buffer; stderr: Buffer; code: number }> {
+    return new Promise((resolve, reject) => {
+      session.client.exec(command.toString(), (err, stream) => {
+        if (err) {
+          reject(new Error(`Failed to execute command: ${err.message}`))
+          return
+        }
+
+        const stdout: Buffer[] = []
+        const stderr: Buffer[] = []
+        stream.on('close', (code: number) =>
+          resolve({ stdout: Buffer.concat(stdout), stderr: Buffer.concat(stderr), code })
+        )
+        stream.on('data', (data: Buffer) => {
+          stdout.push(data)
+        })
+        stream.stderr.on('data', (data: Buffer) => {
+          stderr.push(data)
+        })
+      })
+    })
+  }
+
+  // /proc files report a size of 0, so read until EOF instead of trusting stat
+  private static readVirtualFile(session: SSHSession, path: string): Promise<string> {
+    const sftp = session.sftp
+    if (!sftp) return Promise.reject(new Error('SFTP not available'))
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = []
+      const stream = sftp.createReadStream(path)
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+      stream.on('error', (err: Error) => reject(new Error(`${path}: ${err.message}`)))
+      stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    })
+  }
+
+  /**
+   * Lists service units with their unit file state. JSON output needs systemd
+   * 246 or newer; older hosts fall back to parsing the plain table.
+   */
+  static async listServices(sessionToken: string): Promise<SystemdUnit[]> {
+    const listCommand = sh`systemctl list-units --type=service --all --no-pager`
+    let units: Omit<SystemdUnit, 'enabled'>[] | null = null
+
+    const json = await this.executeCommand(sessionToken, sh`${listCommand} --output=json`)
+    if (json.code === 0) {
+      try {
+        units = (JSON.parse(json.stdout) as Record<string, string>[]).map((entry) => ({
+          unit: entry.unit,
+          description: entry.description ?? '',
+          load: entry.load,
+          active: entry.active,
+          sub: entry.sub,
+        }))
+      } catch {
+        // Older systemctl ignores --output=json for list-units and prints the table
+      }
+    }
+
+    if (!units) {
+      const text = await this.executeCommand(
+        sessionToken,
+        sh`${listCommand} --plain --no-legend`
+      )
+      if (text.code !== 0) {
+        throw new Error(`Failed to list services: ${text.stderr.trim() || `exit ${text.code}`}`)
+      }
+      units = text.stdout
+        .split('\n')
+        .map((line) => line.trim().split(/\s+/))
+        .filter((fields) => fields.length >= 4 && fields[0].endsWith('.service'))
+        .map(([unit, load, active, sub, ...description]) => ({
+          unit,
+          load,
+          active,
+          sub,
+          description: description.join(' '),
+        }))
+    }
+
+    // Best effort: without it the list still works, just without enabled states
+    const enabledStates = new Map<string, string>()
+    const files = await this.executeCommand(
+      sessionToken,
+      sh`systemctl list-unit-files --type=service --no-pager --no-legend`
+    )
+    for (const line of files.stdout.split('\n')) {
+      const [unit, state] = line.trim().split(/\s+/)
+      if (unit && state) enabledStates.set(unit, state)
+    }
+
+    return units.map((unit) => ({ ...unit, enabled: enabledStates.get(unit.unit) ?? null }))
+  }
+
+  // `sudo -n` fails fast instead of waiting for a password nobody can type
+  static async runServiceAction(
+    sessionToken: string,
+    unit: string,
+    action: ServiceAction,
+    useSudo = false
+  ): Promise<void> {
+    const result = await this.executeCommand(
+      sessionToken,
+      sh`${useSudo && raw('sudo -n')} systemctl ${action} -- ${unit}`
+    )
+    if (result.code !== 0) {
+      throw new Error(`Failed to ${action} ${unit}: ${result.stderr.trim() || `exit ${result.code}`}`)
+    }
+  }
+
+  static async getServiceDetails(
+    sessionToken: string,
+    unit: string,
+    lines: number,
+    useSudo = false
+  ): Promise<ServiceDetails> {
+    const sudo = useSudo && raw('sudo -n')
+
+    // status exits 3 for inactive units, so only a missing unit counts as a failure
+    const [status, journal] = await Promise.all([
+      this.executeCommand(sessionToken, sh`${sudo} systemctl status --no-pager --lines=0 -- ${unit}`),
+      this.executeCommand(
+        sessionToken,
+        sh`${sudo} journalctl --no-pager --output=short-iso --lines=${lines} --unit=${unit}`
+      ),
+    ])
+    if (status.code === 4) {
+      throw new Error(`Failed to read ${unit}: ${status.stderr.trim()}`)
+    }
+    if (journal.code !== 0) {
+      throw new Error(`Failed to read the journal: ${journal.stderr.trim() || `exit ${journal.code}`}`)
+    }
+
+    return {
+      unit,
+      status: status.stdout.trimEnd(),
+      journal: journal.stdout.split('\n').filter(Boolean),
+    }
+  }
+
+  /**
+   * Lists containers, images and volumes through the docker CLI. `useSudo`
+   * is for users outside the docker group and needs passwordless sudo.
+   */
+  static async listDockerResources(
+    sessionToken: string,
+    useSudo = false
+  ): Promise<DockerResources> {
+    const docker = this.dockerCommand(useSudo)
+    const format = raw(`--format '{{json .}}'`)
+
+    const [containers, images, volumes] = await Promise.all([
+      this.runDocker(sessionToken, sh`${docker} ps --all --no-trunc ${format}`, 'list containers'),
+      this.runDocker(sessionToken, sh`${docker} image ls ${format}`, 'list images'),
+      this.runDocker(sessionToken, sh`${docker} volume ls ${format}`, 'list volumes'),
+    ])
+
+    const parseLines = (stdout: string) =>
+      stdout
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as Record<string, string>)
+
+    return {
+      containers: parseLines(containers).map((entry) => ({
+        id: entry.ID,
+        name: entry.Names,
+        image: entry.Image,
+        command: entry.Command ?? '',
+        state: entry.State ?? '',
+        status: entry.Status ?? '',
+        createdAt: entry.CreatedAt ?? '',
+        ports: entry.Ports ?? '',
+      })),
+      images: parseLines(images).map((entry) => ({
+        id: entry.ID,
+        repository: entry.Repository,
+        tag: entry.Tag,
+        size: entry.Size ?? '',
+        createdSince: entry.CreatedSince ?? '',
+      })),
+      volumes: parseLines(volumes).map((entry) => ({
+        name: entry.Name,
+        driver: entry.Driver ?? '',
+      })),
+    }
+  }
+
+  static async runContainerAction(
+    sessionToken: string,
+    container: string,
+    action: ContainerAction,
+    useSudo = false
+  ): Promise<void> {
+    const subcommand = action === 'remove' ? 'rm' : action
+    await this.runDocker(
+      sessionToken,
+      sh`${this.dockerCommand(useSudo)} ${subcommand} -- ${container}`,
+      `${action} ${container}`
+    )
+  }
+
+  static async getContainerLogs(
+    sessionToken: string,
+    container: string,
+    lines: number,
+    useSudo = false
+  ): Promise<string[]> {
+    // The container's stderr is part of its log, so fold it into stdout. The
+    // log view polls this, so it is neither logged nor counted as activity
+    const stdout = await this.runDocker(
+      sessionToken,
+      sh`${this.dockerCommand(useSudo)} logs --timestamps --tail ${lines} -- ${container} 2>&1`,
+      'read container logs',
+      { passive: true }
+    )
+    return stdout.split('\n').filter(Boolean)
+  }
+
+  // Needs only `ls` in the container, so it works on busybox and distroless-with-shell images
+  static async listContainerDirectory(
+    sessionToken: string,
+    container: string,
+    path: string,
+    useSudo = false
+  ): Promise<ContainerFileEntry[]> {
+    const stdout = await this.runDocker(
+      sessionToken,
+      sh`${this.dockerCommand(useSudo)} exec ${container} ls -1Ap -- ${path}`,
+      'list container directory'
+    )
+
+    return stdout
+      .split('\n')
+      .filter(Boolean)
+      .map((line): ContainerFileEntry =>
+        line.endsWith('/')
+          ? { name: line.slice(0, -1), type: 'directory' }
+          : { name: line, type: 'file' }
+      )
+      .sort((a, b) =>
+        a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1
+      )
+  }
+
+  static async readContainerFile(
+    sessionToken: string,
+    container: string,
+    path: string,
+    useSudo = false
+  ): Promise<{ content: string; truncated: boolean }> {
     const session = this.getSession(sessionToken)
+    // One byte over the limit tells a file that was cut off from one that fits exactly
+    const result = await this.readCommandBytes(
+      session,
+      sh`${this.dockerCommand(useSudo)} exec ${container} head -c ${CONTAINER_FILE_MAX_BYTES + 1} -- ${path}`
+    )
+    if (result.code !== 0) {
+      throw new Error(
+        `Failed to read container file: ${result.stderr.toString('utf8').trim() || `exit ${result.code}`}`
+      )
+    }
+
+    const truncated = result.stdout.length > CONTAINER_FILE_MAX_BYTES
+    // Cut on bytes like the limit itself; a character split at the end decodes as U+FFFD
+    const bytes = truncated ? result.stdout.subarray(0, CONTAINER_FILE_MAX_BYTES) : result.stdout
+
     session.lastActivity = new Date()
+    session.metrics.bytesDownloaded += bytes.length
+    this.logActivity(sessionToken, 'file.read', {
+      container,
+      path,
+      bytes_affected: bytes.length,
+    })
+
+    return { content: bytes.toString('utf8'), truncated }
+  }
+
+  // Runs a command the user typed inside the container's /bin/sh
+  static async execInContainer(
+    sessionToken: string,
+    container: string,
+    command: string,
+    useSudo = false
+  ): Promise<CommandResult> {
+    return this.executeCommand(
+      sessionToken,
+      sh`${this.dockerCommand(useSudo)} exec ${container} sh -c ${command}`
+    )
+  }
+
+  private static dockerCommand(useSudo: boolean): ShellCommand {
+    return useSudo ? raw('sudo -n docker') : raw('docker')
+  }
+
+  private static async runDocker(
+    sessionToken: string,
+    command: ShellCommand,
+    description: string,
+    options: { passive?: boolean } = {}
+  ): Promise<string> {
+    const result = options.passive
+      ? await this.readCommand(this.getSession(sessionToken), command)
+      : await this.executeCommand(sessionToken, command)
+    if (result.code !== 0) {
+      throw new Error(`Failed to ${description}: ${result.stderr.trim() || `exit ${result.code}`}`)
+    }
+    return result.stdout
+  }
+
+  // A user without a crontab gets exit 1 and "no crontab for <user>"
+  static async readCrontab(sessionToken: string): Promise<string> {
+    const result = await this.executeCommand(sessionToken, sh`crontab -l`)
+    if (result.code === 0) return result.stdout
+    if (/no crontab/i.test(result.stderr)) return ''
+    throw new Error(`Failed to read the crontab: ${result.stderr.trim() || `exit ${result.code}`}`)
+  }
 
-    // Send a simple command to keep the connection alive
+  /**
+   * Replaces the user's crontab in one `crontab <file>` call, which either
+   * installs the whole file or leaves the old one in place. `expected` is the
+   * content the editor started from; a mismatch means someone else changed it
+   * since. The replaced crontab is copied to ~/.crontab-backups first. Both
+   * files go over SFTP, so only the fixed command line ends up in the log.
+   */
+  static async installCrontab(
+    sessionToken: string,
+    content: string,
+    expected: string
+  ): Promise<{ backupPath: string | null }> {
+    const session = this.getSession(sessionToken)
+    if (!session.sftp) throw new Error('SFTP not available')
+    const sftp = session.sftp
+
+    const current = await this.readCrontab(sessionToken)
+    if (current.trimEnd() !== expected.trimEnd()) {
+      throw new CrontabConflictError()
+    }
+
+    // Relative SFTP paths resolve against the login directory
+    const writePrivate = (path: string, data: string) =>
+      new Promise<void>((resolve, reject) => {
+        sftp.writeFile(path, data, { encoding: 'utf8', mode: 0o600 }, (err) =>
+          err ? reject(new Error(`Failed to write ${path}: ${err.message}`)) : resolve()
+        )
+      })
+
+    let backupPath: string | null = null
+    if (current.trim()) {
+      const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*/, '')
+      backupPath = `.crontab-backups/crontab-${stamp}`
+      await new Promise<void>((resolve, reject) => {
+        sftp.mkdir('.crontab-backups', { mode: 0o700 }, (err) => {
+          if (!err) return resolve()
+          sftp.lstat('.crontab-backups', (statErr, stats) =>
+            !statErr && stats.isDirectory()
+              ? resolve()
+              : reject(new Error(`Failed to create ~/.crontab-backups: ${err.message}`))
+          )
+        })
+      })
+      await writePrivate(backupPath, current)
+    }
+
+    const tempPath = `.crontab-install-${randomBytes(8).toString('hex')}`
+    await writePrivate(tempPath, content)
     try {
-      await this.executeCommand(sessionToken, 'echo "keepalive"')
-    } catch {
-      // Ignore errors for keepalive
+      const result = await this.executeCommand(sessionToken, sh`crontab ${tempPath}`)
+      if (result.code !== 0) {
+        throw new Error(
+          `Failed to install the crontab: ${result.stderr.trim() || `exit ${result.code}`}`
+        )
+      }
+    } finally {
+      sftp.unlink(tempPath, (err) => {
+        if (err) console.error(`Failed to remove ${tempPath}:`, err)
+      })
     }
+
+    return { backupPath: backupPath && `~/${backupPath}` }
+  }
+
+  // Resets the idle timer. The SSH connection itself is kept open by the
+  // client's keepalive packets, so no remote command is needed.
+  static async keepSessionAlive(sessionToken: string): Promise<void> {
+    const session = this.getSession(sessionToken)
+    session.lastActivity = new Date()
   }
 
   static async getDiskUsage(sessionToken: string, path: string): Promise<DiskUsageInfo> {
     this.getSession(sessionToken)
 
     try {
-      const result = await this.executeCommand(sessionToken, `df -h "${path}"`)
+      const result = await this.executeCommand(sessionToken, sh`df -h -- ${path}`)
       const lines = result.stdout.split('\n').filter((line) => line.trim())
 
       if (lines.length < 2) {
@@ -847,7 +2889,7 @@ class SSHConnectionManager {
       }
     } catch (error: unknown) {
       // Fallback to du command for directory size
-      const result = await this.executeCommand(sessionToken, `du -sh "${path}"`)
+      const result = await this.executeCommand(sessionToken, sh`du -sh -- ${path}`)
       const size = result.stdout.split('\t')[0]
 
       return {
@@ -869,7 +2911,7 @@ class SSHConnectionManager {
     return Math.round(value * (units[unit as keyof typeof units] || 1))
   }
 
-  private static getMimeType(filename: string): string | null {
+  static getMimeType(filename: string): string | null {
     const ext = filename.split('.').pop()?.toLowerCase()
     const mimeTypes: Record<string, string> = {
       txt: 'text/plain',
@@ -883,6 +2925,17 @@ class SSHConnectionManager {
       jpeg: 'image/jpeg',
       gif: 'image/gif',
       svg: 'image/svg+xml',
+      webp: 'image/webp',
+      bmp: 'image/bmp',
+      ico: 'image/x-icon',
+      mp4: 'video/mp4',
+      webm: 'video/webm',
+      ogg: 'video/ogg',
+      mov: 'video/quicktime',
+      mkv: 'video/x-matroska',
+      avi: 'video/x-msvideo',
+      mp3: 'audio/mpeg',
+      wav: 'audio/wav',
       zip: 'application/zip',
       tar: 'application/x-tar',
       gz: 'application/gzip',
@@ -892,4 +2945,10 @@ class SSHConnectionManager {
   }
 }
 
-export { SSHConnectionManager }
+export {
+  SSHConnectionManager,
+  SessionNotFoundError,
+  ProtectedPathError,
+  UploadOffsetError,
+  CrontabConflictError,
+}
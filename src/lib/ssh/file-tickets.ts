@@ -0,0 +1,63 @@
+import { randomBytes } from 'crypto'
+
+// Which route a ticket opens: a file download or an SSE tail
+export type FileTicketKind = 'download' | 'tail'
+
+interface FileTicket {
+  kind: FileTicketKind
+  sessionToken: string
+  connectionId: string
+  userId: string
+  path: string
+  inline: boolean
+  expiresAt: number
+}
+
+export const FILE_TICKET_TTL = 30 * 1000 // 30 seconds
+// A <video> keeps sending Range requests while it plays and seeks
+export const INLINE_TICKET_TTL = 60 * 60 * 1000 // 1 hour
+
+// Use global to keep tickets across module reloads in development
+const globalForFiles = globalThis as unknown as {
+  fileTickets: Map<string, FileTicket> | undefined
+}
+
+function getTickets(): Map<string, FileTicket> {
+  if (!globalForFiles.fileTickets) {
+    globalForFiles.fileTickets = new Map<string, FileTicket>()
+  }
+  return globalForFiles.fileTickets
+}
+
+// Native downloads, <video src> and EventSource cannot send the x-session-token
+// header, so the browser trades it for a ticket that only opens one file on one
+// route. Tickets are single use, except inline media tickets, which the media
+// element reuses until they expire.
+export function issueFileTicket(ticket: Omit<FileTicket, 'expiresAt'>): string {
+  const tickets = getTickets()
+  const now = Date.now()
+
+  for (const [id, existing] of tickets.entries()) {
+    if (existing.expiresAt < now) {
+      tickets.delete(id)
+    }
+  }
+
+  const id = randomBytes(24).toString('hex')
+  tickets.set(id, {
+    ...ticket,
+    expiresAt: now + (ticket.inline ? INLINE_TICKET_TTL : FILE_TICKET_TTL),
+  })
+  return id
+}
+
+export function consumeFileTicket(id: string | null, kind: FileTicketKind): FileTicket | null {
+  if (!id) return null
+
+  const tickets = getTickets()
+  const ticket = tickets.get(id)
+  if (!ticket?.inline) tickets.delete(id)
+
+  if (!ticket || ticket.kind !== kind || ticket.expiresAt < Date.now()) return null
+  return ticket
+}
@@ -0,0 +1,160 @@
+import { createHash } from 'crypto'
+import type { HostVerifier } from 'ssh2'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { HostKeyDetails } from '@/types/ssh'
+import { ErrorCodes } from '@/lib/api/errorCodes'
+
+type HostKeyErrorCode = typeof ErrorCodes.HOST_KEY_UNKNOWN | typeof ErrorCodes.HOST_KEY_CHANGED
+
+export class HostKeyVerificationError extends Error {
+  code: HostKeyErrorCode
+  hostKey: HostKeyDetails
+
+  constructor(code: HostKeyErrorCode, hostKey: HostKeyDetails) {
+    const target = `${hostKey.host}:${hostKey.port}`
+    super(
+      code === ErrorCodes.HOST_KEY_CHANGED
+        ? `Host key for ${target} has changed! Expected ${hostKey.expectedFingerprint}, ` +
+            `got ${hostKey.fingerprint}. Someone could be intercepting the connection.`
+        : `Host ${target} is not trusted yet. Verify the ${hostKey.keyType} key fingerprint ` +
+            `${hostKey.fingerprint} and approve it to connect.`
+    )
+    this.name = 'HostKeyVerificationError'
+    this.code = code
+    this.hostKey = hostKey
+  }
+}
+
+// Same format as `ssh-keygen -lf`: SHA256 digest, unpadded base64
+export function getHostKeyFingerprint(key: Buffer): string {
+  return 'SHA256:' + createHash('sha256').update(key).digest('base64').replace(/=+$/, '')
+}
+
+// The wire format starts with the length-prefixed key type, e.g. "ssh-ed25519"
+export function getHostKeyType(key: Buffer): string {
+  if (key.length < 4) return 'unknown'
+  const length = key.readUInt32BE(0)
+  return key.subarray(4, 4 + length).toString('ascii') || 'unknown'
+}
+
+export async function trustHostKey(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  hostKey: Pick<HostKeyDetails, 'host' | 'port' | 'keyType' | 'fingerprint'>,
+  userId: string | null
+): Promise<void> {
+  const { error } = await supabase.from('known_hosts').upsert(
+    {
+      organization_id: organizationId,
+      host: hostKey.host,
+      port: hostKey.port,
+      key_type: hostKey.keyType,
+      fingerprint: hostKey.fingerprint,
+      approved_by: userId,
+      last_seen_at: new Date().toISOString(),
+    },
+    { onConflict: 'organization_id,host,port' }
+  )
+
+  if (error) {
+    throw new Error(`Failed to save host key: ${error.message}`)
+  }
+}
+
+export interface HostKeyVerifier {
+  // ssh2 `hostVerifier` for one host; call once per hop
+  forHost(host: string, port: number): HostVerifier
+  // Why the last handshake was refused, if it was
+  readonly error: Error | null
+  // Unknown key that was let through in dry-run mode
+  readonly unknownHostKey: HostKeyDetails | null
+}
+
+/**
+ * Checks presented host keys against the organization's known_hosts table.
+ * Unknown keys must be approved first when strict checking is on, and are
+ * trusted on first use otherwise. A changed key is always refused until an
+ * organization admin approves the new one.
+ * Dry runs (connection tests) never write and let unknown keys through.
+ */
+export function createHostKeyVerifier(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  options: { strict: boolean; userId: string | null; dryRun?: boolean }
+): HostKeyVerifier {
+  let lastError: Error | null = null
+  let unknownHostKey: HostKeyDetails | null = null
+
+  const check = async (host: string, port: number, key: Buffer): Promise<boolean> => {
+    const presented: HostKeyDetails = {
+      host,
+      port,
+      keyType: getHostKeyType(key),
+      fingerprint: getHostKeyFingerprint(key),
+    }
+
+    const { data: known, error } = await supabase
+      .from('known_hosts')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('host', host)
+      .eq('port', port)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to look up known host: ${error.message}`)
+    }
+
+    if (!known) {
+      if (options.dryRun) {
+        unknownHostKey = presented
+        return true
+      }
+      if (options.strict) {
+        lastError = new HostKeyVerificationError(ErrorCodes.HOST_KEY_UNKNOWN, presented)
+        return false
+      }
+      await trustHostKey(supabase, organizationId, presented, options.userId)
+      return true
+    }
+
+    if (known.fingerprint === presented.fingerprint) {
+      if (options.dryRun) return true
+      // Through an RPC, since only admins may update known_hosts rows
+      await supabase.rpc('touch_known_host', { known_host_id: known.id })
+      return true
+    }
+
+    lastError = new HostKeyVerificationError(ErrorCodes.HOST_KEY_CHANGED, {
+      ...presented,
+      expectedFingerprint: known.fingerprint,
+    })
+    return false
+  }
+
+  return {
+    forHost(host, port) {
+      return (key, verify) => {
+        check(host, port, key)
+          .then(verify)
+          .catch((error: unknown) => {
+            console.error('Host key verification error:', error)
+            // Fail closed when strict checking is on
+            lastError = options.strict
+              ? error instanceof Error
+                ? error
+                : new Error(String(error))
+              : null
+            verify(!options.strict)
+          })
+      }
+    },
+    get error() {
+      return lastError
+    },
+    get unknownHostKey() {
+      return unknownHostKey
+    },
+  }
+}
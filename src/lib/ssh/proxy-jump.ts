@@ -0,0 +1,242 @@
+import { Client, ClientChannel, ConnectConfig } from 'ssh2'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { decryptCredentials } from '@/lib/connections/encryption'
+import type { Database } from '@/types/database'
+import type { HostKeyVerifier } from './known-hosts'
+
+type AuthType = 'password' | 'private_key' | 'key_with_passphrase'
+
+export interface JumpHostConfig {
+  host: string
+  port: number
+  username: string
+  auth_type: AuthType
+  credentials: {
+    password?: string
+    privateKey?: string
+    passphrase?: string
+  }
+}
+
+export type ProxyJumpEntry =
+  | { type: 'address'; host: string; port: number; username?: string }
+  | { type: 'connection'; connectionId: string }
+
+export interface JumpChain {
+  sock: ClientChannel
+  clients: Client[]
+}
+
+// Saved connections are referenced as `connection:<id>`
+const CONNECTION_PREFIX = 'connection:'
+const MAX_JUMP_HOSTS = 8
+
+/**
+ * Parses an OpenSSH style ProxyJump value: a comma-separated list of
+ * `[user@]host[:port]` entries, where IPv6 hosts are written as `[addr]:port`.
+ */
+export function parseProxyJump(value: string | null | undefined): ProxyJumpEntry[] {
+  if (!value || !value.trim()) return []
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry): ProxyJumpEntry => {
+      if (entry.startsWith(CONNECTION_PREFIX)) {
+        const connectionId = entry.slice(CONNECTION_PREFIX.length).trim()
+        if (!connectionId) {
+          throw new Error(`Invalid proxy jump entry: ${entry}`)
+        }
+        return { type: 'connection', connectionId }
+      }
+
+      const match = entry.match(/^(?:([^@\s]+)@)?(\[[^\]]+\]|[^:\s@]+)(?::(\d+))?$/)
+      if (!match) {
+        throw new Error(`Invalid proxy jump entry: ${entry}`)
+      }
+
+      const [, username, rawHost, rawPort] = match
+      const port = rawPort ? parseInt(rawPort, 10) : 22
+      if (port < 1 || port > 65535) {
+        throw new Error(`Invalid proxy jump port: ${entry}`)
+      }
+
+      return {
+        type: 'address',
+        host: rawHost.replace(/^\[|\]$/g, ''),
+        port,
+        username: username || undefined,
+      }
+    })
+}
+
+/**
+ * Turns a proxy_jump value into connectable hops. Plain addresses reuse the
+ * target's username and credentials, like `ssh -J` reusing the same identity.
+ * Saved connections bring their own credentials and their own proxy_jump chain.
+ */
+export async function resolveJumpHosts(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  proxyJump: string | null | undefined,
+  target: Pick<JumpHostConfig, 'username' | 'auth_type' | 'credentials'>,
+  visited: Set<string> = new Set()
+): Promise<JumpHostConfig[]> {
+  const hops: JumpHostConfig[] = []
+
+  for (const entry of parseProxyJump(proxyJump)) {
+    if (entry.type === 'address') {
+      hops.push({
+        host: entry.host,
+        port: entry.port,
+        username: entry.username || target.username,
+        auth_type: target.auth_type,
+        credentials: target.credentials,
+      })
+      continue
+    }
+
+    if (visited.has(entry.connectionId)) {
+      throw new Error('Proxy jump chain contains a loop')
+    }
+    visited.add(entry.connectionId)
+
+    const { data: canAccess } = await supabase.rpc('can_access_connection', {
+      conn_id: entry.connectionId,
+      check_user_id: userId,
+    })
+    if (!canAccess) {
+      throw new Error('Access denied to jump host connection')
+    }
+
+    const { data: connection, error } = await supabase
+      .from('connections')
+      .select('*')
+      .eq('id', entry.connectionId)
+      .single()
+
+    if (error || !connection) {
+      throw new Error('Jump host connection not found')
+    }
+    if (!connection.encrypted_credentials) {
+      throw new Error(`Jump host "${connection.name}" has no stored credentials`)
+    }
+
+    const credentials = decryptCredentials(connection.encrypted_credentials)
+    const hop: JumpHostConfig = {
+      host: connection.host,
+      port: connection.port,
+      username: connection.username,
+      auth_type: connection.auth_type,
+      credentials,
+    }
+
+    // A saved bastion may itself sit behind another bastion
+    const nested = await resolveJumpHosts(supabase, userId, connection.proxy_jump, hop, visited)
+    hops.push(...nested, hop)
+  }
+
+  if (hops.length > MAX_JUMP_HOSTS) {
+    throw new Error(`Proxy jump chains are limited to ${MAX_JUMP_HOSTS} hosts`)
+  }
+
+  return hops
+}
+
+export function applyAuthentication(
+  connectConfig: ConnectConfig,
+  authType: AuthType,
+  credentials: JumpHostConfig['credentials']
+): ConnectConfig {
+  if (authType === 'password') {
+    connectConfig.password = credentials.password
+  } else if (authType === 'private_key') {
+    connectConfig.privateKey = credentials.privateKey
+  } else if (authType === 'key_with_passphrase') {
+    connectConfig.privateKey = credentials.privateKey
+    connectConfig.passphrase = credentials.passphrase
+  }
+  return connectConfig
+}
+
+function connectHop(
+  hop: JumpHostConfig,
+  sock: ClientChannel | undefined,
+  readyTimeout: number,
+  verifier?: HostKeyVerifier
+): Promise<Client> {
+  const client = new Client()
+
+  return new Promise((resolve, reject) => {
+    client.once('ready', () => resolve(client))
+    client.once('error', (err) => {
+      reject(
+        verifier?.error ?? new Error(`Jump host ${hop.host}:${hop.port} failed: ${err.message}`)
+      )
+    })
+
+    client.connect(
+      applyAuthentication(
+        {
+          host: hop.host,
+          port: hop.port,
+          username: hop.username,
+          sock,
+          hostVerifier: verifier?.forHost(hop.host, hop.port),
+          readyTimeout,
+          keepaliveInterval: 30000,
+          keepaliveCountMax: 3,
+        },
+        hop.auth_type,
+        hop.credentials
+      )
+    )
+  })
+}
+
+function forwardTo(client: Client, host: string, port: number): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    client.forwardOut('127.0.0.1', 0, host, port, (err, channel) => {
+      if (err) {
+        reject(new Error(`Failed to forward to ${host}:${port}: ${err.message}`))
+        return
+      }
+      resolve(channel)
+    })
+  })
+}
+
+/**
+ * Connects through each hop in order and returns a channel to the target,
+ * ready to be passed as `sock` to the final client. The caller owns the jump
+ * clients and must end them once the target connection closes.
+ */
+export async function openJumpChain(
+  hops: JumpHostConfig[],
+  target: { host: string; port: number },
+  readyTimeout: number,
+  verifier?: HostKeyVerifier
+): Promise<JumpChain> {
+  const clients: Client[] = []
+  let sock: ClientChannel | undefined
+
+  try {
+    for (let i = 0; i < hops.length; i++) {
+      const client = await connectHop(hops[i], sock, readyTimeout, verifier)
+      clients.push(client)
+
+      const next = hops[i + 1] ?? target
+      sock = await forwardTo(client, next.host, next.port)
+    }
+  } catch (error) {
+    clients.reverse().forEach((client) => client.end())
+    throw error
+  }
+
+  if (!sock) {
+    throw new Error('Proxy jump chain is empty')
+  }
+
+  return { sock, clients }
+}
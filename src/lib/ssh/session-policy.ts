@@ -0,0 +1,47 @@
+import type { SessionPolicy } from '@/types/ssh'
+import type { Connection } from '@/types/connection'
+import type { Organization } from '@/types/organization'
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeoutMinutes: 30,
+  maxDurationMinutes: null,
+  keepaliveIntervalSeconds: 60,
+}
+
+type ConnectionPolicyFields = Pick<
+  Connection,
+  'idle_timeout' | 'max_session_duration' | 'keepalive_interval'
+>
+
+type OrganizationPolicyFields = Pick<
+  Organization,
+  'session_idle_timeout' | 'session_max_duration' | 'session_keepalive_interval'
+>
+
+/**
+ * Connection settings win over the organization's, which win over the
+ * defaults. A connection cannot lift an organization-wide maximum duration,
+ * only shorten it.
+ */
+export function resolveSessionPolicy(
+  connection: Partial<ConnectionPolicyFields>,
+  organization: Partial<OrganizationPolicyFields> | null
+): SessionPolicy {
+  const orgMaxDuration = organization?.session_max_duration ?? null
+  const connectionMaxDuration = connection.max_session_duration ?? null
+
+  return {
+    idleTimeoutMinutes:
+      connection.idle_timeout ??
+      organization?.session_idle_timeout ??
+      DEFAULT_SESSION_POLICY.idleTimeoutMinutes,
+    maxDurationMinutes:
+      orgMaxDuration !== null && connectionMaxDuration !== null
+        ? Math.min(orgMaxDuration, connectionMaxDuration)
+        : (connectionMaxDuration ?? orgMaxDuration),
+    keepaliveIntervalSeconds:
+      connection.keepalive_interval ??
+      organization?.session_keepalive_interval ??
+      DEFAULT_SESSION_POLICY.keepaliveIntervalSeconds,
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Runs quoteArg and sh against a real /bin/sh to prove hostile values come
+ * back as the literal arguments they started as. Run with `npm run test:shell`.
+ */
+import assert from 'node:assert/strict'
+import { execFileSync } from 'child_process'
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { quoteArg, raw, sh, type ShellCommand } from './shell'
+
+const CORPUS = [
+  'plain',
+  'two words',
+  '  leading and trailing  ',
+  '',
+  '$(touch pwned)',
+  '`touch pwned`',
+  '${HOME}',
+  '$HOME',
+  "it's",
+  "''",
+  '"double" quotes',
+  `mixed '"' quotes`,
+  'line one\nline two',
+  'trailing newline\n',
+  '\ttab',
+  '*',
+  '*.txt',
+  '?',
+  '[a-z]*',
+  '~',
+  '~/file',
+  '-n',
+  '-rf /',
+  '--',
+  '; touch pwned',
+  '&& touch pwned',
+  '| touch pwned',
+  '> pwned',
+  '#comment',
+  '\\back\\slash\\',
+  '!history',
+  'naïve ünicode',
+]
+
+// Prints each argument followed by a NUL, so every boundary is visible
+function run(command: ShellCommand, cwd: string): string[] {
+  const output = execFileSync('/bin/sh', ['-c', sh`printf '%s\\0' ${command}`.toString()], {
+    cwd,
+    encoding: 'utf8',
+  })
+  return output.split('\0').slice(0, -1)
+}
+
+function main(): void {
+  const cwd = mkdtempSync(join(tmpdir(), 'shell-check-'))
+  // Files for the glob inputs to match if they were ever left unquoted
+  writeFileSync(join(cwd, 'a.txt'), '')
+  writeFileSync(join(cwd, 'b.txt'), '')
+
+  try {
+    for (const value of CORPUS) {
+      assert.deepEqual(
+        run(raw(quoteArg(value)), cwd),
+        [value],
+        `quoteArg(${JSON.stringify(value)})`
+      )
+      assert.deepEqual(run(sh`${value}`, cwd), [value], `sh\`\${${JSON.stringify(value)}}\``)
+    }
+
+    // Arrays expand to one argument per item, in order
+    assert.deepEqual(run(sh`${CORPUS}`, cwd), CORPUS, 'sh`${CORPUS}`')
+    assert.deepEqual(run(sh`first ${[1, 2.5, -3]} last`, cwd), ['first', '1', '2.5', '-3', 'last'])
+    // Dropped values leave no empty argument behind
+    assert.deepEqual(run(sh`a ${null} ${undefined} ${false} b`, cwd), ['a', 'b'])
+
+    assert.ok(!existsSync(join(cwd, 'pwned')), 'a corpus value was executed by the shell')
+
+    assert.throws(() => quoteArg('nul\0byte'), /NUL/)
+    assert.throws(() => sh`echo ${'nul\0byte'}`, /NUL/)
+    assert.throws(() => quoteArg(Number.NaN), /Invalid shell argument/)
+    assert.throws(() => quoteArg(Infinity), /Invalid shell argument/)
+  } finally {
+    rmSync(cwd, { recursive: true, force: true })
+  }
+
+  console.log(`shell quoting: ${CORPUS.length} values round-tripped through /bin/sh`)
+}
+
+main()
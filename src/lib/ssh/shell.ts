@@ -0,0 +1,83 @@
+/**
+ * Builds command lines for `SSHConnectionManager.executeCommand`. Every value
+ * interpolated into `sh` is single-quoted, so paths and queries from the file
+ * browser reach the remote program as one literal argument: `$()`, backticks,
+ * globs, quotes and newlines are never interpreted by the remote shell.
+ *
+ * Quoting does not stop a value that starts with `-` from being read as an
+ * option, so put `--` before user paths wherever the remote program allows it.
+ */
+export class ShellCommand {
+  constructor(private readonly text: string) {}
+
+  toString(): string {
+    return this.text
+  }
+}
+
+export type ShellValue =
+  | string
+  | number
+  | ShellCommand
+  | null
+  | undefined
+  | false
+  | ReadonlyArray<string | number | ShellCommand | null | undefined | false>
+
+// Words that mean the same thing quoted or not; left bare to keep logged commands readable
+const SAFE_WORD = /^[A-Za-z0-9_@%+:,./-]+$/
+
+// Single-quotes a value for a POSIX shell (sh, bash, dash, zsh, busybox ash)
+export function quoteArg(value: string | number): string {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Invalid shell argument: ${value}`)
+    return String(value)
+  }
+  if (value.includes('\0')) {
+    throw new Error('Shell arguments cannot contain NUL bytes')
+  }
+  if (SAFE_WORD.test(value)) return value
+
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Inserts shell syntax verbatim. Only for fixed literals and for commands a
+ * user typed on purpose (e.g. the terminal), never for paths or queries.
+ */
+export function raw(text: string): ShellCommand {
+  return new ShellCommand(text)
+}
+
+function render(value: ShellValue): string {
+  if (value === null || value === undefined || value === false) return ''
+  if (value instanceof ShellCommand) return value.toString()
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => render(item))
+      .filter(Boolean)
+      .join(' ')
+  }
+  return quoteArg(value as string | number)
+}
+
+/**
+ * Tagged template for command lines: sh`du -sh -- ${path}`. Strings and
+ * numbers are quoted, arrays become space-separated arguments, nested
+ * commands are inserted as-is and null/undefined/false are dropped.
+ * Whitespace in the template itself, line breaks included, collapses to
+ * single spaces so long commands can be wrapped; separate commands with `;`.
+ */
+export function sh(strings: TemplateStringsArray, ...values: ShellValue[]): ShellCommand {
+  const literals = strings.map((literal) => literal.replace(/\s+/g, ' '))
+  let text = literals[0]
+  values.forEach((value, index) => {
+    const rendered = render(value)
+    let next = literals[index + 1]
+    // Keep single spacing in the template when an optional value is dropped
+    if (!rendered && text.endsWith(' ') && next.startsWith(' ')) next = next.slice(1)
+    text += rendered + next
+  })
+
+  return new ShellCommand(text.trim())
+}
@@ -0,0 +1,207 @@
+import { WebSocketServer, WebSocket, RawData } from 'ws'
+import type { IncomingMessage } from 'http'
+import type { ClientChannel } from 'ssh2'
+import { randomBytes } from 'crypto'
+import { SSHConnectionManager } from './connection-manager'
+import type { TerminalClientMessage, TerminalServerMessage } from '@/types/ssh'
+
+interface TerminalTicket {
+  sessionToken: string
+  connectionId: string
+  userId: string
+  expiresAt: number
+}
+
+export const TERMINAL_TICKET_TTL = 30 * 1000 // 30 seconds
+
+const DEFAULT_COLS = 80
+const DEFAULT_ROWS = 24
+
+// Use global to keep a single socket server across module reloads in development
+const globalForTerminal = globalThis as unknown as {
+  terminalServer: WebSocketServer | undefined
+  terminalServerStarting: Promise<WebSocketServer> | undefined
+  terminalTickets: Map<string, TerminalTicket> | undefined
+}
+
+function getTickets(): Map<string, TerminalTicket> {
+  if (!globalForTerminal.terminalTickets) {
+    globalForTerminal.terminalTickets = new Map<string, TerminalTicket>()
+  }
+  return globalForTerminal.terminalTickets
+}
+
+export function getTerminalPort(): number {
+  return parseInt(process.env.TERMINAL_WS_PORT || '3001', 10)
+}
+
+// Resolves once the server is listening. It is only cached after binding, so a
+// busy port fails this request and the next one tries again.
+export function ensureTerminalServer(): Promise<WebSocketServer> {
+  if (globalForTerminal.terminalServer) {
+    return Promise.resolve(globalForTerminal.terminalServer)
+  }
+  if (globalForTerminal.terminalServerStarting) {
+    return globalForTerminal.terminalServerStarting
+  }
+
+  const starting = new Promise<WebSocketServer>((resolve, reject) => {
+    const server = new WebSocketServer({
+      port: getTerminalPort(),
+      host: process.env.TERMINAL_WS_HOST,
+    })
+
+    server.on('connection', handleConnection)
+    server.once('listening', () => {
+      globalForTerminal.terminalServer = server
+      globalForTerminal.terminalServerStarting = undefined
+      resolve(server)
+    })
+    server.on('error', (error) => {
+      console.error('Terminal server error:', error)
+      if (globalForTerminal.terminalServer === server) {
+        globalForTerminal.terminalServer = undefined
+      }
+      globalForTerminal.terminalServerStarting = undefined
+      server.close()
+      reject(error)
+    })
+  })
+
+  globalForTerminal.terminalServerStarting = starting
+  return starting
+}
+
+// Tickets are single use and short lived; the browser cannot send the
+// x-session-token header on a WebSocket handshake, so it trades it for one here.
+export function issueTerminalTicket(ticket: Omit<TerminalTicket, 'expiresAt'>): string {
+  const tickets = getTickets()
+  const now = Date.now()
+
+  for (const [id, existing] of tickets.entries()) {
+    if (existing.expiresAt < now) {
+      tickets.delete(id)
+    }
+  }
+
+  const id = randomBytes(24).toString('hex')
+  tickets.set(id, { ...ticket, expiresAt: now + TERMINAL_TICKET_TTL })
+  return id
+}
+
+function consumeTicket(id: string | null): TerminalTicket | null {
+  if (!id) return null
+
+  const tickets = getTickets()
+  const ticket = tickets.get(id)
+  tickets.delete(id)
+
+  if (!ticket || ticket.expiresAt < Date.now()) return null
+  return ticket
+}
+
+function send(socket: WebSocket, message: TerminalServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message))
+  }
+}
+
+function parseDimension(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 1000) : fallback
+}
+
+function parseMessage(raw: RawData): TerminalClientMessage | null {
+  try {
+    const message = JSON.parse(raw.toString())
+    if (message?.type === 'input' && typeof message.data === 'string') {
+      return message
+    }
+    if (
+      message?.type === 'resize' &&
+      Number.isFinite(message.cols) &&
+      Number.isFinite(message.rows)
+    ) {
+      return message
+    }
+  } catch {
+    // Ignore malformed frames
+  }
+  return null
+}
+
+async function handleConnection(socket: WebSocket, request: IncomingMessage) {
+  const url = new URL(request.url || '/', 'http://localhost')
+  const ticket = consumeTicket(url.searchParams.get('ticket'))
+
+  if (!ticket) {
+    send(socket, { type: 'error', message: 'Invalid or expired terminal ticket' })
+    socket.close(4401, 'Unauthorized')
+    return
+  }
+
+  let channel: ClientChannel
+  try {
+    channel = await SSHConnectionManager.openShell(ticket.sessionToken, {
+      cols: parseDimension(url.searchParams.get('cols'), DEFAULT_COLS),
+      rows: parseDimension(url.searchParams.get('rows'), DEFAULT_ROWS),
+    })
+  } catch (error) {
+    send(socket, {
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to open shell',
+    })
+    socket.close(1011, 'Shell unavailable')
+    return
+  }
+
+  // The socket may have gone away while the shell was opening
+  if (socket.readyState !== WebSocket.OPEN) {
+    channel.close()
+    return
+  }
+
+  send(socket, { type: 'ready' })
+
+  channel.on('data', (data: Buffer) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(data, { binary: true })
+    }
+  })
+
+  channel.stderr.on('data', (data: Buffer) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(data, { binary: true })
+    }
+  })
+
+  channel.on('exit', (code: number | null) => {
+    send(socket, { type: 'exit', code: code ?? null })
+  })
+
+  channel.on('close', () => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.close(1000, 'Shell closed')
+    }
+  })
+
+  socket.on('message', (raw) => {
+    const message = parseMessage(raw)
+    if (!message) return
+
+    if (message.type === 'input') {
+      channel.write(message.data)
+    } else {
+      channel.setWindow(
+        parseDimension(String(message.rows), DEFAULT_ROWS),
+        parseDimension(String(message.cols), DEFAULT_COLS),
+        0,
+        0
+      )
+    }
+  })
+
+  socket.on('close', () => {
+    channel.close()
+  })
+}
@@ -0,0 +1,18 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+import { Database } from '@/types/database'
+
+// Service-role client for server code that runs outside of a request
+// (socket handlers, timers). It bypasses RLS, so never use it for user-facing reads.
+export function createServiceClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured')
+  }
+
+  return createSupabaseClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
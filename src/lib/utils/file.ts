@@ -173,3 +173,70 @@ export function getLanguageFromFilename(filename: string): string {
   }
   return langMap[ext || ''] || 'text'
 }
+
+// Trades the session token for a ticket that opens one file on one GET route
+async function requestFileTicket(
+  connectionId: string,
+  sessionToken: string,
+  route: 'download' | 'tail',
+  body: { path: string; inline?: boolean }
+): Promise<string> {
+  const response = await fetch(`/api/connections/${connectionId}/files/${route}/ticket`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-session-token': sessionToken,
+    },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || `Failed to open ${body.path}`)
+  }
+
+  const { data } = await response.json()
+  return data.ticket
+}
+
+// Direct URL to the streaming download endpoint. <video> elements and native
+// downloads cannot set headers, so the URL carries a download ticket instead of
+// the session token.
+export async function getFileDownloadUrl(
+  connectionId: string,
+  sessionToken: string,
+  path: string,
+  options: { inline?: boolean } = {}
+): Promise<string> {
+  const ticket = await requestFileTicket(connectionId, sessionToken, 'download', {
+    path,
+    inline: !!options.inline,
+  })
+  const params = new URLSearchParams({ path, ticket })
+  if (options.inline) params.set('inline', '1')
+  return `/api/connections/${connectionId}/files/download?${params.toString()}`
+}
+
+// EventSource URL for following a file; it cannot send the token header either,
+// so like downloads it carries a single-use ticket
+export async function getFileTailUrl(
+  connectionId: string,
+  sessionToken: string,
+  path: string,
+  lines: number
+): Promise<string> {
+  const ticket = await requestFileTicket(connectionId, sessionToken, 'tail', { path })
+  const params = new URLSearchParams({ path, ticket, lines: String(lines) })
+  return `/api/connections/${connectionId}/files/tail?${params.toString()}`
+}
+
+// Hands the download to the browser so it streams to disk instead of into memory
+export function triggerDownload(url: string, filename: string): void {
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+}
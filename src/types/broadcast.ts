@@ -0,0 +1,35 @@
+export interface BroadcastTarget {
+  id: string
+  name: string
+  host: string
+}
+
+// completed means the command ran, whatever its exit code
+export type BroadcastStatus =
+  | 'queued'
+  | 'connecting'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'timeout'
+  | 'cancelled'
+
+export interface BroadcastHostResult {
+  connectionId: string
+  name: string
+  host: string
+  status: BroadcastStatus
+  stdout: string
+  stderr: string
+  code: number | null
+  error: string | null
+  startedAt: string | null
+  durationMs: number | null
+}
+
+export interface BroadcastOptions {
+  // Hosts worked on at the same time
+  concurrency: number
+  // Covers connecting and running the command on one host
+  timeoutSeconds: number
+}
@@ -1,3 +1,5 @@
+import type { HostKeyDetails } from './ssh'
+
 export interface Connection {
   id: string
   name: string
@@ -12,9 +14,13 @@ export interface Connection {
   encryption_key_id: string
   proxy_jump: string | null
   connection_timeout: number
-  keepalive_interval: number
+  // Session policy overrides; null inherits the organization's setting
+  keepalive_interval: number | null
+  idle_timeout: number | null
+  max_session_duration: number | null
   strict_host_checking: boolean
   custom_options: Record<string, unknown> | null
+  tags: string[]
   created_by: string | null
   last_used_at: string | null
   last_used_by: string | null
@@ -49,9 +55,12 @@ export interface CreateConnectionInput {
   }
   proxy_jump?: string | null
   connection_timeout?: number
-  keepalive_interval?: number
+  keepalive_interval?: number | null
+  idle_timeout?: number | null
+  max_session_duration?: number | null
   strict_host_checking?: boolean
   custom_options?: Record<string, unknown> | null
+  tags?: string[]
 }
 
 // For updating an existing connection
@@ -69,12 +78,18 @@ export interface UpdateConnectionInput {
   }
   proxy_jump?: string | null
   connection_timeout?: number
-  keepalive_interval?: number
+  keepalive_interval?: number | null
+  idle_timeout?: number | null
+  max_session_duration?: number | null
   strict_host_checking?: boolean
   custom_options?: Record<string, unknown> | null
+  tags?: string[]
 }
 
 // Connection session
+// Server tools opened from the connection page, each at connections/[id]/<tool>
+export type ConnectionTool = 'system' | 'processes' | 'services' | 'docker' | 'cron' | 'snippets'
+
 export interface ConnectionSession {
   id: string
   connection_id: string
@@ -94,6 +109,18 @@ export interface ConnectionSession {
   updated_at: string
 }
 
+export interface ConnectionSessionWithUser extends ConnectionSession {
+  username: string | null
+}
+
+// Session as listed to organization admins; the session token never leaves the server
+export interface OrganizationActiveSession
+  extends Omit<ConnectionSessionWithUser, 'session_token'> {
+  connection_name: string
+  // True when this server holds the SSH client, so the counters are live
+  is_live: boolean
+}
+
 // Connection activity log entry
 export interface ConnectionActivityLog {
   id: string
@@ -115,6 +142,8 @@ export interface ConnectionActivityLog {
     | 'directory.delete'
     | 'directory.list'
     | 'command.execute'
+    | 'terminal.opened'
+    | 'terminal.closed'
     | 'error.occurred'
   details: Record<string, unknown> | null
   ip_address: string | null
@@ -137,6 +166,7 @@ export interface TestConnectionInput {
   proxy_jump?: string | null
   connection_timeout?: number
   strict_host_checking?: boolean
+  organization_id?: string
 }
 
 // Test connection result
@@ -144,5 +174,7 @@ export interface TestConnectionResult {
   success: boolean
   message: string
   error?: string
+  code?: string
+  host_key?: HostKeyDetails
   latency_ms?: number
 }
@@ -68,6 +68,9 @@ export interface Database {
           name: string
           slug: string
           owner_id: string
+          session_idle_timeout: number
+          session_max_duration: number | null
+          session_keepalive_interval: number
           created_at: string
           updated_at: string
         }
@@ -76,6 +79,9 @@ export interface Database {
           name: string
           slug: string
           owner_id: string
+          session_idle_timeout?: number
+          session_max_duration?: number | null
+          session_keepalive_interval?: number
           created_at?: string
           updated_at?: string
         }
@@ -84,6 +90,9 @@ export interface Database {
           name?: string
           slug?: string
           owner_id?: string
+          session_idle_timeout?: number
+          session_max_duration?: number | null
+          session_keepalive_interval?: number
           created_at?: string
           updated_at?: string
         }
@@ -187,9 +196,12 @@ export interface Database {
           encryption_key_id: string
           proxy_jump: string | null
           connection_timeout: number
-          keepalive_interval: number
+          keepalive_interval: number | null
+          idle_timeout: number | null
+          max_session_duration: number | null
           strict_host_checking: boolean
           custom_options: Json | null
+          tags: string[]
           created_by: string | null
           last_used_at: string | null
           last_used_by: string | null
@@ -213,9 +225,12 @@ export interface Database {
           encryption_key_id: string
           proxy_jump?: string | null
           connection_timeout?: number
-          keepalive_interval?: number
+          keepalive_interval?: number | null
+          idle_timeout?: number | null
+          max_session_duration?: number | null
           strict_host_checking?: boolean
           custom_options?: Json | null
+          tags?: string[]
           created_by?: string | null
           last_used_at?: string | null
           last_used_by?: string | null
@@ -239,9 +254,12 @@ export interface Database {
           encryption_key_id?: string
           proxy_jump?: string | null
           connection_timeout?: number
-          keepalive_interval?: number
+          keepalive_interval?: number | null
+          idle_timeout?: number | null
+          max_session_duration?: number | null
           strict_host_checking?: boolean
           custom_options?: Json | null
+          tags?: string[]
           created_by?: string | null
           last_used_at?: string | null
           last_used_by?: string | null
@@ -329,6 +347,8 @@ export interface Database {
             | 'directory.delete'
             | 'directory.list'
             | 'command.execute'
+            | 'terminal.opened'
+            | 'terminal.closed'
             | 'error.occurred'
           details: Json | null
           ip_address: string | null
@@ -356,6 +376,8 @@ export interface Database {
             | 'directory.delete'
             | 'directory.list'
             | 'command.execute'
+            | 'terminal.opened'
+            | 'terminal.closed'
             | 'error.occurred'
           details?: Json | null
           ip_address?: string | null
@@ -383,6 +405,8 @@ export interface Database {
             | 'directory.delete'
             | 'directory.list'
             | 'command.execute'
+            | 'terminal.opened'
+            | 'terminal.closed'
             | 'error.occurred'
           details?: Json | null
           ip_address?: string | null
@@ -391,6 +415,173 @@ export interface Database {
           created_at?: string
         }
       }
+      known_hosts: {
+        Row: {
+          id: string
+          organization_id: string
+          host: string
+          port: number
+          key_type: string
+          fingerprint: string
+          approved_by: string | null
+          last_seen_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          host: string
+          port?: number
+          key_type: string
+          fingerprint: string
+          approved_by?: string | null
+          last_seen_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          host?: string
+          port?: number
+          key_type?: string
+          fingerprint?: string
+          approved_by?: string | null
+          last_seen_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      project_snippets: {
+        Row: {
+          id: string
+          project_id: string
+          name: string
+          description: string | null
+          command: string
+          parameters: Json
+          is_dangerous: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          name: string
+          description?: string | null
+          command: string
+          parameters?: Json
+          is_dangerous?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          name?: string
+          description?: string | null
+          command?: string
+          parameters?: Json
+          is_dangerous?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      scheduled_jobs: {
+        Row: {
+          id: string
+          project_id: string
+          name: string
+          schedule: string
+          command: string | null
+          snippet_id: string | null
+          parameters: Json
+          connection_ids: string[]
+          is_enabled: boolean
+          next_run_at: string | null
+          last_run_at: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          name: string
+          schedule: string
+          command?: string | null
+          snippet_id?: string | null
+          parameters?: Json
+          connection_ids?: string[]
+          is_enabled?: boolean
+          next_run_at?: string | null
+          last_run_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          name?: string
+          schedule?: string
+          command?: string | null
+          snippet_id?: string | null
+          parameters?: Json
+          connection_ids?: string[]
+          is_enabled?: boolean
+          next_run_at?: string | null
+          last_run_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      scheduled_job_runs: {
+        Row: {
+          id: string
+          job_id: string
+          connection_id: string
+          status: 'running' | 'success' | 'failed'
+          command: string | null
+          stdout: string | null
+          stderr: string | null
+          exit_code: number | null
+          error: string | null
+          started_at: string
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          connection_id: string
+          status?: 'running' | 'success' | 'failed'
+          command?: string | null
+          stdout?: string | null
+          stderr?: string | null
+          exit_code?: number | null
+          error?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          connection_id?: string
+          status?: 'running' | 'success' | 'failed'
+          command?: string | null
+          stdout?: string | null
+          stderr?: string | null
+          exit_code?: number | null
+          error?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -489,6 +680,12 @@ export interface Database {
         }
         Returns: string
       }
+      touch_known_host: {
+        Args: {
+          known_host_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       member_role: 'owner' | 'admin' | 'member'
@@ -510,6 +707,8 @@ export interface Database {
         | 'directory.delete'
         | 'directory.list'
         | 'command.execute'
+        | 'terminal.opened'
+        | 'terminal.closed'
         | 'error.occurred'
     }
   }
@@ -93,3 +93,6 @@ export interface ContextMenuItem {
 export * from './database'
 export * from './organization'
 export * from './project'
+export * from './snippet'
+export * from './broadcast'
+export * from './job'
@@ -0,0 +1,53 @@
+export type JobRunStatus = 'running' | 'success' | 'failed'
+
+// Runs either a command or a snippet; exactly one of the two is set
+export interface ScheduledJob {
+  id: string
+  project_id: string
+  name: string
+  schedule: string
+  command: string | null
+  snippet_id: string | null
+  // Snippet parameter values by name
+  parameters: Record<string, string>
+  connection_ids: string[]
+  is_enabled: boolean
+  // Set by the server's scheduler; null until it has picked up a new schedule
+  next_run_at: string | null
+  last_run_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateScheduledJobInput {
+  name: string
+  schedule: string
+  command: string | null
+  snippet_id: string | null
+  parameters: Record<string, string>
+  connection_ids: string[]
+  is_enabled: boolean
+}
+
+export type UpdateScheduledJobInput = Partial<CreateScheduledJobInput>
+
+// One connection's part of a job run
+export interface ScheduledJobRun {
+  id: string
+  job_id: string
+  connection_id: string
+  status: JobRunStatus
+  command: string | null
+  stdout: string | null
+  stderr: string | null
+  exit_code: number | null
+  error: string | null
+  started_at: string
+  finished_at: string | null
+}
+
+export interface ScheduledJobRunWithDetails extends ScheduledJobRun {
+  job_name: string
+  connection_name: string | null
+}
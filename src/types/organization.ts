@@ -3,6 +3,10 @@ export interface Organization {
   name: string
   slug: string
   owner_id: string
+  // Session policy defaults, see SessionPolicy
+  session_idle_timeout: number
+  session_max_duration: number | null
+  session_keepalive_interval: number
   created_at: string
   updated_at: string
 }
@@ -0,0 +1,43 @@
+export type SnippetParameterType = 'text' | 'number' | 'select'
+
+export const SNIPPET_PARAMETER_TYPES: SnippetParameterType[] = ['text', 'number', 'select']
+
+// A {{name}} placeholder in a snippet's command
+export interface SnippetParameter {
+  name: string
+  type: SnippetParameterType
+  // Allowed values for 'select'
+  options?: string[]
+  defaultValue?: string
+}
+
+export interface Snippet {
+  id: string
+  project_id: string
+  name: string
+  description: string | null
+  command: string
+  parameters: SnippetParameter[]
+  is_dangerous: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateSnippetInput {
+  name: string
+  description?: string | null
+  command: string
+  parameters: SnippetParameter[]
+  is_dangerous: boolean
+}
+
+export type UpdateSnippetInput = Partial<CreateSnippetInput>
+
+// Result of running a snippet on a connection
+export interface SnippetRunResult {
+  command: string
+  stdout: string
+  stderr: string
+  code: number
+}
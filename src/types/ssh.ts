@@ -4,11 +4,20 @@ export interface FileInfo {
   type: 'file' | 'directory' | 'symlink' | 'unknown'
   size: number
   permissions: string
+  // Full st_mode, including the type and setuid/setgid/sticky bits
+  mode?: number
   mtime: Date | string
   owner?: string
   group?: string
+  uid?: number
+  gid?: number
   isHidden?: boolean
   extension?: string
+  // Symlinks only: raw target, its absolute path, and what it points to
+  linkTarget?: string
+  linkResolvedPath?: string
+  linkTargetType?: 'file' | 'directory' | 'symlink'
+  isBrokenLink?: boolean
 }
 
 export interface FileOperation {
@@ -27,6 +36,11 @@ export interface FileSearchOptions {
   regex?: boolean
   maxResults?: number
   includeHidden?: boolean
+  // Content search only
+  content?: boolean
+  include?: string[]
+  exclude?: string[]
+  maxFileSize?: number
 }
 
 export interface FileSearchResult {
@@ -42,6 +56,13 @@ export interface FileSearchResult {
   }>
 }
 
+export interface ContentSearchResult {
+  results: FileSearchResult[]
+  // More matches existed than the result cap allowed
+  truncated: boolean
+  tool: 'rg' | 'grep'
+}
+
 export interface FileUploadProgress {
   file: string
   progress: number
@@ -114,6 +135,66 @@ export interface FileUploadResponse {
   }>
 }
 
+export interface FileOperationFailure {
+  path: string
+  error: string
+}
+
+export interface DeleteResult {
+  deletedFiles: number
+  deletedDirectories: number
+  failures: FileOperationFailure[]
+}
+
+export interface CopyEntryResult {
+  path: string
+  destinationPath: string
+  // Unknown when the copy ran server-side via `cp`
+  type?: 'file' | 'directory' | 'symlink'
+  success: boolean
+  error?: string
+}
+
+export interface CopyResult {
+  method: 'exec' | 'sftp'
+  entries: CopyEntryResult[]
+  bytesCopied: number
+  failures: FileOperationFailure[]
+}
+
+export interface AttributeChanges {
+  // Used for any entry whose type has no specific mode below
+  mode?: number
+  fileMode?: number
+  dirMode?: number
+  uid?: number
+  gid?: number
+  recursive?: boolean
+}
+
+export interface AttributeChangeResult {
+  updated: number
+  // Links are never followed while recursing, so their targets are left alone
+  skippedLinks: number
+  failures: FileOperationFailure[]
+}
+
+export interface AttributeChangeProgress {
+  updated: number
+  failed: number
+  path: string
+}
+
+export interface OwnerOption {
+  id: number
+  name: string
+}
+
+export interface OwnershipOptions {
+  users: OwnerOption[]
+  groups: OwnerOption[]
+}
+
 // Custom Error classes
 export class ApiResponseError extends Error {
   constructor(
@@ -195,6 +276,180 @@ export interface ConnectionSession {
   expiresAt: Date
 }
 
+// Limits applied to a live session, resolved from the connection and its organization
+export interface SessionPolicy {
+  idleTimeoutMinutes: number
+  // null means sessions may stay open for as long as they are in use
+  maxDurationMinutes: number | null
+  keepaliveIntervalSeconds: number
+}
+
+export type SessionEndReason = 'idle_timeout' | 'max_lifetime'
+
+// When the server will end a session unless it sees activity first
+export interface SessionExpiry {
+  reason: SessionEndReason
+  expiresAt: string
+}
+
+// Host key presented by a server that is not (or no longer) trusted
+export interface HostKeyDetails {
+  host: string
+  port: number
+  keyType: string
+  fingerprint: string
+  // Set when the key differs from the one previously approved
+  expectedFingerprint?: string
+}
+
+// Terminal socket protocol. Shell output is sent as binary frames,
+// everything else is JSON.
+export type TerminalClientMessage =
+  | { type: 'input'; data: string }
+  | { type: 'resize'; cols: number; rows: number }
+
+export type TerminalServerMessage =
+  | { type: 'ready' }
+  | { type: 'exit'; code: number | null }
+  | { type: 'error'; message: string }
+
+// A process on the remote host, as listed by `ps`
+export interface RemoteProcess {
+  pid: number
+  user: string
+  // Percentages as reported by ps (CPU can exceed 100 on multi-core hosts)
+  cpu: number
+  mem: number
+  startedAt: string
+  command: string
+}
+
+export type ProcessSignal = 'TERM' | 'KILL' | 'HUP'
+
+export const PROCESS_SIGNALS: ProcessSignal[] = ['TERM', 'KILL', 'HUP']
+
+// Static facts about the remote host, read once per page
+export interface SystemInfo {
+  hostname: string
+  // Full `uname -a` line
+  kernel: string
+  // PRETTY_NAME from /etc/os-release, null when the file is missing
+  os: string | null
+  cpuCount: number
+}
+
+// One sample of the host's counters. CPU times are cumulative jiffies from
+// /proc/stat, so usage is the difference between two samples.
+export interface SystemStats {
+  sampledAt: string
+  uptimeSeconds: number
+  load: [number, number, number]
+  memory: {
+    total: number
+    available: number
+    swapTotal: number
+    swapFree: number
+  }
+  cpu: {
+    idle: number
+    total: number
+  }
+}
+
+// A systemd service unit as listed by `systemctl list-units`
+export interface SystemdUnit {
+  unit: string
+  description: string
+  load: string
+  // e.g. active / inactive / failed, with the finer state (running, exited, dead) in sub
+  active: string
+  sub: string
+  // From list-unit-files; null for units without a unit file state, such as template instances
+  enabled: string | null
+}
+
+export type ServiceAction = 'start' | 'stop' | 'restart' | 'enable' | 'disable'
+
+export const SERVICE_ACTIONS: ServiceAction[] = ['start', 'stop', 'restart', 'enable', 'disable']
+
+// systemd unit names: letters, digits and :-_.\@, never starting with a dash
+export const UNIT_NAME_PATTERN = /^[\w:.@\\][\w:.@\\-]*$/
+
+export interface ServiceDetails {
+  unit: string
+  // Output of `systemctl status`
+  status: string
+  journal: string[]
+}
+
+// Docker objects as reported by the docker CLI's `--format '{{json .}}'`
+export interface DockerContainer {
+  id: string
+  name: string
+  image: string
+  command: string
+  // created, running, paused, restarting, exited, dead
+  state: string
+  // Human status such as "Up 2 hours" or "Exited (0) 3 days ago"
+  status: string
+  createdAt: string
+  ports: string
+}
+
+export interface DockerImage {
+  id: string
+  repository: string
+  tag: string
+  size: string
+  createdSince: string
+}
+
+export interface DockerVolume {
+  name: string
+  driver: string
+}
+
+export interface DockerResources {
+  containers: DockerContainer[]
+  images: DockerImage[]
+  volumes: DockerVolume[]
+}
+
+export type ContainerAction = 'start' | 'stop' | 'restart' | 'remove'
+
+export const CONTAINER_ACTIONS: ContainerAction[] = ['start', 'stop', 'restart', 'remove']
+
+// Container IDs and names; a leading dash would be read as an option
+export const CONTAINER_REF_PATTERN = /^[A-Za-z0-9][\w.-]*$/
+
+// One entry of a directory inside a container
+export interface ContainerFileEntry {
+  name: string
+  type: 'file' | 'directory'
+}
+
+export interface CommandResult {
+  stdout: string
+  stderr: string
+  code: number
+}
+
+// Live tail protocol, sent as Server-Sent Events with JSON data
+export type TailMode = 'exec' | 'sftp'
+
+export type TailServerMessage =
+  | { type: 'ready'; mode: TailMode }
+  | { type: 'lines'; lines: string[] }
+  | { type: 'error'; message: string }
+  | { type: 'end' }
+
+export interface TerminalTicketResponse {
+  ticket: string
+  port: number
+  url: string | null
+  expiresIn: number
+}
+
 // Component Props types for better reusability
 export interface FileManagerProps {
   connectionId: string